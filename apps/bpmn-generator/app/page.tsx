@@ -11,7 +11,7 @@ import { SettingsModal } from '@/components/SettingsModal'
 export default function Home() {
   const { settings, updateSettings, isLoaded, isConfigured } = useSettings()
   const { messages, currentCode, isLoading, error, sendMessage, reset } = useChat(settings)
-  const { bpmnXml, convertError, isConverting, convert } = useBpmnConverter()
+  const { bpmnXml, convertError, repairFixes, isConverting, convert } = useBpmnConverter()
   const [showSettings, setShowSettings] = useState(false)
 
   // Convert JSON to BPMN XML when currentCode changes
@@ -104,6 +104,7 @@ export default function Home() {
             json={currentCode}
             xml={bpmnXml}
             error={convertError}
+            repairFixes={repairFixes}
             isConverting={isConverting}
           />
         </div>
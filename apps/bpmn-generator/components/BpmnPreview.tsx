@@ -6,6 +6,7 @@ interface BpmnPreviewProps {
   json: string | null
   xml: string | null
   error: string | null
+  repairFixes?: string[]
   isConverting: boolean
 }
 
@@ -13,6 +14,7 @@ export function BpmnPreview({
   json,
   xml,
   error,
+  repairFixes = [],
   isConverting,
 }: BpmnPreviewProps) {
   const containerRef = useRef<HTMLDivElement>(null)
@@ -140,7 +142,19 @@ export function BpmnPreview({
         {/* Error display */}
         {displayError && (
           <div className="absolute top-4 left-4 right-4 bg-red-50 border border-red-200 rounded-md p-3 z-10">
-            <p className="text-red-600 text-sm">{displayError}</p>
+            <p className="text-red-600 text-sm whitespace-pre-line">{displayError}</p>
+          </div>
+        )}
+
+        {/* Repair notice */}
+        {!displayError && repairFixes.length > 0 && (
+          <div className="absolute top-4 left-4 right-4 bg-yellow-50 border border-yellow-200 rounded-md p-3 z-10">
+            <p className="text-yellow-700 text-sm font-medium">Fixed {repairFixes.length} issue(s) in the generated JSON:</p>
+            <ul className="text-yellow-700 text-sm list-disc list-inside">
+              {repairFixes.map((fix, index) => (
+                <li key={index}>{fix}</li>
+              ))}
+            </ul>
           </div>
         )}
 
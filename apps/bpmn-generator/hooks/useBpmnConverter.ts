@@ -1,11 +1,15 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
-import { BpmnElkLayout } from 'bpmn-elk-layout'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { BpmnElkLayout, validateElkBpmn } from 'bpmn-elk-layout'
+
+// Give up on layouts that take longer than this
+const CONVERT_TIMEOUT = 30_000
 
 interface UseBpmnConverterReturn {
   bpmnXml: string | null
   convertError: string | null
+  repairFixes: string[]
   isConverting: boolean
   convert: (json: string) => Promise<void>
 }
@@ -13,38 +17,77 @@ interface UseBpmnConverterReturn {
 export function useBpmnConverter(): UseBpmnConverterReturn {
   const [bpmnXml, setBpmnXml] = useState<string | null>(null)
   const [convertError, setConvertError] = useState<string | null>(null)
+  const [repairFixes, setRepairFixes] = useState<string[]>([])
   const [isConverting, setIsConverting] = useState(false)
   const [converter, setConverter] = useState<BpmnElkLayout | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
 
-  // Initialize converter on mount
+  // Initialize converter on mount; ELK runs in a Web Worker so large diagrams do not freeze the UI
   useEffect(() => {
-    setConverter(new BpmnElkLayout())
+    const layout = new BpmnElkLayout({
+      worker: {
+        workerFactory: () => new Worker(new URL('../lib/elk.worker.ts', import.meta.url)),
+      },
+    })
+    setConverter(layout)
+    return () => {
+      abortRef.current?.abort()
+      layout.terminate()
+    }
   }, [])
 
   const convert = useCallback(
     async (json: string) => {
+      // Cancel the conversion of the previous JSON
+      abortRef.current?.abort()
+      const controller = new AbortController()
+      abortRef.current = controller
+
       if (!converter || !json) {
         setBpmnXml(null)
         setConvertError(null)
+        setRepairFixes([])
         return
       }
 
       setIsConverting(true)
       setConvertError(null)
+      setRepairFixes([])
 
       try {
-        // Parse and validate JSON
-        const parsed = JSON.parse(json)
+        // Parse JSON and repair common generation mistakes
+        const { graph, fixes } = converter.repair(JSON.parse(json))
+        setRepairFixes(fixes.map((fix) => fix.message))
+
+        // Validate the repaired JSON
+        const { valid, errors } = validateElkBpmn(graph)
+        if (!valid) {
+          const details = errors.slice(0, 5).map((e) => `${e.path || '/'}: ${e.message}`)
+          if (errors.length > details.length) {
+            details.push(`... and ${errors.length - details.length} more`)
+          }
+          throw new Error(`Invalid ELK-BPMN JSON:\n${details.join('\n')}`)
+        }
 
         // Convert to BPMN XML
-        const xml = await converter.to_bpmn(parsed)
+        const xml = await converter.to_bpmn(graph, {
+          signal: controller.signal,
+          timeout: CONVERT_TIMEOUT,
+        })
         setBpmnXml(xml)
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Conversion failed'
+        // A newer conversion took over
+        if (controller.signal.aborted) return
+        const timedOut = err instanceof Error && err.name === 'TimeoutError'
+        const errorMessage = timedOut
+          ? `Layout took longer than ${CONVERT_TIMEOUT / 1000}s`
+          : err instanceof Error ? err.message : 'Conversion failed'
         setConvertError(errorMessage)
         setBpmnXml(null)
       } finally {
-        setIsConverting(false)
+        if (abortRef.current === controller) {
+          setIsConverting(false)
+        }
       }
     },
     [converter]
@@ -53,6 +96,7 @@ export function useBpmnConverter(): UseBpmnConverterReturn {
   return {
     bpmnXml,
     convertError,
+    repairFixes,
     isConverting,
     convert,
   }
@@ -0,0 +1,2 @@
+// Runs the ELK layout off the main thread (see useBpmnConverter)
+import 'bpmn-elk-layout/elk-worker'
@@ -0,0 +1,212 @@
+/**
+ * Diagram Geometry
+ * Collects the drawn nodes, edges, lanes and labels of a layouted graph with
+ * absolute coordinates for the analysis passes.
+ *
+ * Absolute coordinates are taken from the diagram interchange model, element
+ * kinds and nesting from the layouted graph.
+ */
+
+import type { LayoutedGraph } from '../types/elk-output';
+import type { Bounds, Point } from '../types/internal';
+import type { BpmnModel } from '../transform/model-builder';
+import { GROUP_TYPE } from '../types/bpmn-constants';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DiagramNode {
+  id: string;
+  type: string;
+  bounds: Bounds;
+  /** Ids of the enclosing nodes (subprocesses, hosts of boundary events) */
+  ancestors: string[];
+  /** Innermost lane, pool or expanded subprocess the node is drawn in */
+  container?: DiagramContainer;
+  /** Whether the node contains other nodes (expanded subprocess, group) */
+  isContainer: boolean;
+}
+
+export interface DiagramContainer {
+  id: string;
+  type: string;
+  bounds: Bounds;
+}
+
+export interface DiagramSwimlane extends DiagramContainer {
+  /** Whether the name header is on the left (true) or on top (false) */
+  isHorizontal: boolean;
+  /** Black-box pools have no content and no separate name header */
+  isBlackBox: boolean;
+}
+
+export interface DiagramEdge {
+  id: string;
+  type: string;
+  source?: string;
+  target?: string;
+  waypoints: Point[];
+}
+
+export interface DiagramGeometry {
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+  /** Innermost lanes */
+  lanes: DiagramContainer[];
+  /** All pools and lanes */
+  swimlanes: DiagramSwimlane[];
+  labels: Array<{ id: string; bounds: Bounds }>;
+  /** Bounds of every shape, including pools, lanes and processes */
+  shapes: Map<string, Bounds>;
+}
+
+interface GraphElement {
+  id: string;
+  bpmn?: { type?: string; isExpanded?: boolean; isBlackBox?: boolean };
+  sources?: string[];
+  targets?: string[];
+  children?: GraphElement[];
+  edges?: GraphElement[];
+  boundaryEvents?: GraphElement[];
+  artifacts?: GraphElement[];
+}
+
+/** Elements that structure the diagram rather than being nodes in it */
+const STRUCTURE_TYPES = new Set(['collaboration', 'participant', 'process', 'lane']);
+
+// ============================================================================
+// Collection
+// ============================================================================
+
+/**
+ * Collect the visible nodes, edges, innermost lanes and labels with absolute geometry.
+ * Content of collapsed subprocesses is not drawn and therefore skipped.
+ */
+export function collectDiagramGeometry(graph: LayoutedGraph, model: BpmnModel): DiagramGeometry {
+  const shapes = new Map(model.diagram.plane.shapes.map((shape) => [shape.bpmnElement, shape.bounds as Bounds]));
+  const horizontal = new Map(model.diagram.plane.shapes.map((shape) => [shape.bpmnElement, shape.isHorizontal !== false]));
+  const nodes: DiagramNode[] = [];
+  const edges: GraphElement[] = [];
+  const lanes: DiagramContainer[] = [];
+  const swimlanes: DiagramSwimlane[] = [];
+
+  const visit = (element: GraphElement, ancestors: string[], container: DiagramContainer | undefined) => {
+    const type = element.bpmn?.type ?? '';
+    const bounds = shapes.get(element.id);
+    const isNode = !STRUCTURE_TYPES.has(type) && element !== (graph as GraphElement);
+    const children = element.children ?? [];
+
+    if (type === 'lane' && bounds && !children.some((child) => child.bpmn?.type === 'lane')) {
+      lanes.push({ id: element.id, type, bounds });
+    }
+
+    if ((type === 'lane' || type === 'participant') && bounds) {
+      swimlanes.push({
+        id: element.id,
+        type,
+        bounds,
+        isHorizontal: horizontal.get(element.id) ?? true,
+        isBlackBox: type === 'participant' && (element.bpmn?.isBlackBox === true || children.length === 0),
+      });
+    }
+
+    if (isNode && bounds) {
+      nodes.push({
+        id: element.id,
+        type,
+        bounds,
+        ancestors,
+        container,
+        isContainer: type === GROUP_TYPE || children.length > 0,
+      });
+    }
+
+    if (isNode && element.bpmn?.isExpanded === false) return;
+
+    // Lanes, pools and expanded subprocesses enclose their content
+    const enclosesContent = bounds && (type === 'lane' || type === 'participant' || (isNode && children.length > 0));
+    const innerContainer = enclosesContent ? { id: element.id, type, bounds } : container;
+    const innerAncestors = isNode ? [...ancestors, element.id] : ancestors;
+
+    edges.push(...(element.edges ?? []));
+    for (const child of [...children, ...(element.artifacts ?? [])]) {
+      visit(child, innerAncestors, innerContainer);
+    }
+    for (const boundaryEvent of element.boundaryEvents ?? []) {
+      visit(boundaryEvent, [...ancestors, element.id], container);
+    }
+  };
+
+  visit(graph as GraphElement, [], undefined);
+
+  const waypoints = new Map(model.diagram.plane.edges.map((edge) => [edge.bpmnElement, edge.waypoints]));
+  const diagramEdges = edges
+    .filter((edge) => (waypoints.get(edge.id)?.length ?? 0) >= 2)
+    .map((edge) => ({
+      id: edge.id,
+      type: edge.bpmn?.type ?? '',
+      source: edge.sources?.[0],
+      target: edge.targets?.[0],
+      waypoints: waypoints.get(edge.id)!,
+    }));
+
+  const labels = [...model.diagram.plane.shapes, ...model.diagram.plane.edges]
+    .filter((element) => element.label?.bounds)
+    .map((element) => ({ id: element.bpmnElement, bounds: element.label!.bounds! }));
+
+  return { nodes, edges: diagramEdges, lanes, swimlanes, labels, shapes };
+}
+
+// ============================================================================
+// Geometry Helpers
+// ============================================================================
+
+/** Tolerance for treating two coordinates as equal */
+export const EPSILON = 0.5;
+
+/**
+ * Bounds overlap with a positive area (touching is not overlapping)
+ */
+export function overlapsWithArea(a: Bounds, b: Bounds): boolean {
+  return (
+    Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x) > EPSILON &&
+    Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y) > EPSILON
+  );
+}
+
+/**
+ * Pairs of nodes whose bounds overlap. Nested nodes lie inside their subprocess,
+ * boundary events on their host and groups may enclose any node, so these are skipped.
+ */
+export function findOverlappingNodes(nodes: DiagramNode[]): Array<[DiagramNode, DiagramNode]> {
+  const pairs: Array<[DiagramNode, DiagramNode]> = [];
+
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const [a, b] = [nodes[i]!, nodes[j]!];
+      if (a.ancestors.includes(b.id) || b.ancestors.includes(a.id)) continue;
+      if (a.type === GROUP_TYPE || b.type === GROUP_TYPE) continue;
+      if (overlapsWithArea(a.bounds, b.bounds)) {
+        pairs.push([a, b]);
+      }
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Waypoints where the direction changes (collinear waypoints are not bends)
+ */
+export function countBends(waypoints: Point[]): number {
+  let bends = 0;
+  for (let i = 1; i < waypoints.length - 1; i++) {
+    const [prev, point, next] = [waypoints[i - 1]!, waypoints[i]!, waypoints[i + 1]!];
+    const cross = (point.x - prev.x) * (next.y - point.y) - (point.y - prev.y) * (next.x - point.x);
+    if (Math.abs(cross) > EPSILON) {
+      bends++;
+    }
+  }
+  return bends;
+}
@@ -0,0 +1,13 @@
+export {
+  LayoutMetrics,
+  analyzeLayout,
+  type LayoutMetricsResult,
+} from './layout-metrics';
+export {
+  LayoutInvariantChecker,
+  LayoutInvariantError,
+  type LayoutInvariant,
+  type LayoutInvariantViolation,
+  type LayoutInvariantCheckerOptions,
+  type LayoutResult,
+} from './invariant-checker';
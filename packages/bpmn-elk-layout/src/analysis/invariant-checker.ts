@@ -0,0 +1,171 @@
+/**
+ * Layout Invariant Checker
+ * Verifies properties every finished layout must have, so that post-processing
+ * bugs (e.g. a node moved out of its lane) are caught before the diagram is used:
+ * - flow nodes lie inside their lane, pool or expanded subprocess
+ * - nodes do not overlap each other
+ * - edges start and end on their source and target shapes
+ */
+
+import type { LayoutedGraph } from '../types/elk-output';
+import type { Bounds, Point } from '../types/internal';
+import { ModelBuilder } from '../transform/model-builder';
+import { ARTIFACT_TYPES } from '../types/bpmn-constants';
+import { collectDiagramGeometry, findOverlappingNodes, type DiagramGeometry } from './diagram-geometry';
+import type { EdgeRerouteResult } from '../layout/edge-routing/edge-rerouter';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LayoutInvariant = 'node-outside-container' | 'node-overlap' | 'edge-endpoint-detached';
+
+export interface LayoutInvariantViolation {
+  invariant: LayoutInvariant;
+  /** Element that violates the invariant */
+  elementId: string;
+  message: string;
+}
+
+export interface LayoutInvariantCheckerOptions {
+  /**
+   * Throw a LayoutInvariantError instead of returning violations as warnings
+   * @default false
+   */
+  strict?: boolean;
+}
+
+export interface LayoutResult {
+  graph: LayoutedGraph;
+  /** Invariant violations found in the finished layout */
+  warnings: LayoutInvariantViolation[];
+  /** Edges the rerouteEdges stage found crossing nodes, headers or pools (only when enabled) */
+  reroutedEdges?: EdgeRerouteResult[];
+}
+
+/**
+ * Thrown in strict mode when a finished layout violates an invariant
+ */
+export class LayoutInvariantError extends Error {
+  readonly violations: LayoutInvariantViolation[];
+
+  constructor(violations: LayoutInvariantViolation[]) {
+    const details = violations.map((violation) => `  - ${violation.message} (${violation.invariant})`).join('\n');
+    super(`Layout violates ${violations.length} invariant(s):\n${details}`);
+    this.name = 'LayoutInvariantError';
+    this.violations = violations;
+  }
+}
+
+/** Rounding tolerance in pixels */
+const TOLERANCE = 1;
+
+/** Artifacts are positioned freely around the flow, not inside lanes */
+const ARTIFACT_TYPES_SET = new Set<string>(ARTIFACT_TYPES);
+
+// ============================================================================
+// Layout Invariant Checker
+// ============================================================================
+
+export class LayoutInvariantChecker {
+  private modelBuilder: ModelBuilder;
+  private strict: boolean;
+
+  constructor(options?: LayoutInvariantCheckerOptions) {
+    this.modelBuilder = new ModelBuilder();
+    this.strict = options?.strict ?? false;
+  }
+
+  /**
+   * Check a finished layout and attach the violations as warnings
+   * @throws LayoutInvariantError in strict mode if any invariant is violated
+   */
+  verify(graph: LayoutedGraph): LayoutResult {
+    const warnings = this.check(graph);
+
+    if (this.strict && warnings.length > 0) {
+      throw new LayoutInvariantError(warnings);
+    }
+
+    return { graph, warnings };
+  }
+
+  /**
+   * Check a layouted graph and list all violations
+   */
+  check(graph: LayoutedGraph): LayoutInvariantViolation[] {
+    const geometry = collectDiagramGeometry(graph, this.modelBuilder.build(graph));
+
+    return [
+      ...this.checkContainment(geometry),
+      ...this.checkOverlaps(geometry),
+      ...this.checkEdgeEndpoints(geometry),
+    ];
+  }
+
+  private checkContainment({ nodes }: DiagramGeometry): LayoutInvariantViolation[] {
+    return nodes
+      .filter((node) => node.container && node.type !== 'boundaryEvent' && !ARTIFACT_TYPES_SET.has(node.type))
+      .filter((node) => !this.contains(node.container!.bounds, node.bounds))
+      .map((node) => ({
+        invariant: 'node-outside-container' as const,
+        elementId: node.id,
+        message: `Node "${node.id}" ${this.describeBounds(node.bounds)} lies outside ${node.container!.type} ` +
+          `"${node.container!.id}" ${this.describeBounds(node.container!.bounds)}`,
+      }));
+  }
+
+  private checkOverlaps({ nodes }: DiagramGeometry): LayoutInvariantViolation[] {
+    return findOverlappingNodes(nodes).map(([a, b]) => ({
+      invariant: 'node-overlap' as const,
+      elementId: a.id,
+      message: `Node "${a.id}" ${this.describeBounds(a.bounds)} overlaps node "${b.id}" ${this.describeBounds(b.bounds)}`,
+    }));
+  }
+
+  private checkEdgeEndpoints({ edges, shapes }: DiagramGeometry): LayoutInvariantViolation[] {
+    const violations: LayoutInvariantViolation[] = [];
+
+    for (const edge of edges) {
+      const ends: Array<[role: string, nodeId: string | undefined, point: Point]> = [
+        ['source', edge.source, edge.waypoints[0]!],
+        ['target', edge.target, edge.waypoints[edge.waypoints.length - 1]!],
+      ];
+
+      for (const [role, nodeId, point] of ends) {
+        const bounds = nodeId ? shapes.get(nodeId) : undefined;
+        if (bounds && !this.touches(bounds, point)) {
+          violations.push({
+            invariant: 'edge-endpoint-detached',
+            elementId: edge.id,
+            message: `Edge "${edge.id}" ${role === 'source' ? 'starts' : 'ends'} at (${point.x}, ${point.y}), ` +
+              `away from its ${role} "${nodeId}" ${this.describeBounds(bounds)}`,
+          });
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private contains(outer: Bounds, inner: Bounds): boolean {
+    return (
+      inner.x >= outer.x - TOLERANCE &&
+      inner.y >= outer.y - TOLERANCE &&
+      inner.x + inner.width <= outer.x + outer.width + TOLERANCE &&
+      inner.y + inner.height <= outer.y + outer.height + TOLERANCE
+    );
+  }
+
+  private touches(bounds: Bounds, point: Point): boolean {
+    return this.contains(bounds, { ...point, width: 0, height: 0 });
+  }
+
+  private describeBounds(bounds: Bounds): string {
+    return `at (${bounds.x}, ${bounds.y}, ${bounds.width}x${bounds.height})`;
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Layout Metrics
+ * Measures the quality of a layouted diagram so layouts can be compared across
+ * releases and options: edge crossings, bends, edge length, overlaps, edges
+ * passing through nodes, diagram area and lane crossings of sequence flows.
+ */
+
+import type { LayoutedGraph } from '../types/elk-output';
+import type { Bounds, Point } from '../types/internal';
+import { ModelBuilder } from '../transform/model-builder';
+import type { BpmnModel } from '../transform/model-builder';
+import { calculatePathLength, lineIntersection, segmentCrossesNode } from '../layout/edge-routing/geometry-utils';
+import {
+  collectDiagramGeometry,
+  findOverlappingNodes,
+  overlapsWithArea,
+  countBends,
+  EPSILON,
+  type DiagramNode,
+  type DiagramEdge,
+  type DiagramContainer,
+} from './diagram-geometry';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LayoutMetricsResult {
+  /** Number of measured nodes (flow nodes, boundary events and artifacts) */
+  nodes: number;
+  /** Number of measured edges */
+  edges: number;
+  /** Points where two different edges cross */
+  edgeCrossings: number;
+  /** Direction changes summed over all edges */
+  bends: number;
+  edgeLength: {
+    total: number;
+    average: number;
+    max: number;
+  };
+  /** Pairs of nodes whose bounds overlap (nested and attached nodes excluded) */
+  nodeOverlaps: number;
+  /** Pairs of a label and a node (other than its own) whose bounds overlap */
+  labelOverlaps: number;
+  /** Pairs of an edge and a node (other than its source and target) the edge passes through */
+  edgesThroughNodes: number;
+  /** Bounding box of all shapes and edges */
+  width: number;
+  height: number;
+  area: number;
+  /** width / height */
+  aspectRatio: number;
+  laneCrossings: {
+    /** Lane boundaries crossed by all sequence flows */
+    total: number;
+    /** Lane boundaries crossed per sequence flow, for flows that cross at least one */
+    bySequenceFlow: Record<string, number>;
+  };
+}
+
+// ============================================================================
+// Layout Metrics
+// ============================================================================
+
+export class LayoutMetrics {
+  private modelBuilder: ModelBuilder;
+
+  constructor() {
+    this.modelBuilder = new ModelBuilder();
+  }
+
+  /**
+   * Measure a layouted graph
+   */
+  compute(graph: LayoutedGraph): LayoutMetricsResult {
+    const model = this.modelBuilder.build(graph);
+    const { nodes, edges, lanes, labels } = collectDiagramGeometry(graph, model);
+
+    const lengths = edges.map((edge) => calculatePathLength(edge.waypoints));
+    const totalLength = lengths.reduce((sum, length) => sum + length, 0);
+    const extent = this.extent(model);
+    const laneCrossings = this.countLaneCrossings(edges, lanes);
+
+    return {
+      nodes: nodes.length,
+      edges: edges.length,
+      edgeCrossings: this.countEdgeCrossings(edges),
+      bends: edges.reduce((sum, edge) => sum + countBends(edge.waypoints), 0),
+      edgeLength: {
+        total: this.round(totalLength),
+        average: this.round(lengths.length > 0 ? totalLength / lengths.length : 0),
+        max: this.round(Math.max(0, ...lengths)),
+      },
+      nodeOverlaps: findOverlappingNodes(nodes).length,
+      labelOverlaps: this.countLabelOverlaps(labels, nodes),
+      edgesThroughNodes: this.countEdgesThroughNodes(edges, nodes),
+      width: this.round(extent.width),
+      height: this.round(extent.height),
+      area: this.round(extent.width * extent.height),
+      aspectRatio: this.round(extent.height > 0 ? extent.width / extent.height : 0),
+      laneCrossings: {
+        total: Object.values(laneCrossings).reduce((sum, count) => sum + count, 0),
+        bySequenceFlow: laneCrossings,
+      },
+    };
+  }
+
+  // ==========================================================================
+  // Edges
+  // ==========================================================================
+
+  private countEdgeCrossings(edges: DiagramEdge[]): number {
+    let crossings = 0;
+
+    for (let i = 0; i < edges.length; i++) {
+      for (let j = i + 1; j < edges.length; j++) {
+        for (const [a1, a2] of this.segments(edges[i]!.waypoints)) {
+          for (const [b1, b2] of this.segments(edges[j]!.waypoints)) {
+            const point = lineIntersection(a1, a2, b1, b2);
+            // Edges meeting at a shared end point (e.g. at a gateway) do not cross
+            if (point && ![a1, a2, b1, b2].some((end) => this.samePoint(point, end))) {
+              crossings++;
+            }
+          }
+        }
+      }
+    }
+
+    return crossings;
+  }
+
+  private countEdgesThroughNodes(edges: DiagramEdge[], nodes: DiagramNode[]): number {
+    const obstacles = nodes.filter((node) => !node.isContainer);
+    let count = 0;
+
+    for (const edge of edges) {
+      for (const node of obstacles) {
+        if (node.id === edge.source || node.id === edge.target) continue;
+        if (this.segments(edge.waypoints).some(([p1, p2]) => segmentCrossesNode(p1, p2, node.bounds))) {
+          count++;
+        }
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * Follow each sequence flow through the innermost lanes and count lane changes
+   */
+  private countLaneCrossings(edges: DiagramEdge[], lanes: DiagramContainer[]): Record<string, number> {
+    const result: Record<string, number> = {};
+    if (lanes.length === 0) return result;
+
+    for (const edge of edges) {
+      if (edge.type !== 'sequenceFlow') continue;
+
+      // Stretches of the path inside each lane, ordered by their position along the path
+      const stretches: Array<{ start: number; laneId: string }> = [];
+      let offset = 0;
+      for (const [p1, p2] of this.segments(edge.waypoints)) {
+        const length = calculatePathLength([p1, p2]);
+        for (const lane of lanes) {
+          const clip = this.clipSegment(p1, p2, lane.bounds);
+          if (clip && (clip[1] - clip[0]) * length > EPSILON) {
+            stretches.push({ start: offset + clip[0] * length, laneId: lane.id });
+          }
+        }
+        offset += length;
+      }
+
+      stretches.sort((a, b) => a.start - b.start);
+      const crossings = stretches.filter((stretch, i) => i > 0 && stretch.laneId !== stretches[i - 1]!.laneId).length;
+      if (crossings > 0) {
+        result[edge.id] = crossings;
+      }
+    }
+
+    return result;
+  }
+
+  // ==========================================================================
+  // Overlaps
+  // ==========================================================================
+
+  private countLabelOverlaps(labels: Array<{ id: string; bounds: Bounds }>, nodes: DiagramNode[]): number {
+    const obstacles = nodes.filter((node) => !node.isContainer);
+    let overlaps = 0;
+
+    for (const label of labels) {
+      for (const node of obstacles) {
+        if (node.id !== label.id && overlapsWithArea(label.bounds, node.bounds)) {
+          overlaps++;
+        }
+      }
+    }
+
+    return overlaps;
+  }
+
+  // ==========================================================================
+  // Geometry Helpers
+  // ==========================================================================
+
+  /**
+   * Part of the segment p1-p2 inside the rectangle as parameters [t0, t1] (Liang-Barsky)
+   */
+  private clipSegment(p1: Point, p2: Point, rect: Bounds): [number, number] | null {
+    const dx = p2.x - p1.x;
+    const dy = p2.y - p1.y;
+    const checks: Array<[number, number]> = [
+      [-dx, p1.x - rect.x],
+      [dx, rect.x + rect.width - p1.x],
+      [-dy, p1.y - rect.y],
+      [dy, rect.y + rect.height - p1.y],
+    ];
+
+    let t0 = 0;
+    let t1 = 1;
+    for (const [p, q] of checks) {
+      if (p === 0) {
+        if (q < 0) return null;
+        continue;
+      }
+      const t = q / p;
+      if (p < 0) {
+        t0 = Math.max(t0, t);
+      } else {
+        t1 = Math.min(t1, t);
+      }
+    }
+
+    return t0 < t1 ? [t0, t1] : null;
+  }
+
+  private extent(model: BpmnModel): { width: number; height: number } {
+    const points: Point[] = model.diagram.plane.edges.flatMap((edge) => edge.waypoints);
+    for (const { bounds } of model.diagram.plane.shapes) {
+      points.push({ x: bounds.x, y: bounds.y }, { x: bounds.x + bounds.width, y: bounds.y + bounds.height });
+    }
+    if (points.length === 0) {
+      return { width: 0, height: 0 };
+    }
+
+    const xs = points.map((point) => point.x);
+    const ys = points.map((point) => point.y);
+    return { width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
+  }
+
+  private segments(waypoints: Point[]): Array<[Point, Point]> {
+    return waypoints.slice(1).map((point, i) => [waypoints[i]!, point]);
+  }
+
+  private samePoint(a: Point, b: Point): boolean {
+    return Math.abs(a.x - b.x) <= EPSILON && Math.abs(a.y - b.y) <= EPSILON;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+/**
+ * Convenience function to measure a layouted graph
+ */
+export function analyzeLayout(graph: LayoutedGraph): LayoutMetricsResult {
+  const metrics = new LayoutMetrics();
+  return metrics.compute(graph);
+}
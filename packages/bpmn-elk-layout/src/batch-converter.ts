@@ -0,0 +1,291 @@
+/**
+ * Batch Converter (Node.js only)
+ *
+ * Converts many ELK-BPMN JSON files in one process (used by `convert-all`):
+ * files are converted concurrently (in ELK workers when the concurrency is above 1),
+ * timed, and collected in a report of successes, failures and layout warnings.
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, extname, join, relative, resolve } from 'path';
+import { BpmnElkLayout, type BpmnElkLayoutOptions } from './converter';
+import { expandGlob } from './utils/glob';
+import type { ElkBpmnGraph } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BatchConverterOptions {
+  /** Directory of the output files; the directory layout below the pattern's base is kept */
+  outDir: string;
+  /**
+   * Output format
+   * @default 'bpmn'
+   */
+  format?: 'bpmn' | 'json';
+  /** Pretty print JSON output */
+  pretty?: boolean;
+  /**
+   * Number of files converted at the same time; above 1, ELK runs in worker threads
+   * @default 1
+   */
+  concurrency?: number;
+  /**
+   * Convert the remaining files after a failure instead of skipping them
+   * @default false
+   */
+  continueOnError?: boolean;
+  /** Cancel the layout of a file after this many milliseconds */
+  timeout?: number;
+  /** Repair common mistakes in the input first; applied fixes are reported as warnings */
+  repair?: boolean;
+  /** Converter options (layout mode, theme, cache, ...) */
+  layout?: Omit<BpmnElkLayoutOptions, 'repair'>;
+  /** Called when a file is done, e.g. to report progress */
+  onFileDone?: (result: BatchFileResult, done: number, total: number) => void;
+}
+
+export interface BatchFileResult {
+  /** Input file */
+  input: string;
+  /** Output file (not set when the input failed before its output path was known) */
+  output?: string;
+  /** 'skipped' when an earlier file failed without continueOnError */
+  status: 'success' | 'failure' | 'skipped';
+  /** Time to read, convert and write the file */
+  durationMs: number;
+  /** Layout invariant violations and applied repairs */
+  warnings: string[];
+  error?: string;
+}
+
+export interface BatchReport {
+  /** ISO timestamp of the start of the batch */
+  startedAt: string;
+  durationMs: number;
+  total: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  /** Number of warnings over all files */
+  warnings: number;
+  files: BatchFileResult[];
+}
+
+interface BatchInput {
+  path: string;
+  base: string;
+  /** Other inputs with the same output path */
+  collisions?: string[];
+}
+
+// ============================================================================
+// Batch Converter
+// ============================================================================
+
+export class BatchConverter {
+  private options: BatchConverterOptions;
+  private format: 'bpmn' | 'json';
+  private concurrency: number;
+
+  constructor(options: BatchConverterOptions) {
+    this.options = options;
+    this.format = options.format ?? 'bpmn';
+    this.concurrency = options.concurrency ?? 1;
+    if (!Number.isInteger(this.concurrency) || this.concurrency < 1) {
+      throw new Error(`Invalid concurrency ${options.concurrency}: must be a positive integer`);
+    }
+  }
+
+  /**
+   * Convert all files matching the patterns
+   * @param patterns - File paths, directories (all JSON files below) or glob patterns
+   * @throws when no file matches the patterns
+   */
+  async convertAll(patterns: string[]): Promise<BatchReport> {
+    const inputs = await this.collectInputs(patterns);
+    if (inputs.length === 0) {
+      throw new Error(`No files match ${patterns.join(' ')}`);
+    }
+
+    const startedAt = new Date();
+    const start = performance.now();
+    // Files with the same content reuse one layout from the cache unless it is turned off
+    const converter = new BpmnElkLayout({
+      ...this.options.layout,
+      worker: this.options.layout?.worker ?? this.concurrency > 1,
+      cache: this.options.layout?.cache ?? true,
+    });
+
+    const results: BatchFileResult[] = new Array(inputs.length);
+    let next = 0;
+    let done = 0;
+    let stopped = false;
+
+    const work = async () => {
+      while (next < inputs.length) {
+        const index = next++;
+        const input = inputs[index]!;
+        results[index] = stopped
+          ? { input: input.path, status: 'skipped', durationMs: 0, warnings: [] }
+          : await this.convertFile(converter, input);
+
+        if (results[index].status === 'failure' && !this.options.continueOnError) {
+          stopped = true;
+        }
+        this.options.onFileDone?.(results[index], ++done, inputs.length);
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: Math.min(this.concurrency, inputs.length) }, work));
+    } finally {
+      converter.terminate();
+    }
+
+    return {
+      startedAt: startedAt.toISOString(),
+      durationMs: Math.round(performance.now() - start),
+      total: results.length,
+      succeeded: results.filter((result) => result.status === 'success').length,
+      failed: results.filter((result) => result.status === 'failure').length,
+      skipped: results.filter((result) => result.status === 'skipped').length,
+      warnings: results.reduce((sum, result) => sum + result.warnings.length, 0),
+      files: results,
+    };
+  }
+
+  /**
+   * Read, convert and write one file
+   */
+  private async convertFile(converter: BpmnElkLayout, input: BatchInput): Promise<BatchFileResult> {
+    const start = performance.now();
+    const output = this.getOutputPath(input);
+    const warnings: string[] = [];
+
+    try {
+      if (output === input.path) {
+        throw new Error('Output would overwrite the input; choose another output directory');
+      }
+      if (input.collisions) {
+        throw new Error(`Output ${output} would also be written for ${input.collisions.join(', ')}`);
+      }
+
+      let graph: ElkBpmnGraph;
+      try {
+        graph = JSON.parse(await readFile(input.path, 'utf-8')) as ElkBpmnGraph;
+      } catch (error) {
+        throw error instanceof SyntaxError ? new Error(`Invalid JSON input: ${error.message}`) : error;
+      }
+
+      if (this.options.repair) {
+        const { graph: repaired, fixes } = converter.repair(graph);
+        warnings.push(...fixes.map((fix) => `Repaired: ${fix.message}`));
+        graph = repaired;
+      }
+
+      const { graph: layouted, warnings: violations } = await converter.layoutWithWarnings(graph, {
+        timeout: this.options.timeout,
+      });
+      warnings.push(...violations.map((violation) => violation.message));
+
+      const result = this.format === 'json'
+        ? JSON.stringify(layouted, null, this.options.pretty ? 2 : 0)
+        : await converter.layouted_to_bpmn(layouted);
+
+      await mkdir(dirname(output), { recursive: true });
+      await writeFile(output, result);
+
+      return { input: input.path, output, status: 'success', durationMs: elapsed(start), warnings };
+    } catch (error) {
+      return {
+        input: input.path,
+        output,
+        status: 'failure',
+        durationMs: elapsed(start),
+        warnings,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Expand the patterns; a file matched by several patterns is converted once.
+   * Files of different patterns that map to the same output are marked as collisions.
+   */
+  private async collectInputs(patterns: string[]): Promise<BatchInput[]> {
+    const inputs = new Map<string, BatchInput>();
+    for (const pattern of patterns) {
+      for (const match of await expandGlob(pattern)) {
+        if (!inputs.has(match.path)) {
+          inputs.set(match.path, match);
+        }
+      }
+    }
+
+    const byOutput = new Map<string, BatchInput[]>();
+    for (const input of inputs.values()) {
+      const output = this.getOutputPath(input);
+      byOutput.set(output, [...(byOutput.get(output) ?? []), input]);
+    }
+    for (const sharing of byOutput.values()) {
+      if (sharing.length < 2) continue;
+      for (const input of sharing) {
+        input.collisions = sharing.filter((other) => other !== input).map((other) => other.path);
+      }
+    }
+
+    return [...inputs.values()];
+  }
+
+  /**
+   * Output path: the input's path below its base, in the output directory, with the format's extension
+   */
+  private getOutputPath(input: BatchInput): string {
+    const relativePath = relative(input.base, input.path);
+    const name = relativePath.slice(0, relativePath.length - extname(relativePath).length);
+    return resolve(join(this.options.outDir, `${name}.${this.format}`));
+  }
+}
+
+// ============================================================================
+// Summary
+// ============================================================================
+
+/**
+ * Format the report as a table of successes, failures and warnings,
+ * followed by the errors of the failed files
+ */
+export function formatBatchSummary(report: BatchReport): string {
+  const filesWithWarnings = report.files.filter((file) => file.warnings.length > 0).length;
+  const rows: Array<[string, string, string]> = [
+    ['Succeeded', String(report.succeeded), ''],
+    ['Failed', String(report.failed), ''],
+    ['Skipped', String(report.skipped), ''],
+    ['Warnings', String(report.warnings), `in ${filesWithWarnings} file(s)`],
+    ['Total', String(report.total), `in ${formatDuration(report.durationMs)}`],
+  ];
+
+  const labelWidth = Math.max(...rows.map(([label]) => label.length));
+  const countWidth = Math.max(...rows.map(([, count]) => count.length));
+  const lines = rows.map(([label, count, note]) =>
+    `${label.padEnd(labelWidth)}  ${count.padStart(countWidth)}${note ? `  ${note}` : ''}`
+  );
+
+  const failures = report.files.filter((file) => file.status === 'failure');
+  if (failures.length > 0) {
+    lines.push('', 'Failures:');
+    lines.push(...failures.map((file) => `  ${file.input}: ${file.error}`));
+  }
+
+  return lines.join('\n');
+}
+
+function elapsed(start: number): number {
+  return Math.round(performance.now() - start);
+}
+
+function formatDuration(durationMs: number): string {
+  return durationMs < 1000 ? `${durationMs} ms` : `${(durationMs / 1000).toFixed(1)} s`;
+}
@@ -2,11 +2,22 @@
  * CLI for bpmn-elk-layout
  */
 
-import { program } from 'commander';
+import { program, InvalidArgumentError, type Command } from 'commander';
 import { readFile, writeFile } from 'fs/promises';
-import { BpmnElkLayout } from './converter';
+import { cpus } from 'os';
+import { relative } from 'path';
+import { BpmnElkLayout, type BpmnElkLayoutOptions } from './converter';
+import { BatchConverter, formatBatchSummary } from './batch-converter';
+import { ImageRenderer, resolveImageFormat } from './image-renderer';
+import { FileLayoutCacheStore } from './layout/cache/file-layout-cache-store';
+import { MemoryLayoutCacheStore, type LayoutCacheStore } from './layout/cache';
+import { FileWatcher } from './utils/file-watcher';
 import { PromptTemplateGenerator } from './prompt-generator';
-import type { ElkLayoutOptions } from './types';
+import { LayoutServer } from './server';
+import { validateElkBpmn, Linter, type LinterOptions } from './validation';
+import { analyzeLayout } from './analysis';
+import type { LayoutThemeName } from './layout';
+import type { ElkBpmnGraph, ElkLayoutOptions } from './types';
 
 // Get version from package.json
 const VERSION = '1.0.0';
@@ -25,18 +36,211 @@ program
   .option('--elk-direction <direction>', 'Flow direction: RIGHT, DOWN, LEFT, UP')
   .option('--elk-spacing <number>', 'Node spacing')
   .option('--elk-layer-spacing <number>', 'Layer spacing')
+  .option('--fixed-layout', 'Skip layout and use the coordinates given in the input')
+  .option('--align-main-flow', 'Keep the main flow at the top and happy-path flows (bpmn.isHappyPath) on one line')
+  .option('--reroute-edges', 'Re-route flows that cross nodes, lane headers or pool boundaries after layout')
+  .option('--boundary-branch-layout <mode>', 'Placement of boundary event branches: heuristic or tree', parseBoundaryBranchLayout, 'heuristic')
+  .option('--theme <name>', 'Layout theme (element sizes, spacing, pool and lane dimensions): compact, default or presentation', 'default')
+  .option('--snap-to-grid [size]', 'Snap shapes, edges and labels to a grid (default size: 10, the bpmn-js grid)', parseGridSize)
+  .option('--cache-dir <dir>', 'Cache layouts in this directory and reuse them for unchanged input')
+  .option('--repair', 'Repair common mistakes in generated input before converting (fixes are listed on stderr)')
+  .option('--strict', 'Fail when the layout has nodes outside their lane, overlapping nodes or detached edges')
   .option('--pretty', 'Pretty print JSON output', true)
-  .action(async (input: string, options: ConvertOptions) => {
+  .option('--config <file>', 'JSON file with converter options (elkOptions, theme, ...); command line options take precedence')
+  .option('--validate', 'Validate the input against the ELK-BPMN schema before converting')
+  .option('--lint', 'Lint the input before converting (lint errors fail the conversion)')
+  .option('-w, --watch', 'Convert again whenever the input or the config file changes, keeping the last good output on failure')
+  .action(async (input: string, options: ConvertOptions, command: Command) => {
+    if (!options.watch) {
+      try {
+        await runConvert(input, options, command);
+      } catch (error) {
+        console.error('Error:', error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+      return;
+    }
+
+    if (input === '-') {
+      console.error('Error: --watch needs an input file');
+      process.exit(1);
+    }
+
+    // Keep layouts across runs, so an edit only lays out what changed
+    const cache = createCacheStore(options.cacheDir) ?? new MemoryLayoutCacheStore();
+    const convert = async () => {
+      try {
+        await runConvert(input, options, command, cache);
+      } catch (error) {
+        const kept = options.output ? ` (keeping the last output in ${options.output})` : '';
+        console.error(`Error: ${error instanceof Error ? error.message : error}${kept}`);
+      }
+    };
+
+    await convert();
+    const files = options.config ? [input, options.config] : [input];
+    const watcher = new FileWatcher({
+      files,
+      onChange: async (changed) => {
+        console.error(`\n[${new Date().toLocaleTimeString()}] ${changed.map((file) => relative(process.cwd(), file)).join(', ')} changed`);
+        await convert();
+      },
+    });
+    try {
+      watcher.start();
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+    console.error(`Watching ${files.join(', ')} for changes (press Ctrl+C to stop)`);
+
+    process.on('SIGINT', () => {
+      watcher.close();
+      process.exit(0);
+    });
+  });
+
+program
+  .command('convert-all <patterns...>')
+  .description('Convert many ELK-BPMN JSON files (paths, directories or glob patterns such as "processes/**/*.json") in one process')
+  .requiredOption('--out-dir <dir>', 'Output directory (keeps the directory layout below each pattern)')
+  .option('-f, --format <format>', 'Output format: bpmn or json', 'bpmn')
+  .option('--concurrency <number>', 'Number of files converted at the same time (ELK runs in worker threads above 1)', String(cpus().length))
+  .option('--continue-on-error', 'Convert the remaining files after a failure instead of skipping them')
+  .option('--timeout <ms>', 'Fail a file whose layout takes longer than this')
+  .option('--report <file>', 'Write a JSON report with the status, timing and warnings of every file')
+  .option('--elk-options <json>', 'ELK layout options as JSON string')
+  .option('--elk-direction <direction>', 'Flow direction: RIGHT, DOWN, LEFT, UP')
+  .option('--elk-spacing <number>', 'Node spacing')
+  .option('--elk-layer-spacing <number>', 'Layer spacing')
+  .option('--fixed-layout', 'Skip layout and use the coordinates given in the input')
+  .option('--align-main-flow', 'Keep the main flow at the top and happy-path flows (bpmn.isHappyPath) on one line')
+  .option('--reroute-edges', 'Re-route flows that cross nodes, lane headers or pool boundaries after layout')
+  .option('--boundary-branch-layout <mode>', 'Placement of boundary event branches: heuristic or tree', parseBoundaryBranchLayout, 'heuristic')
+  .option('--theme <name>', 'Layout theme (element sizes, spacing, pool and lane dimensions): compact, default or presentation', 'default')
+  .option('--snap-to-grid [size]', 'Snap shapes, edges and labels to a grid (default size: 10, the bpmn-js grid)', parseGridSize)
+  .option('--cache-dir <dir>', 'Cache layouts in this directory and reuse them for unchanged input')
+  .option('--repair', 'Repair common mistakes in generated input before converting (fixes are reported as warnings)')
+  .option('--strict', 'Fail files whose layout has nodes outside their lane, overlapping nodes or detached edges')
+  .option('--pretty', 'Pretty print JSON output', true)
+  .action(async (patterns: string[], options: ConvertAllOptions) => {
+    try {
+      const timeout = options.timeout === undefined ? undefined : Number(options.timeout);
+      if (timeout !== undefined && !(timeout > 0)) {
+        console.error(`Error: Invalid --timeout: ${options.timeout}`);
+        process.exit(1);
+      }
+      const batchConverter = new BatchConverter({
+        outDir: options.outDir,
+        format: options.format,
+        pretty: options.pretty,
+        concurrency: Number(options.concurrency),
+        continueOnError: options.continueOnError,
+        timeout,
+        repair: options.repair,
+        layout: {
+          elkOptions: buildElkOptions(options),
+          layoutMode: options.fixedLayout ? 'fixed' : 'auto',
+          alignMainFlow: options.alignMainFlow,
+          rerouteEdges: options.rerouteEdges,
+          boundaryBranchLayout: options.boundaryBranchLayout,
+          theme: options.theme,
+          snapToGrid: options.snapToGrid,
+          strict: options.strict,
+          cache: createCacheStore(options.cacheDir),
+        },
+        onFileDone: (result, done, total) => {
+          const status = result.status === 'success' && result.warnings.length > 0 ? 'warning' : result.status;
+          console.error(`[${done}/${total}] ${status.padEnd(7)} ${result.input} (${result.durationMs} ms)`);
+          result.warnings.forEach((warning) => console.error(`    ${warning}`));
+          if (result.error) {
+            console.error(`    ${result.error}`);
+          }
+        },
+      });
+
+      const report = await batchConverter.convertAll(patterns);
+      console.error(`\n${formatBatchSummary(report)}`);
+
+      if (options.report) {
+        await writeFile(options.report, JSON.stringify(report, null, 2));
+        console.error(`Report written to ${options.report}`);
+      }
+      if (report.failed > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('relayout <input>')
+  .description('Re-layout existing BPMN XML, keeping all semantics and replacing the diagram')
+  .option('-o, --output <file>', 'Output file path (default: stdout)')
+  .option('--elk-options <json>', 'ELK layout options as JSON string')
+  .option('--elk-direction <direction>', 'Flow direction: RIGHT, DOWN, LEFT, UP')
+  .option('--elk-spacing <number>', 'Node spacing')
+  .option('--elk-layer-spacing <number>', 'Layer spacing')
+  .action(async (input: string, options: RelayoutOptions) => {
     try {
       // Read input
-      let content: string;
-      if (input === '-') {
-        // Read from stdin
-        content = await readStdin();
+      const content = input === '-' ? await readStdin() : await readFile(input, 'utf-8');
+
+      // Create converter
+      const converter = new BpmnElkLayout({ elkOptions: buildElkOptions(options) });
+
+      const result = await converter.relayout(content);
+
+      // Write output
+      if (options.output) {
+        await writeFile(options.output, result);
+        console.error(`Output written to ${options.output}`);
       } else {
-        content = await readFile(input, 'utf-8');
+        console.log(result);
+      }
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('render <input>')
+  .description('Render ELK-BPMN JSON to an SVG, PNG or PDF image')
+  .option('-o, --output <file>', 'Output file path (default: stdout)')
+  .option('-f, --format <format>', 'Output format: svg, png or pdf (default: from the output extension, else svg)')
+  .option('--scale <number>', 'Scale factor for PNG and PDF output', '1')
+  .option('--padding <number>', 'Padding around the diagram', '20')
+  .option('--background <color>', 'Background color, or "transparent"', 'white')
+  .option('--page-size <size>', 'PDF page size, e.g. A4 or Letter (default: fit to the diagram)')
+  .option('--landscape', 'Use landscape orientation for the PDF page size')
+  .option('--elk-options <json>', 'ELK layout options as JSON string')
+  .option('--elk-direction <direction>', 'Flow direction: RIGHT, DOWN, LEFT, UP')
+  .option('--elk-spacing <number>', 'Node spacing')
+  .option('--elk-layer-spacing <number>', 'Layer spacing')
+  .option('--fixed-layout', 'Skip layout and use the coordinates given in the input')
+  .option('--theme <name>', 'Layout theme (element sizes, spacing, pool and lane dimensions): compact, default or presentation', 'default')
+  .option('--snap-to-grid [size]', 'Snap shapes, edges and labels to a grid (default size: 10, the bpmn-js grid)', parseGridSize)
+  .option('--cache-dir <dir>', 'Cache layouts in this directory and reuse them for unchanged input')
+  .action(async (input: string, options: RenderOptions) => {
+    try {
+      const format = resolveImageFormat(options.format, options.output);
+      const scale = Number(options.scale);
+      const padding = Number(options.padding);
+      if (!(scale > 0)) {
+        console.error(`Error: Invalid --scale: ${options.scale}`);
+        process.exit(1);
+      }
+      if (isNaN(padding) || padding < 0) {
+        console.error(`Error: Invalid --padding: ${options.padding}`);
+        process.exit(1);
       }
 
+      // Read input
+      const content = input === '-' ? await readStdin() : await readFile(input, 'utf-8');
+
       // Parse JSON
       let elkBpmnJson: unknown;
       try {
@@ -46,27 +250,35 @@ program
         process.exit(1);
       }
 
-      // Build ELK options
-      const elkOptions = buildElkOptions(options);
+      const converter = new BpmnElkLayout({
+        elkOptions: buildElkOptions(options),
+        layoutMode: options.fixedLayout ? 'fixed' : 'auto',
+        theme: options.theme,
+        snapToGrid: options.snapToGrid,
+        cache: createCacheStore(options.cacheDir),
+      });
 
-      // Create converter
-      const converter = new BpmnElkLayout({ elkOptions });
+      const svg = await converter.to_svg(elkBpmnJson as Parameters<typeof converter.to_svg>[0], {
+        padding,
+        background: options.background,
+      });
 
-      // Convert based on format
-      let result: string;
-      if (options.format === 'json') {
-        const layouted = await converter.to_json(elkBpmnJson as Parameters<typeof converter.to_json>[0]);
-        result = JSON.stringify(layouted, null, options.pretty ? 2 : 0);
-      } else {
-        result = await converter.to_bpmn(elkBpmnJson as Parameters<typeof converter.to_bpmn>[0]);
-      }
+      const result = format === 'svg'
+        ? svg
+        : await new ImageRenderer({
+            scale,
+            pageSize: options.pageSize,
+            landscape: options.landscape,
+          }).render(svg, format);
 
       // Write output
       if (options.output) {
         await writeFile(options.output, result);
         console.error(`Output written to ${options.output}`);
-      } else {
+      } else if (typeof result === 'string') {
         console.log(result);
+      } else {
+        process.stdout.write(result);
       }
     } catch (error) {
       console.error('Error:', error instanceof Error ? error.message : error);
@@ -76,47 +288,123 @@ program
 
 program
   .command('validate <input>')
-  .description('Validate ELK-BPMN JSON structure')
-  .action(async (input: string) => {
+  .description('Validate ELK-BPMN JSON against the ELK-BPMN schema')
+  .option('--json', 'Print errors as JSON')
+  .action(async (input: string, options: ValidateOptions) => {
     try {
-      const content = await readFile(input, 'utf-8');
-      const json = JSON.parse(content);
+      const content = input === '-' ? await readStdin() : await readFile(input, 'utf-8');
 
-      // Basic validation
-      const errors: string[] = [];
+      let json: unknown;
+      try {
+        json = JSON.parse(content);
+      } catch {
+        console.error('Error: Invalid JSON input');
+        process.exit(1);
+      }
 
-      if (!json.id) {
-        errors.push('Missing required field: id');
+      const { valid, errors } = validateElkBpmn(json);
+
+      if (options.json) {
+        console.log(JSON.stringify({ valid, errors }, null, 2));
+        process.exit(valid ? 0 : 1);
       }
-      if (!json.children || !Array.isArray(json.children)) {
-        errors.push('Missing or invalid field: children (must be an array)');
+
+      if (!valid) {
+        console.error(`Validation failed (${errors.length} error${errors.length === 1 ? '' : 's'}):`);
+        errors.forEach((err) => console.error(`  - ${err.path || '/'}: ${err.message}`));
+        process.exit(1);
+      }
+
+      console.log('Validation passed!');
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('lint <input>')
+  .description('Check ELK-BPMN JSON for semantic problems (broken references, misplaced flows, ...)')
+  .option('--rule <rule=severity>', 'Override a rule severity: error, warning or off (repeatable)', collect, [])
+  .option('--json', 'Print issues as JSON')
+  .action(async (input: string, options: LintOptions) => {
+    try {
+      const content = input === '-' ? await readStdin() : await readFile(input, 'utf-8');
+
+      let json: unknown;
+      try {
+        json = JSON.parse(content);
+      } catch {
+        console.error('Error: Invalid JSON input');
+        process.exit(1);
       }
-      if (json.children && json.children.length === 0) {
-        errors.push('children array is empty');
+
+      const rules: Record<string, string> = {};
+      for (const override of options.rule) {
+        const [name, severity] = override.split('=');
+        if (!name || !severity) {
+          console.error(`Error: Invalid --rule ${override} (expected rule=severity)`);
+          process.exit(1);
+        }
+        rules[name] = severity;
       }
 
-      // Check children have required fields
-      if (json.children) {
-        for (let i = 0; i < json.children.length; i++) {
-          const child = json.children[i];
-          if (!child.id) {
-            errors.push(`children[${i}]: Missing required field: id`);
-          }
-          if (!child.bpmn) {
-            errors.push(`children[${i}]: Missing required field: bpmn`);
-          } else if (!child.bpmn.type) {
-            errors.push(`children[${i}].bpmn: Missing required field: type`);
-          }
+      const linter = new Linter({ rules: rules as LinterOptions['rules'] });
+      const result = linter.lint(json as ElkBpmnGraph);
+
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else if (result.issues.length === 0) {
+        console.log('No problems found');
+      } else {
+        for (const issue of result.issues) {
+          console.log(`  ${issue.severity.padEnd(7)} ${issue.elementId}: ${issue.message} (${issue.rule})`);
         }
+        console.log(`\n${result.errorCount} error(s), ${result.warningCount} warning(s)`);
       }
 
-      if (errors.length > 0) {
-        console.error('Validation failed:');
-        errors.forEach((err) => console.error(`  - ${err}`));
+      process.exit(result.errorCount > 0 ? 1 : 0);
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('analyze <input>')
+  .description('Measure layout quality (crossings, bends, overlaps, area, ...) and print it as JSON')
+  .option('-o, --output <file>', 'Output file path (default: stdout)')
+  .option('--elk-options <json>', 'ELK layout options as JSON string')
+  .option('--elk-direction <direction>', 'Flow direction: RIGHT, DOWN, LEFT, UP')
+  .option('--elk-spacing <number>', 'Node spacing')
+  .option('--elk-layer-spacing <number>', 'Layer spacing')
+  .option('--fixed-layout', 'Skip layout and measure the coordinates given in the input (e.g. a saved convert -f json result)')
+  .action(async (input: string, options: AnalyzeOptions) => {
+    try {
+      const content = input === '-' ? await readStdin() : await readFile(input, 'utf-8');
+
+      let elkBpmnJson: unknown;
+      try {
+        elkBpmnJson = JSON.parse(content);
+      } catch {
+        console.error('Error: Invalid JSON input');
         process.exit(1);
       }
 
-      console.log('Validation passed!');
+      const converter = new BpmnElkLayout({
+        elkOptions: buildElkOptions(options),
+        layoutMode: options.fixedLayout ? 'fixed' : 'auto',
+      });
+
+      const layouted = await converter.to_json(elkBpmnJson as Parameters<typeof converter.to_json>[0]);
+      const result = JSON.stringify(analyzeLayout(layouted), null, 2);
+
+      if (options.output) {
+        await writeFile(options.output, result);
+        console.error(`Output written to ${options.output}`);
+      } else {
+        console.log(result);
+      }
     } catch (error) {
       console.error('Error:', error instanceof Error ? error.message : error);
       process.exit(1);
@@ -150,6 +438,52 @@ program
     }
   });
 
+program
+  .command('serve')
+  .description('Start an HTTP server: POST /convert (bpmn, json or svg), POST /validate, POST /lint, GET /prompt-template')
+  .option('-p, --port <number>', 'Port to listen on', '8080')
+  .option('--host <host>', 'Host to listen on (0.0.0.0 accepts connections from other machines)', '127.0.0.1')
+  .option('--max-body-size <size>', 'Maximum request body size, e.g. 512kb or 5mb', '1mb')
+  .option('--timeout <ms>', 'Maximum layout time per request', '30000')
+  .option('--concurrency <n>', 'Maximum number of layouts at the same time', '2')
+  .option('--queue-size <n>', 'Maximum number of requests waiting for a layout (more get 503)', '32')
+  .option('--config <file>', 'JSON file with converter options (elkOptions, theme, ...)')
+  .option('--cache-dir <dir>', 'Cache layouts in this directory and reuse them for unchanged input')
+  .option('--fixtures <dir>', 'Fixtures directory path of the prompt template')
+  .option('--schema <file>', 'Schema file path of the prompt template')
+  .action(async (options: ServeOptions) => {
+    try {
+      const server = new LayoutServer({
+        port: Number(options.port),
+        host: options.host,
+        maxBodySize: parseSize(options.maxBodySize),
+        timeout: Number(options.timeout),
+        concurrency: Number(options.concurrency),
+        queueSize: Number(options.queueSize),
+        layout: {
+          ...await loadConfig(options.config),
+          cache: createCacheStore(options.cacheDir),
+        },
+        promptTemplate: {
+          fixturesDir: options.fixtures,
+          schemaPath: options.schema,
+        },
+      });
+
+      const address = await server.listen();
+      console.error(`Listening on http://${address.address}:${address.port} (press Ctrl+C to stop)`);
+
+      const stop = () => {
+        void server.close().then(() => process.exit(0));
+      };
+      process.on('SIGINT', stop);
+      process.on('SIGTERM', stop);
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 // Parse command line arguments
 program.parse();
 
@@ -162,16 +496,239 @@ interface ConvertOptions {
   elkDirection?: string;
   elkSpacing?: string;
   elkLayerSpacing?: string;
+  fixedLayout?: boolean;
+  alignMainFlow?: boolean;
+  rerouteEdges?: boolean;
+  boundaryBranchLayout: 'heuristic' | 'tree';
+  theme: LayoutThemeName;
+  snapToGrid?: boolean | number;
+  cacheDir?: string;
+  repair?: boolean;
+  strict?: boolean;
+  pretty?: boolean;
+  config?: string;
+  validate?: boolean;
+  lint?: boolean;
+  watch?: boolean;
+}
+
+/**
+ * Converter options read from --config
+ */
+type ConvertConfig = Pick<
+  BpmnElkLayoutOptions,
+  | 'alignMainFlow'
+  | 'boundaryBranchLayout'
+  | 'elkOptions'
+  | 'enableCompaction'
+  | 'layoutMode'
+  | 'repair'
+  | 'rerouteEdges'
+  | 'sizes'
+  | 'snapToGrid'
+  | 'strict'
+  | 'theme'
+>;
+
+interface ConvertAllOptions {
+  outDir: string;
+  format: 'bpmn' | 'json';
+  concurrency: string;
+  continueOnError?: boolean;
+  timeout?: string;
+  report?: string;
+  elkOptions?: string;
+  elkDirection?: string;
+  elkSpacing?: string;
+  elkLayerSpacing?: string;
+  fixedLayout?: boolean;
+  alignMainFlow?: boolean;
+  rerouteEdges?: boolean;
+  boundaryBranchLayout: 'heuristic' | 'tree';
+  theme: LayoutThemeName;
+  snapToGrid?: boolean | number;
+  cacheDir?: string;
+  repair?: boolean;
+  strict?: boolean;
   pretty?: boolean;
 }
 
+interface RelayoutOptions {
+  output?: string;
+  elkOptions?: string;
+  elkDirection?: string;
+  elkSpacing?: string;
+  elkLayerSpacing?: string;
+}
+
+interface RenderOptions {
+  output?: string;
+  format?: string;
+  scale: string;
+  padding: string;
+  background: string;
+  pageSize?: string;
+  landscape?: boolean;
+  elkOptions?: string;
+  elkDirection?: string;
+  elkSpacing?: string;
+  elkLayerSpacing?: string;
+  fixedLayout?: boolean;
+  theme: LayoutThemeName;
+  snapToGrid?: boolean | number;
+  cacheDir?: string;
+}
+
+interface ServeOptions {
+  port: string;
+  host: string;
+  maxBodySize: string;
+  timeout: string;
+  concurrency: string;
+  queueSize: string;
+  config?: string;
+  cacheDir?: string;
+  fixtures?: string;
+  schema?: string;
+}
+
+interface ValidateOptions {
+  json?: boolean;
+}
+
+interface LintOptions {
+  rule: string[];
+  json?: boolean;
+}
+
+interface AnalyzeOptions {
+  output?: string;
+  elkOptions?: string;
+  elkDirection?: string;
+  elkSpacing?: string;
+  elkLayerSpacing?: string;
+  fixedLayout?: boolean;
+}
+
 interface PromptTemplateOptions {
   output?: string;
   fixtures?: string;
   schema?: string;
 }
 
-function buildElkOptions(options: ConvertOptions): ElkLayoutOptions | undefined {
+/**
+ * Run one conversion of the convert command
+ * @param cache - Layout cache store kept across the runs of --watch
+ * @throws on invalid input or config, validation and lint errors, and failed layouts
+ */
+async function runConvert(
+  input: string,
+  options: ConvertOptions,
+  command: Command,
+  cache?: LayoutCacheStore
+): Promise<void> {
+  const config = await loadConfig(options.config);
+
+  // Read input
+  const content = input === '-' ? await readStdin() : await readFile(input, 'utf-8');
+
+  // Parse JSON
+  let elkBpmnJson: unknown;
+  try {
+    elkBpmnJson = JSON.parse(content);
+  } catch {
+    throw new Error('Invalid JSON input');
+  }
+
+  if (options.validate) {
+    const { valid, errors } = validateElkBpmn(elkBpmnJson);
+    if (!valid) {
+      errors.forEach((err) => console.error(`  - ${err.path || '/'}: ${err.message}`));
+      throw new Error(`Validation failed (${errors.length} error${errors.length === 1 ? '' : 's'})`);
+    }
+  }
+
+  // Create converter: command line options take precedence over the config file
+  const elkOptions = { ...config.elkOptions, ...buildElkOptions(options) };
+  const converter = new BpmnElkLayout({
+    ...config,
+    elkOptions: Object.keys(elkOptions).length > 0 ? elkOptions : undefined,
+    layoutMode: options.fixedLayout ? 'fixed' : config.layoutMode ?? 'auto',
+    alignMainFlow: options.alignMainFlow ?? config.alignMainFlow,
+    rerouteEdges: options.rerouteEdges ?? config.rerouteEdges,
+    boundaryBranchLayout: fromCommandLine(command, 'boundaryBranchLayout') ?? config.boundaryBranchLayout ?? options.boundaryBranchLayout,
+    theme: fromCommandLine(command, 'theme') ?? config.theme ?? options.theme,
+    snapToGrid: options.snapToGrid ?? config.snapToGrid,
+    strict: options.strict ?? config.strict,
+    repair: false,
+    cache: createCacheStore(options.cacheDir) ?? cache,
+  });
+
+  // Repair common mistakes first
+  if (options.repair ?? config.repair) {
+    const { graph, fixes } = converter.repair(elkBpmnJson as ElkBpmnGraph);
+    fixes.forEach((fix) => console.error(`Repaired: ${fix.message}`));
+    elkBpmnJson = graph;
+  }
+
+  if (options.lint) {
+    const result = new Linter().lint(elkBpmnJson as ElkBpmnGraph);
+    for (const issue of result.issues) {
+      console.error(`  ${issue.severity.padEnd(7)} ${issue.elementId}: ${issue.message} (${issue.rule})`);
+    }
+    if (result.errorCount > 0) {
+      throw new Error(`Lint failed: ${result.errorCount} error(s), ${result.warningCount} warning(s)`);
+    }
+  }
+
+  // Convert based on format
+  let result: string;
+  if (options.format === 'json') {
+    const layouted = await converter.to_json(elkBpmnJson as Parameters<typeof converter.to_json>[0]);
+    result = JSON.stringify(layouted, null, options.pretty ? 2 : 0);
+  } else {
+    result = await converter.to_bpmn(elkBpmnJson as Parameters<typeof converter.to_bpmn>[0]);
+  }
+
+  // Write output
+  if (options.output) {
+    await writeFile(options.output, result);
+    console.error(`Output written to ${options.output}`);
+  } else {
+    console.log(result);
+  }
+}
+
+/**
+ * Read the converter options of --config
+ */
+async function loadConfig(configFile?: string): Promise<ConvertConfig> {
+  if (!configFile) {
+    return {};
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(await readFile(configFile, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid config ${configFile}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error(`Invalid config ${configFile}: expected a JSON object of converter options`);
+  }
+  return config as ConvertConfig;
+}
+
+/**
+ * Value of an option given on the command line; undefined when it has its default value
+ */
+function fromCommandLine<K extends keyof ConvertOptions>(command: Command, key: K): ConvertOptions[K] | undefined {
+  return command.getOptionValueSource(key) === 'default' ? undefined : command.opts<ConvertOptions>()[key];
+}
+
+function buildElkOptions(
+  options: ConvertOptions | ConvertAllOptions | RelayoutOptions | RenderOptions | AnalyzeOptions
+): ElkLayoutOptions | undefined {
   const elkOptions: ElkLayoutOptions = {};
   let hasOptions = false;
 
@@ -211,6 +768,50 @@ function buildElkOptions(options: ConvertOptions): ElkLayoutOptions | undefined
   return hasOptions ? elkOptions : undefined;
 }
 
+/**
+ * Grid size given to --snap-to-grid (the option is `true` without a value)
+ */
+function parseGridSize(value: string): number {
+  const gridSize = Number(value);
+  if (!(gridSize > 0)) {
+    throw new InvalidArgumentError('Expected a positive grid size.');
+  }
+  return gridSize;
+}
+
+/**
+ * Mode given to --boundary-branch-layout
+ */
+function parseBoundaryBranchLayout(value: string): 'heuristic' | 'tree' {
+  if (value !== 'heuristic' && value !== 'tree') {
+    throw new InvalidArgumentError('Expected heuristic or tree.');
+  }
+  return value;
+}
+
+/**
+ * Bytes of a size like 1048576, 512kb or 5mb
+ */
+function parseSize(size: string): number {
+  const match = /^(\d+)\s*(b|kb|mb)?$/i.exec(size.trim());
+  if (!match) {
+    throw new Error(`Invalid size: ${size} (expected e.g. 512kb or 5mb)`);
+  }
+  const units: Record<string, number> = { b: 1, kb: 1024, mb: 1024 * 1024 };
+  return Number(match[1]) * units[(match[2] ?? 'b').toLowerCase()]!;
+}
+
+/**
+ * Layout cache store of --cache-dir
+ */
+function createCacheStore(cacheDir?: string): FileLayoutCacheStore | undefined {
+  return cacheDir ? new FileLayoutCacheStore({ directory: cacheDir }) : undefined;
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
 async function readStdin(): Promise<string> {
   const chunks: Buffer[] = [];
 
@@ -4,13 +4,32 @@
  * Converts ELK-BPMN JSON to:
  * - BPMN 2.0 XML (with diagram interchange)
  * - Layouted ELK-BPMN JSON (with coordinates)
+ *
+ * - SVG images (standard BPMN notation, no browser needed)
+ *
+ * And imports BPMN 2.0 XML back into ELK-BPMN JSON, or re-layouts it in place.
  */
 
 import type { ElkBpmnGraph, ElkLayoutOptions } from './types';
 import type { LayoutedGraph } from './types/elk-output';
-import { ElkLayouter } from './layout';
-import { ModelBuilder } from './transform';
-import { BpmnXmlGenerator } from './generators';
+import {
+  ElkLayouter,
+  FixedLayoutValidator,
+  resolveLayoutTheme,
+  type LayoutTheme,
+  type LayoutThemeName,
+  type LayoutThemeOverrides,
+  type ElementSizeOptions,
+  type ElkWorkerOptions,
+  type LayoutRunOptions,
+} from './layout';
+import { resolveLayoutCache, type LayoutCacheStore } from './layout/cache';
+import { ModelBuilder, resolveGridSize } from './transform';
+import { BpmnXmlGenerator, BpmnDiagramReplacer, SvgRenderer, type SvgRendererOptions } from './generators';
+import { BpmnXmlImporter } from './importers';
+import { GraphRepairer, type RepairResult } from './validation';
+import { LayoutInvariantChecker, type LayoutResult } from './analysis';
+import type { TextMeasurer } from './text';
 
 export interface BpmnElkLayoutOptions {
   /**
@@ -22,52 +41,195 @@ export interface BpmnElkLayoutOptions {
    * @default false
    */
   enableCompaction?: boolean;
+  /**
+   * Keep the main flow at the top when boundary event branches exist, and keep
+   * sequence flows marked with `bpmn.isHappyPath` on one horizontal line
+   * @default false
+   */
+  alignMainFlow?: boolean;
+  /**
+   * Re-route sequence and message flows that cross nodes, lane headers or pool
+   * boundaries after layout. `layoutWithWarnings()` reports the result per edge.
+   * @default false
+   */
+  rerouteEdges?: boolean;
+  /**
+   * How boundary event branches are placed below their host task
+   * - 'heuristic': order branches by destination (merge back, end event, dead end) in fixed rows
+   * - 'tree': lay out each branch as a tidy tree (Reingold-Tilford) growing to the right,
+   *   so deep or fan-out exception branches do not overlap
+   * @default 'heuristic'
+   */
+  boundaryBranchLayout?: 'heuristic' | 'tree';
+  /**
+   * Layout mode
+   * - 'auto': run the ELK layout pipeline
+   * - 'fixed': skip ELK and use the x/y/width/height and edge sections given in the input
+   *   (e.g. a saved and edited to_json result); missing coordinates are reported as errors
+   * @default 'auto'
+   */
+  layoutMode?: 'auto' | 'fixed';
+  /**
+   * Repair common mistakes in generated input (see `repair()`) before layout
+   * @default false
+   */
+  repair?: boolean;
+  /**
+   * Sizes of nodes without an explicit width/height: overrides per BPMN type,
+   * e.g. `{ types: { userTask: { width: 120, height: 60 } } }`, and a per-node
+   * callback `getSize(node, defaultSize)`. They take precedence over the theme sizes.
+   */
+  sizes?: ElementSizeOptions;
+  /**
+   * Snap node bounds, edge waypoints and labels of the BPMN diagram (and SVG) to a grid:
+   * `true` for the 10px grid of bpmn-js, or the grid size. Node sizes are kept; node
+   * centers snap to the grid, and nodes are pushed apart if snapping made them overlap.
+   * Only the BPMN diagram interchange (`to_bpmn`, `relayout`) and SVG output (`to_svg`)
+   * are snapped; `to_json` and `layoutWithWarnings` return the exact layout.
+   * @default false
+   */
+  snapToGrid?: boolean | number;
+  /**
+   * Throw a LayoutInvariantError when the finished layout has a node outside its
+   * lane, overlapping nodes or an edge detached from its node, instead of
+   * reporting these as warnings (see `layoutWithWarnings()`)
+   * @default false
+   */
+  strict?: boolean;
+  /**
+   * Measure label text to size activities to their names (wrapping at 200px and
+   * growing the height) and to give event, gateway and data labels bounds that
+   * fit their text, e.g. `new FontMetricsTextMeasurer()` or, in browsers,
+   * `new CanvasTextMeasurer()`. Name length heuristics are used when not set.
+   */
+  textMeasurer?: TextMeasurer;
+  /**
+   * Element sizes, spacing and pool/lane dimensions: a preset ('compact', 'default',
+   * 'presentation') or overrides of a preset, e.g. `{ extends: 'compact', pool: { headerWidth: 40 } }`.
+   * `elkOptions` and graph `layoutOptions` take precedence over the theme's spacing.
+   * @default 'default'
+   */
+  theme?: LayoutThemeName | LayoutThemeOverrides;
+  /**
+   * Run ELK in a worker so that layouts do not block the UI or the event loop, and
+   * cancelled layouts (`signal`, `timeout`) stop immediately. `true` uses the worker
+   * script of the installed elkjs in Node.js (worker_threads); in browsers pass a
+   * `workerFactory`, e.g. a Web Worker that imports 'bpmn-elk-layout/elk-worker'.
+   * Call `terminate()` when done: Node.js keeps running while a worker is alive.
+   * @default false
+   */
+  worker?: boolean | ElkWorkerOptions;
+  /**
+   * Reuse layouts: a graph that was laid out before (same sized input and ELK options)
+   * returns the cached layout, and SEPARATE_CHILDREN subgraphs without edges crossing
+   * their border (e.g. expanded subprocesses or pools) keep their cached layout while
+   * the rest of the graph changes. `true` uses an in-memory LRU store of 100 entries;
+   * pass a store to share entries, e.g. `new FileLayoutCacheStore({ directory })` from
+   * 'bpmn-elk-layout/node'.
+   * @default false
+   */
+  cache?: boolean | LayoutCacheStore;
 }
 
 export class BpmnElkLayout {
   private layouter: ElkLayouter;
+  private fixedLayoutValidator: FixedLayoutValidator;
+  private invariantChecker: LayoutInvariantChecker;
+  private layoutMode: 'auto' | 'fixed';
   private modelBuilder: ModelBuilder;
   private xmlGenerator: BpmnXmlGenerator;
+  private xmlImporter: BpmnXmlImporter;
+  private diagramReplacer: BpmnDiagramReplacer;
+  private svgRenderer: SvgRenderer;
+  private graphRepairer: GraphRepairer;
+  private autoRepair: boolean;
+  private theme: LayoutTheme;
+  /** Options of the default SVG renderer, extended by the options passed to to_svg */
+  private svgRendererOptions: SvgRendererOptions;
 
   constructor(options?: BpmnElkLayoutOptions) {
+    this.theme = resolveLayoutTheme(options?.theme);
+    const gridSize = resolveGridSize(options?.snapToGrid);
     this.layouter = new ElkLayouter({
       elkOptions: options?.elkOptions,
       enableCompaction: options?.enableCompaction,
+      strict: options?.strict,
+      alignMainFlow: options?.alignMainFlow,
+      rerouteEdges: options?.rerouteEdges,
+      boundaryBranchLayout: options?.boundaryBranchLayout,
+      textMeasurer: options?.textMeasurer,
+      theme: this.theme,
+      sizes: options?.sizes,
+      worker: options?.worker,
+      cache: resolveLayoutCache(options?.cache),
+    });
+    this.fixedLayoutValidator = new FixedLayoutValidator();
+    this.invariantChecker = new LayoutInvariantChecker({ strict: options?.strict });
+    this.layoutMode = options?.layoutMode ?? 'auto';
+    this.modelBuilder = new ModelBuilder({
+      textMeasurer: options?.textMeasurer,
+      theme: this.theme,
+      sizes: options?.sizes,
+      gridSize,
     });
-    this.modelBuilder = new ModelBuilder();
     this.xmlGenerator = new BpmnXmlGenerator();
+    this.xmlImporter = new BpmnXmlImporter();
+    this.diagramReplacer = new BpmnDiagramReplacer();
+    this.svgRendererOptions = {
+      textMeasurer: options?.textMeasurer,
+      theme: this.theme,
+      sizes: options?.sizes,
+      snapToGrid: gridSize,
+    };
+    this.svgRenderer = new SvgRenderer(this.svgRendererOptions);
+    this.graphRepairer = new GraphRepairer();
+    this.autoRepair = options?.repair ?? false;
   }
 
   /**
    * Convert ELK-BPMN JSON to BPMN 2.0 XML
    *
-   * @param input - ELK-BPMN JSON (without coordinates)
+   * @param input - ELK-BPMN JSON (without coordinates, unless layoutMode is 'fixed')
+   * @param options - Signal and timeout to cancel the layout
    * @returns BPMN 2.0 XML string with diagram interchange
    *
    * @example
    * ```typescript
    * const converter = new BpmnElkLayout();
-   * const xml = await converter.to_bpmn(elkBpmnJson);
+   * const xml = await converter.to_bpmn(elkBpmnJson, { timeout: 10_000 });
    * console.log(xml);
    * ```
    */
-  async to_bpmn(input: ElkBpmnGraph): Promise<string> {
-    // Step 1: Run ELK layout to get coordinates
-    const layouted = await this.layouter.layout(input);
+  async to_bpmn(input: ElkBpmnGraph, options?: LayoutRunOptions): Promise<string> {
+    // Step 1: Run ELK layout to get coordinates (or take them from the input in fixed mode)
+    const layouted = await this.layout(input, options);
 
-    // Step 2: Build intermediate model
-    const model = this.modelBuilder.build(layouted);
-
-    // Step 3: Generate BPMN XML
-    const xml = await this.xmlGenerator.generate(model);
+    // Step 2: Generate BPMN XML
+    return this.layouted_to_bpmn(layouted);
+  }
 
-    return xml;
+  /**
+   * Convert an already layouted graph to BPMN 2.0 XML without laying it out again
+   *
+   * @param layouted - Result of `to_json` or `layoutWithWarnings`
+   * @returns BPMN 2.0 XML string with diagram interchange
+   *
+   * @example
+   * ```typescript
+   * const { graph, warnings } = await converter.layoutWithWarnings(elkBpmnJson);
+   * const xml = await converter.layouted_to_bpmn(graph);
+   * ```
+   */
+  async layouted_to_bpmn(layouted: LayoutedGraph): Promise<string> {
+    const model = this.modelBuilder.build(layouted);
+    return this.xmlGenerator.generate(model);
   }
 
   /**
    * Convert ELK-BPMN JSON to layouted JSON with coordinates
    *
    * @param input - ELK-BPMN JSON (without coordinates)
+   * @param options - Signal and timeout to cancel the layout
    * @returns ELK-BPMN JSON with x, y coordinates for all nodes and edges
    *
    * @example
@@ -77,8 +239,212 @@ export class BpmnElkLayout {
    * console.log(layouted.children[0].x, layouted.children[0].y);
    * ```
    */
-  async to_json(input: ElkBpmnGraph): Promise<LayoutedGraph> {
-    return this.layouter.layout(input);
+  async to_json(input: ElkBpmnGraph, options?: LayoutRunOptions): Promise<LayoutedGraph> {
+    return this.layout(input, options);
+  }
+
+  /**
+   * Lay out ELK-BPMN JSON and report broken layout invariants
+   *
+   * @param input - ELK-BPMN JSON (without coordinates, unless layoutMode is 'fixed')
+   * @param options - Signal and timeout to cancel the layout
+   * @returns Layouted JSON and the invariant violations found in it
+   * @throws LayoutInvariantError instead of returning warnings when `strict` is set
+   * @throws the signal's reason (a TimeoutError on timeout) when the layout is cancelled
+   *
+   * @example
+   * ```typescript
+   * const { graph, warnings } = await converter.layoutWithWarnings(elkBpmnJson);
+   * warnings.forEach((warning) => console.warn(warning.message));
+   * ```
+   */
+  async layoutWithWarnings(input: ElkBpmnGraph, options?: LayoutRunOptions): Promise<LayoutResult> {
+    const graph = this.autoRepair ? this.graphRepairer.repair(input).graph : input;
+
+    if (this.layoutMode === 'fixed') {
+      options?.signal?.throwIfAborted();
+      return this.invariantChecker.verify(this.fixedLayoutValidator.prepare(graph));
+    }
+    return this.layouter.layoutWithWarnings(graph, options);
+  }
+
+  /**
+   * Convert ELK-BPMN JSON to an SVG image
+   *
+   * @param input - ELK-BPMN JSON (without coordinates, unless layoutMode is 'fixed')
+   * @param options - Padding and background of the image
+   * @returns Standalone SVG document drawn with standard BPMN notation
+   *
+   * @example
+   * ```typescript
+   * const converter = new BpmnElkLayout();
+   * const svg = await converter.to_svg(elkBpmnJson);
+   * fs.writeFileSync('diagram.svg', svg);
+   * ```
+   */
+  async to_svg(input: ElkBpmnGraph, options?: SvgRendererOptions): Promise<string> {
+    const layouted = await this.layout(input);
+    return this.layouted_to_svg(layouted, options);
+  }
+
+  /**
+   * Convert an already layouted graph to an SVG image without laying it out again
+   *
+   * @param layouted - Result of `to_json` or `layoutWithWarnings`
+   * @param options - Padding and background of the image
+   * @returns Standalone SVG document drawn with standard BPMN notation
+   */
+  async layouted_to_svg(layouted: LayoutedGraph, options?: SvgRendererOptions): Promise<string> {
+    const model = this.modelBuilder.build(layouted);
+    const renderer = options ? new SvgRenderer({ ...this.svgRendererOptions, ...options }) : this.svgRenderer;
+
+    return renderer.render(model);
+  }
+
+  /**
+   * Repair common mistakes in generated ELK-BPMN JSON
+   *
+   * Wraps string `sources`/`targets` in arrays, infers missing event definition types,
+   * moves stray lanes into their participant, boundary events into their host's
+   * `boundaryEvents`, and edges into the container that holds both end points.
+   *
+   * @param input - ELK-BPMN JSON (not modified)
+   * @returns Repaired copy of the input and the list of applied fixes
+   *
+   * @example
+   * ```typescript
+   * const { graph, fixes } = converter.repair(generatedJson);
+   * fixes.forEach((fix) => console.warn(fix.message));
+   * const xml = await converter.to_bpmn(graph);
+   * ```
+   */
+  repair(input: ElkBpmnGraph): RepairResult {
+    return this.graphRepairer.repair(input);
+  }
+
+  /**
+   * Convert BPMN 2.0 XML to ELK-BPMN JSON
+   *
+   * Semantics (processes, lanes, flows, artifacts, global definitions) are kept;
+   * diagram interchange is dropped so the result can be laid out again.
+   *
+   * @param xml - BPMN 2.0 XML string (e.g. exported from Camunda Modeler)
+   * @returns ELK-BPMN JSON (without coordinates)
+   *
+   * @example
+   * ```typescript
+   * const converter = new BpmnElkLayout();
+   * const json = await converter.from_bpmn(xml);
+   * const relayouted = await converter.to_bpmn(json);
+   * ```
+   */
+  async from_bpmn(xml: string): Promise<ElkBpmnGraph> {
+    return this.xmlImporter.import(xml);
+  }
+
+  /**
+   * Re-layout existing BPMN 2.0 XML
+   *
+   * The existing BPMNDiagram is thrown away and fresh diagram interchange is generated
+   * by the layout pipeline. Everything outside the diagram (semantic attributes,
+   * extension elements, unknown namespaces, comments) is kept byte-for-byte.
+   *
+   * @param xml - BPMN 2.0 XML string (e.g. a hand-drawn diagram)
+   * @returns BPMN 2.0 XML string with new diagram interchange
+   *
+   * @example
+   * ```typescript
+   * const converter = new BpmnElkLayout();
+   * const beautified = await converter.relayout(messyXml);
+   * ```
+   */
+  async relayout(xml: string): Promise<string> {
+    // Step 1: Import semantics from the existing XML
+    const definitions = await this.xmlImporter.parse(xml);
+    const graph = this.xmlImporter.buildGraph(definitions);
+
+    // Step 2: Run ELK layout and build the new diagram
+    const layouted = await this.layouter.layout(graph);
+    const model = this.modelBuilder.build(layouted);
+    const diagramXml = await this.xmlGenerator.generateDiagram(model.diagram);
+
+    // Step 3: Splice the new diagram into the source XML
+    return this.diagramReplacer.replace(xml, definitions, diagramXml);
+  }
+
+  /**
+   * Re-layout an edited graph while preserving a previous layout (mental map)
+   *
+   * Nodes present in both graphs keep their previous positions, new nodes are placed
+   * in the space around them, and pools/lanes keep their order and only grow.
+   * Edges are re-routed only where one of their end points moved.
+   *
+   * @param previous - Result of an earlier to_json / layoutIncremental call
+   * @param next - Edited ELK-BPMN JSON (without coordinates)
+   * @param options - Signal and timeout to cancel the layout
+   * @returns ELK-BPMN JSON with x, y coordinates for all nodes and edges
+   *
+   * @example
+   * ```typescript
+   * const converter = new BpmnElkLayout();
+   * const previous = await converter.to_json(graph);
+   * const next = await converter.layoutIncremental(previous, editedGraph);
+   * const xml = await new BpmnElkLayout({ layoutMode: 'fixed' }).to_bpmn(next);
+   * ```
+   */
+  async layoutIncremental(previous: LayoutedGraph, next: ElkBpmnGraph, options?: LayoutRunOptions): Promise<LayoutedGraph> {
+    const { graph } = await this.layoutIncrementalWithWarnings(previous, next, options);
+    return graph;
+  }
+
+  /**
+   * Re-layout an edited graph while preserving a previous layout, and report broken layout invariants
+   *
+   * @param previous - Result of an earlier to_json / layoutIncremental call
+   * @param next - Edited ELK-BPMN JSON (without coordinates)
+   * @param options - Signal and timeout to cancel the layout
+   * @returns Layouted JSON and the invariant violations found in it
+   * @throws LayoutInvariantError instead of returning warnings when `strict` is set
+   *
+   * @example
+   * ```typescript
+   * const { graph, warnings } = await converter.layoutIncrementalWithWarnings(previous, editedGraph);
+   * warnings.forEach((warning) => console.warn(warning.message));
+   * ```
+   */
+  async layoutIncrementalWithWarnings(
+    previous: LayoutedGraph,
+    next: ElkBpmnGraph,
+    options?: LayoutRunOptions
+  ): Promise<LayoutResult> {
+    const graph = this.autoRepair ? this.graphRepairer.repair(next).graph : next;
+    return this.layouter.layoutIncrementalWithWarnings(previous, graph, options);
+  }
+
+  /**
+   * Terminate the ELK workers of the `worker` option; later layouts start new ones.
+   * Node.js does not exit while a worker is alive.
+   *
+   * @example
+   * ```typescript
+   * const converter = new BpmnElkLayout({ worker: true });
+   * try {
+   *   const xml = await converter.to_bpmn(elkBpmnJson, { timeout: 30_000 });
+   * } finally {
+   *   converter.terminate();
+   * }
+   * ```
+   */
+  terminate(): void {
+    this.layouter.terminate();
+  }
+
+  /**
+   * Get coordinates for the input according to the layout mode
+   */
+  private async layout(input: ElkBpmnGraph, options?: LayoutRunOptions): Promise<LayoutedGraph> {
+    const { graph } = await this.layoutWithWarnings(input, options);
+    return graph;
   }
 
   /**
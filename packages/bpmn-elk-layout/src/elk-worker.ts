@@ -0,0 +1,19 @@
+/**
+ * ELK worker entry
+ *
+ * Import this module in a Web Worker to run ELK off the main thread
+ * (see the `worker` option of BpmnElkLayout).
+ *
+ * @example
+ * ```typescript
+ * // elk.worker.ts
+ * import 'bpmn-elk-layout/elk-worker';
+ *
+ * // main thread
+ * const converter = new BpmnElkLayout({
+ *   worker: { workerFactory: () => new Worker(new URL('./elk.worker.ts', import.meta.url)) },
+ * });
+ * ```
+ */
+
+import 'elkjs/lib/elk-worker.min.js';
@@ -0,0 +1,176 @@
+/**
+ * BPMN Diagram Replacer
+ * Swaps the BPMNDiagram of existing BPMN 2.0 XML for a freshly generated one.
+ * Works on the source text so that every semantic element, extension element
+ * and unknown namespace outside the replaced diagram is kept byte-for-byte.
+ */
+
+// Type definitions for bpmn-moddle elements
+interface ModdleElement {
+  $type: string;
+  id?: string;
+  [key: string]: unknown;
+}
+
+interface DiagramMatch {
+  start: number;
+  end: number;
+}
+
+// Matches <prefix:BPMNDiagram ...>...</prefix:BPMNDiagram> or a self-closing BPMNDiagram
+const DIAGRAM_PATTERN = /<((?:[\w.-]+:)?)BPMNDiagram\b(?:[^>]*\/>|[\s\S]*?<\/\1BPMNDiagram\s*>)/g;
+// Matches the start tag of the root definitions element
+const DEFINITIONS_START_PATTERN = /<((?:[\w.-]+:)?)definitions\b[^>]*>/;
+const NAMESPACE_DECLARATION_PATTERN = /\s+xmlns(?::([\w.-]+))?=(["'])(.*?)\2/g;
+
+export class BpmnDiagramReplacer {
+  /**
+   * Replace the main diagram(s) of the source XML with the given BPMNDiagram fragment.
+   *
+   * Diagrams whose plane shows a collaboration or process are replaced. Drill-down
+   * diagrams of collapsed subprocesses are kept as they are, since the layout
+   * pipeline does not lay out collapsed subprocess contents.
+   *
+   * @param sourceXml - Original BPMN 2.0 XML
+   * @param definitions - Parsed definitions of sourceXml (used to classify diagrams)
+   * @param diagramXml - New BPMNDiagram fragment (see BpmnXmlGenerator.generateDiagram)
+   */
+  replace(sourceXml: string, definitions: ModdleElement, diagramXml: string): string {
+    const definitionsStart = DEFINITIONS_START_PATTERN.exec(sourceXml);
+    if (!definitionsStart) {
+      throw new Error('Cannot replace BPMN diagram: no definitions element found in source XML');
+    }
+
+    const diagrams = Array.isArray(definitions['diagrams']) ? (definitions['diagrams'] as ModdleElement[]) : [];
+    const matches = this.findDiagrams(sourceXml);
+    if (matches.length !== diagrams.length) {
+      throw new Error(
+        `Cannot replace BPMN diagram: found ${matches.length} BPMNDiagram elements in source XML, expected ${diagrams.length}`
+      );
+    }
+
+    const replaced = matches.filter((_, index) => this.isMainDiagram(diagrams[index]!));
+    const newline = sourceXml.includes('\r\n') ? '\r\n' : '\n';
+    const rootNamespaces = this.parseNamespaces(definitionsStart[0]);
+    const fragment = this.stripDeclaredNamespaces(diagramXml.trim(), rootNamespaces);
+
+    // No main diagram yet: append before the closing definitions tag
+    if (replaced.length === 0) {
+      const closingTag = `</${definitionsStart[1]}definitions`;
+      const closeIndex = sourceXml.lastIndexOf(closingTag);
+      if (closeIndex === -1) {
+        throw new Error('Cannot replace BPMN diagram: no closing definitions tag found in source XML');
+      }
+      const indent = this.detectChildIndent(sourceXml, definitionsStart.index + definitionsStart[0].length);
+      const closingIndent = this.lineIndent(sourceXml, closeIndex);
+      const insertAt = closeIndex - closingIndent.length;
+      return (
+        sourceXml.slice(0, insertAt) +
+        indent + this.indent(fragment, indent, newline) + newline +
+        sourceXml.slice(insertAt)
+      );
+    }
+
+    // Replace the first main diagram in place and drop the others (with their line)
+    let result = '';
+    let cursor = 0;
+    replaced.forEach((match, index) => {
+      if (index === 0) {
+        result += sourceXml.slice(cursor, match.start);
+        result += this.indent(fragment, this.lineIndent(sourceXml, match.start), newline);
+        cursor = match.end;
+      } else {
+        const lineStart = match.start - this.lineIndent(sourceXml, match.start).length;
+        const removeFrom = this.precedingLineBreak(sourceXml, lineStart);
+        result += sourceXml.slice(cursor, removeFrom);
+        cursor = match.end;
+      }
+    });
+    result += sourceXml.slice(cursor);
+
+    return result;
+  }
+
+  /**
+   * Find all BPMNDiagram elements in document order
+   */
+  private findDiagrams(xml: string): DiagramMatch[] {
+    const matches: DiagramMatch[] = [];
+    DIAGRAM_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = DIAGRAM_PATTERN.exec(xml)) !== null) {
+      matches.push({ start: match.index, end: match.index + match[0].length });
+    }
+    return matches;
+  }
+
+  /**
+   * A diagram is a main diagram unless its plane shows a (collapsed) subprocess
+   */
+  private isMainDiagram(diagram: ModdleElement): boolean {
+    const plane = diagram['plane'] as ModdleElement | undefined;
+    const element = plane?.['bpmnElement'] as ModdleElement | undefined;
+    if (!element) return true;
+    return element.$type === 'bpmn:Collaboration' || element.$type === 'bpmn:Process';
+  }
+
+  /**
+   * Parse xmlns declarations of a start tag (prefix -> namespace URI, '' for default)
+   */
+  private parseNamespaces(startTag: string): Map<string, string> {
+    const namespaces = new Map<string, string>();
+    for (const match of startTag.matchAll(NAMESPACE_DECLARATION_PATTERN)) {
+      namespaces.set(match[1] ?? '', match[3]!);
+    }
+    return namespaces;
+  }
+
+  /**
+   * Remove namespace declarations from the fragment's start tag that the source
+   * root already declares with the same prefix and URI
+   */
+  private stripDeclaredNamespaces(fragment: string, rootNamespaces: Map<string, string>): string {
+    const startTagEnd = fragment.indexOf('>');
+    const startTag = fragment.slice(0, startTagEnd);
+    const stripped = startTag.replace(NAMESPACE_DECLARATION_PATTERN, (declaration, prefix: string | undefined, _quote, uri: string) =>
+      rootNamespaces.get(prefix ?? '') === uri ? '' : declaration
+    );
+    return stripped + fragment.slice(startTagEnd);
+  }
+
+  /**
+   * Indent all lines but the first (which is placed at the replaced element's position)
+   */
+  private indent(fragment: string, indent: string, newline: string): string {
+    return fragment
+      .split(/\r?\n/)
+      .map((line, index) => (index === 0 || line.length === 0 ? line : indent + line))
+      .join(newline);
+  }
+
+  /**
+   * Whitespace between the start of the line and the given position,
+   * or '' if other content precedes it on the same line
+   */
+  private lineIndent(xml: string, position: number): string {
+    const lineStart = xml.lastIndexOf('\n', position - 1) + 1;
+    const prefix = xml.slice(lineStart, position);
+    return /^[ \t]*$/.test(prefix) ? prefix : '';
+  }
+
+  /**
+   * Indentation of the first child element after the given position
+   */
+  private detectChildIndent(xml: string, position: number): string {
+    const match = /\r?\n([ \t]*)</.exec(xml.slice(position));
+    return match?.[1] ?? '  ';
+  }
+
+  /**
+   * Position of the line break preceding a line start (to remove a whole line)
+   */
+  private precedingLineBreak(xml: string, lineStart: number): number {
+    if (xml[lineStart - 1] !== '\n') return lineStart;
+    return xml[lineStart - 2] === '\r' ? lineStart - 2 : lineStart - 1;
+  }
+}
@@ -26,8 +26,15 @@ interface ModdleElement {
   [key: string]: unknown;
 }
 
+/**
+ * Artifact types, which are written with their artifact properties even among flow elements
+ */
+const ARTIFACT_TYPES = new Set(['dataObject', 'dataObjectReference', 'dataStoreReference', 'textAnnotation', 'group']);
+
 export class BpmnXmlGenerator {
   private moddle: BpmnModdle;
+  // categoryValue id -> CategoryValue holding the label of the groups that reference it
+  private categoryValues = new Map<string, ModdleElement>();
 
   constructor() {
     this.moddle = new BpmnModdle();
@@ -49,6 +56,19 @@ export class BpmnXmlGenerator {
     return xml;
   }
 
+  /**
+   * Generate only the BPMNDiagram element as an XML fragment.
+   * The fragment declares its own DI namespaces so it can be spliced into existing XML.
+   */
+  async generateDiagram(diagram: DiagramModel): Promise<string> {
+    const { xml } = await this.moddle.toXML(this.buildDiagram(diagram), {
+      format: true,
+      preamble: false,
+    });
+
+    return xml;
+  }
+
   /**
    * Build the root definitions element
    */
@@ -61,6 +81,7 @@ export class BpmnXmlGenerator {
     });
 
     const rootElements: ModdleElement[] = [];
+    this.categoryValues = new Map();
 
     // Add global definitions (messages, signals, errors, escalations)
     for (const msg of def.messages) {
@@ -110,6 +131,13 @@ export class BpmnXmlGenerator {
       }
     }
 
+    // Add the category holding the group labels
+    if (this.categoryValues.size > 0) {
+      const category = this.moddle.create('bpmn:Category', { id: `Category_${def.id}` });
+      category.categoryValue = [...this.categoryValues.values()];
+      rootElements.push(category);
+    }
+
     definitions.rootElements = rootElements;
 
     // Add diagram
@@ -234,6 +262,11 @@ export class BpmnXmlGenerator {
    * Build a flow element (event, task, gateway, subprocess, sequence flow)
    */
   private buildFlowElement(element: FlowElementModel): ModdleElement {
+    // Artifacts among the children (as in hand-written ELK-BPMN JSON)
+    if (ARTIFACT_TYPES.has(element.type)) {
+      return this.buildArtifact(element);
+    }
+
     const elementType = BPMN_ELEMENT_MAP[element.type as keyof typeof BPMN_ELEMENT_MAP];
     if (!elementType) {
       throw new Error(`Unknown element type: ${element.type}`);
@@ -267,6 +300,17 @@ export class BpmnXmlGenerator {
   private applyElementProperties(bpmnElement: ModdleElement, element: FlowElementModel): void {
     const props = element.properties;
 
+    if (props.documentation) {
+      bpmnElement.documentation = [
+        this.moddle.create('bpmn:Documentation', { text: props.documentation as string }),
+      ];
+    }
+
+    // Activities
+    if (props.isForCompensation !== undefined) {
+      bpmnElement.isForCompensation = props.isForCompensation;
+    }
+
     // Events
     if (element.type.includes('Event')) {
       this.applyEventProperties(bpmnElement, element);
@@ -331,6 +375,11 @@ export class BpmnXmlGenerator {
     const props = element.properties;
     const eventDefType = props.eventDefinitionType as string | undefined;
 
+    // Start events of event subprocesses
+    if (element.type === 'startEvent' && props.isInterrupting !== undefined) {
+      bpmnElement.isInterrupting = props.isInterrupting;
+    }
+
     if (!eventDefType || eventDefType === 'none') {
       return;
     }
@@ -633,6 +682,12 @@ export class BpmnXmlGenerator {
     if (props.loopDataOutputRef) {
       multiInstance.loopDataOutputRef = { id: props.loopDataOutputRef };
     }
+    if (props.inputDataItem) {
+      multiInstance.inputDataItem = this.moddle.create('bpmn:DataInput', { id: props.inputDataItem });
+    }
+    if (props.outputDataItem) {
+      multiInstance.outputDataItem = this.moddle.create('bpmn:DataOutput', { id: props.outputDataItem });
+    }
     if (props.completionCondition) {
       multiInstance.completionCondition = this.moddle.create('bpmn:FormalExpression', {
         body: props.completionCondition,
@@ -642,6 +697,20 @@ export class BpmnXmlGenerator {
     return multiInstance;
   }
 
+  /**
+   * Get the category value with the given id, created on first use.
+   * Groups sharing a category value share its label.
+   */
+  private getCategoryValue(id: string, value: string | undefined): ModdleElement {
+    let categoryValue = this.categoryValues.get(id);
+    if (!categoryValue) {
+      categoryValue = this.moddle.create('bpmn:CategoryValue', { id });
+      this.categoryValues.set(id, categoryValue);
+    }
+    categoryValue['value'] ??= value;
+    return categoryValue;
+  }
+
   /**
    * Build an artifact element
    */
@@ -653,7 +722,8 @@ export class BpmnXmlGenerator {
 
     const bpmnArtifact = this.moddle.create(elementType, {
       id: artifact.id,
-      name: artifact.name,
+      // A group is labelled by its category value
+      name: artifact.type === 'group' ? undefined : artifact.name,
     });
 
     // Apply artifact-specific properties
@@ -661,7 +731,9 @@ export class BpmnXmlGenerator {
 
     if (artifact.type === 'textAnnotation') {
       bpmnArtifact['text'] = props['text'] as string | undefined;
-      bpmnArtifact['textFormat'] = props['textFormat'] as string | undefined;
+      if (props['textFormat'] !== undefined) {
+        bpmnArtifact['textFormat'] = props['textFormat'];
+      }
     }
 
     if (artifact.type === 'dataObjectReference' || artifact.type === 'dataObject') {
@@ -685,10 +757,9 @@ export class BpmnXmlGenerator {
       }
     }
 
-    if (artifact.type === 'group') {
-      if (props['categoryValueRef']) {
-        bpmnArtifact['categoryValueRef'] = { id: props['categoryValueRef'] as string };
-      }
+    if (artifact.type === 'group' && (artifact.name !== undefined || props['categoryValueRef'])) {
+      const categoryValueId = (props['categoryValueRef'] as string | undefined) ?? `${artifact.id}_categoryValue`;
+      bpmnArtifact['categoryValueRef'] = this.getCategoryValue(categoryValueId, artifact.name);
     }
 
     if (artifact.type === 'association') {
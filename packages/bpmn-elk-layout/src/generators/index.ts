@@ -1 +1,3 @@
 export { BpmnXmlGenerator } from './bpmn-xml-generator';
+export { BpmnDiagramReplacer } from './bpmn-diagram-replacer';
+export { SvgRenderer, type SvgRendererOptions } from './svg-renderer';
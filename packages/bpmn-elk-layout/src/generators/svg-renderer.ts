@@ -0,0 +1,855 @@
+/**
+ * SVG Renderer
+ * Draws a layouted diagram as a standalone SVG image using standard BPMN notation.
+ *
+ * Works without a browser or DOM: shapes and edges are taken from the diagram
+ * interchange model and their semantics (event definitions, task types, loop
+ * characteristics, ...) from the definitions model.
+ */
+
+import type { LayoutedGraph } from '../types/elk-output';
+import { ModelBuilder } from '../transform/model-builder';
+import { resolveGridSize } from '../transform/grid-snapper';
+import type {
+  BpmnModel,
+  DefinitionsModel,
+  FlowElementModel,
+  ArtifactModel,
+  ShapeModel,
+  EdgeModel,
+  BoundsModel,
+  PointModel,
+} from '../transform/model-builder';
+import type { LaneInfo } from '../transform/lane-resolver';
+import { ApproximateTextMeasurer, wrapText, type TextMeasurer } from '../text';
+import { resolveLayoutTheme, type LayoutThemeName, type LayoutThemeOverrides } from '../layout/layout-theme';
+import type { ElementSizeOptions } from '../layout/size-calculator';
+
+export interface SvgRendererOptions {
+  /**
+   * Empty space around the diagram
+   * @default 20
+   */
+  padding?: number;
+  /**
+   * Background color (e.g. 'white' or '#f5f5f5'); transparent when not set
+   */
+  background?: string;
+  /**
+   * Measures label text for line wrapping and external label bounds
+   * @default ApproximateTextMeasurer (7px per character, 14px for CJK)
+   */
+  textMeasurer?: TextMeasurer;
+  /**
+   * Layout theme of the rendered graph (label gaps, data object sizes), used
+   * when rendering a LayoutedGraph
+   * @default 'default'
+   */
+  theme?: LayoutThemeName | LayoutThemeOverrides;
+  /**
+   * Element size overrides of the rendered graph (data inputs and outputs of
+   * ioSpecifications), used when rendering a LayoutedGraph
+   */
+  sizes?: ElementSizeOptions;
+  /**
+   * Snap the rendered graph to a grid (`true` for 10px, or the grid size),
+   * used when rendering a LayoutedGraph
+   * @default false
+   */
+  snapToGrid?: boolean | number;
+}
+
+/**
+ * Semantic information needed to draw an element
+ */
+interface ElementInfo {
+  type: string;
+  name?: string;
+  properties: Record<string, unknown>;
+}
+
+// ============================================================================
+// Drawing Constants
+// ============================================================================
+
+const STROKE = '#000000';
+const FILL = '#ffffff';
+const FONT_FAMILY = 'Arial, sans-serif';
+const FONT_SIZE = 12;
+/** Width of the rotated name header of pools and lanes */
+const HEADER_SIZE = 30;
+/** Size of the markers at the bottom of activities */
+const MARKER_SIZE = 14;
+
+const DATA_OBJECT_TYPES = new Set(['dataObject', 'dataObjectReference', 'dataInput', 'dataOutput']);
+const SUBPROCESS_TYPES = new Set(['subProcess', 'transaction', 'adHocSubProcess', 'eventSubProcess']);
+
+const MARKER_DEFS = [
+  '<marker id="bpmn-sequenceflow-end" viewBox="0 0 20 20" refX="11" refY="10" markerWidth="10" markerHeight="10" orient="auto">',
+  `<path d="M 1 5 L 11 10 L 1 15 Z" fill="${STROKE}" stroke="${STROKE}" stroke-width="1"/>`,
+  '</marker>',
+  '<marker id="bpmn-messageflow-start" viewBox="0 0 20 20" refX="6" refY="6" markerWidth="20" markerHeight="20" orient="auto">',
+  `<circle cx="6" cy="6" r="3.5" fill="${FILL}" stroke="${STROKE}" stroke-width="1"/>`,
+  '</marker>',
+  '<marker id="bpmn-messageflow-end" viewBox="0 0 20 20" refX="8.5" refY="5" markerWidth="20" markerHeight="20" orient="auto">',
+  `<path d="M 1 5 L 1 2 L 8 5 L 1 8 Z" fill="${FILL}" stroke="${STROKE}" stroke-width="1"/>`,
+  '</marker>',
+  '<marker id="bpmn-association-end" viewBox="0 0 20 20" refX="11" refY="10" markerWidth="10" markerHeight="10" orient="auto">',
+  `<path d="M 1 5 L 11 10 L 1 15" fill="none" stroke="${STROKE}" stroke-width="1.5"/>`,
+  '</marker>',
+  '<marker id="bpmn-association-start" viewBox="0 0 20 20" refX="1" refY="10" markerWidth="10" markerHeight="10" orient="auto">',
+  `<path d="M 11 5 L 1 10 L 11 15" fill="none" stroke="${STROKE}" stroke-width="1.5"/>`,
+  '</marker>',
+  '<marker id="bpmn-conditional-flow-start" viewBox="0 0 20 20" refX="-1" refY="10" markerWidth="10" markerHeight="10" orient="auto">',
+  `<path d="M 0 10 L 8 6 L 16 10 L 8 14 Z" fill="${FILL}" stroke="${STROKE}" stroke-width="1"/>`,
+  '</marker>',
+  '<marker id="bpmn-default-flow-start" viewBox="0 0 20 20" refX="-5" refY="10" markerWidth="10" markerHeight="10" orient="auto">',
+  `<path d="M 6 4 L 10 16" fill="none" stroke="${STROKE}" stroke-width="1.5"/>`,
+  '</marker>',
+].join('');
+
+// ============================================================================
+// SVG Renderer
+// ============================================================================
+
+export class SvgRenderer {
+  private modelBuilder: ModelBuilder;
+  private padding: number;
+  private background?: string;
+  private textMeasurer: TextMeasurer;
+  private elements: Map<string, ElementInfo> = new Map();
+
+  constructor(options?: SvgRendererOptions) {
+    this.modelBuilder = new ModelBuilder({
+      textMeasurer: options?.textMeasurer,
+      theme: resolveLayoutTheme(options?.theme),
+      sizes: options?.sizes,
+      gridSize: resolveGridSize(options?.snapToGrid),
+    });
+    this.padding = options?.padding ?? 20;
+    this.background = options?.background;
+    this.textMeasurer = options?.textMeasurer ?? new ApproximateTextMeasurer();
+  }
+
+  /**
+   * Render a layouted graph or a BPMN model to an SVG document
+   */
+  render(input: LayoutedGraph | BpmnModel): string {
+    const model = this.isBpmnModel(input) ? input : this.modelBuilder.build(input);
+    const { shapes, edges } = model.diagram.plane;
+
+    this.elements = this.indexElements(model.definitions);
+
+    // Like bpmn-js, skip diagram elements without a semantic element
+    // (e.g. shapes of processes or of content inside collapsed subprocesses)
+    const visibleShapes = shapes.filter((shape) => this.elements.has(shape.bpmnElement));
+    const visibleEdges = edges.filter((edge) => this.elements.has(edge.bpmnElement));
+
+    const shapeParts: string[] = [];
+    const labelParts: string[] = [];
+    for (const shape of visibleShapes) {
+      const element = this.elements.get(shape.bpmnElement)!;
+      shapeParts.push(this.renderShape(shape, element));
+      labelParts.push(this.renderShapeLabel(shape, element));
+    }
+
+    const edgeParts: string[] = [];
+    for (const edge of visibleEdges) {
+      const element = this.elements.get(edge.bpmnElement)!;
+      edgeParts.push(this.renderEdge(edge, element));
+      labelParts.push(this.renderEdgeLabel(edge, element));
+    }
+
+    const view = this.calculateViewBox(visibleShapes, visibleEdges);
+    const background = this.background && this.background !== 'transparent'
+      ? [`<rect x="${this.num(view.x)}" y="${this.num(view.y)}" width="${this.num(view.width)}" height="${this.num(view.height)}" ` +
+          `fill="${this.escape(this.background)}"/>`]
+      : [];
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${this.num(view.width)}" height="${this.num(view.height)}" ` +
+        `viewBox="${this.num(view.x)} ${this.num(view.y)} ${this.num(view.width)} ${this.num(view.height)}">`,
+      `<defs>${MARKER_DEFS}</defs>`,
+      ...background,
+      `<g class="shapes">${shapeParts.join('')}</g>`,
+      `<g class="edges">${edgeParts.join('')}</g>`,
+      `<g class="labels" font-family="${FONT_FAMILY}" font-size="${FONT_SIZE}" fill="${STROKE}">${labelParts.join('')}</g>`,
+      '</svg>',
+    ].join('\n') + '\n';
+  }
+
+  private isBpmnModel(input: LayoutedGraph | BpmnModel): input is BpmnModel {
+    return 'definitions' in input && 'diagram' in input;
+  }
+
+  // ============================================================================
+  // Element Index
+  // ============================================================================
+
+  /**
+   * Index semantic elements by id so shapes and edges can look up what to draw
+   */
+  private indexElements(definitions: DefinitionsModel): Map<string, ElementInfo> {
+    const elements = new Map<string, ElementInfo>();
+
+    const addLanes = (lanes: LaneInfo[]) => {
+      for (const lane of lanes) {
+        elements.set(lane.id, { type: 'lane', name: lane.name, properties: {} });
+        if (lane.childLaneSet) {
+          addLanes(lane.childLaneSet.lanes);
+        }
+      }
+    };
+
+    const addArtifacts = (artifacts: ArtifactModel[]) => {
+      for (const artifact of artifacts) {
+        elements.set(artifact.id, { type: artifact.type, name: artifact.name, properties: artifact.properties });
+      }
+    };
+
+    const addFlowElements = (flowElements: FlowElementModel[]) => {
+      for (const element of flowElements) {
+        const properties = element.type === 'boundaryEvent'
+          ? { ...element.properties, cancelActivity: element.cancelActivity }
+          : element.properties;
+        elements.set(element.id, { type: element.type, name: element.name, properties });
+
+        for (const dataInput of element.ioSpecification?.dataInputs ?? []) {
+          elements.set(dataInput.id, {
+            type: 'dataInput',
+            name: dataInput.name,
+            properties: { isCollection: dataInput.isCollection },
+          });
+        }
+        for (const dataOutput of element.ioSpecification?.dataOutputs ?? []) {
+          elements.set(dataOutput.id, {
+            type: 'dataOutput',
+            name: dataOutput.name,
+            properties: { isCollection: dataOutput.isCollection },
+          });
+        }
+        for (const association of element.dataInputAssociations ?? []) {
+          elements.set(association.id, { type: 'dataInputAssociation', properties: {} });
+        }
+        for (const association of element.dataOutputAssociations ?? []) {
+          elements.set(association.id, { type: 'dataOutputAssociation', properties: {} });
+        }
+
+        addFlowElements(element.flowElements ?? []);
+        addArtifacts(element.artifacts ?? []);
+      }
+    };
+
+    for (const root of definitions.rootElements) {
+      if (root.type === 'collaboration') {
+        for (const participant of root.participants) {
+          elements.set(participant.id, {
+            type: 'participant',
+            name: participant.name,
+            properties: { isBlackBox: participant.isBlackBox },
+          });
+        }
+        for (const messageFlow of root.messageFlows) {
+          elements.set(messageFlow.id, { type: 'messageFlow', name: messageFlow.name, properties: {} });
+        }
+      } else {
+        addLanes(root.laneSet?.lanes ?? []);
+        addFlowElements(root.flowElements);
+        addArtifacts(root.artifacts);
+      }
+    }
+
+    return elements;
+  }
+
+  // ============================================================================
+  // Shapes
+  // ============================================================================
+
+  private renderShape(shape: ShapeModel, element: ElementInfo): string {
+    const type = element.type;
+    let content: string;
+
+    if (type === 'participant' || type === 'lane') {
+      content = this.renderSwimlane(shape, element);
+    } else if (type.endsWith('Event')) {
+      content = this.renderEvent(shape.bounds, type, element.properties);
+    } else if (type.endsWith('Gateway')) {
+      content = this.renderGateway(shape.bounds, type, element.properties);
+    } else if (DATA_OBJECT_TYPES.has(type)) {
+      content = this.renderDataObject(shape.bounds, type, element.properties);
+    } else if (type === 'dataStoreReference') {
+      content = this.renderDataStore(shape.bounds);
+    } else if (type === 'textAnnotation') {
+      content = this.renderTextAnnotation(shape.bounds);
+    } else if (type === 'group') {
+      content = this.renderGroup(shape.bounds);
+    } else {
+      content = this.renderActivity(shape, type, element.properties);
+    }
+
+    return `<g data-element-id="${this.escape(shape.bpmnElement)}">${content}</g>`;
+  }
+
+  /**
+   * Pools and lanes with their name header (left, or top for vertical swimlanes)
+   */
+  private renderSwimlane(shape: ShapeModel, element: ElementInfo): string {
+    const { x, y, width, height } = shape.bounds;
+    const isPool = element.type === 'participant';
+    const parts = [
+      this.rect(x, y, width, height, { fill: isPool ? FILL : 'none', strokeWidth: 1.5 }),
+    ];
+
+    if (isPool && element.properties.isBlackBox) {
+      return parts.join('');
+    }
+
+    if (shape.isHorizontal === false) {
+      parts.push(this.line(x, y + HEADER_SIZE, x + width, y + HEADER_SIZE, 1.5));
+    } else {
+      parts.push(this.line(x + HEADER_SIZE, y, x + HEADER_SIZE, y + height, 1.5));
+    }
+
+    return parts.join('');
+  }
+
+  private renderEvent(bounds: BoundsModel, type: string, properties: Record<string, unknown>): string {
+    const cx = bounds.x + bounds.width / 2;
+    const cy = bounds.y + bounds.height / 2;
+    const r = bounds.width / 2;
+    const parts: string[] = [];
+
+    if (type === 'startEvent') {
+      const dashed = properties.isInterrupting === false;
+      parts.push(this.circle(cx, cy, r, { strokeWidth: 2, dashArray: dashed ? '6,3' : undefined }));
+    } else if (type === 'endEvent') {
+      parts.push(this.circle(cx, cy, r, { strokeWidth: 4 }));
+    } else {
+      // Intermediate and boundary events have a double ring
+      const dashed = type === 'boundaryEvent' && properties.cancelActivity === false;
+      const dashArray = dashed ? '6,3' : undefined;
+      parts.push(this.circle(cx, cy, r, { strokeWidth: 1.5, dashArray }));
+      parts.push(this.circle(cx, cy, r - 3, { strokeWidth: 1.5, dashArray, fill: 'none' }));
+    }
+
+    const definition = properties.eventDefinitionType as string | undefined;
+    if (definition && definition !== 'none') {
+      const filled = type === 'endEvent' || type === 'intermediateThrowEvent';
+      parts.push(this.renderEventMarker(definition, cx, cy, r / 18, filled));
+    }
+
+    return parts.join('');
+  }
+
+  /**
+   * Event definition marker drawn in a frame centered on the event (ring radius 18)
+   */
+  private renderEventMarker(definition: string, cx: number, cy: number, scale: number, filled: boolean): string {
+    const fill = filled ? STROKE : FILL;
+    const style = `fill="${fill}" stroke="${STROKE}" stroke-width="1.5" stroke-linejoin="round"`;
+    let marker: string;
+
+    switch (definition) {
+      case 'message':
+        marker = `<rect x="-9" y="-6.5" width="18" height="13" ${style}/>` +
+          `<path d="M -9 -6.5 L 0 0.5 L 9 -6.5" fill="none" stroke="${filled ? FILL : STROKE}" stroke-width="1.5"/>`;
+        break;
+      case 'timer': {
+        const ticks: string[] = [];
+        for (let i = 0; i < 12; i++) {
+          const angle = (i * Math.PI) / 6;
+          ticks.push(`M ${this.num(Math.sin(angle) * 9)} ${this.num(-Math.cos(angle) * 9)} ` +
+            `L ${this.num(Math.sin(angle) * 11)} ${this.num(-Math.cos(angle) * 11)}`);
+        }
+        marker = `<circle cx="0" cy="0" r="11" fill="${FILL}" stroke="${STROKE}" stroke-width="2"/>` +
+          `<path d="${ticks.join(' ')} M 0 0 L 0 -8 M 0 0 L 5 2" fill="none" stroke="${STROKE}" stroke-width="1.5"/>`;
+        break;
+      }
+      case 'error':
+        marker = `<polygon points="-9,9 -3,-8 3,1 9,-9 3,8 -3,-1" ${style}/>`;
+        break;
+      case 'escalation':
+        marker = `<polygon points="0,-10 7,9 0,2 -7,9" ${style}/>`;
+        break;
+      case 'signal':
+        marker = `<polygon points="0,-10 10,7 -10,7" ${style}/>`;
+        break;
+      case 'conditional':
+        marker = `<rect x="-7" y="-9" width="14" height="18" fill="${FILL}" stroke="${STROKE}" stroke-width="1.5"/>` +
+          `<path d="M -4 -5 L 4 -5 M -4 -1 L 4 -1 M -4 3 L 4 3 M -4 7 L 4 7" fill="none" stroke="${STROKE}" stroke-width="1.5"/>`;
+        break;
+      case 'link':
+        marker = `<polygon points="-9,-4 2,-4 2,-9 10,0 2,9 2,4 -9,4" ${style}/>`;
+        break;
+      case 'compensation':
+        marker = `<polygon points="-10,0 -1,-7 -1,7" ${style}/><polygon points="-1,0 8,-7 8,7" ${style}/>`;
+        break;
+      case 'cancel':
+        marker = `<polygon points="-8,-5 -5,-8 0,-3 5,-8 8,-5 3,0 8,5 5,8 0,3 -5,8 -8,5 -3,0" ${style}/>`;
+        break;
+      case 'terminate':
+        marker = `<circle cx="0" cy="0" r="11" fill="${STROKE}" stroke="${STROKE}" stroke-width="1.5"/>`;
+        break;
+      case 'multiple':
+        marker = `<polygon points="0,-10 9.5,-3 6,8 -6,8 -9.5,-3" ${style}/>`;
+        break;
+      case 'parallelMultiple':
+        marker = '<polygon points="-2.5,-10 2.5,-10 2.5,-2.5 10,-2.5 10,2.5 2.5,2.5 2.5,10 -2.5,10 -2.5,2.5 -10,2.5 -10,-2.5 -2.5,-2.5" ' +
+          `fill="${FILL}" stroke="${STROKE}" stroke-width="1.5" stroke-linejoin="round"/>`;
+        break;
+      default:
+        return '';
+    }
+
+    return `<g transform="translate(${this.num(cx)} ${this.num(cy)}) scale(${this.num(scale)})">${marker}</g>`;
+  }
+
+  private renderGateway(bounds: BoundsModel, type: string, properties: Record<string, unknown>): string {
+    const { x, y, width, height } = bounds;
+    const cx = x + width / 2;
+    const cy = y + height / 2;
+    const diamond = `<polygon points="${this.points([
+      { x: cx, y },
+      { x: x + width, y: cy },
+      { x: cx, y: y + height },
+      { x, y: cy },
+    ])}" fill="${FILL}" stroke="${STROKE}" stroke-width="2" stroke-linejoin="round"/>`;
+
+    // Markers are drawn in a frame centered on the gateway (diamond size 50)
+    let marker: string;
+    switch (type) {
+      case 'exclusiveGateway':
+        marker = `<polygon points="-8,-11 0,-3 8,-11 11,-8 3,0 11,8 8,11 0,3 -8,11 -11,8 -3,0 -11,-8" fill="${STROKE}"/>`;
+        break;
+      case 'parallelGateway':
+        marker = `<polygon points="-2.5,-13 2.5,-13 2.5,-2.5 13,-2.5 13,2.5 2.5,2.5 2.5,13 -2.5,13 -2.5,2.5 -13,2.5 -13,-2.5 -2.5,-2.5" fill="${STROKE}"/>`;
+        break;
+      case 'inclusiveGateway':
+        marker = `<circle cx="0" cy="0" r="11" fill="none" stroke="${STROKE}" stroke-width="2.5"/>`;
+        break;
+      case 'complexGateway':
+        marker = `<path d="M 0 -13 L 0 13 M -13 0 L 13 0 M -9 -9 L 9 9 M -9 9 L 9 -9" fill="none" stroke="${STROKE}" stroke-width="3.5"/>`;
+        break;
+      case 'eventBasedGateway': {
+        const rings = properties.instantiate === true
+          ? `<circle cx="0" cy="0" r="13" fill="none" stroke="${STROKE}" stroke-width="1"/>`
+          : `<circle cx="0" cy="0" r="13" fill="none" stroke="${STROKE}" stroke-width="1"/>` +
+            `<circle cx="0" cy="0" r="10.5" fill="none" stroke="${STROKE}" stroke-width="1"/>`;
+        const inner = properties.eventGatewayType === 'Parallel'
+          ? '<polygon points="-2,-8 2,-8 2,-2 8,-2 8,2 2,2 2,8 -2,8 -2,2 -8,2 -8,-2 -2,-2" '
+          : '<polygon points="0,-7 6.5,-2.5 4,5.5 -4,5.5 -6.5,-2.5" ';
+        marker = rings + inner + `fill="none" stroke="${STROKE}" stroke-width="1.5" stroke-linejoin="round"/>`;
+        break;
+      }
+      default:
+        return diamond;
+    }
+
+    const scale = width / 50;
+    return diamond +
+      `<g transform="translate(${this.num(cx)} ${this.num(cy)}) scale(${this.num(scale)})">${marker}</g>`;
+  }
+
+  /**
+   * Tasks, subprocesses and call activities
+   */
+  private renderActivity(shape: ShapeModel, type: string, properties: Record<string, unknown>): string {
+    const { x, y, width, height } = shape.bounds;
+    const isSubProcess = SUBPROCESS_TYPES.has(type);
+    const isEventSubProcess = type === 'eventSubProcess' || properties.triggeredByEvent === true;
+    const parts: string[] = [];
+
+    if (type === 'transaction') {
+      parts.push(this.rect(x, y, width, height, { rx: 10, strokeWidth: 1.5 }));
+      parts.push(this.rect(x + 3, y + 3, width - 6, height - 6, { rx: 7, strokeWidth: 1.5, fill: 'none' }));
+    } else {
+      parts.push(this.rect(x, y, width, height, {
+        rx: 10,
+        strokeWidth: type === 'callActivity' ? 5 : 2,
+        dashArray: isEventSubProcess ? '2,3' : undefined,
+      }));
+    }
+
+    parts.push(this.renderTaskIcon(type, x, y));
+
+    // Markers at the bottom center: loop / multi-instance, ad-hoc, collapsed
+    const markers: string[] = [];
+    const loop = properties.loopCharacteristics as { loopType?: string; isSequential?: boolean } | undefined;
+    if (loop) {
+      if (loop.loopType === 'standard') {
+        markers.push('<path d="M 3.5 11 A 5.5 5.5 0 1 1 10.5 11" fill="none" stroke-width="1.5"/>' +
+          '<path d="M 0.5 8 L 3.5 11 L 0 12.5" fill="none" stroke-width="1.5"/>');
+      } else if (loop.isSequential) {
+        markers.push('<path d="M 1 2 L 13 2 M 1 7 L 13 7 M 1 12 L 13 12" fill="none" stroke-width="2"/>');
+      } else {
+        markers.push('<path d="M 2 1 L 2 13 M 7 1 L 7 13 M 12 1 L 12 13" fill="none" stroke-width="2"/>');
+      }
+    }
+    if (type === 'adHocSubProcess') {
+      markers.push('<path d="M 0.5 9 C 3 4, 6 4, 7 7 S 11 10, 13.5 5" fill="none" stroke-width="1.5"/>');
+    }
+    if (isSubProcess && shape.isExpanded !== true) {
+      markers.push('<rect x="0" y="0" width="14" height="14" fill="none" stroke-width="1"/>' +
+        '<path d="M 3 7 L 11 7 M 7 3 L 7 11" fill="none" stroke-width="1.5"/>');
+    }
+
+    const gap = 4;
+    const totalWidth = markers.length * MARKER_SIZE + (markers.length - 1) * gap;
+    markers.forEach((marker, index) => {
+      const markerX = x + (width - totalWidth) / 2 + index * (MARKER_SIZE + gap);
+      const markerY = y + height - MARKER_SIZE - 4;
+      parts.push(`<g transform="translate(${this.num(markerX)} ${this.num(markerY)})" stroke="${STROKE}">${marker}</g>`);
+    });
+
+    return parts.join('');
+  }
+
+  /**
+   * Task type icon in the top-left corner of the task
+   */
+  private renderTaskIcon(type: string, x: number, y: number): string {
+    let icon: string;
+
+    switch (type) {
+      case 'userTask':
+        icon = `<circle cx="15" cy="12" r="4" fill="${FILL}" stroke="${STROKE}" stroke-width="1"/>` +
+          `<path d="M 7 25 C 7 18, 23 18, 23 25 Z" fill="${FILL}" stroke="${STROKE}" stroke-width="1"/>`;
+        break;
+      case 'manualTask':
+        icon = `<path d="M 7 13 L 16 13 Q 18 13 18 15 Q 18 17 16 17 L 20 17 Q 22 17 22 19 Q 22 21 20 21 L 19 21 ` +
+          `Q 21 21 21 23 Q 21 25 19 25 L 9 25 Q 7 25 7 23 Z M 16 17 L 12 17 M 20 21 L 13 21" ` +
+          `fill="${FILL}" stroke="${STROKE}" stroke-width="1" stroke-linejoin="round"/>`;
+        break;
+      case 'serviceTask': {
+        const teeth: string[] = [];
+        for (let i = 0; i < 8; i++) {
+          const angle = (i * Math.PI) / 4;
+          teeth.push(`M ${this.num(15 + Math.cos(angle) * 5)} ${this.num(15 + Math.sin(angle) * 5)} ` +
+            `L ${this.num(15 + Math.cos(angle) * 9)} ${this.num(15 + Math.sin(angle) * 9)}`);
+        }
+        icon = `<path d="${teeth.join(' ')}" stroke="${STROKE}" stroke-width="3"/>` +
+          `<circle cx="15" cy="15" r="6" fill="${FILL}" stroke="${STROKE}" stroke-width="1"/>` +
+          `<circle cx="15" cy="15" r="2.5" fill="${FILL}" stroke="${STROKE}" stroke-width="1"/>`;
+        break;
+      }
+      case 'scriptTask':
+        icon = `<path d="M 10 6 L 21 6 Q 17 11 21 16 Q 25 21 21 26 L 10 26 Q 14 21 10 16 Q 6 11 10 6 Z" ` +
+          `fill="${FILL}" stroke="${STROKE}" stroke-width="1"/>` +
+          `<path d="M 11 10 L 18 10 M 13 14 L 20 14 M 13 18 L 20 18 M 11 22 L 18 22" fill="none" stroke="${STROKE}" stroke-width="1"/>`;
+        break;
+      case 'businessRuleTask':
+        icon = `<rect x="8" y="8" width="16" height="12" fill="${FILL}" stroke="${STROKE}" stroke-width="1"/>` +
+          `<rect x="8" y="8" width="16" height="3.5" fill="${STROKE}" stroke="${STROKE}" stroke-width="1"/>` +
+          `<path d="M 8 15.5 L 24 15.5 M 13 11.5 L 13 20" fill="none" stroke="${STROKE}" stroke-width="1"/>`;
+        break;
+      case 'sendTask':
+        icon = `<rect x="7" y="9" width="17" height="12" fill="${STROKE}" stroke="${STROKE}" stroke-width="1"/>` +
+          `<path d="M 7 9 L 15.5 15 L 24 9" fill="none" stroke="${FILL}" stroke-width="1"/>`;
+        break;
+      case 'receiveTask':
+        icon = `<rect x="7" y="9" width="17" height="12" fill="${FILL}" stroke="${STROKE}" stroke-width="1"/>` +
+          `<path d="M 7 9 L 15.5 15 L 24 9" fill="none" stroke="${STROKE}" stroke-width="1"/>`;
+        break;
+      default:
+        return '';
+    }
+
+    return `<g transform="translate(${this.num(x)} ${this.num(y)})">${icon}</g>`;
+  }
+
+  private renderDataObject(bounds: BoundsModel, type: string, properties: Record<string, unknown>): string {
+    const { x, y, width, height } = bounds;
+    const fold = Math.min(10, width / 3);
+    const parts = [
+      `<path d="M ${this.num(x)} ${this.num(y)} L ${this.num(x + width - fold)} ${this.num(y)} ` +
+        `L ${this.num(x + width)} ${this.num(y + fold)} L ${this.num(x + width)} ${this.num(y + height)} ` +
+        `L ${this.num(x)} ${this.num(y + height)} Z" fill="${FILL}" stroke="${STROKE}" stroke-width="1.5" stroke-linejoin="round"/>`,
+      `<path d="M ${this.num(x + width - fold)} ${this.num(y)} L ${this.num(x + width - fold)} ${this.num(y + fold)} ` +
+        `L ${this.num(x + width)} ${this.num(y + fold)}" fill="none" stroke="${STROKE}" stroke-width="1.5"/>`,
+    ];
+
+    if (type === 'dataInput' || type === 'dataOutput') {
+      const fill = type === 'dataOutput' ? STROKE : FILL;
+      parts.push(`<g transform="translate(${this.num(x)} ${this.num(y)})">` +
+        `<polygon points="4,7 10,7 10,4 15,9 10,14 10,11 4,11" fill="${fill}" stroke="${STROKE}" stroke-width="1"/></g>`);
+    }
+
+    if (properties.isCollection === true) {
+      const cx = x + width / 2;
+      const bottom = y + height - 3;
+      parts.push(`<path d="M ${this.num(cx - 5)} ${this.num(bottom - 10)} L ${this.num(cx - 5)} ${this.num(bottom)} ` +
+        `M ${this.num(cx)} ${this.num(bottom - 10)} L ${this.num(cx)} ${this.num(bottom)} ` +
+        `M ${this.num(cx + 5)} ${this.num(bottom - 10)} L ${this.num(cx + 5)} ${this.num(bottom)}" ` +
+        `fill="none" stroke="${STROKE}" stroke-width="2"/>`);
+    }
+
+    return parts.join('');
+  }
+
+  private renderDataStore(bounds: BoundsModel): string {
+    const { x, y, width, height } = bounds;
+    const rx = width / 2;
+    const ry = Math.min(8, height / 6);
+    const left = this.num(x);
+    const right = this.num(x + width);
+    const arc = `A ${this.num(rx)} ${this.num(ry)} 0 0 0`;
+
+    return `<path d="M ${left} ${this.num(y + ry)} ${arc} ${right} ${this.num(y + ry)} ` +
+      `L ${right} ${this.num(y + height - ry)} ${arc} ${left} ${this.num(y + height - ry)} Z" ` +
+      `fill="${FILL}" stroke="${STROKE}" stroke-width="1.5"/>` +
+      `<path d="M ${left} ${this.num(y + ry)} A ${this.num(rx)} ${this.num(ry)} 0 0 1 ${right} ${this.num(y + ry)} ` +
+      `M ${left} ${this.num(y + 2 * ry)} ${arc} ${right} ${this.num(y + 2 * ry)} ` +
+      `M ${left} ${this.num(y + 3 * ry)} ${arc} ${right} ${this.num(y + 3 * ry)}" ` +
+      `fill="none" stroke="${STROKE}" stroke-width="1.5"/>`;
+  }
+
+  private renderTextAnnotation(bounds: BoundsModel): string {
+    const { x, y, height } = bounds;
+    return `<path d="M ${this.num(x + 10)} ${this.num(y)} L ${this.num(x)} ${this.num(y)} ` +
+      `L ${this.num(x)} ${this.num(y + height)} L ${this.num(x + 10)} ${this.num(y + height)}" ` +
+      `fill="none" stroke="${STROKE}" stroke-width="1"/>`;
+  }
+
+  private renderGroup(bounds: BoundsModel): string {
+    return this.rect(bounds.x, bounds.y, bounds.width, bounds.height, {
+      rx: 10,
+      strokeWidth: 1,
+      fill: 'none',
+      dashArray: '10,5,2,5',
+    });
+  }
+
+  // ============================================================================
+  // Edges
+  // ============================================================================
+
+  private renderEdge(edge: EdgeModel, element: ElementInfo): string {
+    if (edge.waypoints.length < 2) return '';
+
+    const { type, properties } = element;
+    const attributes = [`d="${this.pathData(edge.waypoints)}"`, 'fill="none"', `stroke="${STROKE}"`, 'stroke-width="1.5"'];
+
+    switch (type) {
+      case 'messageFlow':
+        attributes.push('stroke-dasharray="10,11"');
+        attributes.push('marker-start="url(#bpmn-messageflow-start)"', 'marker-end="url(#bpmn-messageflow-end)"');
+        break;
+      case 'association':
+      case 'dataInputAssociation':
+      case 'dataOutputAssociation': {
+        attributes.push('stroke-dasharray="0.5,5"', 'stroke-linecap="round"');
+        const direction = type === 'association' ? properties.associationDirection : 'One';
+        if (direction === 'One' || direction === 'Both') {
+          attributes.push('marker-end="url(#bpmn-association-end)"');
+        }
+        if (direction === 'Both') {
+          attributes.push('marker-start="url(#bpmn-association-start)"');
+        }
+        break;
+      }
+      default: {
+        attributes.push('stroke-linejoin="round"', 'marker-end="url(#bpmn-sequenceflow-end)"');
+        const sourceRef = properties.sourceRef as string | undefined;
+        const source = sourceRef ? this.elements.get(sourceRef) : undefined;
+        const isDefault = properties.isDefault === true ||
+          (source?.properties.default !== undefined && source.properties.default === edge.bpmnElement);
+        if (isDefault) {
+          attributes.push('marker-start="url(#bpmn-default-flow-start)"');
+        } else if (properties.conditionExpression && !source?.type.endsWith('Gateway')) {
+          attributes.push('marker-start="url(#bpmn-conditional-flow-start)"');
+        }
+      }
+    }
+
+    return `<g data-element-id="${this.escape(edge.bpmnElement)}"><path ${attributes.join(' ')}/></g>`;
+  }
+
+  // ============================================================================
+  // Labels
+  // ============================================================================
+
+  private renderShapeLabel(shape: ShapeModel, element: ElementInfo): string {
+    const type = element.type;
+    const { x, y, width, height } = shape.bounds;
+
+    if (type === 'textAnnotation') {
+      const text = (element.properties.text as string | undefined) ?? element.name;
+      return this.text(text, { x: x + 5, y: y + 5, width: width - 10, height: height - 10 }, 'start', 'top');
+    }
+
+    const name = element.name;
+    if (!name) return '';
+
+    if (type === 'participant' || type === 'lane') {
+      if (type === 'participant' && element.properties.isBlackBox) {
+        return this.text(name, shape.bounds, 'middle', 'middle');
+      }
+      if (shape.isHorizontal === false) {
+        return this.text(name, { x, y, width, height: HEADER_SIZE }, 'middle', 'middle');
+      }
+      // Rotate the header text counter-clockwise around the header center
+      const cx = x + HEADER_SIZE / 2;
+      const cy = y + height / 2;
+      const rotated = this.text(name, { x: cx - height / 2, y: cy - HEADER_SIZE / 2, width: height, height: HEADER_SIZE }, 'middle', 'middle');
+      return `<g transform="rotate(-90 ${this.num(cx)} ${this.num(cy)})">${rotated}</g>`;
+    }
+
+    const hasExternalLabel = type.endsWith('Event') || type.endsWith('Gateway') ||
+      DATA_OBJECT_TYPES.has(type) || type === 'dataStoreReference';
+
+    if (hasExternalLabel || type === 'group') {
+      const bounds = shape.label?.bounds ?? (type === 'group'
+        ? { x, y: y + 5, width, height: this.textMeasurer.lineHeight }
+        : { x: x + width / 2 - 50, y: y + height + 4, width: 100, height: this.textMeasurer.lineHeight });
+      return this.text(name, bounds, 'middle', 'top');
+    }
+
+    if (SUBPROCESS_TYPES.has(type) && shape.isExpanded === true) {
+      return this.text(name, { x: x + 10, y: y + 5, width: width - 20, height: height - 10 }, 'start', 'top');
+    }
+
+    // Activities: centered inside the shape
+    return this.text(name, { x: x + 5, y: y + 5, width: width - 10, height: height - 10 }, 'middle', 'middle');
+  }
+
+  private renderEdgeLabel(edge: EdgeModel, element: ElementInfo): string {
+    const name = element.name;
+    if (!name) return '';
+
+    const bounds = edge.label?.bounds ?? this.edgeMidpointBounds(edge.waypoints);
+    return this.text(name, bounds, 'middle', 'top');
+  }
+
+  private edgeMidpointBounds(waypoints: PointModel[]): BoundsModel {
+    const index = Math.max(0, Math.floor((waypoints.length - 1) / 2));
+    const from = waypoints[index]!;
+    const to = waypoints[index + 1] ?? from;
+    const mx = (from.x + to.x) / 2;
+    const my = (from.y + to.y) / 2;
+    return { x: mx - 50, y: my - this.textMeasurer.lineHeight - 2, width: 100, height: this.textMeasurer.lineHeight };
+  }
+
+  /**
+   * Draw wrapped text inside a box
+   */
+  private text(
+    content: string | undefined,
+    bounds: BoundsModel,
+    align: 'start' | 'middle',
+    verticalAlign: 'top' | 'middle'
+  ): string {
+    if (!content) return '';
+
+    const lines = wrapText(content, Math.max(bounds.width, 1), this.textMeasurer);
+    const textHeight = lines.length * this.textMeasurer.lineHeight;
+    const top = verticalAlign === 'middle'
+      ? bounds.y + (bounds.height - textHeight) / 2
+      : bounds.y;
+    const x = align === 'middle' ? bounds.x + bounds.width / 2 : bounds.x;
+
+    const tspans = lines.map((line, index) =>
+      `<tspan x="${this.num(x)}" y="${this.num(top + index * this.textMeasurer.lineHeight + FONT_SIZE - 1)}">${this.escape(line)}</tspan>`
+    );
+
+    return `<text text-anchor="${align}">${tspans.join('')}</text>`;
+  }
+
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
+  /**
+   * Bounding box of all shapes, labels and edges plus padding
+   */
+  private calculateViewBox(shapes: ShapeModel[], edges: EdgeModel[]): BoundsModel {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+
+    const include = (bounds: BoundsModel) => {
+      minX = Math.min(minX, bounds.x);
+      minY = Math.min(minY, bounds.y);
+      maxX = Math.max(maxX, bounds.x + bounds.width);
+      maxY = Math.max(maxY, bounds.y + bounds.height);
+    };
+
+    for (const shape of shapes) {
+      include(shape.bounds);
+      if (shape.label?.bounds) include(shape.label.bounds);
+    }
+    for (const edge of edges) {
+      for (const point of edge.waypoints) {
+        include({ x: point.x, y: point.y, width: 0, height: 0 });
+      }
+      if (edge.label?.bounds) include(edge.label.bounds);
+    }
+
+    if (minX === Infinity) {
+      return { x: 0, y: 0, width: this.padding * 2, height: this.padding * 2 };
+    }
+
+    return {
+      x: minX - this.padding,
+      y: minY - this.padding,
+      width: maxX - minX + this.padding * 2,
+      height: maxY - minY + this.padding * 2,
+    };
+  }
+
+  private rect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    style: { rx?: number; strokeWidth: number; fill?: string; dashArray?: string }
+  ): string {
+    const rx = style.rx ? ` rx="${style.rx}" ry="${style.rx}"` : '';
+    const dash = style.dashArray ? ` stroke-dasharray="${style.dashArray}"` : '';
+    return `<rect x="${this.num(x)}" y="${this.num(y)}" width="${this.num(width)}" height="${this.num(height)}"${rx} ` +
+      `fill="${style.fill ?? FILL}" stroke="${STROKE}" stroke-width="${style.strokeWidth}"${dash}/>`;
+  }
+
+  private circle(
+    cx: number,
+    cy: number,
+    r: number,
+    style: { strokeWidth: number; fill?: string; dashArray?: string }
+  ): string {
+    const dash = style.dashArray ? ` stroke-dasharray="${style.dashArray}"` : '';
+    return `<circle cx="${this.num(cx)}" cy="${this.num(cy)}" r="${this.num(r)}" ` +
+      `fill="${style.fill ?? FILL}" stroke="${STROKE}" stroke-width="${style.strokeWidth}"${dash}/>`;
+  }
+
+  private line(x1: number, y1: number, x2: number, y2: number, strokeWidth: number): string {
+    return `<line x1="${this.num(x1)}" y1="${this.num(y1)}" x2="${this.num(x2)}" y2="${this.num(y2)}" ` +
+      `stroke="${STROKE}" stroke-width="${strokeWidth}"/>`;
+  }
+
+  private pathData(points: PointModel[]): string {
+    return points
+      .map((point, index) => `${index === 0 ? 'M' : 'L'} ${this.num(point.x)} ${this.num(point.y)}`)
+      .join(' ');
+  }
+
+  private points(points: PointModel[]): string {
+    return points.map((point) => `${this.num(point.x)},${this.num(point.y)}`).join(' ');
+  }
+
+  /**
+   * Format a coordinate with at most two decimals
+   */
+  private num(value: number): string {
+    return String(Math.round(value * 100) / 100);
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
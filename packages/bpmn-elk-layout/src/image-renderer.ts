@@ -0,0 +1,159 @@
+/**
+ * Image Renderer (Node.js only)
+ *
+ * Converts SVG images produced by SvgRenderer to PNG or PDF using a headless
+ * Chromium from the optional `playwright` package.
+ */
+
+import { extname } from 'path';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ImageFormat = 'png' | 'pdf';
+
+export interface ImageRendererOptions {
+  /**
+   * Scale factor (pixel density for PNG, zoom for PDF pages fitted to the diagram)
+   * @default 1
+   */
+  scale?: number;
+  /** PDF page size such as 'A4' or 'Letter'; by default the page fits the diagram */
+  pageSize?: string;
+  /** Use landscape orientation for PDF page sizes */
+  landscape?: boolean;
+}
+
+const FORMATS = ['svg', 'png', 'pdf'] as const;
+
+type ChromiumLauncher = typeof import('playwright')['chromium'];
+
+// ============================================================================
+// Image Renderer
+// ============================================================================
+
+export class ImageRenderer {
+  private scale: number;
+  private pageSize?: string;
+  private landscape: boolean;
+
+  constructor(options?: ImageRendererOptions) {
+    this.scale = options?.scale ?? 1;
+    this.pageSize = options?.pageSize;
+    this.landscape = options?.landscape ?? false;
+
+    if (!(this.scale > 0)) {
+      throw new Error(`Invalid scale: ${options?.scale} (must be a positive number)`);
+    }
+  }
+
+  /**
+   * Render an SVG document to a PNG or PDF file buffer
+   */
+  async render(svg: string, format: ImageFormat): Promise<Buffer> {
+    const { width, height } = this.getSvgSize(svg);
+    const chromium = await this.loadChromium();
+
+    const browser = await chromium.launch({
+      headless: true,
+      args: ['--disable-gpu', '--no-sandbox'],
+    });
+
+    try {
+      if (format === 'png') {
+        const page = await browser.newPage({
+          viewport: { width: Math.ceil(width), height: Math.ceil(height) },
+          deviceScaleFactor: this.scale,
+        });
+        await page.setContent(this.buildPage(svg, `width: ${width}px; height: ${height}px;`));
+
+        return await page.screenshot({
+          type: 'png',
+          omitBackground: true,
+          clip: { x: 0, y: 0, width, height },
+        });
+      }
+
+      const page = await browser.newPage();
+
+      if (this.pageSize) {
+        // Fit the diagram into the page, keeping its aspect ratio
+        await page.setContent(this.buildPage(svg, 'width: 100vw; height: 100vh;'));
+        return await page.pdf({
+          format: this.pageSize,
+          landscape: this.landscape,
+          printBackground: true,
+          pageRanges: '1',
+        });
+      }
+
+      const pageWidth = width * this.scale;
+      const pageHeight = height * this.scale;
+      await page.setContent(this.buildPage(svg, `width: ${pageWidth}px; height: ${pageHeight}px;`));
+      return await page.pdf({
+        width: `${Math.ceil(pageWidth)}px`,
+        height: `${Math.ceil(pageHeight)}px`,
+        printBackground: true,
+        pageRanges: '1',
+      });
+    } finally {
+      await browser.close();
+    }
+  }
+
+  /**
+   * Read the size of the SVG root element
+   */
+  private getSvgSize(svg: string): { width: number; height: number } {
+    const root = svg.match(/<svg\b[^>]*>/)?.[0] ?? '';
+    const width = Number(root.match(/\swidth="([\d.]+)"/)?.[1]);
+    const height = Number(root.match(/\sheight="([\d.]+)"/)?.[1]);
+
+    if (!(width > 0) || !(height > 0)) {
+      throw new Error('Invalid SVG: the root element needs numeric width and height attributes');
+    }
+
+    return { width, height };
+  }
+
+  private buildPage(svg: string, svgStyle: string): string {
+    return '<!DOCTYPE html><html><head><style>' +
+      '@page { margin: 0; } html, body { margin: 0; padding: 0; background: transparent; } ' +
+      `svg { display: block; ${svgStyle} }` +
+      `</style></head><body>${svg}</body></html>`;
+  }
+
+  private async loadChromium(): Promise<ChromiumLauncher> {
+    try {
+      const playwright = await import('playwright');
+      return playwright.chromium;
+    } catch {
+      throw new Error(
+        "PNG and PDF output requires the optional 'playwright' package. " +
+        'Install it with: npm install playwright && npx playwright install chromium'
+      );
+    }
+  }
+}
+
+// ============================================================================
+// Format Resolution
+// ============================================================================
+
+/**
+ * Output format of an explicit format name, else of the output file's extension.
+ * Without either (e.g. output to stdout) the format is SVG.
+ * @throws when the format or the extension is not svg, png or pdf
+ */
+export function resolveImageFormat(format?: string, output?: string): ImageFormat | 'svg' {
+  const name = (format ?? extname(output ?? '').slice(1)).toLowerCase();
+
+  if (!name) {
+    return 'svg';
+  }
+  if (!(FORMATS as readonly string[]).includes(name)) {
+    throw new Error(`Unsupported format: ${name} (expected svg, png or pdf)`);
+  }
+  return name as ImageFormat | 'svg';
+}
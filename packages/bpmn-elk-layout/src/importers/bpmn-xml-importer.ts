@@ -0,0 +1,906 @@
+/**
+ * BPMN XML Importer
+ * Parses BPMN 2.0 XML using bpmn-moddle and rebuilds the ELK-BPMN JSON graph.
+ * This is the inverse of ModelBuilder + BpmnXmlGenerator: semantics are read back,
+ * while diagram coordinates are dropped so the graph can be laid out again.
+ */
+
+import BpmnModdle from 'bpmn-moddle';
+import type {
+  ElkBpmnGraph,
+  Collaboration,
+  Participant,
+  Process,
+  Lane,
+  FlowNode,
+  BoundaryEvent,
+  Artifact,
+  SequenceFlow,
+  MessageFlow,
+  DataAssociation,
+  Association,
+  Label,
+  EventDefinitionType,
+  LoopCharacteristics,
+  IoSpecification,
+  FormalExpression,
+} from '../types/elk-bpmn';
+import { BPMN_ELEMENT_MAP, EVENT_DEFINITION_MAP } from '../types/bpmn-constants';
+
+// Type definitions for bpmn-moddle elements
+interface ModdleElement {
+  $type: string;
+  id?: string;
+  [key: string]: unknown;
+}
+
+type ContainerChild = Lane | FlowNode;
+type ContainerEdge = SequenceFlow | DataAssociation | Association;
+
+interface ContainerContent {
+  /** Flow nodes and artifacts, keyed by id in document order */
+  nodes: Map<string, FlowNode>;
+  edges: ContainerEdge[];
+}
+
+/**
+ * Reverse lookup of BPMN_ELEMENT_MAP (moddle type -> ELK-BPMN type).
+ * The first entry wins, so 'bpmn:SubProcess' resolves to 'subProcess';
+ * event subprocesses are detected via triggeredByEvent.
+ */
+const ELEMENT_TYPE_BY_MODDLE_TYPE: Record<string, string> = {};
+for (const [type, moddleType] of Object.entries(BPMN_ELEMENT_MAP)) {
+  if (!(moddleType in ELEMENT_TYPE_BY_MODDLE_TYPE)) {
+    ELEMENT_TYPE_BY_MODDLE_TYPE[moddleType] = type;
+  }
+}
+
+/**
+ * Reverse lookup of EVENT_DEFINITION_MAP (moddle type -> eventDefinitionType)
+ */
+const EVENT_DEFINITION_BY_MODDLE_TYPE: Record<string, EventDefinitionType> = {};
+for (const [type, moddleType] of Object.entries(EVENT_DEFINITION_MAP)) {
+  if (moddleType) {
+    EVENT_DEFINITION_BY_MODDLE_TYPE[moddleType] = type as EventDefinitionType;
+  }
+}
+
+const ARTIFACT_NODE_TYPES = new Set([
+  'bpmn:DataObjectReference',
+  'bpmn:DataStoreReference',
+  'bpmn:TextAnnotation',
+  'bpmn:Group',
+]);
+
+export class BpmnXmlImporter {
+  private moddle: BpmnModdle;
+  // bpmnElement id -> isExpanded flag from the existing diagram
+  private expandedById = new Map<string, boolean>();
+  // element -> property -> id of a reference moddle could not resolve
+  private unresolvedRefs = new WeakMap<ModdleElement, Map<string, string>>();
+
+  constructor() {
+    this.moddle = new BpmnModdle();
+  }
+
+  /**
+   * Parse BPMN 2.0 XML and rebuild the ELK-BPMN JSON graph
+   */
+  async import(xml: string): Promise<ElkBpmnGraph> {
+    const definitions = await this.parse(xml);
+    return this.buildGraph(definitions);
+  }
+
+  /**
+   * Parse BPMN 2.0 XML into a bpmn-moddle definitions element.
+   * Unresolved references are remembered, so ids that point to no element
+   * (like a loopDataInputRef naming a process variable) are kept.
+   */
+  async parse(xml: string): Promise<ModdleElement> {
+    try {
+      const { rootElement, warnings } = await this.moddle.fromXML(xml, 'bpmn:Definitions');
+      for (const warning of warnings) {
+        this.collectUnresolvedReference(warning);
+      }
+      return rootElement;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to parse BPMN XML: ${message}`);
+    }
+  }
+
+  private collectUnresolvedReference(warning: { element?: ModdleElement; property?: string; value?: unknown }): void {
+    const { element, property, value } = warning;
+    if (!element || typeof property !== 'string' || typeof value !== 'string') {
+      return;
+    }
+    const refs = this.unresolvedRefs.get(element) ?? new Map<string, string>();
+    // Properties are reported with their namespace prefix (bpmn:loopDataInputRef)
+    refs.set(property.slice(property.indexOf(':') + 1), value);
+    this.unresolvedRefs.set(element, refs);
+  }
+
+  /**
+   * Id of a referenced element, or of the reference moddle could not resolve
+   */
+  private referenceId(element: ModdleElement, property: string): string | undefined {
+    return refId(element[property]) ?? this.unresolvedRefs.get(element)?.get(property);
+  }
+
+  /**
+   * Build the ELK-BPMN JSON graph from parsed definitions
+   */
+  buildGraph(definitions: ModdleElement): ElkBpmnGraph {
+    this.expandedById = this.collectExpandedFlags(definitions);
+
+    const rootElements = list(definitions['rootElements']);
+    const graph: ElkBpmnGraph = {
+      id: definitions.id ?? 'definitions',
+      bpmn: {
+        targetNamespace: definitions['targetNamespace'] as string | undefined,
+        exporter: definitions['exporter'] as string | undefined,
+        exporterVersion: definitions['exporterVersion'] as string | undefined,
+      },
+      children: [],
+    };
+
+    // Global definitions
+    const messages = rootElements.filter((e) => e.$type === 'bpmn:Message');
+    const signals = rootElements.filter((e) => e.$type === 'bpmn:Signal');
+    const errors = rootElements.filter((e) => e.$type === 'bpmn:Error');
+    const escalations = rootElements.filter((e) => e.$type === 'bpmn:Escalation');
+
+    if (messages.length > 0) {
+      graph.messages = messages.map((m) => ({ id: m.id!, name: m['name'] as string | undefined }));
+    }
+    if (signals.length > 0) {
+      graph.signals = signals.map((s) => ({ id: s.id!, name: s['name'] as string | undefined }));
+    }
+    if (errors.length > 0) {
+      graph.errors = errors.map((e) => ({
+        id: e.id!,
+        name: e['name'] as string | undefined,
+        errorCode: e['errorCode'] as string | undefined,
+      }));
+    }
+    if (escalations.length > 0) {
+      graph.escalations = escalations.map((e) => ({
+        id: e.id!,
+        name: e['name'] as string | undefined,
+        escalationCode: e['escalationCode'] as string | undefined,
+      }));
+    }
+
+    // Collaborations consume the processes referenced by their participants
+    const processes = rootElements.filter((e) => e.$type === 'bpmn:Process');
+    const consumedProcessIds = new Set<string>();
+
+    for (const collab of rootElements.filter((e) => e.$type === 'bpmn:Collaboration')) {
+      graph.children.push(this.buildCollaboration(collab, consumedProcessIds));
+    }
+
+    for (const process of processes) {
+      if (!consumedProcessIds.has(process.id!)) {
+        graph.children.push(this.buildProcess(process));
+      }
+    }
+
+    if (graph.children.length === 0) {
+      throw new Error('Cannot import BPMN XML: no process or collaboration found in definitions.');
+    }
+
+    return graph;
+  }
+
+  /**
+   * Collect isExpanded flags from BPMNShapes of all diagrams
+   */
+  private collectExpandedFlags(definitions: ModdleElement): Map<string, boolean> {
+    const flags = new Map<string, boolean>();
+    for (const diagram of list(definitions['diagrams'])) {
+      const plane = diagram['plane'] as ModdleElement | undefined;
+      for (const planeElement of list(plane?.['planeElement'])) {
+        const elementId = refId(planeElement['bpmnElement']);
+        if (elementId && typeof planeElement['isExpanded'] === 'boolean') {
+          flags.set(elementId, planeElement['isExpanded']);
+        }
+      }
+    }
+    return flags;
+  }
+
+  /**
+   * Build a collaboration with its participants and message flows
+   */
+  private buildCollaboration(collab: ModdleElement, consumedProcessIds: Set<string>): Collaboration {
+    const participants: Participant[] = list(collab['participants']).map((p) => {
+      const process = p['processRef'] as ModdleElement | undefined;
+      const participant: Participant = {
+        id: p.id!,
+        bpmn: {
+          type: 'participant',
+          name: p['name'] as string | undefined,
+        },
+      };
+
+      const multiplicity = p['participantMultiplicity'] as ModdleElement | undefined;
+      if (multiplicity) {
+        participant.bpmn.participantMultiplicity = {
+          minimum: multiplicity['minimum'] as number | undefined,
+          maximum: multiplicity['maximum'] as number | undefined,
+        };
+      }
+
+      if (!process?.id) {
+        participant.bpmn.isBlackBox = true;
+        return participant;
+      }
+
+      consumedProcessIds.add(process.id);
+      participant.bpmn.processRef = process.id;
+
+      const { children, edges, hasLanes } = this.buildProcessContent(process, true);
+      participant.children = children;
+      // Participant edges are typed as sequence flows, but ModelBuilder reads data associations from them too
+      participant.edges = edges as SequenceFlow[];
+      if (hasLanes) {
+        participant.layoutOptions = { 'elk.partitioning.activate': true };
+      }
+
+      return participant;
+    });
+
+    const messageFlows: MessageFlow[] = list(collab['messageFlows']).filter(hasResolvedEnds).map((mf) => ({
+      id: mf.id!,
+      sources: [refId(mf['sourceRef'])!],
+      targets: [refId(mf['targetRef'])!],
+      bpmn: {
+        type: 'messageFlow',
+        name: mf['name'] as string | undefined,
+        messageRef: refId(mf['messageRef']),
+      },
+      ...nameLabels(mf),
+    }));
+
+    const collaboration: Collaboration = {
+      id: collab.id!,
+      bpmn: {
+        type: 'collaboration',
+        name: collab['name'] as string | undefined,
+      },
+      children: participants,
+    };
+
+    if (own(collab, 'isClosed') !== undefined) {
+      collaboration.bpmn.isClosed = collab['isClosed'] as boolean;
+    }
+    if (messageFlows.length > 0) {
+      collaboration.edges = messageFlows;
+    }
+
+    return collaboration;
+  }
+
+  /**
+   * Build a standalone process
+   */
+  private buildProcess(processElement: ModdleElement): Process {
+    // Lanes of a bare process are laid out as plain containers, as in hand-written JSON
+    const { children, edges } = this.buildProcessContent(processElement, false);
+
+    const process: Process = {
+      id: processElement.id!,
+      bpmn: {
+        type: 'process',
+        name: processElement['name'] as string | undefined,
+      },
+      children,
+      // Process edges are not typed for associations, but ModelBuilder collects them from here
+      edges: edges as Process['edges'],
+    };
+
+    if (own(processElement, 'isExecutable') !== undefined) {
+      process.bpmn.isExecutable = processElement['isExecutable'] as boolean;
+    }
+    if (own(processElement, 'processType') !== undefined) {
+      process.bpmn.processType = processElement['processType'] as Process['bpmn']['processType'];
+    }
+    if (own(processElement, 'isClosed') !== undefined) {
+      process.bpmn.isClosed = processElement['isClosed'] as boolean;
+    }
+
+    return process;
+  }
+
+  /**
+   * Build the children and edges of a process, grouping flow nodes into lanes
+   * @param partitionLanes - Number the lanes as ELK partitions (pools stack their lanes in this order)
+   */
+  private buildProcessContent(processElement: ModdleElement, partitionLanes: boolean): {
+    children: ContainerChild[];
+    edges: ContainerEdge[];
+    hasLanes: boolean;
+  } {
+    const { nodes, edges } = this.buildContainerContent(processElement);
+    const laneSet = list(processElement['laneSets'])[0];
+    const lanes = list(laneSet?.['lanes']);
+
+    if (lanes.length === 0) {
+      return { children: [...nodes.values()], edges, hasLanes: false };
+    }
+
+    const assigned = new Set<string>();
+    const laneChildren: Lane[] = lanes.map((lane, index) => {
+      const built = this.buildLane(lane, nodes, assigned);
+      if (partitionLanes) {
+        built.layoutOptions = { 'elk.partitioning.partition': index };
+      }
+      return built;
+    });
+
+    // Nodes not referenced by any lane (typically artifacts) stay at process level
+    const unassigned = [...nodes.values()].filter((node) => !assigned.has(node.id));
+
+    return { children: [...laneChildren, ...unassigned], edges, hasLanes: true };
+  }
+
+  /**
+   * Build a lane, resolving flowNodeRefs to nodes.
+   * Nodes are assigned to the deepest lane that references them.
+   */
+  private buildLane(
+    laneElement: ModdleElement,
+    nodes: Map<string, FlowNode>,
+    assigned: Set<string>
+  ): Lane {
+    const lane: Lane = {
+      id: laneElement.id!,
+      bpmn: {
+        type: 'lane',
+        name: laneElement['name'] as string | undefined,
+      },
+    };
+
+    const children: ContainerChild[] = [];
+    const childLaneSet = laneElement['childLaneSet'] as ModdleElement | undefined;
+    for (const childLane of list(childLaneSet?.['lanes'])) {
+      children.push(this.buildLane(childLane, nodes, assigned));
+    }
+
+    for (const ref of list(laneElement['flowNodeRef'])) {
+      const node = ref.id ? nodes.get(ref.id) : undefined;
+      if (node && !assigned.has(node.id)) {
+        assigned.add(node.id);
+        children.push(node);
+      }
+    }
+
+    lane.children = children;
+    return lane;
+  }
+
+  /**
+   * Build flow nodes, artifacts and edges for a process or subprocess.
+   * Boundary events are attached to their host node.
+   */
+  private buildContainerContent(container: ModdleElement): ContainerContent {
+    const nodes = new Map<string, FlowNode>();
+    const edges: ContainerEdge[] = [];
+    const boundaryEvents: ModdleElement[] = [];
+    const flowElements = list(container['flowElements']);
+
+    // Gateway default flows are marked on the sequence flow itself
+    const defaultFlowIds = new Set<string>();
+    for (const element of flowElements) {
+      const defaultFlowId = refId(element['default']);
+      if (defaultFlowId) {
+        defaultFlowIds.add(defaultFlowId);
+      }
+    }
+
+    for (const element of flowElements) {
+      if (element.$type === 'bpmn:SequenceFlow') {
+        if (hasResolvedEnds(element)) {
+          edges.push(this.buildSequenceFlow(element, defaultFlowIds));
+        }
+      } else if (element.$type === 'bpmn:BoundaryEvent') {
+        boundaryEvents.push(element);
+      } else if (ARTIFACT_NODE_TYPES.has(element.$type)) {
+        nodes.set(element.id!, this.buildArtifactNode(element));
+      } else if (ELEMENT_TYPE_BY_MODDLE_TYPE[element.$type] && element.$type !== 'bpmn:DataObject') {
+        nodes.set(element.id!, this.buildFlowNode(element));
+        edges.push(...this.buildDataAssociations(element));
+      }
+    }
+
+    for (const artifact of list(container['artifacts'])) {
+      if (artifact.$type === 'bpmn:Association') {
+        if (hasResolvedEnds(artifact)) {
+          edges.push(this.buildAssociation(artifact));
+        }
+      } else if (ARTIFACT_NODE_TYPES.has(artifact.$type)) {
+        nodes.set(artifact.id!, this.buildArtifactNode(artifact));
+      }
+    }
+
+    for (const element of boundaryEvents) {
+      const hostId = refId(element['attachedToRef']);
+      const host = hostId ? nodes.get(hostId) : undefined;
+      if (!host) {
+        throw new Error(`Boundary event "${element.id}" is attached to unknown activity "${hostId}"`);
+      }
+      host.boundaryEvents = host.boundaryEvents ?? [];
+      host.boundaryEvents.push(this.buildBoundaryEvent(element, hostId!));
+      edges.push(...this.buildDataAssociations(element));
+    }
+
+    return { nodes, edges };
+  }
+
+  /**
+   * Build a flow node (event, task, gateway, subprocess, call activity)
+   */
+  private buildFlowNode(element: ModdleElement): FlowNode {
+    const type = ELEMENT_TYPE_BY_MODDLE_TYPE[element.$type]!;
+    const bpmn: Record<string, unknown> = {
+      type,
+      name: element['name'] as string | undefined,
+    };
+    const node: FlowNode = {
+      id: element.id!,
+      bpmn: bpmn as unknown as FlowNode['bpmn'],
+      ...nameLabels(element),
+    };
+
+    const documentation = list(element['documentation'])[0]?.['text'];
+    if (typeof documentation === 'string') {
+      bpmn['documentation'] = documentation;
+    }
+    if (own(element, 'isForCompensation') !== undefined) {
+      bpmn['isForCompensation'] = element['isForCompensation'];
+    }
+
+    if (element.$type.endsWith('Event')) {
+      this.applyEventProperties(bpmn, element);
+    }
+
+    if (type === 'task' || type.endsWith('Task')) {
+      this.applyTaskProperties(bpmn, element);
+    }
+
+    if (type.endsWith('Gateway')) {
+      this.applyGatewayProperties(bpmn, element);
+    }
+
+    if (type === 'subProcess' || type === 'transaction' || type === 'adHocSubProcess') {
+      this.applySubProcessProperties(node, bpmn, element);
+    }
+
+    if (type === 'callActivity' && element['calledElement']) {
+      bpmn['calledElement'] = element['calledElement'];
+    }
+
+    const loop = element['loopCharacteristics'] as ModdleElement | undefined;
+    if (loop) {
+      bpmn['loopCharacteristics'] = this.buildLoopCharacteristics(loop);
+    }
+
+    return node;
+  }
+
+  /**
+   * Apply event definition properties
+   */
+  private applyEventProperties(bpmn: Record<string, unknown>, element: ModdleElement): void {
+    const eventDefinitions = list(element['eventDefinitions']);
+
+    if (eventDefinitions.length === 0) {
+      bpmn['eventDefinitionType'] = 'none';
+    } else if (eventDefinitions.length > 1) {
+      bpmn['eventDefinitionType'] = element['parallelMultiple'] ? 'parallelMultiple' : 'multiple';
+    } else {
+      bpmn['eventDefinitionType'] = EVENT_DEFINITION_BY_MODDLE_TYPE[eventDefinitions[0]!.$type] ?? 'none';
+    }
+
+    if (own(element, 'parallelMultiple') !== undefined) {
+      bpmn['parallelMultiple'] = element['parallelMultiple'];
+    }
+    if (own(element, 'isInterrupting') !== undefined) {
+      bpmn['isInterrupting'] = element['isInterrupting'];
+    }
+
+    for (const eventDef of eventDefinitions) {
+      switch (eventDef.$type) {
+        case 'bpmn:MessageEventDefinition':
+          assignDefined(bpmn, 'messageRef', refId(eventDef['messageRef']));
+          break;
+        case 'bpmn:SignalEventDefinition':
+          assignDefined(bpmn, 'signalRef', refId(eventDef['signalRef']));
+          break;
+        case 'bpmn:ErrorEventDefinition':
+          assignDefined(bpmn, 'errorRef', refId(eventDef['errorRef']));
+          break;
+        case 'bpmn:EscalationEventDefinition':
+          assignDefined(bpmn, 'escalationRef', refId(eventDef['escalationRef']));
+          break;
+        case 'bpmn:TimerEventDefinition': {
+          const timer: Record<string, string> = {};
+          assignDefined(timer, 'timeDate', expressionBody(eventDef['timeDate']));
+          assignDefined(timer, 'timeDuration', expressionBody(eventDef['timeDuration']));
+          assignDefined(timer, 'timeCycle', expressionBody(eventDef['timeCycle']));
+          bpmn['timerEventDefinition'] = timer;
+          break;
+        }
+        case 'bpmn:ConditionalEventDefinition': {
+          const condition = formalExpression(eventDef['condition']);
+          bpmn['conditionalEventDefinition'] = condition ? { condition } : {};
+          break;
+        }
+        case 'bpmn:LinkEventDefinition': {
+          const link: Record<string, unknown> = {};
+          assignDefined(link, 'name', eventDef['name']);
+          assignDefined(link, 'target', refId(eventDef['target']));
+          bpmn['linkEventDefinition'] = link;
+          break;
+        }
+      }
+    }
+  }
+
+  /**
+   * Apply task-specific properties
+   */
+  private applyTaskProperties(bpmn: Record<string, unknown>, element: ModdleElement): void {
+    if (own(element, 'implementation') !== undefined) {
+      bpmn['implementation'] = element['implementation'];
+    }
+
+    // Script Task
+    if (element['script'] !== undefined || element['scriptFormat'] !== undefined) {
+      const script: Record<string, unknown> = {};
+      assignDefined(script, 'scriptFormat', element['scriptFormat']);
+      assignDefined(script, 'script', element['script']);
+      bpmn['script'] = script;
+    }
+
+    // Send/Receive Task
+    assignDefined(bpmn, 'messageRef', refId(element['messageRef']));
+    if (own(element, 'instantiate') !== undefined) {
+      bpmn['instantiate'] = element['instantiate'];
+    }
+
+    const ioSpec = element['ioSpecification'] as ModdleElement | undefined;
+    if (ioSpec) {
+      bpmn['ioSpecification'] = this.buildIoSpecification(ioSpec);
+    }
+  }
+
+  /**
+   * Apply gateway-specific properties
+   */
+  private applyGatewayProperties(bpmn: Record<string, unknown>, element: ModdleElement): void {
+    if (own(element, 'gatewayDirection') !== undefined && element['gatewayDirection'] !== 'Unspecified') {
+      bpmn['gatewayDirection'] = element['gatewayDirection'];
+    }
+    assignDefined(bpmn, 'default', refId(element['default']));
+    if (own(element, 'instantiate') !== undefined) {
+      bpmn['instantiate'] = element['instantiate'];
+    }
+    if (own(element, 'eventGatewayType') !== undefined) {
+      bpmn['eventGatewayType'] = element['eventGatewayType'];
+    }
+    assignDefined(bpmn, 'activationCondition', expressionBody(element['activationCondition']));
+  }
+
+  /**
+   * Apply subprocess-specific properties and build nested content.
+   * Collapsed subprocesses (isExpanded="false" in DI) keep their content as well.
+   */
+  private applySubProcessProperties(
+    node: FlowNode,
+    bpmn: Record<string, unknown>,
+    element: ModdleElement
+  ): void {
+    if (element['triggeredByEvent'] === true) {
+      bpmn['type'] = 'eventSubProcess';
+      bpmn['triggeredByEvent'] = true;
+    }
+
+    // AdHoc SubProcess
+    if (own(element, 'ordering') !== undefined) {
+      bpmn['adHocOrdering'] = element['ordering'];
+    }
+    assignDefined(bpmn, 'adHocCompletionCondition', expressionBody(element['completionCondition']));
+    if (own(element, 'cancelRemainingInstances') !== undefined) {
+      bpmn['cancelRemainingInstances'] = element['cancelRemainingInstances'];
+    }
+
+    // Transaction
+    if (own(element, 'protocol') !== undefined) {
+      bpmn['transactionProtocol'] = element['protocol'];
+    }
+
+    const hasContent = list(element['flowElements']).length > 0;
+    const isExpanded = this.expandedById.get(element.id!) ?? hasContent;
+    bpmn['isExpanded'] = isExpanded;
+
+    if (hasContent) {
+      const { nodes, edges } = this.buildContainerContent(element);
+      node.children = [...nodes.values()];
+      // Nested edges are typed as sequence flows, but ModelBuilder reads data associations from them too
+      node.edges = edges as SequenceFlow[];
+    }
+  }
+
+  /**
+   * Build a boundary event attached to its host
+   */
+  private buildBoundaryEvent(element: ModdleElement, hostId: string): BoundaryEvent {
+    const bpmn: Record<string, unknown> = {
+      type: 'boundaryEvent',
+      name: element['name'] as string | undefined,
+    };
+    this.applyEventProperties(bpmn, element);
+
+    const cancelActivity = element['cancelActivity'] !== false;
+    bpmn['isInterrupting'] = cancelActivity;
+    bpmn['cancelActivity'] = cancelActivity;
+
+    return {
+      id: element.id!,
+      attachedToRef: hostId,
+      bpmn: bpmn as unknown as BoundaryEvent['bpmn'],
+      ...nameLabels(element),
+    };
+  }
+
+  /**
+   * Build an artifact node (data object/store reference, text annotation, group)
+   */
+  private buildArtifactNode(element: ModdleElement): FlowNode {
+    const type = ELEMENT_TYPE_BY_MODDLE_TYPE[element.$type]!;
+    const bpmn: Record<string, unknown> = { type };
+
+    if (element.$type === 'bpmn:TextAnnotation') {
+      assignDefined(bpmn, 'text', element['text']);
+      if (own(element, 'textFormat') !== undefined) {
+        bpmn['textFormat'] = element['textFormat'];
+      }
+    } else {
+      assignDefined(bpmn, 'name', element['name']);
+    }
+
+    if (element.$type === 'bpmn:DataObjectReference') {
+      assignDefined(bpmn, 'dataObjectRef', refId(element['dataObjectRef']));
+      const dataObject = element['dataObjectRef'] as ModdleElement | undefined;
+      if (own(dataObject, 'isCollection') !== undefined) {
+        bpmn['isCollection'] = dataObject!['isCollection'];
+      }
+      const dataState = element['dataState'] as ModdleElement | undefined;
+      if (dataState) {
+        bpmn['dataState'] = { name: dataState['name'] as string | undefined };
+      }
+    }
+
+    if (element.$type === 'bpmn:DataStoreReference') {
+      assignDefined(bpmn, 'dataStoreRef', refId(element['dataStoreRef']));
+    }
+
+    if (element.$type === 'bpmn:Group') {
+      // A group is labelled by its category value
+      const categoryValue = element['categoryValueRef'] as ModdleElement | undefined;
+      assignDefined(bpmn, 'name', categoryValue?.['value']);
+      assignDefined(bpmn, 'categoryValueRef', categoryValue?.id);
+    }
+
+    const artifact: Artifact = {
+      id: element.id!,
+      bpmn: bpmn as unknown as Artifact['bpmn'],
+      ...nameLabels(bpmn),
+    };
+
+    // Artifacts live among the container's children, as in hand-written ELK-BPMN JSON
+    return artifact as unknown as FlowNode;
+  }
+
+  /**
+   * Build a sequence flow edge
+   */
+  private buildSequenceFlow(element: ModdleElement, defaultFlowIds: Set<string>): SequenceFlow {
+    const flow: SequenceFlow = {
+      id: element.id!,
+      sources: [refId(element['sourceRef'])!],
+      targets: [refId(element['targetRef'])!],
+      bpmn: {
+        type: 'sequenceFlow',
+        name: element['name'] as string | undefined,
+      },
+      ...nameLabels(element),
+    };
+
+    const condition = formalExpression(element['conditionExpression']);
+    if (condition) {
+      flow.bpmn.conditionExpression = condition;
+    }
+    if (defaultFlowIds.has(flow.id)) {
+      flow.bpmn.isDefault = true;
+    }
+
+    return flow;
+  }
+
+  /**
+   * Build an association edge
+   */
+  private buildAssociation(element: ModdleElement): Association {
+    const association: Association = {
+      id: element.id!,
+      sources: [refId(element['sourceRef'])!],
+      targets: [refId(element['targetRef'])!],
+      bpmn: { type: 'association' },
+    };
+    if (own(element, 'associationDirection') !== undefined) {
+      association.bpmn.associationDirection = element['associationDirection'] as Association['bpmn']['associationDirection'];
+    }
+    return association;
+  }
+
+  /**
+   * Build data association edges declared on an activity or event.
+   * Associations wired to the activity's own ioSpecification are skipped,
+   * since ModelBuilder regenerates them from the ioSpecification.
+   */
+  private buildDataAssociations(element: ModdleElement): DataAssociation[] {
+    const edges: DataAssociation[] = [];
+
+    for (const assoc of list(element['dataInputAssociations'])) {
+      const sources = list(assoc['sourceRef'])
+        .filter((source) => source.$type !== 'bpmn:DataInput' && source.$type !== 'bpmn:DataOutput')
+        .map((source) => source.id!);
+      if (sources.length === 0) continue;
+
+      edges.push({
+        id: assoc.id!,
+        sources,
+        targets: [element.id!],
+        bpmn: { type: 'dataInputAssociation' },
+      });
+    }
+
+    for (const assoc of list(element['dataOutputAssociations'])) {
+      const target = assoc['targetRef'] as ModdleElement | undefined;
+      if (!target?.id || target.$type === 'bpmn:DataInput' || target.$type === 'bpmn:DataOutput') continue;
+
+      edges.push({
+        id: assoc.id!,
+        sources: [element.id!],
+        targets: [target.id],
+        bpmn: { type: 'dataOutputAssociation' },
+      });
+    }
+
+    return edges;
+  }
+
+  /**
+   * Build loop characteristics
+   */
+  private buildLoopCharacteristics(loop: ModdleElement): LoopCharacteristics {
+    if (loop.$type === 'bpmn:StandardLoopCharacteristics') {
+      const standard: LoopCharacteristics = { loopType: 'standard' };
+      if (own(loop, 'testBefore') !== undefined) {
+        standard.testBefore = loop['testBefore'] as boolean;
+      }
+      assignDefined(standard, 'loopMaximum', loop['loopMaximum']);
+      assignDefined(standard, 'loopCondition', expressionBody(loop['loopCondition']));
+      return standard;
+    }
+
+    const multiInstance: LoopCharacteristics = {
+      loopType: 'multiInstance',
+      isSequential: loop['isSequential'] === true,
+    };
+    assignDefined(multiInstance, 'loopCardinality', expressionBody(loop['loopCardinality']));
+    assignDefined(multiInstance, 'loopDataInputRef', this.referenceId(loop, 'loopDataInputRef'));
+    assignDefined(multiInstance, 'loopDataOutputRef', this.referenceId(loop, 'loopDataOutputRef'));
+    assignDefined(multiInstance, 'inputDataItem', refId(loop['inputDataItem']));
+    assignDefined(multiInstance, 'outputDataItem', refId(loop['outputDataItem']));
+    assignDefined(multiInstance, 'completionCondition', expressionBody(loop['completionCondition']));
+    return multiInstance;
+  }
+
+  /**
+   * Build ioSpecification
+   */
+  private buildIoSpecification(ioSpec: ModdleElement): IoSpecification {
+    const dataItem = (item: ModdleElement) => {
+      const result: { id?: string; name?: string; itemSubjectRef?: string; isCollection?: boolean } = {
+        id: item.id,
+      };
+      assignDefined(result, 'name', item['name']);
+      assignDefined(result, 'itemSubjectRef', refId(item['itemSubjectRef']));
+      if (own(item, 'isCollection') !== undefined) {
+        result.isCollection = item['isCollection'] as boolean;
+      }
+      return result;
+    };
+
+    return {
+      dataInputs: list(ioSpec['dataInputs']).map(dataItem),
+      dataOutputs: list(ioSpec['dataOutputs']).map(dataItem),
+      inputSets: list(ioSpec['inputSets']).map((set) => ({
+        id: set.id,
+        name: set['name'] as string | undefined,
+        dataInputRefs: list(set['dataInputRefs']).map((ref) => ref.id!),
+      })),
+      outputSets: list(ioSpec['outputSets']).map((set) => ({
+        id: set.id,
+        name: set['name'] as string | undefined,
+        dataOutputRefs: list(set['dataOutputRefs']).map((ref) => ref.id!),
+      })),
+    };
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function list(value: unknown): ModdleElement[] {
+  return Array.isArray(value) ? (value as ModdleElement[]) : [];
+}
+
+function refId(value: unknown): string | undefined {
+  return (value as ModdleElement | undefined)?.id;
+}
+
+/**
+ * Read a property only if it was set explicitly (moddle serves defaults from the prototype)
+ */
+function own(element: ModdleElement | undefined, key: string): unknown {
+  return element && Object.prototype.hasOwnProperty.call(element, key) ? element[key] : undefined;
+}
+
+/**
+ * Flows whose sourceRef/targetRef could not be resolved by moddle are dropped,
+ * since the layout cannot route an edge to a missing node
+ */
+function hasResolvedEnds(element: ModdleElement): boolean {
+  return refId(element['sourceRef']) !== undefined && refId(element['targetRef']) !== undefined;
+}
+
+function expressionBody(value: unknown): string | undefined {
+  return (value as ModdleElement | undefined)?.['body'] as string | undefined;
+}
+
+function formalExpression(value: unknown): FormalExpression | undefined {
+  const expression = value as ModdleElement | undefined;
+  if (!expression) return undefined;
+
+  const result: FormalExpression = {};
+  assignDefined(result, 'language', expression['language']);
+  assignDefined(result, 'body', expression['body']);
+  return result;
+}
+
+function assignDefined<T extends object>(target: T, key: string, value: unknown): void {
+  if (value !== undefined && value !== null) {
+    (target as Record<string, unknown>)[key] = value;
+  }
+}
+
+/**
+ * Named elements get a label, matching hand-written ELK-BPMN JSON
+ */
+function nameLabels(element: Record<string, unknown>): { labels?: Label[] } {
+  const name = element['name'];
+  return typeof name === 'string' && name.length > 0 ? { labels: [{ text: name }] } : {};
+}
+
+/**
+ * Convenience function to import BPMN 2.0 XML
+ */
+export async function importBpmnXml(xml: string): Promise<ElkBpmnGraph> {
+  const importer = new BpmnXmlImporter();
+  return importer.import(xml);
+}
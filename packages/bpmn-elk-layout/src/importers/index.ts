@@ -0,0 +1 @@
+export { BpmnXmlImporter, importBpmnXml } from './bpmn-xml-importer';
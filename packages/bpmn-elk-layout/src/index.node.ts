@@ -1,7 +1,7 @@
 /**
  * Node.js-only exports
  *
- * These exports use Node.js APIs (fs, path) and cannot be used in browsers.
+ * These exports use Node.js APIs (fs, path, headless Chromium) and cannot be used in browsers.
  *
  * @example
  * ```typescript
@@ -20,3 +20,32 @@ export {
   generatePromptTemplate,
   type PromptGeneratorOptions,
 } from './prompt-generator';
+
+// Node.js only: PNG/PDF rendering (requires the optional 'playwright' package)
+export {
+  ImageRenderer,
+  resolveImageFormat,
+  type ImageRendererOptions,
+  type ImageFormat,
+} from './image-renderer';
+
+// Node.js only: batch conversion of many files (used by the CLI's convert-all)
+export {
+  BatchConverter,
+  formatBatchSummary,
+  type BatchConverterOptions,
+  type BatchFileResult,
+  type BatchReport,
+} from './batch-converter';
+
+// Node.js only: HTTP server with conversion endpoints (used by the CLI's serve)
+export {
+  LayoutServer,
+  type LayoutServerOptions,
+} from './server';
+
+// Node.js only: layout cache entries as JSON files (used by the CLI's --cache-dir)
+export {
+  FileLayoutCacheStore,
+  type FileLayoutCacheStoreOptions,
+} from './layout/cache/file-layout-cache-store';
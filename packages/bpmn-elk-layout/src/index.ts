@@ -25,6 +25,92 @@
 // Main converter class
 export { BpmnElkLayout, type BpmnElkLayoutOptions } from './converter';
 
+// BPMN XML importer
+export { BpmnXmlImporter, importBpmnXml } from './importers';
+
+// Schema validation, linting and repair
+export {
+  SchemaValidator,
+  validateElkBpmn,
+  type SchemaValidationError,
+  type SchemaValidationResult,
+  Linter,
+  lintElkBpmn,
+  LINT_RULES,
+  type LintRule,
+  type LintRuleName,
+  type LintSeverity,
+  type LintIssue,
+  type LintResult,
+  type LinterOptions,
+  GraphRepairer,
+  repairElkBpmn,
+  type RepairFix,
+  type RepairKind,
+  type RepairResult,
+} from './validation';
+
+// Layout quality metrics and invariant checks
+export {
+  LayoutMetrics,
+  analyzeLayout,
+  type LayoutMetricsResult,
+  LayoutInvariantChecker,
+  LayoutInvariantError,
+  type LayoutInvariant,
+  type LayoutInvariantViolation,
+  type LayoutInvariantCheckerOptions,
+  type LayoutResult,
+} from './analysis';
+export type { EdgeRerouteResult, EdgeRouteProblem, EdgeRouteProblemKind } from './layout/edge-routing';
+export type { LayoutConstraint, ConstraintStrength, AlignAnchor } from './layout/constraint';
+
+// Layout themes (element sizes, spacing, pool and lane dimensions)
+export {
+  LAYOUT_THEMES,
+  resolveLayoutTheme,
+  type LayoutTheme,
+  type LayoutThemeName,
+  type LayoutThemeOverrides,
+  type LayoutThemeSizes,
+  type LayoutThemeSpacing,
+  type LayoutThemePool,
+  type LayoutThemeLane,
+} from './layout';
+
+// Element size overrides per BPMN type and per node
+export type { ElementSize, ElementSizeNode, ElementSizeCallback, ElementSizeOptions } from './layout';
+
+// Worker-backed layout and cancellation
+export type { ElkWorkerOptions, LayoutRunOptions } from './layout';
+
+// Content-hash layout cache
+export {
+  LayoutCache,
+  MemoryLayoutCacheStore,
+  type LayoutCacheStore,
+  type MemoryLayoutCacheStoreOptions,
+} from './layout';
+
+// Text measurement for node and label sizing
+export {
+  ApproximateTextMeasurer,
+  FontMetricsTextMeasurer,
+  CanvasTextMeasurer,
+  wrapText,
+  type TextMeasurer,
+  type FontMetricsTextMeasurerOptions,
+  type CanvasTextMeasurerOptions,
+  type CanvasTextContext,
+} from './text';
+
+// SVG renderer
+export { SvgRenderer, type SvgRendererOptions } from './generators';
+export type { BpmnModel } from './transform';
+
+// Grid snapping of the diagram interchange
+export { GridSnapper, type GridSnapperOptions } from './transform';
+
 // Note: PromptTemplateGenerator is Node.js only, import from 'bpmn-elk-layout/node'
 
 // Types
@@ -37,6 +123,7 @@ export type {
   Lane,
   Process,
   FlowNode,
+  NodeLayoutHints,
   BpmnEvent,
   BpmnTask,
   BpmnGateway,
@@ -0,0 +1,55 @@
+/**
+ * File Layout Cache Store
+ * Keeps cache entries as JSON files in a directory (one file per entry), so that
+ * layouts survive between CLI runs. Node.js only.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { LayoutCacheStore } from './layout-cache';
+
+export interface FileLayoutCacheStoreOptions {
+  /** Directory of the cache files; created on the first write */
+  directory: string;
+}
+
+export class FileLayoutCacheStore implements LayoutCacheStore {
+  private directory: string;
+
+  constructor(options: FileLayoutCacheStoreOptions) {
+    this.directory = options.directory;
+  }
+
+  async get(key: string): Promise<unknown> {
+    let content: string;
+    try {
+      content = await readFile(this.getPath(key), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    try {
+      return JSON.parse(content) as unknown;
+    } catch {
+      // Partially written or corrupted entry: lay out again and overwrite it
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    // Write to a temporary file first, so concurrent readers never see a partial entry
+    const path = this.getPath(key);
+    const tempPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(tempPath, JSON.stringify(value), 'utf-8');
+    await rename(tempPath, path);
+  }
+
+  private getPath(key: string): string {
+    return join(this.directory, `${key}.json`);
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Layout Cache Module
+ * Content-hash cache of whole layouts and of SEPARATE_CHILDREN subgraphs.
+ * The file store uses Node.js APIs and is exported from 'bpmn-elk-layout/node' only.
+ */
+
+export {
+  LayoutCache,
+  MemoryLayoutCacheStore,
+  resolveLayoutCache,
+  type LayoutCacheStore,
+  type MemoryLayoutCacheStoreOptions,
+} from './layout-cache';
+export { SubgraphCache, type SubgraphLookup } from './subgraph-cache';
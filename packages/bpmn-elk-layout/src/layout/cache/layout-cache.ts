@@ -0,0 +1,139 @@
+/**
+ * Layout Cache
+ * Reuses layouts of inputs that were laid out before. Entries are keyed by a
+ * content hash, so identical input (in any key order) with identical options
+ * hits the cache, and any change misses it.
+ *
+ * Stores are pluggable:
+ * - MemoryLayoutCacheStore: in-memory LRU (default)
+ * - FileLayoutCacheStore: one JSON file per entry (Node.js only, used by the CLI)
+ * - anything with get/set, e.g. backed by IndexedDB or Redis
+ */
+
+import { hashContent } from '../../utils/content-hash';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Storage of cache entries. Values are JSON-serializable layouts
+ * (LayoutedGraph for whole layouts, ELK nodes for subgraphs).
+ */
+export interface LayoutCacheStore {
+  get(key: string): unknown | Promise<unknown>;
+  set(key: string, value: unknown): void | Promise<void>;
+}
+
+export interface MemoryLayoutCacheStoreOptions {
+  /**
+   * Maximum number of entries; the least recently used entry is dropped first
+   * @default 100
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Version of the cache entries; bump it when the layout pipeline changes its results
+ * so that persistent stores do not return layouts of an older version
+ */
+const CACHE_VERSION = 1;
+
+// ============================================================================
+// Memory Store
+// ============================================================================
+
+export class MemoryLayoutCacheStore implements LayoutCacheStore {
+  private entries: Map<string, unknown> = new Map();
+  private maxEntries: number;
+
+  constructor(options?: MemoryLayoutCacheStoreOptions) {
+    this.maxEntries = options?.maxEntries ?? 100;
+    if (!(this.maxEntries >= 1)) {
+      throw new Error(`Invalid maxEntries ${this.maxEntries}: must be at least 1`);
+    }
+  }
+
+  get(key: string): unknown {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      // Move to the end: Map iterates in insertion order, oldest first
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: unknown): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  /** Number of cached entries */
+  size(): number {
+    return this.entries.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+// ============================================================================
+// Layout Cache
+// ============================================================================
+
+export class LayoutCache {
+  private store: LayoutCacheStore;
+
+  constructor(store: LayoutCacheStore = new MemoryLayoutCacheStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Cache key of the given content
+   * @param kind - Kind of entry ('layout' or 'subgraph'), so different kinds never share a key
+   */
+  createKey(kind: string, content: unknown): string {
+    return `${kind}-${hashContent({ version: CACHE_VERSION, content })}`;
+  }
+
+  /**
+   * Cached value, or undefined on a miss.
+   * Returns a copy: callers may modify it without changing the cache.
+   */
+  async get<T>(key: string): Promise<T | undefined> {
+    const value = await this.store.get(key);
+    return value === undefined ? undefined : clone(value as T);
+  }
+
+  /**
+   * Store a copy of the value
+   */
+  async set(key: string, value: unknown): Promise<void> {
+    await this.store.set(key, clone(value));
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Resolve the cache option: true for an in-memory LRU cache, a store for a cache
+ * backed by it, false/undefined for no cache
+ */
+export function resolveLayoutCache(cache?: boolean | LayoutCacheStore): LayoutCache | undefined {
+  if (!cache) {
+    return undefined;
+  }
+  return new LayoutCache(cache === true ? new MemoryLayoutCacheStore() : cache);
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
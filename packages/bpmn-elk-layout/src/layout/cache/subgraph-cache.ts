@@ -0,0 +1,151 @@
+/**
+ * Subgraph Cache
+ * Reuses the layout of compound nodes (pools, expanded subprocesses) that ELK lays
+ * out in a run of their own ('elk.hierarchyHandling': 'SEPARATE_CHILDREN'), so an
+ * edit in one pool does not lay out the unchanged ones again.
+ *
+ * Before ELK runs, cached compound nodes lose their children and edges and keep
+ * the size of their cached layout; after ELK, the cached content is put back.
+ * Compound nodes with edges crossing their border are never cached: their
+ * layout depends on the outside.
+ */
+
+import type { ElkNode, ElkExtendedEdge } from 'elkjs';
+import { buildNodeMap } from '../../utils/node-map-builder';
+import type { LayoutCache } from './layout-cache';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Layout of a compound node's content, relative to the node
+ */
+interface CachedSubgraph {
+  width: number;
+  height: number;
+  children: ElkNode[];
+  edges: ElkExtendedEdge[];
+}
+
+/**
+ * Cache lookups of one ELK run
+ */
+export interface SubgraphLookup {
+  /** Cached layouts of compound nodes taken out of the ELK graph */
+  hits: Map<string, CachedSubgraph>;
+  /** Cache keys of compound nodes that ELK lays out */
+  misses: Map<string, string>;
+}
+
+// ============================================================================
+// Subgraph Cache
+// ============================================================================
+
+export class SubgraphCache {
+  private cache: LayoutCache;
+
+  constructor(cache: LayoutCache) {
+    this.cache = cache;
+  }
+
+  /**
+   * Replace the content of cached compound nodes with their cached size
+   * @param graph - Prepared ELK graph (modified in place)
+   */
+  async detach(graph: ElkNode): Promise<SubgraphLookup> {
+    const lookup: SubgraphLookup = { hits: new Map(), misses: new Map() };
+    const edgeEnds = this.collectEdgeEnds(graph);
+
+    const visit = async (node: ElkNode): Promise<void> => {
+      for (const child of node.children ?? []) {
+        if (this.isSeparate(child) && this.isSelfContained(child, edgeEnds)) {
+          const key = this.cache.createKey('subgraph', child);
+          const cached = await this.cache.get<CachedSubgraph>(key);
+          if (cached) {
+            lookup.hits.set(child.id, cached);
+            child.width = cached.width;
+            child.height = cached.height;
+            delete child.children;
+            delete child.edges;
+            continue;
+          }
+          lookup.misses.set(child.id, key);
+        }
+        await visit(child);
+      }
+    };
+    await visit(graph);
+
+    return lookup;
+  }
+
+  /**
+   * Put the cached content back and cache the newly laid out compound nodes
+   * @param graph - ELK graph laid out by ELK (modified in place)
+   */
+  async attach(graph: ElkNode, lookup: SubgraphLookup): Promise<void> {
+    const nodeMap = buildNodeMap(graph);
+
+    for (const [id, cached] of lookup.hits) {
+      const node = nodeMap.get(id);
+      if (node) {
+        node.children = cached.children;
+        node.edges = cached.edges;
+      }
+    }
+
+    for (const [id, key] of lookup.misses) {
+      const node = nodeMap.get(id);
+      if (node) {
+        await this.cache.set(key, {
+          width: node.width,
+          height: node.height,
+          children: node.children,
+          edges: node.edges ?? [],
+        } satisfies Partial<CachedSubgraph>);
+      }
+    }
+  }
+
+  /**
+   * Whether ELK lays out the content of the node in a run of its own
+   */
+  private isSeparate(node: ElkNode): boolean {
+    return (node.children?.length ?? 0) > 0 &&
+      node.layoutOptions?.['elk.hierarchyHandling'] === 'SEPARATE_CHILDREN';
+  }
+
+  /**
+   * Whether no edge connects the content of the node with the outside
+   */
+  private isSelfContained(node: ElkNode, edgeEnds: Map<string, string[][]>): boolean {
+    const inside = new Set(buildNodeMap(node).keys());
+    inside.delete(node.id);
+
+    for (const [containerId, ends] of edgeEnds) {
+      const contained = inside.has(containerId) || containerId === node.id;
+      for (const endIds of ends) {
+        const connectsInside = endIds.some((id) => inside.has(id));
+        const connectsOutside = endIds.some((id) => !inside.has(id));
+        if (contained ? connectsOutside : connectsInside) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  /**
+   * End points (sources and targets) of the edges, by the id of the node that contains them
+   */
+  private collectEdgeEnds(graph: ElkNode): Map<string, string[][]> {
+    const edgeEnds = new Map<string, string[][]>();
+    for (const node of buildNodeMap(graph).values()) {
+      if (node.edges?.length) {
+        edgeEnds.set(node.id, node.edges.map((edge) => [...edge.sources, ...edge.targets]));
+      }
+    }
+    return edgeEnds;
+  }
+}
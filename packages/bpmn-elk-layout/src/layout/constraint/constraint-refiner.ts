@@ -0,0 +1,299 @@
+/**
+ * Constraint Refiner
+ * Applies user-declared layout constraints after ELK: the graph's top-level
+ * `constraints` and the per-node `layout` hints (alignWith, sameLayer, pin).
+ *
+ * Constraints are solved per container (pool, lane-less process or subprocess)
+ * in ELK's relative coordinates. References (the first node of an alignment,
+ * the reference of leftOf/rightOf/above/below) keep their place where possible;
+ * nodes pushed into their neighbours are separated again in a few solver rounds.
+ */
+
+import type { ElkNode } from 'elkjs';
+import type { ElkBpmnGraph, NodeLayoutHints } from '../../types';
+import type { Bounds, NodeMoveInfo, NodeWithBpmn } from '../../types/internal';
+import { boundsOverlap } from '../edge-routing/geometry-utils';
+import { ConstraintSolver, findConstraintProblem, getConstraintNodeIds, type LayoutConstraint } from './constraint-solver';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Minimum gap between a moved node and the nodes it is separated from */
+const NODE_GAP = 30;
+
+/** Nodes closer than this are treated as overlapping */
+const OVERLAP_MARGIN = 10;
+
+/** Rounds of overlap resolution before giving up */
+const MAX_RESOLVE_ROUNDS = 10;
+
+/** Solver results closer than this to the ELK position are rounding noise */
+const MOVE_EPSILON = 0.5;
+
+/** Nodes that follow other nodes and are never moved by constraints */
+const UNCONSTRAINED_TYPES = new Set(['boundaryEvent', 'group']);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ConstraintRefinerOptions {
+  /** Enable debug logging */
+  debug?: boolean;
+}
+
+type ElkNodeWithBpmn = ElkNode & { bpmn?: { type?: string } };
+
+// ============================================================================
+// Constraint Refiner
+// ============================================================================
+
+export class ConstraintRefiner {
+  private debug: boolean;
+
+  constructor(options?: ConstraintRefinerOptions) {
+    this.debug = options?.debug ?? false;
+  }
+
+  /**
+   * Collect the graph's constraints and translate node layout hints into constraints.
+   * alignWith and sameLayer follow the flow direction: in DOWN layouts
+   * "one line along the flow" is a column instead of a row.
+   * Malformed constraints are skipped (the linter's well-formed-graph rule reports them).
+   */
+  collectConstraints(graph: ElkBpmnGraph, vertical: boolean): LayoutConstraint[] {
+    const declared: unknown[] = Array.isArray(graph.constraints) ? graph.constraints : [];
+    const constraints: LayoutConstraint[] = declared.filter((constraint, index): constraint is LayoutConstraint => {
+      const problem = findConstraintProblem(constraint);
+      if (problem) {
+        this.log(`Skipping constraints[${index}]: ${problem}`);
+      }
+      return !problem;
+    });
+
+    const visit = (node: NodeWithBpmn) => {
+      const hints = (node as { layout?: NodeLayoutHints }).layout;
+      if (hints?.alignWith) {
+        constraints.push({ type: vertical ? 'alignX' : 'alignY', nodes: [hints.alignWith, node.id], anchor: 'center' });
+      }
+      if (hints?.sameLayer) {
+        constraints.push({ type: vertical ? 'alignY' : 'alignX', nodes: [hints.sameLayer, node.id], anchor: 'center' });
+      }
+      if (hints?.pin && (hints.pin.x !== undefined || hints.pin.y !== undefined)) {
+        constraints.push({ type: 'fixedPosition', node: node.id, x: hints.pin.x, y: hints.pin.y, strength: 'required' });
+      }
+      for (const child of node.children ?? []) {
+        visit(child as NodeWithBpmn);
+      }
+    };
+    for (const child of graph.children) {
+      visit(child as unknown as NodeWithBpmn);
+    }
+
+    return constraints;
+  }
+
+  /**
+   * Solve the constraints on the ELK layout
+   * Returns a map of node ID -> new position info, like identifyNodesToMove.
+   */
+  refine(graph: ElkNode, constraints: LayoutConstraint[]): Map<string, NodeMoveInfo> {
+    const parents = new Map<string, ElkNode>();
+    const collect = (node: ElkNode) => {
+      for (const child of node.children ?? []) {
+        parents.set(child.id, node);
+        collect(child);
+      }
+    };
+    collect(graph);
+
+    // Group constraints by the container all their nodes share
+    const byContainer = new Map<ElkNode, LayoutConstraint[]>();
+    for (const constraint of constraints) {
+      const container = this.findContainer(constraint, parents);
+      if (!container) {
+        this.log(`Skipping ${constraint.type} constraint on ${getConstraintNodeIds(constraint).join(', ')}: ` +
+          'nodes not found, not siblings or not movable');
+        continue;
+      }
+      byContainer.set(container, [...(byContainer.get(container) ?? []), constraint]);
+    }
+
+    const moves = new Map<string, NodeMoveInfo>();
+    for (const [container, containerConstraints] of byContainer) {
+      for (const [id, move] of this.solveContainer(container, containerConstraints)) {
+        moves.set(id, move);
+      }
+    }
+    return moves;
+  }
+
+  // ==========================================================================
+  // Solving
+  // ==========================================================================
+
+  private solveContainer(container: ElkNode, constraints: LayoutConstraint[]): Map<string, NodeMoveInfo> {
+    const initial = new Map<string, Bounds>();
+    for (const child of this.getMovableChildren(container)) {
+      initial.set(child.id, { x: child.x ?? 0, y: child.y ?? 0, width: child.width ?? 0, height: child.height ?? 0 });
+    }
+
+    // noOverlap is disjunctive: keep the nodes on the sides they are on now
+    const userConstraints = constraints.map((constraint) =>
+      constraint.type === 'noOverlap'
+        ? this.separation(constraint.nodes[1], constraint.nodes[0], initial, constraint.margin, constraint.strength)
+        : constraint
+    );
+    const stays = userConstraints.flatMap((constraint) => this.referenceStay(constraint, initial));
+
+    const separations: LayoutConstraint[] = [];
+    const separated = new Set<string>();
+    let current = initial;
+
+    for (let round = 0; round < MAX_RESOLVE_ROUNDS; round++) {
+      const solver = new ConstraintSolver({ debug: this.debug });
+      solver.addNodesFromMap(initial);
+      // The container in its own coordinates, for inContainer constraints
+      solver.addNode(container.id, 0, 0, container.width ?? 0, container.height ?? 0);
+      solver.addConstraint({ type: 'fixedPosition', node: container.id, x: 0, y: 0, strength: 'required' });
+      solver.addConstraints(stays);
+      solver.addConstraints(userConstraints);
+      solver.addConstraints(separations);
+      current = solver.solveWithBounds();
+      current.delete(container.id);
+
+      // Nodes moved by the constraints push the nodes they now overlap out of the way
+      const overlaps = this.findOverlaps(current, initial)
+        .filter(([a, b]) => !separated.has(`${a}|${b}`));
+      if (overlaps.length === 0) break;
+
+      for (const [a, b] of overlaps) {
+        separated.add(`${a}|${b}`);
+        const [mover, reference] = this.hasMoved(a, current, initial) && !this.hasMoved(b, current, initial)
+          ? [b, a]
+          : [a, b];
+        separations.push(this.separation(mover, reference, current, NODE_GAP, 'medium'));
+      }
+    }
+
+    const moves = new Map<string, NodeMoveInfo>();
+    for (const [id, bounds] of current) {
+      if (!this.hasMoved(id, current, initial)) continue;
+      const before = initial.get(id)!;
+      const newX = Math.round(bounds.x);
+      const newY = Math.round(bounds.y);
+      this.log(`Moving ${id} from (${before.x}, ${before.y}) to (${newX}, ${newY})`);
+      moves.set(id, { newX, newY, offset: newY - before.y });
+    }
+    return moves;
+  }
+
+  /**
+   * Container shared by all nodes of a constraint, or undefined if the constraint cannot be applied
+   */
+  private findContainer(constraint: LayoutConstraint, parents: Map<string, ElkNode>): ElkNode | undefined {
+    // inContainer only works for the node's own container, which is not one of the solved siblings
+    const nodeIds = constraint.type === 'inContainer' ? [constraint.node] : getConstraintNodeIds(constraint);
+    const containers = new Set(nodeIds.map((id) => parents.get(id)));
+    if (containers.size !== 1) return undefined;
+
+    const [container] = containers;
+    if (!container) return undefined;
+    if (constraint.type === 'inContainer' && constraint.container !== container.id) return undefined;
+
+    const movable = new Set(this.getMovableChildren(container).map((child) => child.id));
+    return nodeIds.every((id) => movable.has(id)) ? container : undefined;
+  }
+
+  private getMovableChildren(container: ElkNode): ElkNode[] {
+    return (container.children ?? []).filter((child) => {
+      const type = (child as ElkNodeWithBpmn).bpmn?.type;
+      return !type || !UNCONSTRAINED_TYPES.has(type);
+    });
+  }
+
+  /**
+   * Keep the reference of a constraint in place, so the constrained node is the one that moves
+   */
+  private referenceStay(constraint: LayoutConstraint, bounds: Map<string, Bounds>): LayoutConstraint[] {
+    const stay = (node: string, axis: 'x' | 'y'): LayoutConstraint[] => {
+      const { x, y } = bounds.get(node)!;
+      return [{ type: 'fixedPosition', node, ...(axis === 'x' ? { x } : { y }), strength: 'medium' }];
+    };
+
+    switch (constraint.type) {
+      case 'alignX':
+        return stay(constraint.nodes[0]!, 'x');
+      case 'alignY':
+        return stay(constraint.nodes[0]!, 'y');
+      case 'leftOf':
+      case 'rightOf':
+        return stay(constraint.reference, 'x');
+      case 'above':
+      case 'below':
+        return stay(constraint.reference, 'y');
+      default:
+        return [];
+    }
+  }
+
+  // ==========================================================================
+  // Overlaps
+  // ==========================================================================
+
+  /**
+   * Overlapping pairs with at least one node moved by the solver
+   * (overlaps already in the ELK layout are left alone)
+   */
+  private findOverlaps(current: Map<string, Bounds>, initial: Map<string, Bounds>): Array<[string, string]> {
+    const ids = [...current.keys()];
+    const overlaps: Array<[string, string]> = [];
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const a = ids[i]!;
+        const b = ids[j]!;
+        if (!this.hasMoved(a, current, initial) && !this.hasMoved(b, current, initial)) continue;
+        if (boundsOverlap(current.get(a)!, current.get(b)!, OVERLAP_MARGIN)) {
+          overlaps.push([a, b]);
+        }
+      }
+    }
+    return overlaps;
+  }
+
+  private hasMoved(id: string, current: Map<string, Bounds>, initial: Map<string, Bounds>): boolean {
+    const before = initial.get(id)!;
+    const after = current.get(id)!;
+    return Math.abs(after.x - before.x) >= MOVE_EPSILON || Math.abs(after.y - before.y) >= MOVE_EPSILON;
+  }
+
+  /**
+   * Separation constraint in the direction that moves the node the least
+   */
+  private separation(
+    node: string,
+    reference: string,
+    bounds: Map<string, Bounds>,
+    gap: number,
+    strength: LayoutConstraint['strength']
+  ): LayoutConstraint {
+    const a = bounds.get(node)!;
+    const b = bounds.get(reference)!;
+    const candidates: Array<{ type: 'leftOf' | 'rightOf' | 'above' | 'below'; distance: number }> = [
+      { type: 'rightOf', distance: b.x + b.width + gap - a.x },
+      { type: 'leftOf', distance: a.x + a.width + gap - b.x },
+      { type: 'below', distance: b.y + b.height + gap - a.y },
+      { type: 'above', distance: a.y + a.height + gap - b.y },
+    ];
+    candidates.sort((p, q) => p.distance - q.distance);
+
+    return { type: candidates[0]!.type, node, reference, minGap: gap, strength };
+  }
+
+  private log(message: string): void {
+    if (this.debug) {
+      console.log(`[Constraint] ${message}`);
+    }
+  }
+}
@@ -33,12 +33,16 @@ export type LayoutConstraint =
 export interface AlignXConstraint {
   type: 'alignX';
   nodes: string[];
+  /** Which part of the nodes to align (default: 'start', the left edges) */
+  anchor?: AlignAnchor;
   strength?: ConstraintStrength;
 }
 
 export interface AlignYConstraint {
   type: 'alignY';
   nodes: string[];
+  /** Which part of the nodes to align (default: 'start', the top edges) */
+  anchor?: AlignAnchor;
   strength?: ConstraintStrength;
 }
 
@@ -108,6 +112,82 @@ export interface MinDistanceConstraint {
 
 export type ConstraintStrength = 'required' | 'strong' | 'medium' | 'weak';
 
+export type AlignAnchor = 'start' | 'center' | 'end';
+
+/**
+ * Node reference properties of each constraint type
+ */
+const CONSTRAINT_NODE_REFERENCES: Record<LayoutConstraint['type'], { ids?: string[]; list?: 'nodes' }> = {
+  alignX: { list: 'nodes' },
+  alignY: { list: 'nodes' },
+  leftOf: { ids: ['node', 'reference'] },
+  rightOf: { ids: ['node', 'reference'] },
+  above: { ids: ['node', 'reference'] },
+  below: { ids: ['node', 'reference'] },
+  noOverlap: { list: 'nodes' },
+  fixedPosition: { ids: ['node'] },
+  inContainer: { ids: ['node', 'container'] },
+  minDistance: { ids: ['node1', 'node2'] },
+};
+
+/**
+ * Why a value cannot be used as a constraint (not an object, unknown type,
+ * node references that are not IDs)
+ * @returns undefined for a well-formed constraint
+ */
+export function findConstraintProblem(value: unknown): string | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return `must be an object, got ${value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value}`;
+  }
+
+  const constraint = value as Record<string, unknown>;
+  const type = constraint['type'];
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(CONSTRAINT_NODE_REFERENCES, type)) {
+    return `has unknown type ${JSON.stringify(type)}`;
+  }
+
+  const { ids = [], list } = CONSTRAINT_NODE_REFERENCES[type as LayoutConstraint['type']];
+  for (const key of ids) {
+    if (typeof constraint[key] !== 'string') {
+      return `${type} needs a node ID in "${key}"`;
+    }
+  }
+  if (list) {
+    const nodes = constraint[list];
+    const count = type === 'noOverlap' ? 2 : undefined;
+    if (!Array.isArray(nodes) || nodes.some((id) => typeof id !== 'string') || (count && nodes.length !== count)) {
+      return `${type} needs ${count ? 'two node IDs' : 'a list of node IDs'} in "${list}"`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get node IDs referenced by a constraint
+ */
+export function getConstraintNodeIds(constraint: LayoutConstraint): string[] {
+  switch (constraint.type) {
+    case 'alignX':
+    case 'alignY':
+      return constraint.nodes;
+    case 'leftOf':
+    case 'rightOf':
+    case 'above':
+    case 'below':
+      return [constraint.node, constraint.reference];
+    case 'fixedPosition':
+      return [constraint.node];
+    case 'inContainer':
+      return [constraint.node, constraint.container];
+    case 'minDistance':
+      return [constraint.node1, constraint.node2];
+    case 'noOverlap':
+      return constraint.nodes;
+    default:
+      return [];
+  }
+}
+
 // ============================================================================
 // Node Variables
 // ============================================================================
@@ -218,7 +298,7 @@ export class ConstraintSolver {
    */
   addConstraint(constraint: LayoutConstraint): boolean {
     // Check if all referenced nodes exist
-    const nodeIds = this.getConstraintNodeIds(constraint);
+    const nodeIds = getConstraintNodeIds(constraint);
     for (const id of nodeIds) {
       if (!this.variables.has(id)) {
         if (this.options.debug) {
@@ -242,32 +322,6 @@ export class ConstraintSolver {
     return true;
   }
 
-  /**
-   * Get node IDs referenced by a constraint
-   */
-  private getConstraintNodeIds(constraint: LayoutConstraint): string[] {
-    switch (constraint.type) {
-      case 'alignX':
-      case 'alignY':
-        return constraint.nodes;
-      case 'leftOf':
-      case 'rightOf':
-      case 'above':
-      case 'below':
-        return [constraint.node, constraint.reference];
-      case 'fixedPosition':
-        return [constraint.node];
-      case 'inContainer':
-        return [constraint.node, constraint.container];
-      case 'minDistance':
-        return [constraint.node1, constraint.node2];
-      case 'noOverlap':
-        return constraint.nodes;
-      default:
-        return [];
-    }
-  }
-
   /**
    * Add multiple constraints
    */
@@ -421,9 +475,11 @@ export class ConstraintSolver {
     for (let i = 1; i < nodes.length; i++) {
       // x[i] == x[0] => x[i] - x[0] == 0
       // Expression: x[i] + (-1 * x[0]) + 0 == 0
+      // With an anchor: x[i] + f * width[i] == x[0] + f * width[0]
       // kiwi.Constraint(expr, op, rhs?, strength?) - pass 0 as rhs, strength as 4th arg
+      const anchorOffset = this.getAnchorFactor(constraint.anchor) * (nodes[i].width - nodes[0].width);
       const c = new kiwi.Constraint(
-        new kiwi.Expression(nodes[i].x, [-1, referenceX]),
+        new kiwi.Expression(nodes[i].x, [-1, referenceX], anchorOffset),
         kiwi.Operator.Eq,
         0,
         strength
@@ -449,9 +505,11 @@ export class ConstraintSolver {
     const referenceY = nodes[0].y;
     for (let i = 1; i < nodes.length; i++) {
       // y[i] == y[0] => y[i] - y[0] == 0
+      // With an anchor: y[i] + f * height[i] == y[0] + f * height[0]
       // kiwi.Constraint(expr, op, rhs?, strength?) - pass 0 as rhs, strength as 4th arg
+      const anchorOffset = this.getAnchorFactor(constraint.anchor) * (nodes[i].height - nodes[0].height);
       const c = new kiwi.Constraint(
-        new kiwi.Expression(nodes[i].y, [-1, referenceY]),
+        new kiwi.Expression(nodes[i].y, [-1, referenceY], anchorOffset),
         kiwi.Operator.Eq,
         0,
         strength
@@ -719,6 +777,20 @@ export class ConstraintSolver {
   // Private: Helpers
   // ============================================================================
 
+  /**
+   * Fraction of the node size between its start and the aligned anchor
+   */
+  private getAnchorFactor(anchor?: AlignAnchor): number {
+    switch (anchor) {
+      case 'center':
+        return 0.5;
+      case 'end':
+        return 1;
+      default:
+        return 0;
+    }
+  }
+
   private getStrength(strength?: ConstraintStrength): number {
     const s = strength ?? this.options.defaultStrength ?? 'strong';
     switch (s) {
@@ -6,6 +6,8 @@
 export {
   ConstraintSolver,
   generateBpmnConstraints,
+  getConstraintNodeIds,
+  findConstraintProblem,
   type LayoutConstraint,
   type AlignXConstraint,
   type AlignYConstraint,
@@ -18,6 +20,9 @@ export {
   type InContainerConstraint,
   type MinDistanceConstraint,
   type ConstraintStrength,
+  type AlignAnchor,
   type ConstraintSolverOptions,
   type BpmnConstraintGeneratorOptions,
 } from './constraint-solver';
+
+export { ConstraintRefiner, type ConstraintRefinerOptions } from './constraint-refiner';
@@ -64,13 +64,16 @@ export const DEFAULT_ELK_OPTIONS: ElkLayoutOptions = {
 
 /**
  * Merge user options with default options
+ * Precedence: user options > graph options > theme options (spacing) > defaults
  */
 export function mergeElkOptions(
   userOptions?: ElkLayoutOptions,
-  graphOptions?: ElkLayoutOptions
+  graphOptions?: ElkLayoutOptions,
+  themeOptions?: ElkLayoutOptions
 ): ElkLayoutOptions {
   return {
     ...DEFAULT_ELK_OPTIONS,
+    ...themeOptions,
     ...graphOptions,
     ...userOptions,
   };
@@ -0,0 +1,461 @@
+/**
+ * Edge Rerouter
+ * Opt-in pass over a finished layout. Lane and pool rearrangement can leave
+ * sequence and message flows running through tasks, through the name headers of
+ * pools and lanes, or out of their pool. Such edges are re-routed orthogonally
+ * around these obstacles with as few bends as possible.
+ *
+ * Routes are searched in absolute coordinates: simple routes with up to two bends
+ * are tried first, then A* on a grid (PathfindingRouter) with bends removed afterwards.
+ * Re-routed edges are written back with absolute coordinates (`_absoluteCoords`).
+ */
+
+import type { LayoutedGraph, EdgeSection } from '../../types/elk-output';
+import type { Bounds, Point } from '../../types/internal';
+import { ModelBuilder } from '../../transform/model-builder';
+import { GROUP_TYPE } from '../../types/bpmn-constants';
+import {
+  collectDiagramGeometry,
+  countBends,
+  EPSILON,
+  type DiagramEdge,
+  type DiagramGeometry,
+  type DiagramSwimlane,
+} from '../../analysis/diagram-geometry';
+import { calculatePathLength, getConnectionPoint, segmentCrossesNode, type ConnectionSide } from './geometry-utils';
+import { PathfindingRouter } from './pathfinding-router';
+import { isDebugEnabled } from '../../utils/debug';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type EdgeRouteProblemKind = 'crosses-node' | 'crosses-lane-header' | 'crosses-pool-boundary';
+
+export interface EdgeRouteProblem {
+  kind: EdgeRouteProblemKind;
+  /** Node, lane or pool the edge runs through */
+  elementId: string;
+}
+
+export interface EdgeRerouteResult {
+  edgeId: string;
+  /** Problems of the route produced by the layout */
+  problems: EdgeRouteProblem[];
+  /** Whether a route without problems was found and applied */
+  rerouted: boolean;
+  /** Bends of the route before and after re-routing */
+  bendsBefore: number;
+  bendsAfter: number;
+}
+
+interface Obstacle {
+  kind: EdgeRouteProblemKind;
+  id: string;
+  bounds: Bounds;
+}
+
+interface RouteContext {
+  source: Bounds;
+  target: Bounds;
+  obstacles: Obstacle[];
+  /** Pool containing both ends, which the route must not leave */
+  pool?: DiagramSwimlane;
+}
+
+interface EdgeElement {
+  id: string;
+  sections?: EdgeSection[];
+  _absoluteCoords?: boolean;
+  _poolRelativeCoords?: boolean;
+}
+
+interface GraphElement {
+  children?: GraphElement[];
+  edges?: EdgeElement[];
+}
+
+/** Width of the name header of pools and lanes */
+const HEADER_SIZE = 30;
+/** Length of the straight piece leaving and entering a node on grid routes */
+const STUB_LENGTH = 20;
+/** Distance kept from obstacles by the channels of simple routes */
+const CLEARANCE = 20;
+
+const SIDES: ConnectionSide[] = ['right', 'bottom', 'left', 'top'];
+const REROUTED_EDGE_TYPES = new Set(['sequenceFlow', 'messageFlow']);
+
+// ============================================================================
+// Edge Rerouter
+// ============================================================================
+
+export class EdgeRerouter {
+  private modelBuilder: ModelBuilder;
+  private router: PathfindingRouter;
+
+  constructor() {
+    this.modelBuilder = new ModelBuilder();
+    this.router = new PathfindingRouter({
+      cellSize: 10,
+      obstacleMargin: 5,
+      allowDiagonal: false,
+      gridPadding: 50,
+    });
+  }
+
+  /**
+   * Re-route edges that cross nodes, lane headers or pool boundaries.
+   * Returns one result per edge that had a problem; other edges are left unchanged.
+   */
+  reroute(graph: LayoutedGraph): EdgeRerouteResult[] {
+    const geometry = collectDiagramGeometry(graph, this.modelBuilder.build(graph));
+    const edgeElements = this.collectEdgeElements(graph);
+    const results: EdgeRerouteResult[] = [];
+
+    for (const edge of geometry.edges) {
+      if (!REROUTED_EDGE_TYPES.has(edge.type)) continue;
+
+      const context = this.createContext(edge, geometry);
+      if (!context) continue;
+
+      const problems = this.findProblems(edge.waypoints, context);
+      if (problems.length === 0) continue;
+
+      const element = edgeElements.get(edge.id);
+      const route = element ? this.findRoute(context) : null;
+      if (element && route) {
+        this.applyRoute(element, route);
+      }
+
+      if (isDebugEnabled()) {
+        const crossed = problems.map((problem) => problem.elementId).join(', ');
+        console.log(`[BPMN] Edge ${edge.id} crosses ${crossed}: ${route ? `re-routed with ${countBends(route)} bends` : 'no clear route found'}`);
+      }
+
+      results.push({
+        edgeId: edge.id,
+        problems,
+        rerouted: route !== null,
+        bendsBefore: countBends(edge.waypoints),
+        bendsAfter: countBends(route ?? edge.waypoints),
+      });
+    }
+
+    return results;
+  }
+
+  // ==========================================================================
+  // Obstacles and Problems
+  // ==========================================================================
+
+  private createContext(edge: DiagramEdge, geometry: DiagramGeometry): RouteContext | null {
+    const source = edge.source ? geometry.shapes.get(edge.source) : undefined;
+    const target = edge.target ? geometry.shapes.get(edge.target) : undefined;
+    if (!source || !target) return null;
+
+    const ends = new Set([edge.source, edge.target]);
+    const nodes = new Map(geometry.nodes.map((node) => [node.id, node]));
+    // Expanded subprocesses around an end are passed through, hosts of attached boundary events are not
+    const enclosing = new Set(
+      [edge.source!, edge.target!]
+        .flatMap((id) => nodes.get(id)?.ancestors ?? [])
+        .filter((id) => nodes.get(id)?.isContainer)
+    );
+
+    const obstacles: Obstacle[] = [];
+    for (const node of geometry.nodes) {
+      if (node.type === GROUP_TYPE || ends.has(node.id) || enclosing.has(node.id)) continue;
+      obstacles.push({ kind: 'crosses-node', id: node.id, bounds: node.bounds });
+    }
+
+    // Pools holding neither end must not be entered; the pool holding both must not be left
+    let pool: DiagramSwimlane | undefined;
+    const foreignPools: DiagramSwimlane[] = [];
+    for (const swimlane of geometry.swimlanes) {
+      if (swimlane.type !== 'participant' || ends.has(swimlane.id)) continue;
+      const holdsSource = this.containsCenter(swimlane.bounds, source);
+      const holdsTarget = this.containsCenter(swimlane.bounds, target);
+      if (!holdsSource && !holdsTarget) {
+        foreignPools.push(swimlane);
+        obstacles.push({ kind: 'crosses-pool-boundary', id: swimlane.id, bounds: swimlane.bounds });
+      } else if (holdsSource && holdsTarget) {
+        pool = swimlane;
+      }
+    }
+
+    for (const swimlane of geometry.swimlanes) {
+      if (swimlane.isBlackBox || ends.has(swimlane.id) || foreignPools.includes(swimlane)) continue;
+      if (foreignPools.some((foreign) => this.containsCenter(foreign.bounds, swimlane.bounds))) continue;
+      obstacles.push({ kind: 'crosses-lane-header', id: swimlane.id, bounds: this.headerBounds(swimlane) });
+    }
+
+    return { source, target, obstacles, pool };
+  }
+
+  private findProblems(route: Point[], context: RouteContext): EdgeRouteProblem[] {
+    const segments = this.segments(route);
+    const problems: EdgeRouteProblem[] = [];
+
+    for (const obstacle of context.obstacles) {
+      const crosses = obstacle.kind === 'crosses-node'
+        ? segments.some(([p1, p2]) => segmentCrossesNode(p1, p2, obstacle.bounds))
+        : segments.some(([p1, p2]) => this.entersArea(p1, p2, obstacle.bounds));
+      if (crosses) {
+        problems.push({ kind: obstacle.kind, elementId: obstacle.id });
+      }
+    }
+
+    if (context.pool && route.some((point) => !this.containsPoint(context.pool!.bounds, point))) {
+      problems.push({ kind: 'crosses-pool-boundary', elementId: context.pool.id });
+    }
+
+    return problems;
+  }
+
+  /**
+   * A route is usable if it has no problems, leaves and enters its nodes
+   * perpendicularly and does not run back through them
+   */
+  private isValid(route: Point[], context: RouteContext): boolean {
+    if (route.length < 2) return false;
+    const { source, target } = context;
+    const segments = this.segments(route);
+
+    if (!this.leavesPerpendicular(source, route[0]!, route[1]!)) return false;
+    if (!this.leavesPerpendicular(target, route[route.length - 1]!, route[route.length - 2]!)) return false;
+    if (segments.slice(1).some(([p1, p2]) => segmentCrossesNode(p1, p2, source))) return false;
+    if (segments.slice(0, -1).some(([p1, p2]) => segmentCrossesNode(p1, p2, target))) return false;
+
+    return this.findProblems(route, context).length === 0;
+  }
+
+  // ==========================================================================
+  // Route Search
+  // ==========================================================================
+
+  /**
+   * Find the clear route with the fewest bends (then the shortest one)
+   */
+  private findRoute(context: RouteContext): Point[] | null {
+    let routes = SIDES.flatMap((sourceSide) =>
+      SIDES.flatMap((targetSide) => this.simpleRoutes(context, sourceSide, targetSide))
+    ).filter((route) => this.isValid(route, context));
+
+    if (routes.length === 0) {
+      this.router.setObstacles(this.gridObstacles(context));
+      routes = SIDES.flatMap((sourceSide) => SIDES.map((targetSide) => this.gridRoute(context, sourceSide, targetSide)))
+        .map((route) => this.removeBends(route, context))
+        .filter((route) => this.isValid(route, context));
+    }
+
+    return routes.reduce<Point[] | null>((best, route) => {
+      if (!best) return route;
+      const bendsDiff = countBends(route) - countBends(best);
+      if (bendsDiff !== 0) return bendsDiff < 0 ? route : best;
+      return calculatePathLength(route) < calculatePathLength(best) ? route : best;
+    }, null);
+  }
+
+  /**
+   * Straight, L- and Z-shaped routes between two sides, with the middle segment of
+   * Z-shaped routes halfway between the nodes or next to an obstacle
+   */
+  private simpleRoutes(context: RouteContext, sourceSide: ConnectionSide, targetSide: ConnectionSide): Point[][] {
+    const start = getConnectionPoint(context.source, sourceSide);
+    const end = getConnectionPoint(context.target, targetSide);
+    const sourceHorizontal = this.isHorizontalSide(sourceSide);
+    const targetHorizontal = this.isHorizontalSide(targetSide);
+
+    if (sourceHorizontal !== targetHorizontal) {
+      const corner = sourceHorizontal ? { x: end.x, y: start.y } : { x: start.x, y: end.y };
+      return [this.simplify([start, corner, end])];
+    }
+
+    const channels = sourceHorizontal
+      ? [(start.x + end.x) / 2, ...context.obstacles.flatMap(({ bounds }) => [bounds.x - CLEARANCE, bounds.x + bounds.width + CLEARANCE])]
+      : [(start.y + end.y) / 2, ...context.obstacles.flatMap(({ bounds }) => [bounds.y - CLEARANCE, bounds.y + bounds.height + CLEARANCE])];
+
+    return channels.map((channel) => this.simplify(sourceHorizontal
+      ? [start, { x: channel, y: start.y }, { x: channel, y: end.y }, end]
+      : [start, { x: start.x, y: channel }, { x: end.x, y: channel }, end]
+    ));
+  }
+
+  /**
+   * Route between two sides with A* on the grid, starting and ending with a short stub
+   */
+  private gridRoute(context: RouteContext, sourceSide: ConnectionSide, targetSide: ConnectionSide): Point[] {
+    const start = getConnectionPoint(context.source, sourceSide);
+    const end = getConnectionPoint(context.target, targetSide);
+    const { path } = this.router.findOrthogonalPath(this.stub(start, sourceSide), this.stub(end, targetSide));
+    return this.simplify([start, ...path, end]);
+  }
+
+  /**
+   * Nodes, headers and foreign pools, plus walls around the own pool
+   */
+  private gridObstacles(context: RouteContext): Bounds[] {
+    const obstacles = [context.source, context.target, ...context.obstacles.map((obstacle) => obstacle.bounds)];
+
+    if (context.pool) {
+      const { x, y, width, height } = context.pool.bounds;
+      const wall = STUB_LENGTH;
+      obstacles.push(
+        { x: x - wall, y: y - wall, width: width + wall * 2, height: wall },
+        { x: x - wall, y: y + height, width: width + wall * 2, height: wall },
+        { x: x - wall, y, width: wall, height },
+        { x: x + width, y, width: wall, height }
+      );
+    }
+
+    return obstacles;
+  }
+
+  /**
+   * Replace parts of a route by straight or L-shaped connections while that
+   * reduces the bends and keeps the route clear
+   */
+  private removeBends(route: Point[], context: RouteContext): Point[] {
+    let current = route;
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+      search: for (let i = 0; i < current.length - 2; i++) {
+        for (let j = current.length - 1; j > i + 1; j--) {
+          const [from, to] = [current[i]!, current[j]!];
+          const connections = this.isAligned(from, to) ? [[]] : [[{ x: to.x, y: from.y }], [{ x: from.x, y: to.y }]];
+
+          for (const connection of connections) {
+            const candidate = this.simplify([...current.slice(0, i + 1), ...connection, ...current.slice(j)]);
+            if (countBends(candidate) < countBends(current) && this.isValid(candidate, context)) {
+              current = candidate;
+              improved = true;
+              break search;
+            }
+          }
+        }
+      }
+    }
+
+    return current;
+  }
+
+  private applyRoute(edge: EdgeElement, route: Point[]): void {
+    const [startPoint, ...rest] = route;
+    const endPoint = rest.pop()!;
+
+    edge.sections = [{
+      id: edge.sections?.[0]?.id ?? `${edge.id}_s0`,
+      startPoint: startPoint!,
+      endPoint,
+      ...(rest.length > 0 ? { bendPoints: rest } : {}),
+    }];
+    edge._absoluteCoords = true;
+    delete edge._poolRelativeCoords;
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private collectEdgeElements(graph: LayoutedGraph): Map<string, EdgeElement> {
+    const edges = new Map<string, EdgeElement>();
+    const visit = (element: GraphElement) => {
+      for (const edge of element.edges ?? []) {
+        edges.set(edge.id, edge);
+      }
+      for (const child of element.children ?? []) {
+        visit(child);
+      }
+    };
+    visit(graph as unknown as GraphElement);
+    return edges;
+  }
+
+  private headerBounds({ bounds, isHorizontal }: DiagramSwimlane): Bounds {
+    return isHorizontal
+      ? { x: bounds.x, y: bounds.y, width: HEADER_SIZE, height: bounds.height }
+      : { x: bounds.x, y: bounds.y, width: bounds.width, height: HEADER_SIZE };
+  }
+
+  /**
+   * Whether the segment runs through the inside of the area (touching its border is fine)
+   */
+  private entersArea(p1: Point, p2: Point, area: Bounds): boolean {
+    return (
+      Math.min(p1.x, p2.x) < area.x + area.width - EPSILON &&
+      Math.max(p1.x, p2.x) > area.x + EPSILON &&
+      Math.min(p1.y, p2.y) < area.y + area.height - EPSILON &&
+      Math.max(p1.y, p2.y) > area.y + EPSILON
+    );
+  }
+
+  /**
+   * Whether the route leaves the node at `end` straight away from the side it starts on
+   */
+  private leavesPerpendicular(node: Bounds, end: Point, next: Point): boolean {
+    const horizontal = Math.abs(next.y - end.y) <= EPSILON;
+    const vertical = Math.abs(next.x - end.x) <= EPSILON;
+
+    if (Math.abs(end.x - node.x) <= EPSILON) return horizontal && next.x < end.x;
+    if (Math.abs(end.x - (node.x + node.width)) <= EPSILON) return horizontal && next.x > end.x;
+    if (Math.abs(end.y - node.y) <= EPSILON) return vertical && next.y < end.y;
+    if (Math.abs(end.y - (node.y + node.height)) <= EPSILON) return vertical && next.y > end.y;
+    return false;
+  }
+
+  private containsCenter(outer: Bounds, inner: Bounds): boolean {
+    return this.containsPoint(outer, { x: inner.x + inner.width / 2, y: inner.y + inner.height / 2 });
+  }
+
+  private containsPoint(bounds: Bounds, point: Point): boolean {
+    return (
+      point.x >= bounds.x - EPSILON &&
+      point.x <= bounds.x + bounds.width + EPSILON &&
+      point.y >= bounds.y - EPSILON &&
+      point.y <= bounds.y + bounds.height + EPSILON
+    );
+  }
+
+  private stub(point: Point, side: ConnectionSide): Point {
+    switch (side) {
+      case 'left':
+        return { x: point.x - STUB_LENGTH, y: point.y };
+      case 'right':
+        return { x: point.x + STUB_LENGTH, y: point.y };
+      case 'top':
+        return { x: point.x, y: point.y - STUB_LENGTH };
+      case 'bottom':
+        return { x: point.x, y: point.y + STUB_LENGTH };
+    }
+  }
+
+  private isHorizontalSide(side: ConnectionSide): boolean {
+    return side === 'left' || side === 'right';
+  }
+
+  private isAligned(a: Point, b: Point): boolean {
+    return Math.abs(a.x - b.x) <= EPSILON || Math.abs(a.y - b.y) <= EPSILON;
+  }
+
+  /**
+   * Drop repeated and collinear points
+   */
+  private simplify(route: Point[]): Point[] {
+    const points = route.filter((point, i) => i === 0 || !this.samePoint(point, route[i - 1]!));
+    return points.filter((point, i) => {
+      if (i === 0 || i === points.length - 1) return true;
+      const [prev, next] = [points[i - 1]!, points[i + 1]!];
+      return countBends([prev, point, next]) > 0;
+    });
+  }
+
+  private samePoint(a: Point, b: Point): boolean {
+    return Math.abs(a.x - b.x) <= EPSILON && Math.abs(a.y - b.y) <= EPSILON;
+  }
+
+  private segments(route: Point[]): Array<[Point, Point]> {
+    return route.slice(1).map((point, i) => [route[i]!, point]);
+  }
+}
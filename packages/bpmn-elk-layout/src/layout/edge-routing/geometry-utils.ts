@@ -243,6 +243,47 @@ export function createOrthogonalPath(
   return waypoints;
 }
 
+/**
+ * Ensure all waypoint segments are orthogonal (horizontal or vertical)
+ * If a diagonal segment is found, insert intermediate bend points to create
+ * an L-shaped orthogonal path.
+ *
+ * Strategy: For diagonal segments, we use "horizontal first" - go horizontally
+ * to the target X, then vertically to the target Y.
+ */
+export function ensureOrthogonalWaypoints(waypoints: Point[]): void {
+  if (waypoints.length < 2) return;
+
+  const tolerance = 1; // Allow 1px tolerance for floating point errors
+  let i = 0;
+
+  while (i < waypoints.length - 1) {
+    const current = waypoints[i];
+    const next = waypoints[i + 1];
+    if (!current || !next) {
+      i++;
+      continue;
+    }
+
+    const dx = Math.abs(next.x - current.x);
+    const dy = Math.abs(next.y - current.y);
+
+    // Check if this segment is diagonal (both dx and dy are significant)
+    if (dx > tolerance && dy > tolerance) {
+      // Insert a bend point to make it orthogonal
+      // Use "horizontal first" strategy: go to next.x first, then to next.y
+      const bendPoint: Point = { x: next.x, y: current.y };
+      waypoints.splice(i + 1, 0, bendPoint);
+      // Don't increment i - we need to check the newly created segment
+      // But the next iteration will check (current -> bendPoint) which is horizontal
+      // So we can safely increment to check the next pair
+      i++;
+    } else {
+      i++;
+    }
+  }
+}
+
 /**
  * Score a route based on obstacle crossings and path length
  * Lower score = better route
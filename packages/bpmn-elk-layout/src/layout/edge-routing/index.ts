@@ -1,4 +1,10 @@
 export { EdgeFixer } from './edge-fixer';
+export {
+  EdgeRerouter,
+  type EdgeRerouteResult,
+  type EdgeRouteProblem,
+  type EdgeRouteProblemKind,
+} from './edge-rerouter';
 export {
   distance,
   calculatePathLength,
@@ -10,6 +16,7 @@ export {
   getConnectionPoint,
   determineBestConnectionSide,
   createOrthogonalPath,
+  ensureOrthogonalWaypoints,
   scoreRoute,
   findClearVerticalPath,
   findClearHorizontalPath,
@@ -84,6 +84,12 @@ export class PathfindingRouter {
       return { path: [source, target], success: false };
     }
 
+    // Grow the grid to end points beyond the obstacles, which would otherwise be clamped together
+    if (!this.gridContains(source) || !this.gridContains(target)) {
+      this.calculateGridBounds([source, target]);
+      this.buildGrid();
+    }
+
     // Convert points to grid coordinates
     const startGrid = this.toGridCoords(source);
     const endGrid = this.toGridCoords(target);
@@ -177,8 +183,11 @@ export class PathfindingRouter {
   // Private: Grid Building
   // ============================================================================
 
-  private calculateGridBounds(): void {
-    if (this.obstacles.length === 0) {
+  /**
+   * Grid bounds around the obstacles and the given points
+   */
+  private calculateGridBounds(points: Point[] = []): void {
+    if (this.obstacles.length === 0 && points.length === 0) {
       this.gridBounds = { x: 0, y: 0, width: 100, height: 100 };
       return;
     }
@@ -188,7 +197,7 @@ export class PathfindingRouter {
     let maxX = -Infinity;
     let maxY = -Infinity;
 
-    for (const obs of this.obstacles) {
+    for (const obs of [...this.obstacles, ...points.map((point) => ({ ...point, width: 0, height: 0 }))]) {
       minX = Math.min(minX, obs.x);
       minY = Math.min(minY, obs.y);
       maxX = Math.max(maxX, obs.x + obs.width);
@@ -204,6 +213,16 @@ export class PathfindingRouter {
     };
   }
 
+  private gridContains(point: Point): boolean {
+    const bounds = this.gridBounds!;
+    return (
+      point.x >= bounds.x &&
+      point.x <= bounds.x + bounds.width &&
+      point.y >= bounds.y &&
+      point.y <= bounds.y + bounds.height
+    );
+  }
+
   private buildGrid(): void {
     if (!this.gridBounds) return;
 
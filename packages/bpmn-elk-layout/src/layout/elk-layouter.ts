@@ -6,31 +6,71 @@
  * ELK handles all edge routing.
  */
 
-import ELK from 'elkjs';
-import type { ElkNode } from 'elkjs';
+import type { ElkNode, ElkExtendedEdge, ElkEdgeSection } from 'elkjs';
 import type { ElkBpmnGraph, ElkLayoutOptions } from '../types';
 import type { LayoutedGraph } from '../types/elk-output';
-import { SizeCalculator } from './size-calculator';
+import { LayoutInvariantChecker, type LayoutResult } from '../analysis/invariant-checker';
+import { SizeCalculator, type ElementSizeOptions } from './size-calculator';
+import { ElkRunner, createLayoutSignal, type ElkWorkerOptions, type LayoutRunOptions } from './elk-runner';
+import { SubgraphCache, type LayoutCache } from './cache';
 import { BoundaryEventHandler } from './post-processing/boundary-event';
 import { ArtifactPositioner } from './post-processing/artifact-positioner';
 import { GroupPositioner } from './post-processing/group-positioner';
 import { LaneArranger } from './post-processing/lane-arranger';
 import { PoolArranger } from './post-processing/pool-arranger';
 import { Compactor } from './post-processing/compactor';
+import { OrientationTransposer } from './post-processing/orientation-transposer';
 import { ElkGraphPreparer } from './preparation/elk-graph-preparer';
 import { ResultMerger } from './preparation/result-merger';
+import { IncrementalLayouter } from './incremental';
+import { MainFlowNormalizer, GatewayPropagator } from './normalization';
+import { EdgeRerouter } from './edge-routing/edge-rerouter';
+import { ConstraintRefiner } from './constraint';
+import { mergeElkOptions } from './default-options';
+import {
+  resolveLayoutTheme,
+  type LayoutTheme,
+  type LayoutThemeName,
+  type LayoutThemeOverrides,
+} from './layout-theme';
 import { isDebugEnabled } from '../utils/debug';
+import type { TextMeasurer } from '../text';
+import type { BoundaryEventInfo, NodeMoveInfo } from '../types/internal';
 
 export interface ElkLayouterOptions {
   elkOptions?: ElkLayoutOptions;
   /** Enable layout compaction to reduce whitespace */
   enableCompaction?: boolean;
+  /** Throw a LayoutInvariantError when the finished layout violates an invariant */
+  strict?: boolean;
+  /** Keep the main flow at the top and happy-path flows on one horizontal line */
+  alignMainFlow?: boolean;
+  /** Re-route edges that cross nodes, lane headers or pool boundaries after layout */
+  rerouteEdges?: boolean;
+  /** How boundary event branches are placed below their host: priority heuristics or tidy trees */
+  boundaryBranchLayout?: 'heuristic' | 'tree';
+  /** Measure names to size activities; uses name length heuristics when not set */
+  textMeasurer?: TextMeasurer;
+  /** Element sizes, spacing and pool/lane dimensions: a preset name or overrides of a preset */
+  theme?: LayoutThemeName | LayoutThemeOverrides;
+  /** Size overrides per BPMN type and a per-node size callback */
+  sizes?: ElementSizeOptions;
+  /** Run ELK in a worker (Node.js worker_threads or a browser Web Worker) instead of on the calling thread */
+  worker?: boolean | ElkWorkerOptions;
+  /** Reuse layouts of unchanged graphs and of unchanged SEPARATE_CHILDREN subgraphs */
+  cache?: LayoutCache;
 }
 
 export class ElkLayouter {
-  private elk: InstanceType<typeof ELK>;
+  private elkRunner: ElkRunner;
+  private cache?: LayoutCache;
+  private subgraphCache?: SubgraphCache;
   private userOptions: ElkLayoutOptions;
   private enableCompaction: boolean;
+  private alignMainFlow: boolean;
+  private rerouteEdges: boolean;
+  private boundaryBranchLayout: 'heuristic' | 'tree';
+  private theme: LayoutTheme;
   private sizeCalculator: SizeCalculator;
   private boundaryEventHandler: BoundaryEventHandler;
   private artifactPositioner: ArtifactPositioner;
@@ -38,28 +78,138 @@ export class ElkLayouter {
   private laneArranger: LaneArranger;
   private poolArranger: PoolArranger;
   private compactor: Compactor;
+  private orientationTransposer: OrientationTransposer;
   private graphPreparer: ElkGraphPreparer;
   private resultMerger: ResultMerger;
+  private incrementalLayouter: IncrementalLayouter;
+  private mainFlowNormalizer: MainFlowNormalizer;
+  private gatewayPropagator: GatewayPropagator;
+  private edgeRerouter: EdgeRerouter;
+  private constraintRefiner: ConstraintRefiner;
+  private invariantChecker: LayoutInvariantChecker;
 
   constructor(options?: ElkLayouterOptions) {
-    this.elk = new ELK();
+    this.elkRunner = new ElkRunner({ worker: options?.worker });
+    this.cache = options?.cache;
+    this.subgraphCache = this.cache ? new SubgraphCache(this.cache) : undefined;
     this.userOptions = options?.elkOptions ?? {};
     this.enableCompaction = options?.enableCompaction ?? false;
-    this.sizeCalculator = new SizeCalculator();
+    this.alignMainFlow = options?.alignMainFlow ?? false;
+    this.rerouteEdges = options?.rerouteEdges ?? false;
+    this.boundaryBranchLayout = options?.boundaryBranchLayout ?? 'heuristic';
+    this.theme = resolveLayoutTheme(options?.theme);
+    const sizeOptions = { textMeasurer: options?.textMeasurer, theme: this.theme, sizes: options?.sizes };
+    this.sizeCalculator = new SizeCalculator(sizeOptions);
     this.boundaryEventHandler = new BoundaryEventHandler();
     this.artifactPositioner = new ArtifactPositioner();
     this.groupPositioner = new GroupPositioner();
-    this.laneArranger = new LaneArranger();
-    this.poolArranger = new PoolArranger();
+    this.laneArranger = new LaneArranger(this.theme);
+    this.poolArranger = new PoolArranger(this.theme, this.sizeCalculator);
     this.compactor = new Compactor();
-    this.graphPreparer = new ElkGraphPreparer();
+    this.orientationTransposer = new OrientationTransposer();
+    this.graphPreparer = new ElkGraphPreparer(sizeOptions);
     this.resultMerger = new ResultMerger();
+    this.incrementalLayouter = new IncrementalLayouter();
+    this.mainFlowNormalizer = new MainFlowNormalizer();
+    this.gatewayPropagator = new GatewayPropagator();
+    this.edgeRerouter = new EdgeRerouter();
+    this.constraintRefiner = new ConstraintRefiner({ debug: isDebugEnabled() });
+    this.invariantChecker = new LayoutInvariantChecker({ strict: options?.strict });
   }
 
   /**
    * Run ELK layout on the graph
    */
-  async layout(graph: ElkBpmnGraph): Promise<LayoutedGraph> {
+  async layout(graph: ElkBpmnGraph, options?: LayoutRunOptions): Promise<LayoutedGraph> {
+    const { graph: layouted } = await this.layoutWithWarnings(graph, options);
+    return layouted;
+  }
+
+  /**
+   * Run ELK layout on the graph and check the result for broken invariants
+   * (nodes outside their lane, overlapping nodes, detached edge end points)
+   * @throws LayoutInvariantError in strict mode if any invariant is violated
+   * @throws the signal's reason (a TimeoutError on timeout) when the layout is cancelled
+   */
+  async layoutWithWarnings(graph: ElkBpmnGraph, options?: LayoutRunOptions): Promise<LayoutResult> {
+    const { signal, dispose } = createLayoutSignal(options);
+    let layouted: LayoutedGraph;
+    try {
+      layouted = await this.runLayout(graph, signal);
+    } finally {
+      dispose();
+    }
+
+    if (!this.rerouteEdges) {
+      return this.invariantChecker.verify(layouted);
+    }
+
+    // Re-route edges on the finished layout, when lanes and pools are in their final place
+    const reroutedEdges = this.edgeRerouter.reroute(layouted);
+    return { ...this.invariantChecker.verify(layouted), reroutedEdges };
+  }
+
+  /**
+   * Lay out an edited graph while preserving a previous layout of it.
+   * Nodes present in both graphs stay at their previous positions, new nodes are
+   * placed around them, and pools/lanes keep their order and only grow.
+   */
+  async layoutIncremental(previous: LayoutedGraph, next: ElkBpmnGraph, options?: LayoutRunOptions): Promise<LayoutedGraph> {
+    const { graph: layouted } = await this.layoutIncrementalWithWarnings(previous, next, options);
+    return layouted;
+  }
+
+  /**
+   * Lay out an edited graph while preserving a previous layout of it,
+   * and check the result for broken invariants
+   * @throws LayoutInvariantError in strict mode if any invariant is violated
+   * @throws the signal's reason (a TimeoutError on timeout) when the layout is cancelled
+   */
+  async layoutIncrementalWithWarnings(
+    previous: LayoutedGraph,
+    next: ElkBpmnGraph,
+    options?: LayoutRunOptions
+  ): Promise<LayoutResult> {
+    // Deep clone to avoid mutating the original
+    const ordered = JSON.parse(JSON.stringify(next)) as ElkBpmnGraph;
+    this.incrementalLayouter.alignContainerOrder(previous, ordered);
+
+    const { signal, dispose } = createLayoutSignal(options);
+    let layouted: LayoutedGraph;
+    try {
+      layouted = await this.runLayout(ordered, signal, (elkGraph) => {
+        this.incrementalLayouter.applyPositionHints(elkGraph, previous);
+      });
+    } finally {
+      dispose();
+    }
+
+    const restored = this.incrementalLayouter.restore(previous, layouted);
+    if (!this.rerouteEdges) {
+      return this.invariantChecker.verify(restored);
+    }
+
+    const reroutedEdges = this.edgeRerouter.reroute(restored);
+    return { ...this.invariantChecker.verify(restored), reroutedEdges };
+  }
+
+  /**
+   * Terminate the ELK workers (worker mode only); Node.js keeps running while a worker is alive
+   */
+  terminate(): void {
+    this.elkRunner.terminate();
+  }
+
+  /**
+   * Run the layout pipeline
+   * @param signal - Cancels the layout
+   * @param beforeElk - Optional hook to adjust the prepared ELK graph before ELK runs
+   */
+  private async runLayout(
+    graph: ElkBpmnGraph,
+    signal?: AbortSignal,
+    beforeElk?: (elkGraph: ElkNode) => void
+  ): Promise<LayoutedGraph> {
     // Deep clone to avoid mutating the original
     const graphCopy = JSON.parse(JSON.stringify(graph)) as ElkBpmnGraph;
 
@@ -81,15 +231,32 @@ export class ElkLayouter {
     // Prepare graph for ELK (convert to ELK format)
     // Pass boundaryEventTargetIds so ELK can apply position constraints
     const elkGraph = this.graphPreparer.prepare(sizedGraph, this.userOptions, boundaryEventTargetIds);
+    beforeElk?.(elkGraph);
+
+    // Reuse the layout of an identical graph; incremental layouts depend on the previous layout too
+    const cacheKey = this.cache && !beforeElk
+      ? this.createCacheKey(sizedGraph, elkGraph)
+      : undefined;
+    if (cacheKey) {
+      const cached = await this.cache!.get<LayoutedGraph>(cacheKey);
+      if (cached) {
+        signal?.throwIfAborted();
+        return cached;
+      }
+    }
 
-    // Run ELK layout
-    const layoutedElkGraph = await this.elk.layout(elkGraph);
+    // Run ELK layout, reusing the layout of unchanged subgraphs
+    const subgraphs = await this.subgraphCache?.detach(elkGraph);
+    const layoutedElkGraph = await this.elkRunner.layout(elkGraph, signal);
+    if (subgraphs) {
+      await this.subgraphCache!.attach(layoutedElkGraph, subgraphs);
+    }
 
     // Lightweight post-processing: Move boundary event targets below their attached tasks
     // This is BPMN-specific positioning that ELK cannot handle via constraints
-    const movedNodes = this.boundaryEventHandler.identifyNodesToMove(
-      layoutedElkGraph, boundaryEventInfo, sizedGraph, isDebugEnabled()
-    );
+    const movedNodes = this.boundaryBranchLayout === 'tree'
+      ? this.boundaryEventHandler.layoutBranchesAsTrees(layoutedElkGraph, boundaryEventInfo, sizedGraph, isDebugEnabled())
+      : this.boundaryEventHandler.identifyNodesToMove(layoutedElkGraph, boundaryEventInfo, sizedGraph, isDebugEnabled());
 
     if (movedNodes.size > 0) {
       // Move nodes
@@ -98,9 +265,37 @@ export class ElkLayouter {
       this.boundaryEventHandler.recalculateEdgesForMovedNodes(layoutedElkGraph, movedNodes, boundaryEventInfo);
     }
 
+    // Pull the main flow back up (boundary branches make ELK push it down) and straighten the happy path
+    if (this.alignMainFlow) {
+      this.alignMainFlowNodes(layoutedElkGraph, sizedGraph, movedNodes, boundaryEventInfo, boundaryEventTargetIds);
+    }
+
+    // Tree branches are entered from the left, directly below their boundary event
+    if (this.boundaryBranchLayout === 'tree') {
+      this.boundaryEventHandler.routeBranchEntries(layoutedElkGraph, boundaryEventInfo, movedNodes);
+    }
+
     // Reposition artifacts (data objects, data stores, annotations) to be near their associated tasks
     this.artifactPositioner.reposition(layoutedElkGraph, artifactInfo);
 
+    const vertical = mergeElkOptions(this.userOptions, graph.layoutOptions)['elk.direction'] === 'DOWN';
+
+    // Apply user-declared constraints and node layout hints (alignWith, sameLayer, pin)
+    const constraints = this.constraintRefiner.collectConstraints(sizedGraph, vertical);
+    if (constraints.length > 0) {
+      const constraintMoves = this.constraintRefiner.refine(layoutedElkGraph, constraints);
+      if (constraintMoves.size > 0) {
+        this.boundaryEventHandler.applyNodeMoves(layoutedElkGraph, constraintMoves);
+        this.boundaryEventHandler.recalculateEdgesForMovedNodes(layoutedElkGraph, constraintMoves, boundaryEventInfo);
+      }
+    }
+
+    // Swimlane arrangement assumes left-to-right flow: lay vertical diagrams on their side
+    // until container bounds are final, so lanes end up side by side with top headers
+    if (vertical) {
+      this.orientationTransposer.transpose(layoutedElkGraph);
+    }
+
     // Rearrange lanes to stack vertically within pools (ELK's partitioning doesn't do this correctly)
     this.laneArranger.rearrange(layoutedElkGraph, sizedGraph);
 
@@ -121,8 +316,154 @@ export class ElkLayouter {
     // Update container bounds to include all moved children
     this.updateContainerBounds(layoutedElkGraph);
 
+    if (vertical) {
+      this.orientationTransposer.transpose(layoutedElkGraph);
+      this.markVerticalSwimlanes(sizedGraph);
+    }
+
     // Merge layout results back with BPMN metadata
-    return this.resultMerger.merge(sizedGraph, layoutedElkGraph);
+    const layouted = this.resultMerger.merge(sizedGraph, layoutedElkGraph);
+    if (cacheKey) {
+      await this.cache!.set(cacheKey, layouted);
+    }
+    return layouted;
+  }
+
+  /**
+   * Cache key of a layout: the sized input, the merged ELK options and the
+   * settings of the post-processing steps
+   */
+  private createCacheKey(sizedGraph: ElkBpmnGraph, elkGraph: ElkNode): string {
+    return this.cache!.createKey('layout', {
+      graph: sizedGraph,
+      elkOptions: elkGraph.layoutOptions,
+      theme: this.theme,
+      enableCompaction: this.enableCompaction,
+      alignMainFlow: this.alignMainFlow,
+      boundaryBranchLayout: this.boundaryBranchLayout,
+    });
+  }
+
+  /**
+   * Align the main flow after boundary event branches have been moved:
+   * 1. Move converging gateways right of their branches and propagate the move downstream
+   * 2. Shift the main flow back to the top
+   * 3. Put nodes of flows marked with bpmn.isHappyPath on one horizontal line
+   *
+   * Marked happy-path flows define the main flow; otherwise it is traced from the start events.
+   */
+  private alignMainFlowNodes(
+    graph: ElkNode,
+    sizedGraph: ElkBpmnGraph,
+    movedNodes: Map<string, NodeMoveInfo>,
+    boundaryEventInfo: Map<string, BoundaryEventInfo>,
+    boundaryEventTargetIds: Set<string>
+  ): void {
+    const happyPathNodes = this.graphPreparer.identifyHappyPathNodes(sizedGraph);
+    for (const boundaryEventId of boundaryEventInfo.keys()) {
+      happyPathNodes.delete(boundaryEventId);
+    }
+    const mainFlowNodes = happyPathNodes.size > 0
+      ? happyPathNodes
+      : this.graphPreparer.identifyMainFlowNodes(sizedGraph, boundaryEventTargetIds);
+
+    // Only boundary event branches push the main flow away from the top
+    const hasBoundaryMoves = movedNodes.size > 0;
+    if (hasBoundaryMoves) {
+      const gatewayMoves = this.boundaryEventHandler.repositionConvergingGateways(
+        graph, movedNodes, boundaryEventInfo, isDebugEnabled()
+      );
+      if (gatewayMoves.size > 0) {
+        this.gatewayPropagator.propagate(graph, gatewayMoves, mainFlowNodes);
+        this.boundaryEventHandler.applyNodeMoves(graph, gatewayMoves);
+        this.boundaryEventHandler.recalculateEdgesForMovedNodes(graph, gatewayMoves, boundaryEventInfo);
+      }
+    }
+
+    const positionsBefore = this.collectNodePositions(graph);
+    const sectionsBefore = new Map(
+      this.collectEdges(graph).map((edge) => [edge.id, JSON.parse(JSON.stringify(edge.sections ?? [])) as ElkEdgeSection[]])
+    );
+
+    if (hasBoundaryMoves) {
+      this.mainFlowNormalizer.normalize(graph, mainFlowNodes, boundaryEventTargetIds, sizedGraph);
+    }
+    if (happyPathNodes.size > 0) {
+      this.boundaryEventHandler.applyNodeMoves(graph, this.mainFlowNormalizer.straighten(graph, happyPathNodes));
+    }
+
+    const alignMoves = new Map<string, NodeMoveInfo>();
+    for (const [id, position] of this.collectNodePositions(graph)) {
+      const before = positionsBefore.get(id);
+      if (before && position.y !== before.y) {
+        alignMoves.set(id, { newY: position.y, offset: position.y - before.y, newX: position.x });
+      }
+    }
+    if (alignMoves.size === 0) return;
+
+    // Edges between nodes shifted by the same offset keep their shape; all others are rerouted
+    this.boundaryEventHandler.recalculateEdgesForMovedNodes(graph, alignMoves, boundaryEventInfo);
+    for (const edge of this.collectEdges(graph)) {
+      const sections = sectionsBefore.get(edge.id);
+      const sourceMove = alignMoves.get(edge.sources?.[0] ?? '');
+      const targetMove = alignMoves.get(edge.targets?.[0] ?? '');
+      if (sections && sourceMove && targetMove && sourceMove.offset === targetMove.offset) {
+        const shift = (point: { x: number; y: number }) => ({ x: point.x, y: point.y + sourceMove.offset });
+        edge.sections = sections.map((section) => ({
+          ...section,
+          startPoint: shift(section.startPoint),
+          endPoint: shift(section.endPoint),
+          bendPoints: section.bendPoints?.map(shift),
+        }));
+      }
+    }
+  }
+
+  /**
+   * Current positions of all positioned nodes, keyed by id
+   */
+  private collectNodePositions(graph: ElkNode): Map<string, { x: number; y: number }> {
+    const positions = new Map<string, { x: number; y: number }>();
+    const collect = (node: ElkNode) => {
+      if (node.x !== undefined && node.y !== undefined) {
+        positions.set(node.id, { x: node.x, y: node.y });
+      }
+      for (const child of node.children ?? []) {
+        collect(child);
+      }
+    };
+    collect(graph);
+    return positions;
+  }
+
+  /**
+   * All edges of the graph, including edges inside containers
+   */
+  private collectEdges(graph: ElkNode): ElkExtendedEdge[] {
+    const edges: ElkExtendedEdge[] = [];
+    const collect = (node: ElkNode) => {
+      edges.push(...(node.edges ?? []));
+      for (const child of node.children ?? []) {
+        collect(child);
+      }
+    };
+    collect(graph);
+    return edges;
+  }
+
+  /**
+   * Mark pools and lanes as vertical so the diagram is written with isHorizontal="false"
+   */
+  private markVerticalSwimlanes(graph: ElkBpmnGraph): void {
+    const visit = (node: { bpmn?: { type?: string; isHorizontal?: boolean }; children?: unknown[] }) => {
+      if (node.bpmn?.type === 'participant' || node.bpmn?.type === 'lane') {
+        node.bpmn.isHorizontal = false;
+      }
+      for (const child of node.children ?? []) {
+        visit(child as typeof node);
+      }
+    };
+    visit(graph as unknown as Parameters<typeof visit>[0]);
   }
 
   /**
@@ -145,16 +486,16 @@ export class ElkLayouter {
           maxY = Math.max(maxY, childMaxY);
         }
 
-        // Check if this container has lanes (children positioned at x=30, which is the lane header width)
+        // Check if this container has lanes (children positioned at the lane header width)
         // Pools with lanes should not have padding added - lanes fill the pool completely
         const hasLanes = node.children.length > 0 &&
-          node.children.every(child => (child.x ?? 0) === 30);
+          node.children.every(child => (child.x ?? 0) === this.theme.lane.headerWidth);
 
         // If children extend beyond current bounds, expand the container
         const nodeX = node.x ?? 0;
         const nodeY = node.y ?? 0;
         // Don't add padding for pools with lanes - lanes already fill the container
-        const padding = hasLanes ? 0 : 12;
+        const padding = hasLanes ? 0 : this.theme.containerPadding;
 
         // Calculate required dimensions based on children
         let requiredWidth = 0;
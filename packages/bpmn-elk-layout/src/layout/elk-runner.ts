@@ -0,0 +1,206 @@
+/**
+ * ELK Runner
+ * Runs ELK on the calling thread (default) or in a worker, so that large diagrams
+ * do not block the UI or the event loop:
+ * - Node.js: a worker_threads worker (through the 'web-worker' package) that loads
+ *   the worker script of the installed elkjs (or, where that cannot be resolved,
+ *   the package's own worker entry next to this module)
+ * - Browsers: a Web Worker created by `workerFactory` (e.g. one importing
+ *   'bpmn-elk-layout/elk-worker') or loaded from `workerUrl`
+ *
+ * Layouts can be cancelled with an AbortSignal or a timeout. A worker is terminated
+ * when its layout is cancelled; on the calling thread ELK cannot be interrupted,
+ * so the layout stops as soon as ELK returns.
+ */
+
+import ELK from 'elkjs';
+import type { ELK as ElkInstance, ELKConstructorArguments, ElkNode } from 'elkjs';
+import Worker from 'web-worker';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ElkWorkerOptions {
+  /**
+   * URL (browsers) or file path (Node.js) of elkjs' `elk-worker.min.js`
+   * @default the worker script of the installed elkjs (Node.js only)
+   */
+  workerUrl?: string;
+  /**
+   * Create the worker, e.g. `() => new Worker(new URL('./elk.worker.ts', import.meta.url))`
+   * with a worker module that imports 'bpmn-elk-layout/elk-worker'
+   */
+  workerFactory?: ELKConstructorArguments['workerFactory'];
+}
+
+export interface ElkRunnerOptions {
+  /** Run ELK in a worker instead of on the calling thread */
+  worker?: boolean | ElkWorkerOptions;
+}
+
+export interface LayoutRunOptions {
+  /** Cancel the layout; the promise rejects with the signal's reason */
+  signal?: AbortSignal;
+  /** Cancel the layout after this many milliseconds; the promise rejects with a TimeoutError */
+  timeout?: number;
+}
+
+/** Module of the elkjs worker script */
+const ELK_WORKER_SCRIPT = 'elkjs/lib/elk-worker.min.js';
+
+/** The package's worker entry in the ES module build, next to the bundled module */
+const PACKAGE_WORKER_MODULE = './elk-worker.mjs';
+
+// ============================================================================
+// ELK Runner
+// ============================================================================
+
+export class ElkRunner {
+  private elk?: ElkInstance;
+  private workerOptions?: ElkWorkerOptions;
+  /** Worker kept for the next layout */
+  private idleWorker?: ElkInstance;
+  /** Workers with a running layout, and how to reject it when the worker is terminated */
+  private busyWorkers: Map<ElkInstance, (reason: unknown) => void> = new Map();
+
+  constructor(options?: ElkRunnerOptions) {
+    if (options?.worker) {
+      this.workerOptions = options.worker === true ? {} : options.worker;
+    } else {
+      this.elk = new ELK();
+    }
+  }
+
+  /**
+   * Lay out the graph with ELK
+   * @throws the signal's reason when the signal is aborted
+   */
+  async layout(graph: ElkNode, signal?: AbortSignal): Promise<ElkNode> {
+    signal?.throwIfAborted();
+
+    if (this.elk) {
+      const layouted = await this.elk.layout(graph);
+      signal?.throwIfAborted();
+      return layouted;
+    }
+
+    const worker = this.idleWorker ?? this.createWorker();
+    this.idleWorker = undefined;
+
+    return new Promise<ElkNode>((resolve, reject) => {
+      const onAbort = () => {
+        this.terminateWorker(worker);
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.busyWorkers.set(worker, reject);
+
+      worker.layout(graph).then(resolve, reject).finally(() => {
+        signal?.removeEventListener('abort', onAbort);
+        if (this.busyWorkers.delete(worker)) {
+          this.releaseWorker(worker);
+        }
+      });
+    });
+  }
+
+  /**
+   * Terminate all workers; running layouts are rejected.
+   * Node.js keeps running while a worker is alive.
+   */
+  terminate(): void {
+    if (this.idleWorker) {
+      this.idleWorker.terminateWorker();
+      this.idleWorker = undefined;
+    }
+    for (const [worker, reject] of this.busyWorkers) {
+      this.terminateWorker(worker);
+      reject(new Error('ELK worker was terminated'));
+    }
+  }
+
+  private createWorker(): ElkInstance {
+    const { workerUrl, workerFactory } = this.workerOptions!;
+    return new ELK(workerUrl || workerFactory ? { workerUrl, workerFactory } : getDefaultWorkerOptions());
+  }
+
+  /**
+   * Keep one worker for the next layout, terminate the others
+   */
+  private releaseWorker(worker: ElkInstance): void {
+    if (this.idleWorker) {
+      worker.terminateWorker();
+    } else {
+      this.idleWorker = worker;
+    }
+  }
+
+  private terminateWorker(worker: ElkInstance): void {
+    this.busyWorkers.delete(worker);
+    worker.terminateWorker();
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Combine the signal and the timeout of the options into one signal
+ * @returns The signal (undefined without signal and timeout) and a function that stops the timer
+ */
+export function createLayoutSignal(options?: LayoutRunOptions): { signal?: AbortSignal; dispose: () => void } {
+  const { signal, timeout } = options ?? {};
+  if (timeout === undefined) {
+    return { signal, dispose: () => {} };
+  }
+  if (!(timeout > 0)) {
+    throw new Error(`Invalid timeout ${timeout}: must be a positive number of milliseconds`);
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal!.reason);
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+  const timer = setTimeout(() => {
+    controller.abort(new DOMException(`Layout timed out after ${timeout}ms`, 'TimeoutError'));
+  }, timeout);
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Worker of the installed elkjs (Node.js only)
+ */
+function getDefaultWorkerOptions(): ELKConstructorArguments {
+  const isNode = typeof process !== 'undefined' && !!process.versions?.node;
+  // ES modules (Node.js 18.19+), then CommonJS
+  if (isNode && typeof import.meta.resolve === 'function') {
+    return { workerUrl: import.meta.resolve(ELK_WORKER_SCRIPT) };
+  }
+  if (isNode && typeof require === 'function' && typeof require.resolve === 'function') {
+    return { workerUrl: require.resolve(ELK_WORKER_SCRIPT) };
+  }
+  // ES modules of older Node.js versions: the package's worker entry imports the
+  // elkjs script, so it has to run as a module worker. elkjs replaces the factory
+  // when a workerUrl is given, hence the URL is only known to the factory.
+  if (isNode) {
+    const url = new URL(PACKAGE_WORKER_MODULE, import.meta.url).href;
+    return { workerFactory: () => new Worker(url, { type: 'module' }) };
+  }
+
+  throw new Error(
+    'Cannot locate the ELK worker script. Set worker.workerFactory (e.g. a Web Worker that imports ' +
+    "'bpmn-elk-layout/elk-worker') or worker.workerUrl."
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * Fixed Layout Validator
+ * Checks that a graph already carries complete coordinates (e.g. a saved and
+ * hand-edited to_json result), so that ELK layout can be skipped and the
+ * coordinates sent straight through ModelBuilder/DiagramBuilder.
+ */
+
+import type { ElkBpmnGraph } from '../types';
+import type { LayoutedGraph } from '../types/elk-output';
+
+export interface FixedLayoutIssue {
+  /** Element id */
+  id: string;
+  /** Location in the graph, e.g. children[0].children[2] */
+  path: string;
+  /** Missing or invalid properties, e.g. ['x', 'width'] or ['sections'] */
+  missing: string[];
+}
+
+interface NodeLike {
+  id?: string;
+  x?: unknown;
+  y?: unknown;
+  width?: unknown;
+  height?: unknown;
+  bpmn?: { type?: string };
+  children?: NodeLike[];
+  artifacts?: NodeLike[];
+  edges?: EdgeLike[];
+}
+
+interface EdgeLike {
+  id?: string;
+  sections?: Array<{ startPoint?: PointLike; endPoint?: PointLike; bendPoints?: PointLike[] }>;
+}
+
+interface PointLike {
+  x?: unknown;
+  y?: unknown;
+}
+
+const BOUNDS_KEYS = ['x', 'y', 'width', 'height'] as const;
+
+export class FixedLayoutValidator {
+  /**
+   * Collect all elements that are missing coordinates.
+   *
+   * Top-level processes and collaborations need no bounds (they have no shape).
+   * Boundary events need none either: they are always placed on their host's border.
+   * Entries of `artifacts` lists only need bounds once they have a position: the layout
+   * does not position them and they get no diagram interchange.
+   */
+  validate(graph: ElkBpmnGraph | LayoutedGraph): FixedLayoutIssue[] {
+    const issues: FixedLayoutIssue[] = [];
+
+    (graph.children as NodeLike[] | undefined)?.forEach((child, index) => {
+      this.validateContainer(child, `children[${index}]`, issues);
+    });
+
+    return issues;
+  }
+
+  /**
+   * Validate the graph and return a copy typed as a layouted graph
+   * @throws Error listing every element with missing coordinates
+   */
+  prepare(graph: ElkBpmnGraph | LayoutedGraph): LayoutedGraph {
+    const issues = this.validate(graph);
+
+    if (issues.length > 0) {
+      const details = issues
+        .map((issue) => `  - ${issue.id} (${issue.path}): ${issue.missing.join(', ')}`)
+        .join('\n');
+      throw new Error(`Fixed layout is missing coordinates for ${issues.length} element(s):\n${details}`);
+    }
+
+    // Deep clone to avoid mutating the original
+    return JSON.parse(JSON.stringify(graph)) as LayoutedGraph;
+  }
+
+  /**
+   * Validate the contents of a container without requiring bounds on the container itself
+   */
+  private validateContainer(container: NodeLike, path: string, issues: FixedLayoutIssue[]): void {
+    container.children?.forEach((child, index) => {
+      this.validateNode(child, `${path}.children[${index}]`, issues);
+    });
+    container.artifacts?.forEach((artifact, index) => {
+      if (artifact.x !== undefined || artifact.y !== undefined) {
+        this.validateNode(artifact, `${path}.artifacts[${index}]`, issues);
+      }
+    });
+    container.edges?.forEach((edge, index) => {
+      this.validateEdge(edge, `${path}.edges[${index}]`, issues);
+    });
+  }
+
+  private validateNode(node: NodeLike, path: string, issues: FixedLayoutIssue[]): void {
+    const missing = BOUNDS_KEYS.filter((key) => !isFiniteNumber(node[key]));
+    if (missing.length > 0) {
+      issues.push({ id: node.id ?? '(unknown)', path, missing: [...missing] });
+    }
+
+    this.validateContainer(node, path, issues);
+  }
+
+  private validateEdge(edge: EdgeLike, path: string, issues: FixedLayoutIssue[]): void {
+    const sections = edge.sections;
+
+    if (!sections || sections.length === 0) {
+      issues.push({ id: edge.id ?? '(unknown)', path, missing: ['sections'] });
+      return;
+    }
+
+    const missing: string[] = [];
+    sections.forEach((section, index) => {
+      if (!isPoint(section.startPoint)) {
+        missing.push(`sections[${index}].startPoint`);
+      }
+      if (!isPoint(section.endPoint)) {
+        missing.push(`sections[${index}].endPoint`);
+      }
+      section.bendPoints?.forEach((point, bendIndex) => {
+        if (!isPoint(point)) {
+          missing.push(`sections[${index}].bendPoints[${bendIndex}]`);
+        }
+      });
+    });
+
+    if (missing.length > 0) {
+      issues.push({ id: edge.id ?? '(unknown)', path, missing });
+    }
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isPoint(point: PointLike | undefined): boolean {
+  return point !== undefined && isFiniteNumber(point.x) && isFiniteNumber(point.y);
+}
@@ -0,0 +1,873 @@
+/**
+ * Incremental Layouter
+ * Preserves the mental map when an edited graph is laid out again:
+ * - Nodes that already existed keep their previous positions
+ * - New nodes are placed relative to their (kept) neighbours, in the free space around them
+ * - Pools and lanes keep their order and only ever grow
+ *
+ * Works in three steps around the regular layout pipeline:
+ * 1. alignContainerOrder: reorder pools/lanes of the new graph to match the previous layout
+ * 2. applyPositionHints: seed ELK with the previous positions and switch to interactive strategies
+ * 3. restore: move kept nodes back, fit new nodes in (ConstraintSolver), grow containers, fix edges
+ */
+
+import type { ElkNode, ElkExtendedEdge, LayoutOptions } from 'elkjs';
+import type { ElkBpmnGraph } from '../../types';
+import type { LayoutedGraph } from '../../types/elk-output';
+import type { Bounds, EdgeWithBpmn, NodeWithBpmn, Point } from '../../types/internal';
+import { ConstraintSolver, type LayoutConstraint } from '../constraint';
+import { PathfindingRouter } from '../edge-routing/pathfinding-router';
+import { boundsOverlap } from '../edge-routing/geometry-utils';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** ELK strategies that respect the x/y positions given in the input graph */
+const INTERACTIVE_OPTIONS: LayoutOptions = {
+  'elk.layered.layering.strategy': 'INTERACTIVE',
+  'elk.layered.crossingMinimization.strategy': 'INTERACTIVE',
+};
+
+/** Gap between a new node's position hint and its kept neighbour */
+const HINT_GAP = 50;
+
+/** Minimum gap between a new node and the nodes around it */
+const NODE_GAP = 30;
+
+/** Nodes closer than this are treated as overlapping */
+const OVERLAP_MARGIN = 10;
+
+/** Rounds of overlap resolution before giving up */
+const MAX_RESOLVE_ROUNDS = 5;
+
+/** Solver node for the area new nodes are placed in */
+const AREA_ID = '__incremental_area__';
+
+/** Growth below this is floating point noise */
+const GROWTH_EPSILON = 0.01;
+
+const EXPANDABLE_TYPES = new Set(['subProcess', 'transaction', 'adHocSubProcess', 'eventSubProcess']);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface IndexedNode {
+  node: NodeWithBpmn;
+  parentId?: string;
+  /** Absolute bounds, as computed by DiagramBuilder */
+  bounds: Bounds;
+}
+
+interface IndexedEdge {
+  edge: EdgeWithBpmn;
+  containerId: string;
+  /** Offsets DiagramBuilder may apply to the edge's waypoints */
+  frame: string;
+}
+
+interface GraphIndex {
+  nodes: Map<string, IndexedNode>;
+  /** Boundary event id -> absolute bounds on the host's border */
+  boundaryEvents: Map<string, Bounds>;
+  /** Boundary event id -> host id */
+  hosts: Map<string, string>;
+  edges: IndexedEdge[];
+}
+
+export class IncrementalLayouter {
+  // ============================================================================
+  // Step 1: Container order
+  // ============================================================================
+
+  /**
+   * Reorder pools and lanes of the next graph to match the previous layout.
+   * Pools and lanes that did not exist before are appended after the known ones.
+   * Mutates the given graph.
+   */
+  alignContainerOrder(previous: LayoutedGraph, next: ElkBpmnGraph): void {
+    const previousOrder = new Map<string, string[]>();
+    this.walk(previous as unknown as NodeWithBpmn, (node) => {
+      const ids = this.containerChildren(node).map((child) => child.id);
+      if (ids.length > 0) {
+        previousOrder.set(node.id, ids);
+      }
+    });
+
+    this.walk(next as unknown as NodeWithBpmn, (node) => {
+      const order = previousOrder.get(node.id);
+      const children = node.children as NodeWithBpmn[] | undefined;
+      if (!order || !children) return;
+
+      const rank = (child: NodeWithBpmn) => {
+        const index = order.indexOf(child.id);
+        return index === -1 ? order.length : index;
+      };
+
+      // Sort pools/lanes among themselves, leaving other children in their slots
+      const containers = this.containerChildren(node);
+      const sorted = [...containers].sort((a, b) => rank(a) - rank(b));
+      let slot = 0;
+      node.children = children.map((child) =>
+        this.isPoolOrLane(child) ? sorted[slot++]! : child
+      );
+
+      // LaneArranger stacks lanes by partition, so renumber partitions if they are used
+      const lanes = sorted.filter((child) => child.bpmn?.type === 'lane');
+      if (lanes.some((lane) => lane.layoutOptions?.['elk.partitioning.partition'] !== undefined)) {
+        lanes.forEach((lane, index) => {
+          lane.layoutOptions = { ...lane.layoutOptions, 'elk.partitioning.partition': index };
+        });
+      }
+    });
+  }
+
+  // ============================================================================
+  // Step 2: ELK position hints
+  // ============================================================================
+
+  /**
+   * Seed the prepared ELK graph with positions from the previous layout and
+   * switch ELK to interactive strategies, so that layer assignment and node
+   * order follow the previous layout. New nodes get a hint next to a kept neighbour.
+   */
+  applyPositionHints(elkGraph: ElkNode, previous: LayoutedGraph): void {
+    const previousIndex = this.indexGraph(previous);
+    const nodes = new Map<string, ElkNode>();
+    const edges: ElkExtendedEdge[] = [];
+
+    const collect = (node: ElkNode) => {
+      for (const child of node.children ?? []) {
+        nodes.set(child.id, child);
+        collect(child);
+      }
+      edges.push(...(node.edges ?? []));
+      if (node.children && node.children.length > 0) {
+        node.layoutOptions = { ...node.layoutOptions, ...INTERACTIVE_OPTIONS };
+      }
+    };
+    collect(elkGraph);
+    elkGraph.layoutOptions = { ...elkGraph.layoutOptions, ...INTERACTIVE_OPTIONS };
+
+    // Kept nodes: previous absolute position (only the order among siblings matters to ELK)
+    const hinted = new Set<string>();
+    for (const [id, node] of nodes) {
+      const bounds = previousIndex.nodes.get(id)?.bounds ?? previousIndex.boundaryEvents.get(id);
+      if (bounds) {
+        node.x = bounds.x;
+        node.y = bounds.y;
+        hinted.add(id);
+      }
+    }
+
+    // New nodes: next to a hinted predecessor (or before a hinted successor)
+    let progress = true;
+    while (progress) {
+      progress = false;
+      for (const edge of edges) {
+        const source = nodes.get(edge.sources[0] ?? '');
+        const target = nodes.get(edge.targets[0] ?? '');
+        if (!source || !target) continue;
+
+        if (hinted.has(source.id) && !hinted.has(target.id)) {
+          target.x = (source.x ?? 0) + (source.width ?? 0) + HINT_GAP;
+          target.y = source.y ?? 0;
+          hinted.add(target.id);
+          progress = true;
+        } else if (hinted.has(target.id) && !hinted.has(source.id)) {
+          source.x = (target.x ?? 0) - (source.width ?? 0) - HINT_GAP;
+          source.y = target.y ?? 0;
+          hinted.add(source.id);
+          progress = true;
+        }
+      }
+    }
+  }
+
+  // ============================================================================
+  // Step 3: Restore the previous layout
+  // ============================================================================
+
+  /**
+   * Move kept nodes back to their previous positions, fit new nodes around them,
+   * grow containers as needed and re-route edges whose end points moved.
+   * Mutates and returns the layouted graph.
+   */
+  restore(previous: LayoutedGraph, layouted: LayoutedGraph): LayoutedGraph {
+    const previousIndex = this.indexGraph(previous);
+    const neighbours = this.collectNeighbours(layouted);
+
+    const topLevel = layouted.children as unknown as NodeWithBpmn[];
+    const freshExtent = this.extent(topLevel);
+    for (const child of topLevel) {
+      if (child.bpmn?.type === 'collaboration') {
+        this.placePools(child, previousIndex, neighbours);
+      } else {
+        this.placeContainer(child, previousIndex, neighbours);
+      }
+    }
+    this.placeSiblings(
+      layouted as unknown as NodeWithBpmn,
+      topLevel,
+      previousIndex,
+      neighbours,
+      { x: freshExtent.minX, y: freshExtent.minY }
+    );
+
+    this.restoreEdges(previousIndex, this.indexGraph(layouted));
+
+    // The diagram as a whole only grows as well
+    const previousExtent = this.extent(previous.children as unknown as NodeWithBpmn[]);
+    const extent = this.extent(layouted.children as unknown as NodeWithBpmn[]);
+    if (previous.width !== undefined && previous.height !== undefined) {
+      layouted.width = grow(previous.width, extent.maxX + previous.width - previousExtent.maxX);
+      layouted.height = grow(previous.height, extent.maxY + previous.height - previousExtent.maxY);
+    }
+
+    return layouted;
+  }
+
+  /**
+   * Lay out the contents of a container bottom-up, then grow it to fit
+   */
+  private placeContainer(
+    container: NodeWithBpmn,
+    previous: GraphIndex,
+    neighbours: Map<string, string[]>
+  ): void {
+    const children = this.placeableChildren(container);
+    if (children.length === 0) {
+      this.growContainer(container, children, previous, { right: 0, bottom: 0 });
+      return;
+    }
+
+    const padding = this.containerPadding(container, children, previous);
+    const freshExtent = this.extent(children);
+    const freshMin = { x: freshExtent.minX, y: freshExtent.minY };
+
+    // Nested containers first, since they may grow
+    for (const child of children) {
+      if (child.children && child.children.length > 0) {
+        this.placeContainer(child, previous, neighbours);
+      }
+    }
+
+    const lanes = children.filter((child) => child.bpmn?.type === 'lane');
+    if (lanes.length > 0) {
+      this.stackLanes(lanes);
+    } else {
+      this.placeSiblings(container, children, previous, neighbours, freshMin);
+    }
+
+    this.growContainer(container, children, previous, padding);
+
+    if (lanes.length > 0) {
+      this.fitLanes(container);
+    }
+  }
+
+  /**
+   * Place the pools of a collaboration: kept pools go back to their previous position,
+   * shifted down by the growth of the pools above them; new pools are appended below.
+   * All pools get a common width.
+   */
+  private placePools(
+    collaboration: NodeWithBpmn,
+    previous: GraphIndex,
+    neighbours: Map<string, string[]>
+  ): void {
+    const pools = (collaboration.children ?? []) as NodeWithBpmn[];
+    if (pools.length === 0) return;
+
+    const padding = this.containerPadding(collaboration, pools, previous);
+
+    // Gap between each pool and the pool above it in the fresh layout
+    const freshGaps = new Map<string, number>();
+    [...pools].sort((a, b) => (a.y ?? 0) - (b.y ?? 0)).forEach((pool, index, sorted) => {
+      const above = sorted[index - 1];
+      freshGaps.set(pool.id, above ? Math.max(0, (pool.y ?? 0) - (above.y ?? 0) - (above.height ?? 0)) : 0);
+    });
+
+    for (const pool of pools) {
+      this.placeContainer(pool, previous, neighbours);
+    }
+
+    const isKept = (pool: NodeWithBpmn) => previous.nodes.get(pool.id)?.parentId === collaboration.id;
+    const kept = pools
+      .filter(isKept)
+      .sort((a, b) => (previous.nodes.get(a.id)!.node.y ?? 0) - (previous.nodes.get(b.id)!.node.y ?? 0));
+
+    let shift = 0;
+    let bottom = -Infinity;
+    for (const pool of kept) {
+      const before = previous.nodes.get(pool.id)!.node;
+      pool.x = before.x;
+      pool.y = (before.y ?? 0) + shift;
+      shift += (pool.height ?? 0) - (before.height ?? 0);
+      bottom = Math.max(bottom, pool.y + (pool.height ?? 0));
+    }
+
+    if (kept.length > 0) {
+      for (const pool of pools.filter((pool) => !isKept(pool))) {
+        pool.y = bottom + (freshGaps.get(pool.id) ?? 0);
+        bottom = pool.y + (pool.height ?? 0);
+      }
+    }
+
+    const width = Math.max(...pools.map((pool) => pool.width ?? 0));
+    for (const pool of pools) {
+      pool.width = width;
+      this.fitLanes(pool);
+    }
+
+    this.growContainer(collaboration, pools, previous, padding);
+  }
+
+  /**
+   * Place the flow nodes of one container: kept nodes go back to their previous
+   * position, new nodes keep their offset to a placed neighbour, then overlaps are resolved.
+   * Kept nodes that a grown container now covers are moved out of its way as well.
+   */
+  private placeSiblings(
+    container: NodeWithBpmn,
+    children: NodeWithBpmn[],
+    previous: GraphIndex,
+    neighbours: Map<string, string[]>,
+    freshMin: Point
+  ): void {
+    const fresh = new Map(children.map((child) => [child.id, this.boundsOf(child)]));
+    const targets = new Map<string, Bounds>();
+    const kept = new Set<string>();
+
+    for (const child of children) {
+      const before = previous.nodes.get(child.id);
+      if (before && before.parentId === container.id) {
+        const { x, y } = this.boundsOf(before.node);
+        targets.set(child.id, { ...fresh.get(child.id)!, x, y });
+        kept.add(child.id);
+      }
+    }
+
+    // Nothing to preserve in this container: keep the fresh layout
+    if (kept.size === 0) return;
+
+    const placeRelativeTo = (id: string, anchorId: string) => {
+      const own = fresh.get(id)!;
+      const anchorFresh = fresh.get(anchorId)!;
+      const anchorTarget = targets.get(anchorId)!;
+      targets.set(id, {
+        ...own,
+        x: anchorTarget.x + (own.x - anchorFresh.x),
+        y: anchorTarget.y + (own.y - anchorFresh.y),
+      });
+    };
+
+    // New nodes connected to placed nodes (repeated so that chains of new nodes follow)
+    let pending = children.filter((child) => !targets.has(child.id));
+    let progress = true;
+    while (pending.length > 0 && progress) {
+      progress = false;
+      pending = pending.filter((child) => {
+        const anchorId = neighbours.get(child.id)?.find((id) => targets.has(id) && fresh.has(id));
+        if (!anchorId) return true;
+        placeRelativeTo(child.id, anchorId);
+        progress = true;
+        return false;
+      });
+    }
+
+    // Unconnected new nodes: relative to the nearest placed sibling
+    for (const child of pending) {
+      const own = fresh.get(child.id)!;
+      let nearest: string | undefined;
+      let nearestDistance = Infinity;
+      for (const id of targets.keys()) {
+        const other = fresh.get(id)!;
+        const distance = Math.hypot(other.x - own.x, other.y - own.y);
+        if (distance < nearestDistance) {
+          nearest = id;
+          nearestDistance = distance;
+        }
+      }
+      if (nearest) {
+        placeRelativeTo(child.id, nearest);
+      }
+    }
+
+    // New nodes must not be pushed past the container's padding
+    const keptExtent = this.extent([...kept].map((id) => targets.get(id)!));
+    const origin = {
+      x: Math.min(freshMin.x, keptExtent.minX),
+      y: Math.min(freshMin.y, keptExtent.minY),
+    };
+    // Groups surround other nodes, so they take no part in overlap resolution
+    const groups = children.filter((child) => this.isGroup(child));
+    const nodes = children.filter((child) => !this.isGroup(child));
+
+    const grown = nodes.filter((child) => {
+      const before = kept.has(child.id) ? previous.nodes.get(child.id)!.node : undefined;
+      return before !== undefined && (
+        (child.width ?? 0) > (before.width ?? 0) + GROWTH_EPSILON ||
+        (child.height ?? 0) > (before.height ?? 0) + GROWTH_EPSILON
+      );
+    });
+    const fixed = new Set([...kept].filter((id) => !grown.some((container) =>
+      container.id !== id && boundsOverlap(targets.get(container.id)!, targets.get(id)!, OVERLAP_MARGIN)
+    )));
+
+    const resolved = this.resolveOverlaps(nodes.map((child) => child.id), targets, fixed, origin);
+
+    for (const child of nodes) {
+      const bounds = resolved.get(child.id);
+      if (!bounds) continue;
+      child.x = bounds.x;
+      child.y = bounds.y;
+    }
+
+    for (const group of groups) {
+      this.fitGroup(group, nodes, targets.get(group.id));
+    }
+  }
+
+  /**
+   * Fit a group around its grouped elements (as GroupPositioner does).
+   * Groups whose elements are not siblings keep their previous (or fresh) bounds.
+   */
+  private fitGroup(group: NodeWithBpmn, siblings: NodeWithBpmn[], target: Bounds | undefined): void {
+    const groupedElements = (group.bpmn.groupedElements ?? []);
+    const members = siblings.filter((sibling) => groupedElements.includes(sibling.id));
+
+    if (members.length === 0) {
+      if (target) {
+        group.x = target.x;
+        group.y = target.y;
+      }
+      return;
+    }
+
+    const padding = group.bpmn.padding ?? 20;
+    const extent = this.extent(members);
+    group.x = extent.minX - padding;
+    group.y = extent.minY - padding;
+    group.width = extent.maxX - extent.minX + padding * 2;
+    group.height = extent.maxY - extent.minY + padding * 2;
+  }
+
+  /**
+   * Separate overlapping siblings with the ConstraintSolver.
+   * Kept nodes are held in place, new nodes move out of the way.
+   */
+  private resolveOverlaps(
+    ids: string[],
+    targets: Map<string, Bounds>,
+    kept: Set<string>,
+    origin: Point
+  ): Map<string, Bounds> {
+    const constraints: LayoutConstraint[] = [];
+    let current = targets;
+
+    for (let round = 0; round < MAX_RESOLVE_ROUNDS; round++) {
+      const overlaps = this.findOverlaps(ids, current)
+        .filter(([a, b]) => !kept.has(a) || !kept.has(b));
+      if (round > 0 && overlaps.length === 0) break;
+
+      for (const [a, b] of overlaps) {
+        // Move the new node; if both are new, move the later one
+        const [mover, reference] = kept.has(b) ? [a, b] : [b, a];
+        constraints.push(this.separation(mover, reference, current, origin));
+      }
+
+      const solver = new ConstraintSolver();
+      for (const id of ids) {
+        solver.addNodeFromBounds(id, targets.get(id)!);
+      }
+      // Unbounded area to the right of and below the origin, which new nodes must stay in
+      solver.addNode(AREA_ID, origin.x, origin.y, Number.MAX_SAFE_INTEGER, Number.MAX_SAFE_INTEGER);
+      solver.addConstraint({ type: 'fixedPosition', node: AREA_ID, x: origin.x, y: origin.y, strength: 'required' });
+      for (const id of ids) {
+        if (kept.has(id)) {
+          const { x, y } = targets.get(id)!;
+          solver.addConstraint({ type: 'fixedPosition', node: id, x, y, strength: 'required' });
+        } else {
+          solver.addConstraint({ type: 'inContainer', node: id, container: AREA_ID, padding: 0, strength: 'required' });
+        }
+      }
+      solver.addConstraints(constraints);
+      current = solver.solveWithBounds();
+    }
+
+    return current;
+  }
+
+  private findOverlaps(ids: string[], bounds: Map<string, Bounds>): Array<[string, string]> {
+    const overlaps: Array<[string, string]> = [];
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const a = bounds.get(ids[i]!)!;
+        const b = bounds.get(ids[j]!)!;
+        if (boundsOverlap(a, b, OVERLAP_MARGIN)) {
+          overlaps.push([ids[i]!, ids[j]!]);
+        }
+      }
+    }
+    return overlaps;
+  }
+
+  /**
+   * Separation constraint in the direction that moves the node the least,
+   * preferring directions that lead to free space (inside the area, clear of other nodes)
+   */
+  private separation(node: string, reference: string, bounds: Map<string, Bounds>, origin: Point): LayoutConstraint {
+    const a = bounds.get(node)!;
+    const b = bounds.get(reference)!;
+    const candidates: Array<{ type: 'leftOf' | 'rightOf' | 'above' | 'below'; distance: number; moved: Bounds }> = [
+      { type: 'rightOf', distance: b.x + b.width + NODE_GAP - a.x, moved: { ...a, x: b.x + b.width + NODE_GAP } },
+      { type: 'leftOf', distance: a.x + a.width + NODE_GAP - b.x, moved: { ...a, x: b.x - NODE_GAP - a.width } },
+      { type: 'below', distance: b.y + b.height + NODE_GAP - a.y, moved: { ...a, y: b.y + b.height + NODE_GAP } },
+      { type: 'above', distance: a.y + a.height + NODE_GAP - b.y, moved: { ...a, y: b.y - NODE_GAP - a.height } },
+    ];
+    candidates.sort((p, q) => p.distance - q.distance);
+
+    const isFree = (moved: Bounds) =>
+      moved.x >= origin.x &&
+      moved.y >= origin.y &&
+      [...bounds].every(([id, other]) => id === node || id === AREA_ID || !boundsOverlap(moved, other, OVERLAP_MARGIN));
+    const best = candidates.find((candidate) => isFree(candidate.moved)) ?? candidates[0]!;
+
+    return { type: best.type, node, reference, minGap: NODE_GAP, strength: 'strong' };
+  }
+
+  /**
+   * Stack lanes vertically in their current order, without gaps
+   */
+  private stackLanes(lanes: NodeWithBpmn[]): void {
+    const ordered = [...lanes].sort((a, b) => (a.y ?? 0) - (b.y ?? 0));
+    let y = ordered[0]?.y ?? 0;
+    for (const lane of ordered) {
+      lane.y = y;
+      y += lane.height ?? 0;
+    }
+  }
+
+  /**
+   * Make lanes fill their container: full width, last lane takes the remaining height
+   */
+  private fitLanes(container: NodeWithBpmn): void {
+    const lanes = ((container.children ?? []) as NodeWithBpmn[])
+      .filter((child) => child.bpmn?.type === 'lane')
+      .sort((a, b) => (a.y ?? 0) - (b.y ?? 0));
+    if (lanes.length === 0) return;
+
+    for (const lane of lanes) {
+      lane.width = (container.width ?? 0) - (lane.x ?? 0);
+    }
+    const last = lanes[lanes.length - 1]!;
+    const remaining = (container.height ?? 0) - (last.y ?? 0) - (last.height ?? 0);
+    if (remaining > 0) {
+      last.height = (last.height ?? 0) + remaining;
+    }
+
+    for (const lane of lanes) {
+      this.fitLanes(lane);
+    }
+  }
+
+  /**
+   * Padding around the contents of a container (kept when the container grows):
+   * from the previous layout if the container existed before, otherwise from the fresh layout.
+   * Must be called before the children are moved.
+   */
+  private containerPadding(
+    container: NodeWithBpmn,
+    children: NodeWithBpmn[],
+    previous: GraphIndex
+  ): { right: number; bottom: number } {
+    const before = previous.nodes.get(container.id)?.node;
+    const beforeChildren = before ? this.placeableChildren(before) : [];
+    const [reference, extent] = beforeChildren.length > 0
+      ? [before!, this.extent(beforeChildren)]
+      : [container, this.extent(children)];
+    return {
+      right: Math.max(0, (reference.width ?? 0) - extent.maxX),
+      bottom: Math.max(0, (reference.height ?? 0) - extent.maxY),
+    };
+  }
+
+  /**
+   * Grow a container to fit its children. Containers never shrink below their
+   * previous size (kept containers) or their fresh size (new containers).
+   */
+  private growContainer(
+    container: NodeWithBpmn,
+    children: NodeWithBpmn[],
+    previous: GraphIndex,
+    padding: { right: number; bottom: number }
+  ): void {
+    if (container.width === undefined || container.height === undefined) return;
+
+    const before = previous.nodes.get(container.id)?.node;
+    let width = before?.width ?? container.width;
+    let height = before?.height ?? container.height;
+
+    if (children.length > 0) {
+      const extent = this.extent(children);
+      width = grow(width, extent.maxX + padding.right);
+      height = grow(height, extent.maxY + padding.bottom);
+    }
+
+    container.width = width;
+    container.height = height;
+  }
+
+  // ============================================================================
+  // Edges
+  // ============================================================================
+
+  /**
+   * Keep the previous route of edges whose end points did not move, move it along
+   * with end points that moved together (e.g. with their lane), and re-route all
+   * other edges around the nodes in absolute coordinates
+   */
+  private restoreEdges(previous: GraphIndex, next: GraphIndex): void {
+    const previousEdges = new Map(previous.edges.map((entry) => [entry.edge.id, entry]));
+
+    for (const entry of next.edges) {
+      const before = previousEdges.get(entry.edge.id);
+      const offset = before ? this.routeOffset(before, entry, previous, next) : undefined;
+      if (before && offset) {
+        const move = (point: Point): Point => ({ x: point.x + offset.x, y: point.y + offset.y });
+        entry.edge.sections = (before.edge.sections ?? []).map((section) => ({
+          ...section,
+          startPoint: move(section.startPoint),
+          endPoint: move(section.endPoint),
+          ...(section.bendPoints ? { bendPoints: section.bendPoints.map(move) } : {}),
+        }));
+        if (before.edge.labels) {
+          entry.edge.labels = before.edge.labels.map((label) => ({
+            ...label,
+            ...(label.x !== undefined ? { x: label.x + offset.x } : {}),
+            ...(label.y !== undefined ? { y: label.y + offset.y } : {}),
+          }));
+        }
+        entry.edge._absoluteCoords = before.edge._absoluteCoords;
+        entry.edge._poolRelativeCoords = before.edge._poolRelativeCoords;
+        continue;
+      }
+      this.rerouteEdge(entry.edge, next);
+    }
+  }
+
+  /**
+   * Offset by which all end points of an edge moved, if its previous route can follow them:
+   * same container and coordinate frame, same end points, each of the same size
+   */
+  private routeOffset(before: IndexedEdge, after: IndexedEdge, previous: GraphIndex, next: GraphIndex): Point | undefined {
+    if (!before.edge.sections || before.edge.sections.length === 0) return undefined;
+    if (before.containerId !== after.containerId || before.frame !== after.frame) return undefined;
+
+    const ends = [...(after.edge.sources ?? []), ...(after.edge.targets ?? [])];
+    const beforeEnds = [...(before.edge.sources ?? []), ...(before.edge.targets ?? [])];
+    if (ends.length === 0 || ends.join('\n') !== beforeEnds.join('\n')) return undefined;
+
+    let offset: Point | undefined;
+    for (const id of ends) {
+      const from = this.absoluteBounds(id, previous);
+      const to = this.absoluteBounds(id, next);
+      if (!from || !to || from.width !== to.width || from.height !== to.height) return undefined;
+
+      const moved = { x: to.x - from.x, y: to.y - from.y };
+      if (offset && (moved.x !== offset.x || moved.y !== offset.y)) return undefined;
+      offset = moved;
+    }
+    return offset;
+  }
+
+  private rerouteEdge(edge: EdgeWithBpmn, index: GraphIndex): void {
+    const sourceId = edge.sources?.[0];
+    const targetId = edge.targets?.[0];
+    if (!sourceId || !targetId) return;
+
+    const source = this.absoluteBounds(sourceId, index);
+    const target = this.absoluteBounds(targetId, index);
+    if (!source || !target) return;
+
+    // Avoid all flow nodes except the end points (and the host of a boundary event source)
+    const excluded = new Set([sourceId, targetId, index.hosts.get(sourceId), index.hosts.get(targetId)]);
+    const obstacles: Bounds[] = [];
+    for (const [id, entry] of index.nodes) {
+      if (excluded.has(id) || this.isContainer(entry.node)) continue;
+      obstacles.push(entry.bounds);
+    }
+
+    const router = new PathfindingRouter();
+    router.setObstacles(obstacles);
+    const { path } = router.routeEdge(source, target);
+
+    edge.sections = [{
+      id: `${edge.id}_s0`,
+      startPoint: path[0]!,
+      endPoint: path[path.length - 1]!,
+      bendPoints: path.slice(1, -1),
+    }];
+    edge._absoluteCoords = true;
+    delete edge._poolRelativeCoords;
+  }
+
+  private absoluteBounds(id: string, index: GraphIndex): Bounds | undefined {
+    return index.boundaryEvents.get(id) ?? index.nodes.get(id)?.bounds;
+  }
+
+  // ============================================================================
+  // Graph Index
+  // ============================================================================
+
+  /**
+   * Index nodes, boundary events and edges with absolute coordinates, using the same
+   * container offsets as DiagramBuilder (pools, lanes, expanded subprocesses and
+   * processes nested in a participant offset their children)
+   */
+  private indexGraph(graph: LayoutedGraph): GraphIndex {
+    const index: GraphIndex = { nodes: new Map(), boundaryEvents: new Map(), hosts: new Map(), edges: [] };
+
+    const visit = (node: NodeWithBpmn, offset: Point, insideParticipant: boolean) => {
+      const absX = offset.x + (node.x ?? 0);
+      const absY = offset.y + (node.y ?? 0);
+      const offsetsChildren = this.isOffsetContainer(node, insideParticipant);
+      const childOffset = offsetsChildren ? { x: absX, y: absY } : offset;
+      const childInsideParticipant = insideParticipant || node.bpmn?.type === 'participant';
+
+      for (const child of this.placeableChildren(node)) {
+        index.nodes.set(child.id, {
+          node: child,
+          parentId: node.id,
+          bounds: { ...this.boundsOf(child), x: childOffset.x + (child.x ?? 0), y: childOffset.y + (child.y ?? 0) },
+        });
+        visit(child, childOffset, childInsideParticipant);
+      }
+
+      // Boundary events sit on the bottom edge of their host, evenly distributed
+      const boundaryEvents = node.boundaryEvents ?? [];
+      boundaryEvents.forEach((boundaryEvent, i) => {
+        const width = boundaryEvent.width ?? 36;
+        const height = boundaryEvent.height ?? 36;
+        const spacing = (node.width ?? 100) / (boundaryEvents.length + 1);
+        index.boundaryEvents.set(boundaryEvent.id, {
+          x: absX + spacing * (i + 1) - width / 2,
+          y: absY + (node.height ?? 80) - height / 2,
+          width,
+          height,
+        });
+        index.hosts.set(boundaryEvent.id, node.id);
+      });
+
+      for (const edge of node.edges ?? []) {
+        index.edges.push({
+          edge,
+          containerId: node.id,
+          frame: JSON.stringify([absX, absY, childOffset.x, childOffset.y]),
+        });
+      }
+    };
+
+    for (const child of graph.children as unknown as NodeWithBpmn[]) {
+      index.nodes.set(child.id, { node: child, parentId: graph.id, bounds: this.boundsOf(child) });
+      visit(child, { x: 0, y: 0 }, false);
+    }
+
+    return index;
+  }
+
+  /**
+   * Map each node to its neighbours via edges: predecessors first, then successors.
+   * Boundary events stand in for their host.
+   */
+  private collectNeighbours(graph: LayoutedGraph): Map<string, string[]> {
+    const index = this.indexGraph(graph);
+    const neighbours = new Map<string, string[]>();
+    const resolve = (id: string | undefined) => (id ? index.hosts.get(id) ?? id : undefined);
+    const add = (id: string | undefined, neighbour: string | undefined) => {
+      if (!id || !neighbour || id === neighbour) return;
+      const list = neighbours.get(id) ?? [];
+      list.push(neighbour);
+      neighbours.set(id, list);
+    };
+
+    for (const { edge } of index.edges) {
+      add(resolve(edge.targets?.[0]), resolve(edge.sources?.[0]));
+    }
+    for (const { edge } of index.edges) {
+      add(resolve(edge.sources?.[0]), resolve(edge.targets?.[0]));
+    }
+
+    return neighbours;
+  }
+
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
+  private walk(node: NodeWithBpmn, visitor: (node: NodeWithBpmn) => void): void {
+    visitor(node);
+    for (const child of (node.children ?? []) as NodeWithBpmn[]) {
+      this.walk(child, visitor);
+    }
+  }
+
+  /**
+   * Children and artifacts that have their own position in the container
+   */
+  private placeableChildren(node: NodeWithBpmn): NodeWithBpmn[] {
+    return [...(node.children ?? []), ...(node.artifacts ?? [])] as NodeWithBpmn[];
+  }
+
+  private containerChildren(node: NodeWithBpmn): NodeWithBpmn[] {
+    return ((node.children ?? []) as NodeWithBpmn[]).filter((child) => this.isPoolOrLane(child));
+  }
+
+  private isGroup(node: NodeWithBpmn): boolean {
+    return node.bpmn?.type === 'group';
+  }
+
+  private isPoolOrLane(node: NodeWithBpmn): boolean {
+    return node.bpmn?.type === 'participant' || node.bpmn?.type === 'lane';
+  }
+
+  private isContainer(node: NodeWithBpmn): boolean {
+    return (node.children?.length ?? 0) > 0 || this.isPoolOrLane(node);
+  }
+
+  private isOffsetContainer(node: NodeWithBpmn, insideParticipant: boolean): boolean {
+    const type = node.bpmn?.type;
+    if (this.isPoolOrLane(node)) return true;
+    if (type === 'process') return insideParticipant;
+    return node.bpmn?.isExpanded === true &&
+      (EXPANDABLE_TYPES.has(type) || node.bpmn?.triggeredByEvent === true);
+  }
+
+  private boundsOf(node: { x?: number; y?: number; width?: number; height?: number }): Bounds {
+    return { x: node.x ?? 0, y: node.y ?? 0, width: node.width ?? 0, height: node.height ?? 0 };
+  }
+
+  private extent(nodes: Array<{ x?: number; y?: number; width?: number; height?: number }>) {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = 0;
+    let maxY = 0;
+    for (const node of nodes) {
+      const bounds = this.boundsOf(node);
+      minX = Math.min(minX, bounds.x);
+      minY = Math.min(minY, bounds.y);
+      maxX = Math.max(maxX, bounds.x + bounds.width);
+      maxY = Math.max(maxY, bounds.y + bounds.height);
+    }
+    return { minX, minY, maxX, maxY };
+  }
+}
+
+/**
+ * Size that fits the required size, ignoring floating point noise
+ */
+function grow(size: number, required: number): number {
+  return required > size + GROWTH_EPSILON ? required : size;
+}
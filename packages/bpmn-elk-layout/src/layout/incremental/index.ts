@@ -0,0 +1,6 @@
+/**
+ * Incremental Layout Module
+ * Re-layouts an edited graph while preserving the previous layout (mental map).
+ */
+
+export { IncrementalLayouter } from './incremental-layouter';
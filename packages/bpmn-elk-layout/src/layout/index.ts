@@ -1,6 +1,32 @@
 export { ElkLayouter } from './elk-layouter';
+export { ElkRunner, createLayoutSignal } from './elk-runner';
+export type { ElkRunnerOptions, ElkWorkerOptions, LayoutRunOptions } from './elk-runner';
+export {
+  LayoutCache,
+  MemoryLayoutCacheStore,
+  SubgraphCache,
+  resolveLayoutCache,
+  type LayoutCacheStore,
+  type MemoryLayoutCacheStoreOptions,
+} from './cache';
+export { FixedLayoutValidator } from './fixed-layout-validator';
+export type { FixedLayoutIssue } from './fixed-layout-validator';
+export { IncrementalLayouter } from './incremental';
 export { DEFAULT_ELK_OPTIONS, mergeElkOptions } from './default-options';
+export {
+  LAYOUT_THEMES,
+  resolveLayoutTheme,
+  getThemeElkOptions,
+  type LayoutTheme,
+  type LayoutThemeName,
+  type LayoutThemeOverrides,
+  type LayoutThemeSizes,
+  type LayoutThemeSpacing,
+  type LayoutThemePool,
+  type LayoutThemeLane,
+} from './layout-theme';
 export { applyDefaultSizes, getDefaultSizeForType, estimateLabelWidth } from './size-calculator';
+export type { ElementSize, ElementSizeNode, ElementSizeCallback, ElementSizeOptions } from './size-calculator';
 export { TreeLayouter, buildTree, layoutBoundaryBranch } from './tree';
 export type { TreeNode, TreeLayoutOptions } from './tree';
 export * from './constraint';
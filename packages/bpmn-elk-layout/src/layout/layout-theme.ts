@@ -0,0 +1,265 @@
+/**
+ * Layout Theme
+ * Element sizes, spacing and pool/lane chrome used by the layout pipeline.
+ *
+ * Presets:
+ * - default: the standard look (bpmn-js element sizes, generous spacing)
+ * - compact: tighter spacing and swimlane padding for large diagrams
+ * - presentation: larger activities and more whitespace for slides and printouts
+ *
+ * Custom themes override parts of a preset, e.g.
+ * `{ extends: 'compact', pool: { headerWidth: 40 } }`.
+ */
+
+import type { ElkLayoutOptions } from '../types';
+import { DEFAULT_SIZES } from '../types/bpmn-constants';
+import type { ElementSize } from './size-calculator';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Default sizes of nodes without an explicit width/height
+ */
+export interface LayoutThemeSizes {
+  event: ElementSize;
+  /** Tasks and call activities with short names (up to 8 characters) */
+  task: ElementSize;
+  /** Tasks with names of 9-12 characters */
+  taskWide: ElementSize;
+  /** Tasks with longer names */
+  taskWider: ElementSize;
+  gateway: ElementSize;
+  collapsedSubProcess: ElementSize;
+  expandedSubProcess: ElementSize;
+  dataObject: ElementSize;
+  dataStore: ElementSize;
+  textAnnotation: ElementSize;
+  participant: ElementSize;
+  lane: ElementSize;
+}
+
+/**
+ * Spacing between nodes and edges, passed to ELK
+ */
+export interface LayoutThemeSpacing {
+  nodeNode: number;
+  edgeNode: number;
+  edgeEdge: number;
+  nodeNodeBetweenLayers: number;
+  edgeNodeBetweenLayers: number;
+  edgeEdgeBetweenLayers: number;
+}
+
+export interface LayoutThemePool {
+  /** Space for the pool name on the left (top in vertical layouts) of pools without lanes */
+  headerWidth: number;
+  /** Horizontal space between the pool border and its content (pools stacked in collaborations) */
+  paddingX: number;
+  /** Vertical space between the pool border and its content (pools stacked in collaborations) */
+  paddingY: number;
+  /** Minimum height of pools stacked in collaborations */
+  minHeight: number;
+  /** Extra width added to pools without lanes */
+  extraWidth: number;
+  /** Extra height added to pools without lanes */
+  extraHeight: number;
+  /** Height of black box pools */
+  blackBoxHeight: number;
+}
+
+export interface LayoutThemeLane {
+  /** Space between the pool border and its lanes (bpmn-js draws the pool header 30px wide) */
+  headerWidth: number;
+  /** Extra width added to the lane content */
+  extraWidth: number;
+  /** Extra height added to the content of each lane */
+  extraHeight: number;
+}
+
+export interface LayoutTheme {
+  sizes: LayoutThemeSizes;
+  spacing: LayoutThemeSpacing;
+  pool: LayoutThemePool;
+  lane: LayoutThemeLane;
+  /** Space between processes, lanes and subprocesses and their content */
+  containerPadding: number;
+  /** Gap between events, gateways and data objects and their external labels */
+  labelGap: number;
+}
+
+export type LayoutThemeName = 'compact' | 'default' | 'presentation';
+
+/**
+ * Partial theme that overrides a preset (default: 'default')
+ */
+export interface LayoutThemeOverrides {
+  extends?: LayoutThemeName;
+  sizes?: Partial<LayoutThemeSizes>;
+  spacing?: Partial<LayoutThemeSpacing>;
+  pool?: Partial<LayoutThemePool>;
+  lane?: Partial<LayoutThemeLane>;
+  containerPadding?: number;
+  labelGap?: number;
+}
+
+// ============================================================================
+// Presets
+// ============================================================================
+
+const DEFAULT_THEME: LayoutTheme = {
+  sizes: {
+    event: DEFAULT_SIZES.EVENT,
+    task: DEFAULT_SIZES.TASK,
+    taskWide: DEFAULT_SIZES.TASK_WIDE,
+    taskWider: DEFAULT_SIZES.TASK_WIDER,
+    gateway: DEFAULT_SIZES.GATEWAY,
+    collapsedSubProcess: DEFAULT_SIZES.SUBPROCESS_COLLAPSED,
+    expandedSubProcess: DEFAULT_SIZES.SUBPROCESS_EXPANDED_MIN,
+    dataObject: DEFAULT_SIZES.DATA_OBJECT,
+    dataStore: DEFAULT_SIZES.DATA_STORE,
+    textAnnotation: DEFAULT_SIZES.TEXT_ANNOTATION,
+    participant: { width: 680, height: 200 },
+    lane: { width: 680, height: 150 },
+  },
+  spacing: {
+    nodeNode: 60,
+    edgeNode: 40,
+    edgeEdge: 25,
+    nodeNodeBetweenLayers: 100,
+    edgeNodeBetweenLayers: 40,
+    edgeEdgeBetweenLayers: 25,
+  },
+  pool: {
+    headerWidth: 55,
+    paddingX: 25,
+    paddingY: 40,
+    minHeight: 100,
+    extraWidth: 140,
+    extraHeight: 80,
+    blackBoxHeight: 60,
+  },
+  lane: {
+    headerWidth: 30,
+    extraWidth: 130,
+    extraHeight: 120,
+  },
+  containerPadding: 12,
+  labelGap: 4,
+};
+
+const COMPACT_THEME: LayoutTheme = {
+  sizes: DEFAULT_THEME.sizes,
+  spacing: {
+    nodeNode: 30,
+    edgeNode: 20,
+    edgeEdge: 15,
+    nodeNodeBetweenLayers: 50,
+    edgeNodeBetweenLayers: 20,
+    edgeEdgeBetweenLayers: 15,
+  },
+  pool: {
+    headerWidth: 45,
+    paddingX: 15,
+    paddingY: 20,
+    minHeight: 80,
+    extraWidth: 60,
+    extraHeight: 40,
+    blackBoxHeight: 50,
+  },
+  lane: {
+    headerWidth: 30,
+    extraWidth: 60,
+    extraHeight: 60,
+  },
+  containerPadding: 8,
+  labelGap: 2,
+};
+
+const PRESENTATION_THEME: LayoutTheme = {
+  sizes: {
+    ...DEFAULT_THEME.sizes,
+    task: { width: 120, height: 90 },
+    taskWide: { width: 140, height: 90 },
+    taskWider: { width: 170, height: 90 },
+    collapsedSubProcess: { width: 120, height: 90 },
+    expandedSubProcess: { width: 360, height: 240 },
+  },
+  spacing: {
+    nodeNode: 80,
+    edgeNode: 50,
+    edgeEdge: 30,
+    nodeNodeBetweenLayers: 140,
+    edgeNodeBetweenLayers: 50,
+    edgeEdgeBetweenLayers: 30,
+  },
+  pool: {
+    headerWidth: 60,
+    paddingX: 40,
+    paddingY: 60,
+    minHeight: 140,
+    extraWidth: 200,
+    extraHeight: 120,
+    blackBoxHeight: 70,
+  },
+  lane: {
+    headerWidth: 30,
+    extraWidth: 180,
+    extraHeight: 160,
+  },
+  containerPadding: 20,
+  labelGap: 6,
+};
+
+export const LAYOUT_THEMES: Readonly<Record<LayoutThemeName, LayoutTheme>> = {
+  compact: COMPACT_THEME,
+  default: DEFAULT_THEME,
+  presentation: PRESENTATION_THEME,
+};
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Resolve a preset name or partial theme into a complete theme
+ * @throws Error if the preset does not exist
+ */
+export function resolveLayoutTheme(theme?: LayoutThemeName | LayoutThemeOverrides): LayoutTheme {
+  if (theme === undefined) {
+    return DEFAULT_THEME;
+  }
+
+  const overrides = typeof theme === 'string' ? { extends: theme } : theme;
+  const name = overrides.extends ?? 'default';
+  const base = LAYOUT_THEMES[name];
+  if (!base) {
+    throw new Error(
+      `Unknown layout theme "${name}". Available themes: ${Object.keys(LAYOUT_THEMES).join(', ')}`
+    );
+  }
+
+  return {
+    sizes: { ...base.sizes, ...overrides.sizes },
+    spacing: { ...base.spacing, ...overrides.spacing },
+    pool: { ...base.pool, ...overrides.pool },
+    lane: { ...base.lane, ...overrides.lane },
+    containerPadding: overrides.containerPadding ?? base.containerPadding,
+    labelGap: overrides.labelGap ?? base.labelGap,
+  };
+}
+
+/**
+ * ELK spacing options of a theme
+ */
+export function getThemeElkOptions(theme: LayoutTheme): ElkLayoutOptions {
+  return {
+    'elk.spacing.nodeNode': theme.spacing.nodeNode,
+    'elk.spacing.edgeNode': theme.spacing.edgeNode,
+    'elk.spacing.edgeEdge': theme.spacing.edgeEdge,
+    'elk.layered.spacing.nodeNodeBetweenLayers': theme.spacing.nodeNodeBetweenLayers,
+    'elk.layered.spacing.edgeNodeBetweenLayers': theme.spacing.edgeNodeBetweenLayers,
+    'elk.layered.spacing.edgeEdgeBetweenLayers': theme.spacing.edgeEdgeBetweenLayers,
+  };
+}
@@ -7,7 +7,7 @@
 
 import type { ElkNode } from 'elkjs';
 import type { ElkBpmnGraph } from '../../types';
-import type { NodeWithBpmn } from '../../types/internal';
+import type { NodeWithBpmn, NodeMoveInfo } from '../../types/internal';
 import { isDebugEnabled } from '../../utils/debug';
 
 const TARGET_MAIN_FLOW_Y = 12; // Target Y position for main flow (with padding)
@@ -288,6 +288,51 @@ export class MainFlowNormalizer {
     this.updateEdgesAfterNormalization(graph, [...upstreamMainFlow, ...downstreamMainFlow], offsetY, edgesWithAdjustedEndpoint);
   }
 
+  /**
+   * Compute moves that put the given nodes on one horizontal center line.
+   *
+   * Nodes are aligned per parent container (coordinates are local to it). The line
+   * is the highest current center among them, kept low enough that the tallest
+   * node stays below the top padding. Moves are returned, not applied, so that
+   * edges can be recalculated for them.
+   */
+  straighten(graph: ElkNode, nodeIds: Set<string>): Map<string, NodeMoveInfo> {
+    const moves = new Map<string, NodeMoveInfo>();
+    const groups = new Map<ElkNode, ElkNode[]>();
+
+    const collect = (node: ElkNode) => {
+      for (const child of node.children ?? []) {
+        if (nodeIds.has(child.id) && child.y !== undefined) {
+          if (!groups.has(node)) groups.set(node, []);
+          groups.get(node)!.push(child);
+        }
+        collect(child);
+      }
+    };
+    collect(graph);
+
+    for (const [parent, nodes] of groups) {
+      if (nodes.length < 2) continue;
+
+      const highestCenter = Math.min(...nodes.map((node) => node.y! + (node.height ?? 0) / 2));
+      const tallestHalf = Math.max(...nodes.map((node) => (node.height ?? 0) / 2));
+      const centerY = Math.max(highestCenter, TARGET_MAIN_FLOW_Y + tallestHalf);
+
+      for (const node of nodes) {
+        const newY = centerY - (node.height ?? 0) / 2;
+        if (Math.abs(newY - node.y!) > 0.5) {
+          moves.set(node.id, { newY, offset: newY - node.y!, newX: node.x });
+        }
+      }
+
+      if (isDebugEnabled()) {
+        console.log(`[BPMN] Straightening happy path in ${parent.id} at centerY=${centerY}: ${nodes.map(n => n.id).join(', ')}`);
+      }
+    }
+
+    return moves;
+  }
+
   /**
    * Find the predecessor node of a given node on the main flow
    */
@@ -68,8 +68,9 @@ export function recalculateEdgesForMovedNodes(
       const attachedY = attachedNode.y;
       const attachedWidth = attachedNode.width ?? 100;
       const attachedHeight = attachedNode.height ?? 80;
-      const beWidth = 36;
-      const beHeight = 36;
+      const beNode = nodeMap.get(beId);
+      const beWidth = beNode?.width ?? 36;
+      const beHeight = beNode?.height ?? 36;
 
       // Calculate position on the bottom edge of the attached node
       const spacing = attachedWidth / (info.totalBoundaries + 1);
@@ -19,6 +19,9 @@ export {
   BranchDestType,
 } from './mover';
 
+// Export tree placement
+export { layoutBoundaryBranchesAsTrees, routeBoundaryBranchEntries } from './tree-placer';
+
 // Export edge recalculator functions
 export {
   recalculateEdgesForMovedNodes,
@@ -33,6 +36,7 @@ import {
   repositionConvergingGateways,
   applyNodeMoves,
 } from './mover';
+import { layoutBoundaryBranchesAsTrees, routeBoundaryBranchEntries } from './tree-placer';
 import { recalculateEdgesForMovedNodes } from './edge-recalculator';
 
 /**
@@ -61,6 +65,30 @@ export class BoundaryEventHandler {
     return identifyNodesToMove(graph, boundaryEventInfo, sizedGraph, debug);
   }
 
+  /**
+   * Lay out boundary event branches as tidy trees below their host tasks
+   * Returns a map of node ID -> new position info
+   */
+  layoutBranchesAsTrees(
+    graph: ElkNode,
+    boundaryEventInfo: Map<string, BoundaryEventInfo>,
+    sizedGraph: ElkBpmnGraph,
+    debug = false
+  ): Map<string, NodeMoveInfo> {
+    return layoutBoundaryBranchesAsTrees(graph, boundaryEventInfo, sizedGraph, debug);
+  }
+
+  /**
+   * Route exception flows straight down from their boundary event into tree-laid-out branches
+   */
+  routeBranchEntries(
+    graph: ElkNode,
+    boundaryEventInfo: Map<string, BoundaryEventInfo>,
+    movedNodes: Map<string, NodeMoveInfo>
+  ): void {
+    routeBoundaryBranchEntries(graph, boundaryEventInfo, movedNodes);
+  }
+
   /**
    * Reposition converging gateways based on their incoming edges.
    */
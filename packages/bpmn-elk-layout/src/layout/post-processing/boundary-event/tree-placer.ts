@@ -0,0 +1,303 @@
+/**
+ * Boundary Event Tree Placer
+ * Places each boundary event branch below its host task as a tidy tree
+ * (see TreeLayouter), as an alternative to the priority-based placement in mover.ts.
+ * The branch grows to the right, fan-outs spread downward, and branches are pushed
+ * down until they clear the main flow and earlier branches.
+ */
+
+import type { ElkNode } from 'elkjs';
+import type { ElkBpmnGraph } from '../../../types';
+import type { Bounds, BoundaryEventInfo, NodeMoveInfo } from '../../../types/internal';
+import { TreeLayouter, buildTree, type TreeNode } from '../../tree';
+import { buildNodeAndEdgeMaps } from './mover';
+
+/** Boundary events are drawn centered on the bottom edge of their host (default size) */
+const BOUNDARY_EVENT_SIZE = 36;
+/** Gap between the host task and the top of its branch */
+const BRANCH_GAP = 50;
+/** Gap kept between a branch and other nodes or branches */
+const OBSTACLE_GAP = 30;
+/** Horizontal distance from the boundary event to the left side of the branch root */
+const ROOT_INDENT = 30;
+/** Gap between the levels of a branch (left to right) */
+const LEVEL_GAP = 40;
+/** Gap between the siblings of a fan-out (top to bottom) */
+const SIBLING_GAP = 30;
+
+interface BoundaryBranch {
+  rootId: string;
+  hostId: string;
+  /** Center X of the boundary event on the host's bottom edge, relative to the host */
+  beOffset: number;
+  nodeIds: Set<string>;
+}
+
+/**
+ * Identify boundary event branches and lay each one out as a tree below its host.
+ * Returns a map of node ID -> new position info, like identifyNodesToMove.
+ */
+export function layoutBoundaryBranchesAsTrees(
+  graph: ElkNode,
+  boundaryEventInfo: Map<string, BoundaryEventInfo>,
+  sizedGraph: ElkBpmnGraph,
+  debug = false
+): Map<string, NodeMoveInfo> {
+  const movedNodes = new Map<string, NodeMoveInfo>();
+  const { nodeMap, edgeMap, reverseEdgeMap } = buildNodeAndEdgeMaps(graph, sizedGraph);
+  const parentMap = buildParentMap(graph);
+
+  const branches = collectBranches(boundaryEventInfo, nodeMap, edgeMap, reverseEdgeMap, parentMap);
+  const branchNodeIds = new Set(branches.flatMap((branch) => [...branch.nodeIds]));
+
+  // Nodes that stay where ELK put them; branches must not overlap them
+  const fixedNodes = new Map<ElkNode, ElkNode[]>();
+  for (const [nodeId, parent] of parentMap) {
+    if (branchNodeIds.has(nodeId) || boundaryEventInfo.has(nodeId)) continue;
+    if (!fixedNodes.has(parent)) {
+      fixedNodes.set(parent, []);
+    }
+    fixedNodes.get(parent)!.push(nodeMap.get(nodeId)!);
+  }
+
+  const placedBranches = new Map<ElkNode, Bounds[]>();
+  const layouter = new TreeLayouter({
+    direction: 'RIGHT',
+    horizontalGap: LEVEL_GAP,
+    verticalGap: SIBLING_GAP,
+  });
+
+  // Right to left, so that each branch passes below the branches of boundary events further right
+  // and its exception flow can drop straight down left of them. Branches on hosts inside
+  // another branch follow once their host has been placed.
+  const placementOrder = [
+    ...branches.filter((branch) => !branchNodeIds.has(branch.hostId)).reverse(),
+    ...branches.filter((branch) => branchNodeIds.has(branch.hostId)),
+  ];
+
+  for (const branch of placementOrder) {
+    const host = { ...toBounds(nodeMap.get(branch.hostId)!), ...movedPosition(movedNodes.get(branch.hostId)) };
+    const parent = parentMap.get(branch.hostId)!;
+    const beX = host.x + branch.beOffset;
+    const hostBottom = host.y + host.height;
+
+    const tree = buildTree(branch.rootId, toBoundsMap(branch.nodeIds, nodeMap), restrictEdges(branch.nodeIds, edgeMap));
+    if (!tree) continue;
+    layouter.layout(tree);
+
+    // Start the branch right of the boundary event, then push it down until it is clear.
+    // The area checked reaches back to the boundary event for the entry of the exception flow.
+    const treeBounds = layouter.getTreeBounds(tree);
+    const offsetX = beX + ROOT_INDENT - treeBounds.x;
+    let offsetY = hostBottom + BRANCH_GAP - treeBounds.y;
+    const area = (dy: number): Bounds => ({
+      x: beX,
+      y: treeBounds.y + dy,
+      width: treeBounds.x + offsetX + treeBounds.width - beX,
+      height: treeBounds.height,
+    });
+    const obstacles = [
+      ...(fixedNodes.get(parent) ?? []).map(toBounds),
+      ...(placedBranches.get(parent) ?? []),
+    ];
+    let blocking = findBlockingObstacle(area(offsetY), obstacles);
+    while (blocking) {
+      offsetY = blocking.y + blocking.height + OBSTACLE_GAP - treeBounds.y;
+      blocking = findBlockingObstacle(area(offsetY), obstacles);
+    }
+
+    layouter.applyOffset(tree, offsetX, offsetY);
+    collectMoves(tree, nodeMap, movedNodes);
+
+    // Later branches must also stay clear of the exception flow dropping down from the host
+    const placed = area(offsetY);
+    if (!placedBranches.has(parent)) {
+      placedBranches.set(parent, []);
+    }
+    placedBranches.get(parent)!.push({ ...placed, y: hostBottom, height: placed.y + placed.height - hostBottom });
+
+    if (debug) {
+      console.log(
+        `[BPMN] Tree branch ${branch.rootId} below ${branch.hostId}: ${[...branch.nodeIds].join(', ')}`
+      );
+    }
+  }
+
+  return movedNodes;
+}
+
+/**
+ * Route the exception flows into branches placed by layoutBoundaryBranchesAsTrees:
+ * straight down from the boundary event, then into the left side of the branch root.
+ * Flows whose root does not lie below and right of the boundary event keep their route.
+ */
+export function routeBoundaryBranchEntries(
+  graph: ElkNode,
+  boundaryEventInfo: Map<string, BoundaryEventInfo>,
+  movedNodes: Map<string, NodeMoveInfo>
+): void {
+  const { nodeMap } = buildNodeAndEdgeMaps(graph);
+
+  const processEdges = (node: ElkNode) => {
+    for (const edge of node.edges ?? []) {
+      const sourceId = edge.sources?.[0] ?? '';
+      const info = boundaryEventInfo.get(sourceId);
+      const targetId = edge.targets?.[0];
+      if (!info || !targetId || !movedNodes.has(targetId)) continue;
+
+      const host = nodeMap.get(info.attachedToRef);
+      const root = nodeMap.get(targetId);
+      if (!host || !root) continue;
+
+      const hostBounds = toBounds(host);
+      const rootBounds = toBounds(root);
+      const beX = hostBounds.x + (hostBounds.width / (info.totalBoundaries + 1)) * (info.boundaryIndex + 1);
+      const beHeight = nodeMap.get(sourceId)?.height ?? BOUNDARY_EVENT_SIZE;
+      const beBottom = hostBounds.y + hostBounds.height + beHeight / 2;
+      const entryY = rootBounds.y + rootBounds.height / 2;
+      if (rootBounds.x <= beX || entryY <= beBottom) continue;
+
+      edge.sections = [
+        {
+          id: `${edge.id}_section_0`,
+          startPoint: { x: beX, y: beBottom },
+          endPoint: { x: rootBounds.x, y: entryY },
+          bendPoints: [{ x: beX, y: entryY }],
+        },
+      ];
+    }
+    for (const child of node.children ?? []) {
+      processEdges(child);
+    }
+  };
+  processEdges(graph);
+}
+
+/**
+ * Collect the nodes of every boundary event branch, ordered by host position.
+ * A branch stops where it merges back into the main flow; each node belongs to the first branch reaching it.
+ */
+function collectBranches(
+  boundaryEventInfo: Map<string, BoundaryEventInfo>,
+  nodeMap: Map<string, ElkNode>,
+  edgeMap: Map<string, string[]>,
+  reverseEdgeMap: Map<string, string[]>,
+  parentMap: Map<string, ElkNode>
+): BoundaryBranch[] {
+  const events = [...boundaryEventInfo.values()]
+    .filter((info) => info.targets.length > 0 && nodeMap.get(info.attachedToRef)?.y !== undefined)
+    .map((info) => {
+      const host = nodeMap.get(info.attachedToRef)!;
+      const spacing = (host.width ?? 100) / (info.totalBoundaries + 1);
+      const beOffset = spacing * (info.boundaryIndex + 1);
+      return { info, beOffset, beX: (host.x ?? 0) + beOffset };
+    })
+    .sort((a, b) => a.beX - b.beX || a.info.boundaryIndex - b.info.boundaryIndex);
+
+  const claimed = new Set<string>();
+  const branches: BoundaryBranch[] = [];
+
+  for (const { info, beOffset } of events) {
+    const parent = parentMap.get(info.attachedToRef);
+
+    for (const rootId of info.targets) {
+      if (claimed.has(rootId) || !nodeMap.has(rootId) || parentMap.get(rootId) !== parent) continue;
+
+      // Everything reachable in the same container that no earlier branch owns
+      const nodeIds = new Set<string>();
+      const queue = [rootId];
+      while (queue.length > 0) {
+        const nodeId = queue.shift()!;
+        if (nodeIds.has(nodeId) || claimed.has(nodeId) || parentMap.get(nodeId) !== parent) continue;
+        nodeIds.add(nodeId);
+        queue.push(...(edgeMap.get(nodeId) ?? []));
+      }
+
+      // Drop merge points (nodes also fed by the main flow) and everything only reachable through them
+      const isMainFlowSource = (sourceId: string) =>
+        !nodeIds.has(sourceId) && !claimed.has(sourceId) && !boundaryEventInfo.has(sourceId);
+      let changed = true;
+      while (changed) {
+        changed = false;
+        for (const nodeId of nodeIds) {
+          if (nodeId !== rootId && (reverseEdgeMap.get(nodeId) ?? []).some(isMainFlowSource)) {
+            nodeIds.delete(nodeId);
+            changed = true;
+          }
+        }
+      }
+
+      nodeIds.forEach((nodeId) => claimed.add(nodeId));
+      branches.push({ rootId, hostId: info.attachedToRef, beOffset, nodeIds });
+    }
+  }
+
+  return branches;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function buildParentMap(graph: ElkNode): Map<string, ElkNode> {
+  const parentMap = new Map<string, ElkNode>();
+  const visit = (node: ElkNode) => {
+    for (const child of node.children ?? []) {
+      parentMap.set(child.id, node);
+      visit(child);
+    }
+  };
+  visit(graph);
+  return parentMap;
+}
+
+function toBounds(node: ElkNode): Bounds {
+  return { x: node.x ?? 0, y: node.y ?? 0, width: node.width ?? 100, height: node.height ?? 80 };
+}
+
+function toBoundsMap(nodeIds: Set<string>, nodeMap: Map<string, ElkNode>): Map<string, Bounds & { id: string }> {
+  const result = new Map<string, Bounds & { id: string }>();
+  for (const nodeId of nodeIds) {
+    result.set(nodeId, { id: nodeId, ...toBounds(nodeMap.get(nodeId)!) });
+  }
+  return result;
+}
+
+function restrictEdges(nodeIds: Set<string>, edgeMap: Map<string, string[]>): Map<string, string[]> {
+  const result = new Map<string, string[]>();
+  for (const nodeId of nodeIds) {
+    result.set(nodeId, (edgeMap.get(nodeId) ?? []).filter((targetId) => nodeIds.has(targetId)));
+  }
+  return result;
+}
+
+function movedPosition(move: NodeMoveInfo | undefined): Partial<Bounds> {
+  if (!move) return {};
+  return move.newX !== undefined ? { x: move.newX, y: move.newY } : { y: move.newY };
+}
+
+/**
+ * Find the lowest obstacle within OBSTACLE_GAP of the bounds
+ */
+function findBlockingObstacle(bounds: Bounds, obstacles: Bounds[]): Bounds | undefined {
+  let blocking: Bounds | undefined;
+  for (const obstacle of obstacles) {
+    const overlaps =
+      bounds.x < obstacle.x + obstacle.width + OBSTACLE_GAP &&
+      obstacle.x < bounds.x + bounds.width + OBSTACLE_GAP &&
+      bounds.y < obstacle.y + obstacle.height + OBSTACLE_GAP &&
+      obstacle.y < bounds.y + bounds.height + OBSTACLE_GAP;
+    if (overlaps && (!blocking || obstacle.y + obstacle.height > blocking.y + blocking.height)) {
+      blocking = obstacle;
+    }
+  }
+  return blocking;
+}
+
+function collectMoves(tree: TreeNode, nodeMap: Map<string, ElkNode>, movedNodes: Map<string, NodeMoveInfo>): void {
+  const node = nodeMap.get(tree.id)!;
+  movedNodes.set(tree.id, { newX: tree.x, newY: tree.y, offset: tree.y - (node.y ?? 0) });
+  for (const child of tree.children) {
+    collectMoves(child, nodeMap, movedNodes);
+  }
+}
@@ -9,3 +9,4 @@ export * from './group-positioner';
 export * from './lane-arranger';
 export * from './pool-arranger';
 export * from './compactor';
+export * from './orientation-transposer';
@@ -8,6 +8,7 @@ import type { ElkNode, ElkExtendedEdge } from 'elkjs';
 import type { ElkBpmnGraph } from '../../types';
 import type { NodeWithBpmn, Point } from '../../types/internal';
 import { isDebugEnabled } from '../../utils/debug';
+import { resolveLayoutTheme, type LayoutTheme } from '../layout-theme';
 
 type ElkNodeWithBpmn = ElkNode & { bpmn?: NodeWithBpmn['bpmn'] };
 
@@ -15,10 +16,16 @@ type ElkNodeWithBpmn = ElkNode & { bpmn?: NodeWithBpmn['bpmn'] };
  * Handler for lane rearrangement
  */
 export class LaneArranger {
-  private readonly laneHeaderWidth = 30;
+  private readonly laneHeaderWidth: number;
   private readonly lanePadding = 0; // No extra padding - tight fit
-  private readonly laneExtraWidth = 130; // Extra width for each lane
-  private readonly laneExtraHeight = 120; // Extra height for each lane
+  private readonly laneExtraWidth: number; // Extra width for each lane
+  private readonly laneExtraHeight: number; // Extra height for each lane
+
+  constructor(theme: LayoutTheme = resolveLayoutTheme()) {
+    this.laneHeaderWidth = theme.lane.headerWidth;
+    this.laneExtraWidth = theme.lane.extraWidth;
+    this.laneExtraHeight = theme.lane.extraHeight;
+  }
 
   /**
    * Rearrange lanes within pools to stack vertically
@@ -249,7 +256,7 @@ export class LaneArranger {
         const contentHeight = this.calculateContentHeight(nestedLane);
         const laneHeight = Math.max(contentHeight + 24, 60);
 
-        nestedLane.x = 30; // Nested lane header offset
+        nestedLane.x = this.laneHeaderWidth; // Nested lane header offset
         nestedLane.y = currentY;
         nestedLane.height = laneHeight;
 
@@ -266,7 +273,7 @@ export class LaneArranger {
       }
 
       // Update parent lane dimensions
-      lane.width = 30 + maxWidth + 12;
+      lane.width = this.laneHeaderWidth + maxWidth + 12;
       lane.height = currentY + 12;
     }
   }
@@ -0,0 +1,75 @@
+/**
+ * Orientation Transposer
+ * Mirrors a layouted ELK graph along its main diagonal (x <-> y, width <-> height).
+ *
+ * Lane and pool arrangement is written for left-to-right flow. For top-to-bottom
+ * layouts (elk.direction: DOWN) the ELK result is transposed before arranging and
+ * transposed back afterwards, which turns stacked lanes with left headers into
+ * side-by-side lanes with top headers.
+ */
+
+import type { ElkNode, ElkExtendedEdge, ElkLabel, ElkPoint } from 'elkjs';
+
+/**
+ * Transposes node bounds and edge routes in place
+ */
+export class OrientationTransposer {
+  /**
+   * Transpose the graph in place. Applying it twice restores the original layout.
+   */
+  transpose(graph: ElkNode): void {
+    this.transposeNode(graph);
+  }
+
+  private transposeNode(node: ElkNode): void {
+    [node.x, node.y] = [node.y, node.x];
+    [node.width, node.height] = [node.height, node.width];
+
+    // Node labels are positioned relative to their node and keep their placement
+
+    for (const child of node.children ?? []) {
+      this.transposeNode(child);
+    }
+
+    for (const edge of node.edges ?? []) {
+      this.transposeEdge(edge);
+    }
+  }
+
+  private transposeEdge(edge: ElkExtendedEdge): void {
+    for (const section of edge.sections ?? []) {
+      this.transposePoint(section.startPoint);
+      this.transposePoint(section.endPoint);
+      for (const point of section.bendPoints ?? []) {
+        this.transposePoint(point);
+      }
+    }
+
+    const edgeWithJunctions = edge as ElkExtendedEdge & { junctionPoints?: ElkPoint[] };
+    for (const point of edgeWithJunctions.junctionPoints ?? []) {
+      this.transposePoint(point);
+    }
+
+    for (const label of edge.labels ?? []) {
+      this.transposeLabel(label);
+    }
+  }
+
+  private transposePoint(point: ElkPoint): void {
+    [point.x, point.y] = [point.y, point.x];
+  }
+
+  /**
+   * Text stays horizontal, so a label keeps its size and only its center is mirrored
+   */
+  private transposeLabel(label: ElkLabel): void {
+    if (label.x === undefined || label.y === undefined) return;
+
+    const width = label.width ?? 0;
+    const height = label.height ?? 0;
+    const centerX = label.x + width / 2;
+    const centerY = label.y + height / 2;
+    label.x = centerY - width / 2;
+    label.y = centerX - height / 2;
+  }
+}
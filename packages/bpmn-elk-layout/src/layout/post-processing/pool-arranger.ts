@@ -10,17 +10,32 @@ import type { NodeWithBpmn, Point, Bounds, ArtifactInfo } from '../../types/inte
 import { ARTIFACT_TYPES } from './artifact-positioner';
 import { ConstraintSolver } from '../constraint';
 import { isDebugEnabled } from '../../utils/debug';
+import { resolveLayoutTheme, type LayoutTheme } from '../layout-theme';
+import { SizeCalculator } from '../size-calculator';
 
 /**
  * Handler for pool arrangement
  */
 export class PoolArranger {
-  private readonly poolHeaderWidth = 55;
-  private readonly poolPaddingX = 25;
-  private readonly poolPaddingY = 40;
-  private readonly minPoolHeight = 100;
-  private readonly poolExtraWidth = 140;
-  private readonly poolExtraHeight = 80;
+  private readonly poolHeaderWidth: number;
+  private readonly poolPaddingX: number;
+  private readonly poolPaddingY: number;
+  private readonly minPoolHeight: number;
+  private readonly poolExtraWidth: number;
+  private readonly poolExtraHeight: number;
+  private readonly blackBoxHeight: number;
+  private readonly sizeCalculator: SizeCalculator;
+
+  constructor(theme: LayoutTheme = resolveLayoutTheme(), sizeCalculator = new SizeCalculator({ theme })) {
+    this.poolHeaderWidth = theme.pool.headerWidth;
+    this.poolPaddingX = theme.pool.paddingX;
+    this.poolPaddingY = theme.pool.paddingY;
+    this.minPoolHeight = theme.pool.minHeight;
+    this.poolExtraWidth = theme.pool.extraWidth;
+    this.poolExtraHeight = theme.pool.extraHeight;
+    this.blackBoxHeight = theme.pool.blackBoxHeight;
+    this.sizeCalculator = sizeCalculator;
+  }
 
   /**
    * Rearrange pools within collaborations
@@ -107,8 +122,8 @@ export class PoolArranger {
       const hasLanes = (origPool?.children as NodeWithBpmn[] | undefined)?.some(c => c.bpmn?.type === 'lane');
 
       pool.width = maxPoolWidth;
-      if (isBlackBox) {
-        pool.height = 60;
+      if (isBlackBox && origPool) {
+        pool.height = this.getBlackBoxHeight(origPool);
       } else if (!hasLanes) {
         pool.height = (pool.height ?? 200) + this.poolExtraHeight;
         this.offsetPoolChildren(pool, this.poolExtraWidth / 2, this.poolExtraHeight / 2);
@@ -137,12 +152,15 @@ export class PoolArranger {
     const positions = solver.solve();
     const nodePositions = new Map<string, Bounds>();
 
+    // The solver may place the stack above 0: start it at the top of the collaboration
+    const top = Math.min(...pools.map((pool) => positions.get(pool.id)?.y ?? 0));
+
     // Apply solved positions
     let totalHeight = 0;
     for (const pool of pools) {
       const pos = positions.get(pool.id);
       pool.x = 0;
-      pool.y = pos?.y ?? totalHeight;
+      pool.y = pos ? pos.y - top : totalHeight;
 
       nodePositions.set(pool.id, {
         x: pool.x,
@@ -271,10 +289,10 @@ export class PoolArranger {
           x: 0,
           y: currentY,
           width: poolWidth,
-          height: 60,
+          height: this.getBlackBoxHeight(origPool),
           children: [],
         });
-        currentY += 60;
+        currentY += this.getBlackBoxHeight(origPool);
       } else {
         const regularNodes = poolNodes.filter(n => !artifactIds.has(n.id));
         const artifactNodes = poolNodes.filter(n => artifactIds.has(n.id));
@@ -423,6 +441,13 @@ export class PoolArranger {
     }
   }
 
+  /**
+   * Height of a black box pool: a participant size override, or the theme height
+   */
+  private getBlackBoxHeight(pool: NodeWithBpmn): number {
+    return this.sizeCalculator.getSizeOverride(pool).height ?? this.blackBoxHeight;
+  }
+
   /**
    * Collect node positions within a pool
    */
@@ -12,7 +12,8 @@ import type { ElkNode, ElkExtendedEdge, LayoutOptions } from 'elkjs';
 import type { ElkBpmnGraph } from '../../types';
 import type { NodeWithBpmn, BoundaryEventInfo } from '../../types/internal';
 import { mergeElkOptions } from '../default-options';
-import { SizeCalculator } from '../size-calculator';
+import { getThemeElkOptions, resolveLayoutTheme, type LayoutTheme } from '../layout-theme';
+import { SizeCalculator, type SizeCalculatorOptions } from '../size-calculator';
 import { isDebugEnabled } from '../../utils/debug';
 
 /**
@@ -20,9 +21,16 @@ import { isDebugEnabled } from '../../utils/debug';
  */
 export class ElkGraphPreparer {
   private sizeCalculator: SizeCalculator;
-
-  constructor() {
-    this.sizeCalculator = new SizeCalculator();
+  /** Size edge labels to their text (only with a text measurer; 50px wide otherwise) */
+  private measureEdgeLabels: boolean;
+  private theme: LayoutTheme;
+  /** Flow direction of the graph being prepared (swimlanes follow it) */
+  private flowDirection: 'RIGHT' | 'DOWN' = 'RIGHT';
+
+  constructor(options?: SizeCalculatorOptions) {
+    this.sizeCalculator = new SizeCalculator(options);
+    this.measureEdgeLabels = options?.textMeasurer !== undefined;
+    this.theme = options?.theme ?? resolveLayoutTheme();
   }
 
   /**
@@ -33,14 +41,19 @@ export class ElkGraphPreparer {
     userOptions: Record<string, unknown> = {},
     boundaryEventTargetIds: Set<string> = new Set()
   ): ElkNode {
-    let layoutOptions = mergeElkOptions(userOptions as Record<string, string | number | boolean | undefined>, graph.layoutOptions);
+    let layoutOptions = mergeElkOptions(
+      userOptions as Record<string, string | number | boolean | undefined>,
+      graph.layoutOptions,
+      getThemeElkOptions(this.theme)
+    );
+    this.flowDirection = layoutOptions['elk.direction'] === 'DOWN' ? 'DOWN' : 'RIGHT';
 
     // Check if this graph contains a cross-pool collaboration
-    // If so, force RIGHT direction for better horizontal layout
+    // If so, force RIGHT direction for better horizontal layout (DOWN is kept for vertical swimlanes)
     if (this.hasCrossPoolCollaboration(graph)) {
       layoutOptions = {
         ...layoutOptions,
-        'elk.direction': 'RIGHT',
+        'elk.direction': this.flowDirection,
       };
     }
 
@@ -224,6 +237,37 @@ export class ElkGraphPreparer {
     return mainFlowNodes;
   }
 
+  /**
+   * Identify the nodes connected by sequence flows marked with bpmn.isHappyPath.
+   * Returns an empty set when no flow is marked.
+   */
+  identifyHappyPathNodes(graph: ElkBpmnGraph): Set<string> {
+    const happyPathNodes = new Set<string>();
+
+    const collect = (node: NodeWithBpmn) => {
+      for (const edge of node.edges ?? []) {
+        if (edge.bpmn?.type === 'sequenceFlow' && edge.bpmn.isHappyPath === true) {
+          for (const id of [...edge.sources, ...edge.targets]) {
+            happyPathNodes.add(id);
+          }
+        }
+      }
+      for (const child of node.children ?? []) {
+        collect(child as NodeWithBpmn);
+      }
+    };
+
+    for (const child of graph.children ?? []) {
+      collect(child as NodeWithBpmn);
+    }
+
+    if (isDebugEnabled() && happyPathNodes.size > 0) {
+      console.log(`[BPMN] Happy path nodes: ${Array.from(happyPathNodes).join(', ')}`);
+    }
+
+    return happyPathNodes;
+  }
+
   /**
    * Prepare children for ELK layout
    */
@@ -287,20 +331,19 @@ export class ElkGraphPreparer {
     const ioSpec = node.bpmn?.ioSpecification;
     let ioSpecExtraHeight = 0;
     if (ioSpec) {
-      const dataInputs = ioSpec.dataInputs ?? [];
-      const dataOutputs = ioSpec.dataOutputs ?? [];
-      const maxCount = Math.max(dataInputs.length, dataOutputs.length);
+      const { inputs, outputs } = this.sizeCalculator.getIoSpecificationSizes(node.id, ioSpec);
 
-      if (maxCount > 0) {
+      if (inputs.length > 0 || outputs.length > 0) {
         // Constants matching diagram-builder.ts
-        const dataHeight = 50;
         const gapBelow = 20;
         const verticalSpacing = 24;
         const labelHeight = 14;
 
         // Calculate required extra height for ELK layout:
-        // gapBelow + maxCount * (dataHeight + verticalSpacing) + labelHeight
-        ioSpecExtraHeight = gapBelow + maxCount * (dataHeight + verticalSpacing) + labelHeight;
+        // gapBelow + height of the taller stack of (dataHeight + verticalSpacing) + labelHeight
+        const stackHeight = (sizes: Array<{ height: number }>) =>
+          sizes.reduce((sum, size) => sum + size.height + verticalSpacing, 0);
+        ioSpecExtraHeight = gapBelow + Math.max(stackHeight(inputs), stackHeight(outputs)) + labelHeight;
 
         if (isDebugEnabled()) {
           console.log(`[BPMN] Adding extra height ${ioSpecExtraHeight} for node ${node.id} with ioSpecification`);
@@ -337,7 +380,7 @@ export class ElkGraphPreparer {
 
     if (isExpandedSubprocess) {
       layoutOptions = {
-        'elk.padding': '[top=30,left=12,bottom=30,right=12]',
+        'elk.padding': `[top=30,left=${this.theme.containerPadding},bottom=30,right=${this.theme.containerPadding}]`,
         ...layoutOptions,
       } as LayoutOptions;
       // Restore user padding if specified (it takes precedence)
@@ -366,9 +409,9 @@ export class ElkGraphPreparer {
       layoutOptions = {
         ...layoutOptions,
         'elk.algorithm': 'layered',
-        'elk.direction': 'RIGHT',
+        'elk.direction': this.flowDirection,
         'elk.hierarchyHandling': 'INCLUDE_CHILDREN',
-        'elk.padding': '[top=12,left=12,bottom=12,right=12]',
+        'elk.padding': this.uniformPadding(),
       } as LayoutOptions;
 
       const elkNode: ElkNode & { bpmn?: NodeWithBpmn['bpmn'] } = {
@@ -400,16 +443,16 @@ export class ElkGraphPreparer {
     if (hasLanes) {
       // For pools with lanes, use a different layout strategy:
       // - Use partitioning to create horizontal swim lanes (rows, not columns)
-      // - Set direction to RIGHT for flow within lanes
+      // - Set direction to RIGHT (or DOWN for vertical swimlanes) for flow within lanes
       // - Use 'elk.partitioning.activate' with vertical partitions
       layoutOptions = {
         ...layoutOptions,
         'elk.algorithm': 'layered',
-        'elk.direction': 'RIGHT',
+        'elk.direction': this.flowDirection,
         // Remove partitioning - we'll handle lane stacking differently
         'elk.partitioning.activate': 'false',
-        // Add padding for lane header (left side)
-        'elk.padding': '[top=12,left=30,bottom=12,right=12]',
+        // Add padding for lane header (left side, top side for vertical swimlanes)
+        'elk.padding': this.headerPadding(this.theme.lane.headerWidth),
         'elk.hierarchyHandling': 'INCLUDE_CHILDREN',
       } as LayoutOptions;
     } else if (isPool) {
@@ -417,9 +460,9 @@ export class ElkGraphPreparer {
       layoutOptions = {
         ...layoutOptions,
         'elk.algorithm': 'layered',
-        'elk.direction': 'RIGHT',
-        // Add padding for pool header (left side) - 55px to accommodate vertical label
-        'elk.padding': '[top=12,left=55,bottom=12,right=12]',
+        'elk.direction': this.flowDirection,
+        // Add padding for pool header (left side) - 55px by default to accommodate vertical label
+        'elk.padding': this.headerPadding(this.theme.pool.headerWidth),
       } as LayoutOptions;
     }
 
@@ -429,7 +472,7 @@ export class ElkGraphPreparer {
       // For lanes, don't set separate layout algorithm - let parent pool handle layout
       // Just set padding for content spacing
       layoutOptions = {
-        'elk.padding': '[top=12,left=12,bottom=12,right=12]',
+        'elk.padding': this.uniformPadding(),
       } as LayoutOptions;
     }
 
@@ -506,6 +549,22 @@ export class ElkGraphPreparer {
     return elkNode;
   }
 
+  /**
+   * Build the padding for a swimlane header, which sits on the left for horizontal
+   * swimlanes and on the top for vertical ones
+   */
+  private headerPadding(header: number): string {
+    const padding = this.theme.containerPadding;
+    return this.flowDirection === 'DOWN'
+      ? `[top=${header},left=${padding},bottom=${padding},right=${padding}]`
+      : `[top=${padding},left=${header},bottom=${padding},right=${padding}]`;
+  }
+
+  private uniformPadding(): string {
+    const padding = this.theme.containerPadding;
+    return `[top=${padding},left=${padding},bottom=${padding},right=${padding}]`;
+  }
+
   /**
    * Prepare edges for ELK format
    */
@@ -519,7 +578,7 @@ export class ElkGraphPreparer {
       layoutOptions: edge.layoutOptions as LayoutOptions | undefined,
       labels: edge.labels?.map((l) => ({
         text: l.text,
-        width: l.width ?? 50,
+        width: l.width ?? (this.measureEdgeLabels ? this.sizeCalculator.estimateLabelWidth(l.text) : 50),
         height: l.height ?? 14,
       })),
     })) as ElkExtendedEdge[];
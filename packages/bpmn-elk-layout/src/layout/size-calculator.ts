@@ -4,8 +4,23 @@
  * Also estimates label widths based on text content.
  */
 
-import type { ElkBpmnGraph } from '../types';
+import type { ElkBpmnGraph, IoSpecification } from '../types';
 import type { NodeWithBpmn } from '../types/internal';
+import { wrapText, type TextMeasurer } from '../text';
+import { resolveLayoutTheme, type LayoutThemeSizes, type LayoutTheme } from './layout-theme';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Maximum activity width when sizing to the name (the minimum is the theme's task size) */
+const ACTIVITY_MAX_WIDTH = 200;
+
+/** Width increments tried when growing an activity to fit its name */
+const ACTIVITY_WIDTH_STEP = 20;
+
+/** Space between the activity border and its name */
+const ACTIVITY_TEXT_PADDING = 5;
 
 /**
  * Default size dimensions for various BPMN element types
@@ -15,11 +30,59 @@ export interface ElementSize {
   height: number;
 }
 
+/**
+ * Node passed to an element size callback
+ */
+export interface ElementSizeNode {
+  id: string;
+  bpmn: {
+    type: string;
+    name?: string;
+    isExpanded?: boolean;
+  };
+}
+
+/**
+ * Returns the size of a node, or undefined to keep its default size.
+ * Missing dimensions keep their default.
+ */
+export type ElementSizeCallback = (node: ElementSizeNode, defaultSize: ElementSize) => Partial<ElementSize> | undefined;
+
+/**
+ * Sizes of nodes without an explicit width/height
+ * Precedence: explicit node size > getSize > types > theme size (or size fitted to the name)
+ */
+export interface ElementSizeOptions {
+  /** Sizes per BPMN type, e.g. `{ userTask: { width: 120, height: 60 }, boundaryEvent: { width: 40, height: 40 } }` */
+  types?: Partial<Record<string, Partial<ElementSize>>>;
+  /** Size of individual nodes */
+  getSize?: ElementSizeCallback;
+}
+
+export interface SizeCalculatorOptions {
+  /** Measure names to size activities and labels; uses name length heuristics when not set */
+  textMeasurer?: TextMeasurer;
+  /** Default element sizes */
+  theme?: LayoutTheme;
+  /** Size overrides per BPMN type and per node */
+  sizes?: ElementSizeOptions;
+}
+
 /**
  * Size Calculator for BPMN elements
  * Applies default sizes based on element type and properties
  */
 export class SizeCalculator {
+  private textMeasurer?: TextMeasurer;
+  private sizes: LayoutThemeSizes;
+  private sizeOptions: ElementSizeOptions;
+
+  constructor(options?: SizeCalculatorOptions) {
+    this.textMeasurer = options?.textMeasurer;
+    this.sizes = (options?.theme ?? resolveLayoutTheme()).sizes;
+    this.sizeOptions = options?.sizes ?? {};
+  }
+
   /**
    * Apply default sizes to all nodes in the graph
    */
@@ -43,14 +106,10 @@ export class SizeCalculator {
       const bpmn = (result as unknown as NodeWithBpmn).bpmn;
       const nodeResult = result as { width?: number; height?: number };
 
-      // Get default size based on type
-      const defaultSize = this.getDefaultSizeForType(bpmn.type, bpmn.name, bpmn.isExpanded);
-
-      if (nodeResult.width === undefined) {
-        nodeResult.width = defaultSize.width;
-      }
-      if (nodeResult.height === undefined) {
-        nodeResult.height = defaultSize.height;
+      if (nodeResult.width === undefined || nodeResult.height === undefined) {
+        const size = this.getNodeSize({ id: (result as unknown as NodeWithBpmn).id, bpmn });
+        nodeResult.width ??= size.width;
+        nodeResult.height ??= size.height;
       }
     }
 
@@ -63,20 +122,22 @@ export class SizeCalculator {
 
     // Process boundary events
     if ('boundaryEvents' in result && Array.isArray((result as { boundaryEvents: unknown[] }).boundaryEvents)) {
-      const boundaryEvents = (result as { boundaryEvents: object[] }).boundaryEvents;
-      (result as { boundaryEvents: unknown[] }).boundaryEvents = boundaryEvents.map(
-        (be) => this.applyDefaultSizesRecursive(be)
+      const boundaryEvents = (result as { boundaryEvents: object[] }).boundaryEvents.map(
+        (be) => this.applyDefaultSizesRecursive(be) as { width?: number }
       );
+      (result as { boundaryEvents: unknown[] }).boundaryEvents = boundaryEvents;
 
       // Ensure host node is wide enough to accommodate all boundary events with spacing
-      // Each boundary event is 36px wide, and we need at least 20px spacing between them
+      // Boundary events are 36px wide by default, and we need at least 20px spacing between them
       const beCount = boundaryEvents.length;
       if (beCount > 1) {
-        const beWidth = 36;
         const beSpacing = 20;
         // Need: margin + (beWidth + spacing) * beCount - spacing + margin
-        // Simplified: (beCount * (beWidth + beSpacing)) + margin
-        const minWidth = beCount * (beWidth + beSpacing) + beSpacing;
+        // Simplified: sum of (beWidth + beSpacing) + margin
+        const minWidth = boundaryEvents.reduce(
+          (sum, be) => sum + (be.width ?? this.sizes.event.width) + beSpacing,
+          beSpacing
+        );
         const nodeResult = result as { width?: number };
         if (nodeResult.width !== undefined && nodeResult.width < minWidth) {
           nodeResult.width = minWidth;
@@ -96,11 +157,15 @@ export class SizeCalculator {
 
   /**
    * Estimate label width based on text content
-   * Uses approximate character width of 14px for CJK and 7px for ASCII
+   * Uses the text measurer if set, otherwise approximate character width of 14px for CJK and 7px for ASCII
    */
   estimateLabelWidth(text?: string): number {
     if (!text) return 50;
 
+    if (this.textMeasurer) {
+      return Math.max(30, Math.min(Math.ceil(this.textMeasurer.measureWidth(text)), 200));
+    }
+
     let width = 0;
     for (const char of text) {
       // CJK characters are wider
@@ -115,65 +180,157 @@ export class SizeCalculator {
   }
 
   /**
-   * Get default size for a BPMN element type
+   * Size of a node without an explicit width/height:
+   * the size callback result, falling back to the default size of its type
+   */
+  getNodeSize(node: ElementSizeNode): ElementSize {
+    const defaultSize = this.getDefaultSizeForType(node.bpmn.type, node.bpmn.name, node.bpmn.isExpanded);
+    return withOverrides(defaultSize, this.sizeOptions.getSize?.(node, defaultSize));
+  }
+
+  /**
+   * Dimensions set for a node by the size callback or the type overrides, without defaults
+   * Used where the layout has its own default, e.g. the height of black box pools.
+   */
+  getSizeOverride(node: ElementSizeNode): Partial<ElementSize> {
+    const { type, name, isExpanded } = node.bpmn;
+    const typeSize = this.sizeOptions.types?.[type];
+    const nodeSize = this.sizeOptions.getSize?.(node, this.getDefaultSizeForType(type, name, isExpanded));
+    const width = nodeSize?.width ?? typeSize?.width;
+    const height = nodeSize?.height ?? typeSize?.height;
+    return {
+      ...(width !== undefined ? { width } : {}),
+      ...(height !== undefined ? { height } : {}),
+    };
+  }
+
+  /**
+   * Sizes of the data inputs and outputs drawn below a task with an ioSpecification
+   * (ids default to `<taskId>_input_<index>` and `<taskId>_output_<index>`)
+   */
+  getIoSpecificationSizes(taskId: string, ioSpec: IoSpecification): { inputs: ElementSize[]; outputs: ElementSize[] } {
+    return {
+      inputs: (ioSpec.dataInputs ?? []).map((input, index) => this.getNodeSize({
+        id: input.id ?? `${taskId}_input_${index}`,
+        bpmn: { type: 'dataInput', name: input.name },
+      })),
+      outputs: (ioSpec.dataOutputs ?? []).map((output, index) => this.getNodeSize({
+        id: output.id ?? `${taskId}_output_${index}`,
+        bpmn: { type: 'dataOutput', name: output.name },
+      })),
+    };
+  }
+
+  /**
+   * Get default size for a BPMN element type, including the type overrides
    */
   getDefaultSizeForType(type: string, name?: string, isExpanded?: boolean): ElementSize {
+    return withOverrides(this.getThemeSize(type, name, isExpanded), this.sizeOptions.types?.[type]);
+  }
+
+  /**
+   * Theme size of a BPMN element type
+   */
+  private getThemeSize(type: string, name?: string, isExpanded?: boolean): ElementSize {
+    const sizes = this.sizes;
+
     // Expanded subprocesses
     if (isExpanded === true) {
-      return { width: 300, height: 200 };
+      return { ...sizes.expandedSubProcess };
     }
 
     // Events
     if (type.includes('Event')) {
-      return { width: 36, height: 36 };
+      return { ...sizes.event };
     }
 
     // Gateways
     if (type.includes('Gateway')) {
-      return { width: 50, height: 50 };
+      return { ...sizes.gateway };
     }
 
     // Tasks and activities
     if (type.includes('Task') || type === 'task' || type === 'callActivity') {
+      if (this.textMeasurer && name) {
+        return this.fitActivityToName(name, this.textMeasurer);
+      }
       const nameLen = name?.length ?? 0;
-      if (nameLen > 12) return { width: 150, height: 80 };
-      if (nameLen > 8) return { width: 120, height: 80 };
-      return { width: 100, height: 80 };
+      if (nameLen > 12) return { ...sizes.taskWider };
+      if (nameLen > 8) return { ...sizes.taskWide };
+      return { ...sizes.task };
     }
 
     // Collapsed subprocesses
     if (type === 'subProcess' || type === 'transaction' || type === 'adHocSubProcess' || type === 'eventSubProcess') {
-      return { width: 100, height: 80 };
+      return { ...sizes.collapsedSubProcess };
     }
 
     // Data objects
     if (type === 'dataObject' || type === 'dataObjectReference' || type === 'dataInput' || type === 'dataOutput') {
-      return { width: 36, height: 50 };
+      return { ...sizes.dataObject };
     }
 
     // Data store
     if (type === 'dataStoreReference') {
-      return { width: 50, height: 50 };
+      return { ...sizes.dataStore };
     }
 
     // Text annotation
     if (type === 'textAnnotation') {
-      return { width: 100, height: 30 };
+      return { ...sizes.textAnnotation };
     }
 
     // Participant/Pool - let ELK calculate
     if (type === 'participant') {
-      return { width: 680, height: 200 };
+      return { ...sizes.participant };
     }
 
     // Lane - let ELK calculate
     if (type === 'lane') {
-      return { width: 680, height: 150 };
+      return { ...sizes.lane };
     }
 
     // Default
-    return { width: 100, height: 80 };
+    return { ...sizes.task };
   }
+
+  /**
+   * Smallest activity size that fits the wrapped name:
+   * widen up to the maximum width first, then grow the height
+   */
+  private fitActivityToName(name: string, measurer: TextMeasurer): ElementSize {
+    const { width: minWidth, height: minHeight } = this.sizes.task;
+    const maxWidth = Math.max(minWidth, ACTIVITY_MAX_WIDTH);
+    const longestWord = Math.max(...name.split(/\s+/).map((word) => measurer.measureWidth(word)));
+    let width = roundUpTo(longestWord + 2 * ACTIVITY_TEXT_PADDING, 10);
+    width = Math.max(minWidth, Math.min(width, maxWidth));
+
+    for (; width <= maxWidth; width += ACTIVITY_WIDTH_STEP) {
+      const height = this.getTextHeight(name, width, measurer);
+      if (height <= minHeight) {
+        return { width, height: minHeight };
+      }
+    }
+
+    const height = this.getTextHeight(name, maxWidth, measurer);
+    return { width: maxWidth, height: Math.max(minHeight, roundUpTo(height, 10)) };
+  }
+
+  private getTextHeight(text: string, width: number, measurer: TextMeasurer): number {
+    const lines = wrapText(text, width - 2 * ACTIVITY_TEXT_PADDING, measurer);
+    return lines.length * measurer.lineHeight + 2 * ACTIVITY_TEXT_PADDING;
+  }
+}
+
+function withOverrides(size: ElementSize, override?: Partial<ElementSize>): ElementSize {
+  return {
+    width: override?.width ?? size.width,
+    height: override?.height ?? size.height,
+  };
+}
+
+function roundUpTo(value: number, step: number): number {
+  return Math.ceil(value / step) * step;
 }
 
 /**
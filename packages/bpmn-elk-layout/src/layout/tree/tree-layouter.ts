@@ -17,7 +17,9 @@ export interface TreeNode {
   height: number;
   children: TreeNode[];
   // Layout helper fields
+  /** Center of the node along the sibling axis, relative to the start of its subtree */
   prelim: number;
+  /** Start of the subtree along the sibling axis, relative to the start of its parent's subtree */
   modifier: number;
 }
 
@@ -25,9 +27,9 @@ export interface TreeNode {
  * Options for tree layout
  */
 export interface TreeLayoutOptions {
-  /** Horizontal gap between sibling nodes */
+  /** Horizontal gap between nodes (between siblings for DOWN, between levels for RIGHT) */
   horizontalGap: number;
-  /** Vertical gap between parent and children */
+  /** Vertical gap between nodes (between levels for DOWN, between siblings for RIGHT) */
   verticalGap: number;
   /** Direction of tree expansion */
   direction: 'DOWN' | 'RIGHT';
@@ -50,18 +52,20 @@ export class TreeLayouter {
   }
 
   /**
-   * Layout a tree structure
+   * Layout a tree structure.
+   * The tree's bounding box starts at (0, 0); each level is as deep as its largest node.
    * @param root The root node of the tree
    */
   layout(root: TreeNode): void {
     // Initialize prelim and modifier
     this.initializeNode(root);
 
-    // First walk: compute preliminary x-coordinates
+    // First walk: compute subtree extents and relative positions
     this.firstWalk(root);
 
     // Second walk: compute final positions
-    this.secondWalk(root, -root.prelim);
+    const levelStarts = this.getLevelStarts(root);
+    this.secondWalk(root, 0, 0, levelStarts);
   }
 
   /**
@@ -76,90 +80,105 @@ export class TreeLayouter {
   }
 
   /**
-   * First walk: Compute preliminary x-coordinates bottom-up
+   * First walk: Compute preliminary positions bottom-up.
+   * Children are placed side by side and centered in the subtree, the parent is centered above them.
    */
   private firstWalk(node: TreeNode): void {
-    if (node.children.length === 0) {
-      // Leaf node - prelim is 0 (will be adjusted by parent)
-      node.prelim = 0;
-    } else {
-      // Recursively process children first
-      for (const child of node.children) {
-        this.firstWalk(child);
-      }
-
-      // Position children horizontally
-      let totalWidth = 0;
-      for (let i = 0; i < node.children.length; i++) {
-        const child = node.children[i];
-        const childWidth = this.getSubtreeWidth(child);
-        child.prelim = totalWidth + childWidth / 2;
-        totalWidth += childWidth + this.options.horizontalGap;
-      }
-      // Remove last gap
-      totalWidth -= this.options.horizontalGap;
+    for (const child of node.children) {
+      this.firstWalk(child);
+    }
 
-      // Center parent above children
-      const leftChild = node.children[0];
-      const rightChild = node.children[node.children.length - 1];
-      node.prelim = (leftChild.prelim + rightChild.prelim) / 2;
+    const subtreeBreadth = this.getSubtreeBreadth(node);
+    node.prelim = subtreeBreadth / 2;
 
-      // Store modifier for second walk
-      node.modifier = node.prelim;
+    const childrenBreadth = this.getChildrenBreadth(node);
+    let start = (subtreeBreadth - childrenBreadth) / 2;
+    for (const child of node.children) {
+      child.modifier = start;
+      start += this.getSubtreeBreadth(child) + this.getSiblingGap();
     }
   }
 
   /**
    * Second walk: Compute final positions top-down
+   * @param subtreeStart Start of the node's subtree along the sibling axis
    */
-  private secondWalk(node: TreeNode, modifier: number, depth: number = 0): void {
+  private secondWalk(node: TreeNode, subtreeStart: number, depth: number, levelStarts: number[]): void {
+    const center = subtreeStart + node.prelim;
+    const levelStart = levelStarts[depth]!;
+    const levelDepth = levelStarts[depth + 1]! - levelStart - this.getLevelGap();
+
     if (this.options.direction === 'DOWN') {
       // Tree expands downward
-      node.x = node.prelim + modifier;
-      node.y = depth * (this.getMaxHeightAtDepth(node, depth) + this.options.verticalGap);
+      node.x = center - node.width / 2;
+      node.y = levelStart + (levelDepth - node.height) / 2;
     } else {
       // Tree expands rightward
-      node.y = node.prelim + modifier;
-      node.x = depth * (this.getMaxWidthAtDepth(node, depth) + this.options.horizontalGap);
+      node.y = center - node.height / 2;
+      node.x = levelStart + (levelDepth - node.width) / 2;
     }
 
     for (const child of node.children) {
-      this.secondWalk(child, modifier, depth + 1);
+      this.secondWalk(child, subtreeStart + child.modifier, depth + 1, levelStarts);
     }
   }
 
   /**
-   * Get the width of a subtree (for horizontal spacing)
+   * Get the breadth of a subtree along the sibling axis
    */
-  private getSubtreeWidth(node: TreeNode): number {
+  private getSubtreeBreadth(node: TreeNode): number {
+    return Math.max(this.getBreadth(node), this.getChildrenBreadth(node));
+  }
+
+  private getChildrenBreadth(node: TreeNode): number {
     if (node.children.length === 0) {
-      return node.width;
+      return 0;
     }
 
-    let totalWidth = 0;
+    let totalBreadth = 0;
     for (const child of node.children) {
-      totalWidth += this.getSubtreeWidth(child) + this.options.horizontalGap;
+      totalBreadth += this.getSubtreeBreadth(child) + this.getSiblingGap();
     }
-    totalWidth -= this.options.horizontalGap;
-
-    return Math.max(node.width, totalWidth);
+    return totalBreadth - this.getSiblingGap();
   }
 
   /**
-   * Get maximum height at a specific depth
+   * Get the start of each level along the level axis, sized by the largest node of the level.
+   * The entry after the last level marks the end of the tree plus one level gap.
    */
-  private getMaxHeightAtDepth(_node: TreeNode, _depth: number): number {
-    // For simplicity, use the node's own height
-    // In a more complex implementation, we'd compute max height across all nodes at this depth
-    return _node.height;
+  private getLevelStarts(root: TreeNode): number[] {
+    const levelDepths: number[] = [];
+    const collectDepths = (node: TreeNode, depth: number) => {
+      levelDepths[depth] = Math.max(levelDepths[depth] ?? 0, this.getDepth(node));
+      for (const child of node.children) {
+        collectDepths(child, depth + 1);
+      }
+    };
+    collectDepths(root, 0);
+
+    const levelStarts = [0];
+    for (const levelDepth of levelDepths) {
+      levelStarts.push(levelStarts[levelStarts.length - 1]! + levelDepth + this.getLevelGap());
+    }
+    return levelStarts;
   }
 
-  /**
-   * Get maximum width at a specific depth
-   */
-  private getMaxWidthAtDepth(_node: TreeNode, _depth: number): number {
-    // For simplicity, use the node's own width
-    return _node.width;
+  /** Extent of a node along the sibling axis */
+  private getBreadth(node: TreeNode): number {
+    return this.options.direction === 'DOWN' ? node.width : node.height;
+  }
+
+  /** Extent of a node along the level axis */
+  private getDepth(node: TreeNode): number {
+    return this.options.direction === 'DOWN' ? node.height : node.width;
+  }
+
+  private getSiblingGap(): number {
+    return this.options.direction === 'DOWN' ? this.options.horizontalGap : this.options.verticalGap;
+  }
+
+  private getLevelGap(): number {
+    return this.options.direction === 'DOWN' ? this.options.verticalGap : this.options.horizontalGap;
   }
 
   /**
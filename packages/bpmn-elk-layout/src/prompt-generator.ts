@@ -74,11 +74,10 @@ export class PromptTemplateGenerator {
     const packageRoot = isInDist
       ? join(currentDir, '..', '..')  // dist/bin -> package root
       : join(currentDir, '..');        // src -> package root
-    const projectRoot = join(packageRoot, '../..');
 
     this.options = {
       fixturesDir: options.fixturesDir || join(packageRoot, 'test/fixtures'),
-      schemaPath: options.schemaPath || join(projectRoot, 'elk-bpmn-schema.json'),
+      schemaPath: options.schemaPath || join(packageRoot, 'elk-bpmn-schema.json'),
     };
   }
 
@@ -0,0 +1,364 @@
+/**
+ * Layout Server (Node.js only)
+ *
+ * HTTP API around BpmnElkLayout for clients in other languages (used by `serve`):
+ * - POST /convert?format=bpmn|json|svg  ELK-BPMN JSON → BPMN XML, layouted JSON or SVG
+ * - POST /validate                      ELK-BPMN JSON → schema validation result
+ * - POST /lint?rule=name=severity       ELK-BPMN JSON → lint result
+ * - GET  /prompt-template               Prompt template for generating ELK-BPMN JSON
+ * - GET  /health                        Liveness check
+ *
+ * Errors are JSON objects `{ "error": message }`. ELK runs in worker threads, so a
+ * layout that exceeds the timeout is stopped and the server keeps responding.
+ * At most `concurrency` layouts (and workers) run at once; further requests wait
+ * in a queue, and requests beyond the queue get 503.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { BpmnElkLayout, type BpmnElkLayoutOptions } from './converter';
+import { PromptTemplateGenerator, type PromptGeneratorOptions } from './prompt-generator';
+import { validateElkBpmn, Linter, type LinterOptions } from './validation';
+import type { ElkBpmnGraph } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LayoutServerOptions {
+  /**
+   * Port to listen on; 0 picks a free port
+   * @default 8080
+   */
+  port?: number;
+  /**
+   * Host to listen on; use '0.0.0.0' to accept connections from other machines
+   * @default '127.0.0.1'
+   */
+  host?: string;
+  /**
+   * Maximum request body size in bytes; larger requests get 413
+   * @default 1048576 (1 MiB)
+   */
+  maxBodySize?: number;
+  /**
+   * Maximum layout time per request in milliseconds; slower layouts get 504
+   * @default 30000
+   */
+  timeout?: number;
+  /**
+   * Maximum number of layouts at the same time, each in its own ELK worker
+   * @default 2
+   */
+  concurrency?: number;
+  /**
+   * Maximum number of requests waiting for a layout; further requests get 503
+   * @default 32
+   */
+  queueSize?: number;
+  /** Converter options (theme, elkOptions, ...); ELK runs in a worker unless `worker` is false */
+  layout?: BpmnElkLayoutOptions;
+  /** Fixtures and schema of the prompt template */
+  promptTemplate?: PromptGeneratorOptions;
+}
+
+type ConvertFormat = 'bpmn' | 'json' | 'svg';
+
+const CONTENT_TYPES: Record<ConvertFormat, string> = {
+  bpmn: 'application/xml; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  svg: 'image/svg+xml; charset=utf-8',
+};
+
+/**
+ * Error answered with an HTTP status
+ */
+class HttpError extends Error {
+  readonly status: number;
+  readonly headers: Record<string, string>;
+
+  constructor(status: number, message: string, headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+// ============================================================================
+// Layout Server
+// ============================================================================
+
+export class LayoutServer {
+  private port: number;
+  private host: string;
+  private maxBodySize: number;
+  private timeout: number;
+  private concurrency: number;
+  private queueSize: number;
+  /** Number of running layouts */
+  private running = 0;
+  /** Requests waiting for a layout slot */
+  private waiting: Array<() => void> = [];
+  private converter: BpmnElkLayout;
+  /** Whether the converter repairs its input before the layout */
+  private repair: boolean;
+  private promptGenerator: PromptTemplateGenerator;
+  /** Prompt template, generated on the first request */
+  private promptTemplate?: Promise<string>;
+  private server?: Server;
+
+  constructor(options?: LayoutServerOptions) {
+    this.port = options?.port ?? 8080;
+    this.host = options?.host ?? '127.0.0.1';
+    this.maxBodySize = options?.maxBodySize ?? 1024 * 1024;
+    this.timeout = options?.timeout ?? 30_000;
+    this.concurrency = options?.concurrency ?? 2;
+    this.queueSize = options?.queueSize ?? 32;
+    if (!(this.maxBodySize > 0)) {
+      throw new Error(`Invalid maxBodySize ${options?.maxBodySize}: must be a positive number of bytes`);
+    }
+    if (!(this.timeout > 0)) {
+      throw new Error(`Invalid timeout ${options?.timeout}: must be a positive number of milliseconds`);
+    }
+    if (!Number.isInteger(this.concurrency) || this.concurrency < 1) {
+      throw new Error(`Invalid concurrency ${options?.concurrency}: must be a positive integer`);
+    }
+    if (!Number.isInteger(this.queueSize) || this.queueSize < 0) {
+      throw new Error(`Invalid queueSize ${options?.queueSize}: must be a non-negative integer`);
+    }
+
+    this.repair = options?.layout?.repair ?? false;
+
+    // Repeated requests reuse their layout from the cache unless it is turned off
+    this.converter = new BpmnElkLayout({
+      ...options?.layout,
+      worker: options?.layout?.worker ?? true,
+      cache: options?.layout?.cache ?? true,
+    });
+    this.promptGenerator = new PromptTemplateGenerator(options?.promptTemplate);
+  }
+
+  /**
+   * Start listening
+   * @returns The address the server listens on (with the picked port for port 0)
+   */
+  async listen(): Promise<AddressInfo> {
+    const server = createServer((req, res) => void this.handle(req, res));
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    return server.address() as AddressInfo;
+  }
+
+  /**
+   * Stop accepting connections, wait for open requests and terminate the ELK workers
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeIdleConnections();
+      });
+    }
+    this.converter.terminate();
+  }
+
+  // ==========================================================================
+  // Routing
+  // ==========================================================================
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    try {
+      switch (url.pathname) {
+        case '/convert':
+          this.expectMethod(req, 'POST');
+          return await this.handleConvert(req, res, url.searchParams);
+        case '/validate':
+          this.expectMethod(req, 'POST');
+          return this.sendJson(res, 200, validateElkBpmn(await this.readJson(req)));
+        case '/lint':
+          this.expectMethod(req, 'POST');
+          return await this.handleLint(req, res, url.searchParams);
+        case '/prompt-template':
+          this.expectMethod(req, 'GET');
+          return this.send(res, 200, 'text/markdown; charset=utf-8', await this.getPromptTemplate());
+        case '/health':
+          this.expectMethod(req, 'GET');
+          return this.sendJson(res, 200, { status: 'ok' });
+        default:
+          throw new HttpError(404, `Not found: ${url.pathname}`);
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        for (const [name, value] of Object.entries(error.headers)) {
+          res.setHeader(name, value);
+        }
+        return this.sendJson(res, error.status, { error: error.message });
+      }
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        return this.sendJson(res, 504, { error: error.message });
+      }
+      // Layout errors (invariant violations in strict mode, missing coordinates in fixed mode, ...)
+      this.sendJson(res, 422, { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private async handleConvert(req: IncomingMessage, res: ServerResponse, params: URLSearchParams): Promise<void> {
+    const format = (params.get('format') ?? 'bpmn') as ConvertFormat;
+    if (!Object.prototype.hasOwnProperty.call(CONTENT_TYPES, format)) {
+      throw new HttpError(400, `Unsupported format: ${format} (expected bpmn, json or svg)`);
+    }
+    const input = await this.readJson(req);
+
+    // Repairable mistakes are accepted when the converter repairs its input
+    const repairable = this.repair && typeof input === 'object' && input !== null;
+    const validation = validateElkBpmn(repairable ? this.converter.repair(input as ElkBpmnGraph).graph : input);
+    if (!validation.valid) {
+      return this.sendJson(res, 400, { error: 'Invalid ELK-BPMN JSON', errors: validation.errors });
+    }
+    const graph = input as ElkBpmnGraph;
+
+    await this.acquireLayoutSlot();
+    let body: string;
+    let warningCount: number;
+    try {
+      const { graph: layouted, warnings } = await this.converter.layoutWithWarnings(graph, { timeout: this.timeout });
+      warningCount = warnings.length;
+      body = format === 'json'
+        ? JSON.stringify(layouted)
+        : format === 'svg'
+          ? await this.converter.layouted_to_svg(layouted)
+          : await this.converter.layouted_to_bpmn(layouted);
+    } finally {
+      this.releaseLayoutSlot();
+    }
+
+    res.setHeader('X-Layout-Warnings', String(warningCount));
+    this.send(res, 200, CONTENT_TYPES[format], body);
+  }
+
+  /**
+   * Wait for a free layout slot
+   * @throws HttpError 503 when the queue is full
+   */
+  private async acquireLayoutSlot(): Promise<void> {
+    if (this.running < this.concurrency) {
+      this.running++;
+      return;
+    }
+    if (this.waiting.length >= this.queueSize) {
+      throw new HttpError(503, 'Too many layouts in progress, try again later', { 'Retry-After': '1' });
+    }
+    // The slot is handed over by releaseLayoutSlot, so running stays unchanged
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  private releaseLayoutSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.running--;
+    }
+  }
+
+  private async handleLint(req: IncomingMessage, res: ServerResponse, params: URLSearchParams): Promise<void> {
+    const rules: Record<string, string> = {};
+    for (const override of params.getAll('rule')) {
+      const [name, severity] = override.split('=');
+      if (!name || !severity) {
+        throw new HttpError(400, `Invalid rule ${override} (expected rule=severity)`);
+      }
+      rules[name] = severity;
+    }
+
+    let linter: Linter;
+    try {
+      linter = new Linter({ rules: rules as LinterOptions['rules'] });
+    } catch (error) {
+      throw new HttpError(400, (error as Error).message);
+    }
+    this.sendJson(res, 200, linter.lint(await this.readJson(req) as ElkBpmnGraph));
+  }
+
+  /**
+   * Prompt template, generated once
+   * @throws HttpError 500 when the fixtures or the schema cannot be read
+   */
+  private async getPromptTemplate(): Promise<string> {
+    this.promptTemplate ??= this.promptGenerator.generate();
+    try {
+      return await this.promptTemplate;
+    } catch (error) {
+      // Try again on the next request
+      this.promptTemplate = undefined;
+      throw new HttpError(500, `Cannot generate the prompt template: ${(error as Error).message}`);
+    }
+  }
+
+  // ==========================================================================
+  // Requests and Responses
+  // ==========================================================================
+
+  private expectMethod(req: IncomingMessage, method: 'GET' | 'POST'): void {
+    if (req.method !== method) {
+      throw new HttpError(405, `${method} expected, got ${req.method}`, { Allow: method });
+    }
+  }
+
+  /**
+   * Read and parse the JSON body
+   * @throws HttpError 413 when the body exceeds maxBodySize, 400 when it is not JSON
+   */
+  private async readJson(req: IncomingMessage): Promise<unknown> {
+    const tooLarge = new HttpError(413, `Request body exceeds ${this.maxBodySize} bytes`);
+    if (Number(req.headers['content-length'] ?? 0) > this.maxBodySize) {
+      req.resume();
+      throw tooLarge;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    await new Promise<void>((resolve, reject) => {
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > this.maxBodySize) {
+          // Stop collecting; the rest of the body is discarded
+          req.removeAllListeners('data');
+          req.resume();
+          reject(tooLarge);
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => resolve());
+      req.on('error', reject);
+    });
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch {
+      throw new HttpError(400, 'Invalid JSON input');
+    }
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    this.send(res, status, CONTENT_TYPES.json, JSON.stringify(body));
+  }
+
+  private send(res: ServerResponse, status: number, contentType: string, body: string): void {
+    res.writeHead(status, { 'Content-Type': contentType, 'Content-Length': Buffer.byteLength(body) });
+    res.end(body);
+  }
+}
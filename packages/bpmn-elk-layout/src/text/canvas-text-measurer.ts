@@ -0,0 +1,90 @@
+/**
+ * Canvas Text Measurer
+ * Measures text with a canvas 2D context, so widths match the fonts the
+ * browser actually renders with. In Node.js, pass a context (e.g. from the
+ * 'canvas' package) or use FontMetricsTextMeasurer instead.
+ */
+
+import type { TextMeasurer } from './text-measurer';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The part of CanvasRenderingContext2D used for measuring
+ */
+export interface CanvasTextContext {
+  font: string;
+  measureText(text: string): { width: number };
+}
+
+export interface CanvasTextMeasurerOptions {
+  /**
+   * CSS font of the labels
+   * @default '12px Arial, sans-serif' (bpmn-js default)
+   */
+  font?: string;
+  /**
+   * Distance between two lines in pixels
+   * @default 14.4
+   */
+  lineHeight?: number;
+  /**
+   * Context to measure with; created from an OffscreenCanvas or a canvas element when not set
+   */
+  context?: CanvasTextContext;
+}
+
+interface CanvasLike {
+  getContext(type: '2d'): CanvasTextContext | null;
+}
+
+interface CanvasGlobals {
+  OffscreenCanvas?: new (width: number, height: number) => CanvasLike;
+  document?: { createElement(tag: 'canvas'): CanvasLike };
+}
+
+// ============================================================================
+// Canvas Text Measurer
+// ============================================================================
+
+export class CanvasTextMeasurer implements TextMeasurer {
+  readonly lineHeight: number;
+  private context: CanvasTextContext;
+  private font: string;
+  private cache: Map<string, number> = new Map();
+
+  constructor(options?: CanvasTextMeasurerOptions) {
+    this.font = options?.font ?? '12px Arial, sans-serif';
+    this.lineHeight = options?.lineHeight ?? 14.4;
+    this.context = options?.context ?? this.createContext();
+  }
+
+  measureWidth(text: string): number {
+    let width = this.cache.get(text);
+    if (width === undefined) {
+      // Set the font on every call: the context may be shared with other code
+      this.context.font = this.font;
+      width = this.context.measureText(text).width;
+      this.cache.set(text, width);
+    }
+    return width;
+  }
+
+  private createContext(): CanvasTextContext {
+    const globals = globalThis as CanvasGlobals;
+    const canvas = globals.OffscreenCanvas
+      ? new globals.OffscreenCanvas(1, 1)
+      : globals.document?.createElement('canvas');
+    const context = canvas?.getContext('2d');
+
+    if (!context) {
+      throw new Error(
+        'CanvasTextMeasurer needs a canvas (browser or OffscreenCanvas). ' +
+        'Pass a 2D context in the options, or use FontMetricsTextMeasurer outside the browser.'
+      );
+    }
+    return context;
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Font Metrics Text Measurer
+ * Measures text with a bundled table of Arial character widths, the default
+ * font of bpmn-js (Arial 12px, line height 1.2). Needs no browser or fonts.
+ */
+
+import type { TextMeasurer } from './text-measurer';
+
+// ============================================================================
+// Font Metrics
+// ============================================================================
+
+/** Units per em of the width tables */
+const UNITS_PER_EM = 1000;
+
+/** Arial advance widths of the printable ASCII characters (space to tilde) */
+const ASCII_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, // space - /
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, // 0 - ?
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, // @ - O
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, // P - _
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, // ` - o
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584, // p - ~
+];
+
+/** Arial advance widths of common non-ASCII characters without an ASCII base letter */
+const SPECIAL_WIDTHS: Record<string, number> = {
+  '\u00a0': 278, // no-break space
+  'ß': 611,
+  'Æ': 1000,
+  'æ': 889,
+  'Ø': 778,
+  'ø': 611,
+  'Œ': 1000,
+  'œ': 944,
+  '×': 584,
+  '÷': 584,
+  '·': 278,
+  '°': 400,
+  '€': 556,
+  '£': 556,
+  '–': 556,
+  '—': 1000,
+  '‘': 222,
+  '’': 222,
+  '“': 333,
+  '”': 333,
+  '„': 333,
+  '…': 1000,
+  '«': 556,
+  '»': 556,
+};
+
+/** Width of characters missing from the tables */
+const DEFAULT_WIDTH = 556;
+
+/** Width of full-width characters (CJK ideographs, kana, hangul, full-width forms) */
+const WIDE_WIDTH = 1000;
+
+const WIDE_RANGES: Array<[number, number]> = [
+  [0x1100, 0x115f], // Hangul Jamo
+  [0x2e80, 0xa4cf], // CJK radicals, punctuation, kana, ideographs, Yi
+  [0xac00, 0xd7a3], // Hangul syllables
+  [0xf900, 0xfaff], // CJK compatibility ideographs
+  [0xfe30, 0xfe4f], // CJK compatibility forms
+  [0xff00, 0xff60], // Full-width forms
+  [0xffe0, 0xffe6], // Full-width signs
+  [0x20000, 0x3fffd], // Supplementary ideographs
+];
+
+// ============================================================================
+// Font Metrics Text Measurer
+// ============================================================================
+
+export interface FontMetricsTextMeasurerOptions {
+  /**
+   * Font size in pixels
+   * @default 12
+   */
+  fontSize?: number;
+  /**
+   * Line height as a multiple of the font size
+   * @default 1.2
+   */
+  lineHeight?: number;
+}
+
+export class FontMetricsTextMeasurer implements TextMeasurer {
+  readonly lineHeight: number;
+  private fontSize: number;
+
+  constructor(options?: FontMetricsTextMeasurerOptions) {
+    this.fontSize = options?.fontSize ?? 12;
+    this.lineHeight = this.fontSize * (options?.lineHeight ?? 1.2);
+  }
+
+  measureWidth(text: string): number {
+    let units = 0;
+    for (const char of text) {
+      units += this.getCharWidth(char);
+    }
+    return (units * this.fontSize) / UNITS_PER_EM;
+  }
+
+  /**
+   * Width of a character in font units
+   * Accented letters (e.g. ä, é) are as wide as their base letter.
+   */
+  private getCharWidth(char: string): number {
+    const code = char.codePointAt(0)!;
+    if (code >= 32 && code <= 126) {
+      return ASCII_WIDTHS[code - 32]!;
+    }
+
+    const special = SPECIAL_WIDTHS[char];
+    if (special !== undefined) {
+      return special;
+    }
+
+    if (WIDE_RANGES.some(([start, end]) => code >= start && code <= end)) {
+      return WIDE_WIDTH;
+    }
+
+    const base = char.normalize('NFD').codePointAt(0)!;
+    if (base >= 32 && base <= 126) {
+      return ASCII_WIDTHS[base - 32]!;
+    }
+
+    return DEFAULT_WIDTH;
+  }
+}
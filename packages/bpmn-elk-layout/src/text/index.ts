@@ -0,0 +1,14 @@
+export {
+  ApproximateTextMeasurer,
+  wrapText,
+  type TextMeasurer,
+} from './text-measurer';
+export {
+  FontMetricsTextMeasurer,
+  type FontMetricsTextMeasurerOptions,
+} from './font-metrics-text-measurer';
+export {
+  CanvasTextMeasurer,
+  type CanvasTextContext,
+  type CanvasTextMeasurerOptions,
+} from './canvas-text-measurer';
@@ -0,0 +1,84 @@
+/**
+ * Text Measurer
+ * Measures label text so that activities can be sized to their names and
+ * external labels (events, gateways, data) get bounds that fit their text.
+ *
+ * Implementations:
+ * - FontMetricsTextMeasurer: bundled Arial metrics (bpmn-js default font), works everywhere
+ * - CanvasTextMeasurer: measures with the browser's canvas, for any installed font
+ * - ApproximateTextMeasurer: 7px per ASCII and 14px per other character
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TextMeasurer {
+  /** Width of a single line of text in pixels */
+  measureWidth(text: string): number;
+  /** Distance between two lines of text in pixels */
+  readonly lineHeight: number;
+}
+
+// ============================================================================
+// Approximate Text Measurer
+// ============================================================================
+
+/**
+ * Approximates widths with 14px per CJK (non Latin-1) and 7px per other character.
+ * Used when no measurer is configured.
+ */
+export class ApproximateTextMeasurer implements TextMeasurer {
+  readonly lineHeight = 14;
+
+  measureWidth(text: string): number {
+    let width = 0;
+    for (const char of text) {
+      width += char.charCodeAt(0) > 255 ? 14 : 7;
+    }
+    return width;
+  }
+}
+
+// ============================================================================
+// Line Wrapping
+// ============================================================================
+
+/**
+ * Break text into lines that fit the given width.
+ * Lines break at spaces and explicit newlines; words wider than a line
+ * (e.g. CJK text without spaces) are broken between characters.
+ */
+export function wrapText(text: string, maxWidth: number, measurer: TextMeasurer): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measurer.measureWidth(candidate) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+
+      if (line) {
+        lines.push(line);
+        line = '';
+      }
+
+      // Break words that are wider than a line
+      for (const char of word) {
+        if (line && measurer.measureWidth(line + char) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+
+    lines.push(line);
+  }
+
+  return lines;
+}
@@ -20,17 +20,45 @@ import type {
   NodeBpmnInfo,
 } from './model-types';
 import { isDebugEnabled } from '../utils/debug';
+import { wrapText, type TextMeasurer } from '../text';
+import { resolveLayoutTheme, type LayoutTheme } from '../layout/layout-theme';
+import { SizeCalculator, type ElementSizeOptions } from '../layout/size-calculator';
+import { GridSnapper } from './grid-snapper';
 import {
   adjustGatewayEndpoint,
   distance,
   calculatePathLength,
+  ensureOrthogonalWaypoints,
 } from '../layout/edge-routing';
 
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Width at which external labels wrap (bpmn-js default) */
+const EXTERNAL_LABEL_MAX_WIDTH = 90;
+
 // ============================================================================
 // Diagram Builder
 // ============================================================================
 
+export interface DiagramBuilderOptions {
+  /** Measures external labels (events, gateways, data objects) */
+  textMeasurer?: TextMeasurer;
+  /** Data object sizes and label gaps; the default theme when not set */
+  theme?: LayoutTheme;
+  /** Size overrides of the data inputs and outputs of ioSpecifications (must match the layout) */
+  sizes?: ElementSizeOptions;
+  /** Snap shapes, edges and labels to a grid of this size; not snapped when not set */
+  gridSize?: number;
+}
+
 export class DiagramBuilder {
+  // Measures external labels; legacy width estimates are used when not set
+  private textMeasurer?: TextMeasurer;
+  private theme: LayoutTheme;
+  private sizeCalculator: SizeCalculator;
+  private gridSnapper?: GridSnapper;
   // Map to track boundary event positions: id -> { x, y, width, height }
   private boundaryEventPositions: Map<string, NodePosition> = new Map();
   // Map to track all node positions for edge routing: id -> { x, y, width, height }
@@ -42,6 +70,15 @@ export class DiagramBuilder {
   // List of already placed edge labels for collision detection
   private placedEdgeLabels: Array<{ x: number; y: number; width: number; height: number }> = [];
 
+  constructor(options?: DiagramBuilderOptions) {
+    this.textMeasurer = options?.textMeasurer;
+    this.theme = options?.theme ?? resolveLayoutTheme();
+    this.sizeCalculator = new SizeCalculator({ theme: this.theme, sizes: options?.sizes });
+    if (options?.gridSize !== undefined) {
+      this.gridSnapper = new GridSnapper({ gridSize: options.gridSize });
+    }
+  }
+
   /**
    * Build the diagram model from a layouted graph
    */
@@ -69,7 +106,7 @@ export class DiagramBuilder {
       this.collectShapesAndEdges(child as LayoutedNode, shapes, edges);
     }
 
-    return {
+    const diagram: DiagramModel = {
       id: `BPMNDiagram_${graph.id}`,
       name: 'BPMNDiagram',
       plane: {
@@ -79,6 +116,11 @@ export class DiagramBuilder {
         edges,
       },
     };
+
+    // Snap the finished diagram, so that labels and edge end points move with their nodes
+    this.gridSnapper?.snap(diagram);
+
+    return diagram;
   }
 
   /**
@@ -118,7 +160,7 @@ export class DiagramBuilder {
       if (this.isEventType(node.bpmn?.type) && node.labels && node.labels.length > 0) {
         // Events have labels below them - extend the effective height
         const labelHeight = node.labels[0]?.height ?? 14;
-        effectiveHeight = nodeHeight + 4 + labelHeight; // 4px gap + label height
+        effectiveHeight = nodeHeight + this.theme.labelGap + labelHeight; // label gap + label height
       }
 
       // Store visualHeight when node has ioSpecification (ELK layout uses larger height for spacing)
@@ -302,9 +344,8 @@ export class DiagramBuilder {
     taskWidth: number,
     taskHeight: number
   ): void {
-    // Data object dimensions (same as dataObjectReference)
-    const dataWidth = 36;
-    const dataHeight = 50;
+    // Data object dimensions (same as dataObjectReference unless overridden)
+    const { inputs: inputSizes, outputs: outputSizes } = this.sizeCalculator.getIoSpecificationSizes(node.id, ioSpec);
     const gapBelow = 20; // Gap between task and first data object (vertical)
     const verticalSpacing = 24; // Spacing between stacked data objects (includes label space)
     const labelHeight = 14;
@@ -312,11 +353,12 @@ export class DiagramBuilder {
     // Position dataInputs below the task, aligned to the left side, stacked vertically
     const dataInputs = ioSpec.dataInputs ?? [];
     const inputStartX = taskX; // Start from task's left edge
+    let inputY = taskY + taskHeight + gapBelow;
 
     dataInputs.forEach((dataInput, index) => {
       const inputId = dataInput.id ?? `${node.id}_input_${index}`;
+      const { width: dataWidth, height: dataHeight } = inputSizes[index]!;
       const inputX = inputStartX;
-      const inputY = taskY + taskHeight + gapBelow + index * (dataHeight + verticalSpacing);
 
       // Store position for edge routing
       this.nodePositions.set(inputId, {
@@ -339,13 +381,14 @@ export class DiagramBuilder {
 
       // Add label below the data object
       if (dataInput.name) {
-        const labelWidth = Math.max(dataWidth, this.estimateTextWidth(dataInput.name));
+        const measured = this.measureExternalLabel(dataInput.name);
+        const labelWidth = Math.max(dataWidth, measured?.width ?? this.estimateTextWidth(dataInput.name));
         shape.label = {
           bounds: {
             x: inputX + (dataWidth - labelWidth) / 2,
-            y: inputY + dataHeight + 4,
+            y: inputY + dataHeight + this.theme.labelGap,
             width: labelWidth,
-            height: labelHeight,
+            height: measured?.height ?? labelHeight,
           },
         };
       }
@@ -371,16 +414,18 @@ export class DiagramBuilder {
           ],
         });
       }
+
+      inputY += dataHeight + verticalSpacing;
     });
 
     // Position dataOutputs below the task, aligned to the right side, stacked vertically
     const dataOutputs = ioSpec.dataOutputs ?? [];
-    const outputStartX = taskX + taskWidth - dataWidth; // Align to right edge
+    let outputY = taskY + taskHeight + gapBelow;
 
     dataOutputs.forEach((dataOutput, index) => {
       const outputId = dataOutput.id ?? `${node.id}_output_${index}`;
-      const outputX = outputStartX;
-      const outputY = taskY + taskHeight + gapBelow + index * (dataHeight + verticalSpacing);
+      const { width: dataWidth, height: dataHeight } = outputSizes[index]!;
+      const outputX = taskX + taskWidth - dataWidth; // Align to right edge
 
       // Store position for edge routing
       this.nodePositions.set(outputId, {
@@ -403,13 +448,14 @@ export class DiagramBuilder {
 
       // Add label below the data object
       if (dataOutput.name) {
-        const labelWidth = Math.max(dataWidth, this.estimateTextWidth(dataOutput.name));
+        const measured = this.measureExternalLabel(dataOutput.name);
+        const labelWidth = Math.max(dataWidth, measured?.width ?? this.estimateTextWidth(dataOutput.name));
         shape.label = {
           bounds: {
             x: outputX + (dataWidth - labelWidth) / 2,
-            y: outputY + dataHeight + 4,
+            y: outputY + dataHeight + this.theme.labelGap,
             width: labelWidth,
-            height: labelHeight,
+            height: measured?.height ?? labelHeight,
           },
         };
       }
@@ -435,6 +481,8 @@ export class DiagramBuilder {
           ],
         });
       }
+
+      outputY += dataHeight + verticalSpacing;
     });
   }
 
@@ -454,6 +502,22 @@ export class DiagramBuilder {
     return Math.max(36, Math.min(width, 150));
   }
 
+  /**
+   * Size of an external label wrapped at 90px like bpmn-js does, or undefined without a text measurer
+   */
+  private measureExternalLabel(text: string): { width: number; height: number } | undefined {
+    if (!this.textMeasurer) return undefined;
+
+    const measurer = this.textMeasurer;
+    // Widen the label for words longer than a line instead of breaking them
+    const longestWord = Math.max(...text.split(/\s+/).map((word) => measurer.measureWidth(word)));
+    const lines = wrapText(text, Math.max(EXTERNAL_LABEL_MAX_WIDTH, longestWord), measurer);
+    return {
+      width: Math.ceil(Math.max(...lines.map((line) => measurer.measureWidth(line)))),
+      height: Math.ceil(lines.length * measurer.lineHeight),
+    };
+  }
+
   /**
    * Find node BPMN metadata by id
    */
@@ -514,7 +578,7 @@ export class DiagramBuilder {
 
     // Add isHorizontal for pools/lanes
     if (node.bpmn?.type === 'participant' || node.bpmn?.type === 'lane') {
-      shape.isHorizontal = true;
+      shape.isHorizontal = (node.bpmn as { isHorizontal?: boolean }).isHorizontal ?? true;
     }
 
     // Add label positioning for elements that need external labels
@@ -526,31 +590,32 @@ export class DiagramBuilder {
 
     if (this.isEventType(node.bpmn?.type) && labelText) {
       // For events (circles), position the label below the shape (bpmn-js default behavior)
-      const labelWidth = label?.width ?? 100;
-      const labelHeight = label?.height ?? 14;
+      const measured = this.measureExternalLabel(labelText);
+      const labelWidth = measured?.width ?? label?.width ?? 100;
+      const labelHeight = measured?.height ?? label?.height ?? 14;
 
       // Position label below the event circle, horizontally centered (using absolute coords)
       shape.label = {
         bounds: {
           x: absoluteX + (nodeWidth - labelWidth) / 2,
-          y: absoluteY + nodeHeight + 4, // 4px gap below the circle
+          y: absoluteY + nodeHeight + this.theme.labelGap, // gap below the circle
           width: labelWidth,
           height: labelHeight,
         },
       };
     } else if (this.isGatewayType(node.bpmn?.type) && labelText) {
       // For gateways (diamonds), position the label above the shape to avoid overlap with nodes below
-      const labelWidth = label?.width ?? 100;
+      const measured = this.measureExternalLabel(labelText);
+      const labelWidth = measured?.width ?? label?.width ?? 100;
       // Calculate label height based on text content (may need multiple lines)
-      const estimatedLines = this.estimateLabelLines(labelText, labelWidth);
-      const labelHeight = estimatedLines * 14; // 14px per line
+      const labelHeight = measured?.height ?? this.estimateLabelLines(labelText, labelWidth) * 14; // 14px per line
 
       // Position label above the gateway diamond, horizontally centered
       // Adjust Y position upward based on label height
       shape.label = {
         bounds: {
           x: absoluteX + (nodeWidth - labelWidth) / 2,
-          y: absoluteY - labelHeight - 4, // 4px gap above the diamond
+          y: absoluteY - labelHeight - this.theme.labelGap, // gap above the diamond
           width: labelWidth,
           height: labelHeight,
         },
@@ -709,7 +774,7 @@ export class DiagramBuilder {
 
     // Ensure all waypoint segments are orthogonal (no diagonal lines)
     // Insert bend points where needed to convert diagonals to L-shaped routes
-    this.ensureOrthogonalWaypoints(waypoints);
+    ensureOrthogonalWaypoints(waypoints);
 
     // Ensure endpoints connect perpendicular to node borders
     // This adds bend points if the last/first segment isn't perpendicular
@@ -1059,47 +1124,6 @@ export class DiagramBuilder {
     );
   }
 
-  /**
-   * Ensure all waypoint segments are orthogonal (horizontal or vertical)
-   * If a diagonal segment is found, insert intermediate bend points to create
-   * an L-shaped orthogonal path.
-   *
-   * Strategy: For diagonal segments, we use "horizontal first" - go horizontally
-   * to the target X, then vertically to the target Y.
-   */
-  private ensureOrthogonalWaypoints(waypoints: PointModel[]): void {
-    if (waypoints.length < 2) return;
-
-    const tolerance = 1; // Allow 1px tolerance for floating point errors
-    let i = 0;
-
-    while (i < waypoints.length - 1) {
-      const current = waypoints[i];
-      const next = waypoints[i + 1];
-      if (!current || !next) {
-        i++;
-        continue;
-      }
-
-      const dx = Math.abs(next.x - current.x);
-      const dy = Math.abs(next.y - current.y);
-
-      // Check if this segment is diagonal (both dx and dy are significant)
-      if (dx > tolerance && dy > tolerance) {
-        // Insert a bend point to make it orthogonal
-        // Use "horizontal first" strategy: go to next.x first, then to next.y
-        const bendPoint: PointModel = { x: next.x, y: current.y };
-        waypoints.splice(i + 1, 0, bendPoint);
-        // Don't increment i - we need to check the newly created segment
-        // But the next iteration will check (current -> bendPoint) which is horizontal
-        // So we can safely increment to check the next pair
-        i++;
-      } else {
-        i++;
-      }
-    }
-  }
-
   /**
    * Detect which side of a node a point is connected to.
    * Returns 'top', 'bottom', 'left', 'right', or 'unknown'.
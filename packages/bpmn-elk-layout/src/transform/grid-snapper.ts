@@ -0,0 +1,507 @@
+/**
+ * Grid Snapper
+ * Snaps the diagram interchange to a grid, like bpmn-js does when modeling (10px),
+ * so that nudging an element in the modeler does not make its edges jump:
+ * - Flow nodes: the center snaps to the grid (as in bpmn-js), the size is kept
+ * - Pools, lanes, expanded subprocesses and processes: the borders snap to the grid
+ * - Boundary events stay centered on the border of their host
+ * - Edge end points stay on the border of their node, bend points snap to the grid
+ * - Labels snap to the grid without moving onto their element
+ *
+ * Flow nodes that would overlap after snapping are pushed apart by whole grid steps.
+ */
+
+import type { DiagramModel, ShapeModel, EdgeModel, BoundsModel, PointModel } from './model-types';
+import { ensureOrthogonalWaypoints, getCenter } from '../layout/edge-routing';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GridSnapperOptions {
+  /**
+   * Grid size in pixels
+   * @default 10 (bpmn-js)
+   */
+  gridSize?: number;
+}
+
+interface SnappedShape {
+  shape: ShapeModel;
+  /** Bounds before snapping */
+  original: BoundsModel;
+  /** Pools, lanes, expanded subprocesses and processes: shapes that contain other shapes */
+  isContainer: boolean;
+  /** Host of a boundary event */
+  host?: SnappedShape;
+}
+
+type Side = 'left' | 'right' | 'top' | 'bottom';
+
+type Axis = 'x' | 'y';
+
+/**
+ * How an edge end point is attached to its node:
+ * - free: not on a node
+ * - side: on a side of a rectangle, can slide along it
+ * - tip: in the middle of a side (events, gateways, data), stays there
+ * - diamond / ellipse: on the outline of a gateway or event, can slide along it
+ * - fixed: elsewhere on the node, moves with it
+ */
+interface EndAnchor {
+  /** End point before snapping */
+  point: PointModel;
+  /** Neighboring waypoint before snapping */
+  next: PointModel;
+  owner?: SnappedShape;
+  side?: Side;
+  kind: 'free' | 'side' | 'tip' | 'diamond' | 'ellipse' | 'fixed';
+}
+
+/** Grid size of bpmn-js */
+export const DEFAULT_GRID_SIZE = 10;
+
+/** Rounding tolerance in pixels */
+const TOLERANCE = 1;
+
+/** Relative tolerance for end points on the outline of diamonds and ellipses */
+const OUTLINE_TOLERANCE = 0.05;
+
+// ============================================================================
+// Grid Snapper
+// ============================================================================
+
+export class GridSnapper {
+  private gridSize: number;
+
+  constructor(options?: GridSnapperOptions) {
+    this.gridSize = options?.gridSize ?? DEFAULT_GRID_SIZE;
+    if (!(this.gridSize > 0)) {
+      throw new Error(`Invalid grid size ${this.gridSize}: must be a positive number`);
+    }
+  }
+
+  /**
+   * Snap shapes, edges and labels of the diagram to the grid (in place)
+   */
+  snap(diagram: DiagramModel): void {
+    const snapped: SnappedShape[] = diagram.plane.shapes.map((shape) => ({
+      shape,
+      original: { ...shape.bounds },
+      isContainer: false,
+    }));
+
+    for (const item of snapped) {
+      item.isContainer = this.isContainer(item, snapped);
+    }
+    for (const item of snapped) {
+      if (!item.isContainer) {
+        item.host = this.findHost(item, snapped);
+      }
+    }
+
+    const flowNodes = snapped.filter((item) => !item.isContainer && !item.host);
+    for (const item of snapped) {
+      if (item.isContainer) {
+        this.snapBorders(item);
+      }
+    }
+    for (const item of flowNodes) {
+      this.snapCenter(item);
+    }
+    this.separateOverlappingNodes(flowNodes);
+
+    // Boundary events follow their host, so they are snapped last
+    for (const item of snapped) {
+      if (item.host) {
+        this.snapToHost(item, item.host);
+      }
+    }
+
+    for (const item of snapped) {
+      this.snapShapeLabel(item);
+    }
+    for (const edge of diagram.plane.edges) {
+      this.snapEdge(edge, snapped);
+    }
+  }
+
+  // ==========================================================================
+  // Shapes
+  // ==========================================================================
+
+  /**
+   * Pools and lanes (isHorizontal), expanded subprocesses and shapes that fully contain another shape
+   */
+  private isContainer(item: SnappedShape, all: SnappedShape[]): boolean {
+    if (item.shape.isHorizontal !== undefined || item.shape.isExpanded === true) {
+      return true;
+    }
+    return all.some((other) => other !== item && this.contains(item.original, other.original));
+  }
+
+  /**
+   * The shape a boundary event is attached to: its center lies on the border of
+   * the host (an activity or expanded subprocess, not a pool or lane)
+   */
+  private findHost(item: SnappedShape, all: SnappedShape[]): SnappedShape | undefined {
+    const center = getCenter(item.original);
+    return all.find((other) =>
+      other !== item &&
+      other.shape.isHorizontal === undefined &&
+      other.original.width * other.original.height > item.original.width * item.original.height &&
+      this.getSide(center, other.original) !== undefined
+    );
+  }
+
+  private snapBorders(item: SnappedShape): void {
+    const { x, y, width, height } = item.original;
+    const left = this.round(x);
+    const top = this.round(y);
+    item.shape.bounds = {
+      x: left,
+      y: top,
+      width: this.round(x + width) - left,
+      height: this.round(y + height) - top,
+    };
+  }
+
+  private snapCenter(item: SnappedShape): void {
+    const { width, height } = item.original;
+    const center = getCenter(item.original);
+    item.shape.bounds = {
+      x: this.round(center.x) - width / 2,
+      y: this.round(center.y) - height / 2,
+      width,
+      height,
+    };
+  }
+
+  /**
+   * Keep a boundary event centered on the same side of its host,
+   * with its position along the side snapped to the grid
+   */
+  private snapToHost(item: SnappedShape, host: SnappedShape): void {
+    const { width, height } = item.original;
+    const center = getCenter(item.original);
+    const side = this.getSide(center, host.original)!;
+    const hostBounds = host.shape.bounds;
+    const alongX = clamp(this.round(center.x), hostBounds.x, hostBounds.x + hostBounds.width);
+    const alongY = clamp(this.round(center.y), hostBounds.y, hostBounds.y + hostBounds.height);
+
+    const snappedCenter: PointModel = {
+      left: { x: hostBounds.x, y: alongY },
+      right: { x: hostBounds.x + hostBounds.width, y: alongY },
+      top: { x: alongX, y: hostBounds.y },
+      bottom: { x: alongX, y: hostBounds.y + hostBounds.height },
+    }[side];
+
+    item.shape.bounds = {
+      x: snappedCenter.x - width / 2,
+      y: snappedCenter.y - height / 2,
+      width,
+      height,
+    };
+  }
+
+  /**
+   * Push apart flow nodes that overlap after snapping but did not overlap before,
+   * moving the later node by whole grid steps in the direction it was separated
+   */
+  private separateOverlappingNodes(nodes: SnappedShape[]): void {
+    for (let pass = 0; pass < nodes.length; pass++) {
+      let moved = false;
+
+      for (let i = 0; i < nodes.length; i++) {
+        for (let j = i + 1; j < nodes.length; j++) {
+          const a = nodes[i]!;
+          const b = nodes[j]!;
+          if (!this.overlaps(a.shape.bounds, b.shape.bounds) || this.overlaps(a.original, b.original)) {
+            continue;
+          }
+
+          const separatedX = b.original.x >= a.original.x + a.original.width ||
+            a.original.x >= b.original.x + b.original.width;
+          while (this.overlaps(a.shape.bounds, b.shape.bounds)) {
+            if (separatedX) {
+              b.shape.bounds.x += b.original.x > a.original.x ? this.gridSize : -this.gridSize;
+            } else {
+              b.shape.bounds.y += b.original.y > a.original.y ? this.gridSize : -this.gridSize;
+            }
+          }
+          moved = true;
+        }
+      }
+
+      if (!moved) break;
+    }
+  }
+
+  // ==========================================================================
+  // Labels
+  // ==========================================================================
+
+  /**
+   * Move a label with its shape and snap it to the grid,
+   * pushing it off the shape if snapping moved it onto it
+   */
+  private snapShapeLabel(item: SnappedShape): void {
+    const label = item.shape.label?.bounds;
+    if (!label) return;
+
+    const dx = item.shape.bounds.x - item.original.x;
+    const dy = item.shape.bounds.y - item.original.y;
+    const moved = { ...label, x: label.x + dx, y: label.y + dy };
+    const snapped = { ...moved, x: this.round(moved.x), y: this.round(moved.y) };
+
+    const shape = item.shape.bounds;
+    if (this.overlaps(snapped, shape) && !this.overlaps(moved, shape)) {
+      if (moved.y >= shape.y + shape.height) {
+        snapped.y += this.gridSize;
+      } else if (moved.y + moved.height <= shape.y) {
+        snapped.y -= this.gridSize;
+      } else if (moved.x >= shape.x + shape.width) {
+        snapped.x += this.gridSize;
+      } else {
+        snapped.x -= this.gridSize;
+      }
+    }
+
+    item.shape.label = { ...item.shape.label, bounds: snapped };
+  }
+
+  // ==========================================================================
+  // Edges
+  // ==========================================================================
+
+  /**
+   * Keep the end points on the border of their nodes and snap the bend points.
+   * Segments that were horizontal or vertical keep their direction: equal
+   * coordinates snap to equal values, and end points slide along the border
+   * of their node to line up with the next point. The rest is made orthogonal.
+   */
+  private snapEdge(edge: EdgeModel, shapes: SnappedShape[]): void {
+    const waypoints = edge.waypoints;
+    const last = waypoints.length - 1;
+    const source = this.getEndAnchor(waypoints[0]!, waypoints[1]!, shapes);
+    const target = this.getEndAnchor(waypoints[last]!, waypoints[last - 1]!, shapes);
+
+    const snappedWaypoints = waypoints.map((point, index) => {
+      if (index === 0) return this.placeEndPoint(source);
+      if (index === last) return this.placeEndPoint(target);
+      return { x: this.round(point.x), y: this.round(point.y) };
+    });
+    if (waypoints.length === 2) {
+      this.alignStraightEdge(snappedWaypoints, source, target);
+    } else {
+      this.alignEndSegment(snappedWaypoints, source, 0, 1);
+      this.alignEndSegment(snappedWaypoints, target, last, last - 1);
+    }
+    ensureOrthogonalWaypoints(snappedWaypoints);
+    edge.waypoints = snappedWaypoints;
+
+    const label = edge.label?.bounds;
+    if (label) {
+      edge.label = { ...edge.label, bounds: { ...label, x: this.round(label.x), y: this.round(label.y) } };
+    }
+  }
+
+  /**
+   * Keep the first or last segment horizontal or vertical: slide the end point to the
+   * snapped bend point, or move the bend point if the end point cannot slide that far
+   */
+  private alignEndSegment(snapped: PointModel[], anchor: EndAnchor, end: number, bend: number): void {
+    const axis = getAlignedAxis(anchor.point, anchor.next);
+    if (!axis) return;
+
+    const value = snapped[bend]![axis];
+    const [min, max] = this.getSlideRange(anchor, axis);
+    if (value >= min && value <= max) {
+      snapped[end] = this.placeEndPoint(anchor, axis, value);
+    } else {
+      snapped[bend]![axis] = snapped[end]![axis];
+    }
+  }
+
+  /**
+   * Keep a straight edge straight by sliding both end points to a common coordinate
+   */
+  private alignStraightEdge(snapped: PointModel[], source: EndAnchor, target: EndAnchor): void {
+    const axis = getAlignedAxis(source.point, target.point);
+    if (!axis) return;
+
+    const [sourceMin, sourceMax] = this.getSlideRange(source, axis);
+    const [targetMin, targetMax] = this.getSlideRange(target, axis);
+    const min = Math.max(sourceMin, targetMin);
+    const max = Math.min(sourceMax, targetMax);
+    if (min > max) return;
+
+    const value = clamp(this.round(source.point[axis]), min, max);
+    snapped[0] = this.placeEndPoint(source, axis, value);
+    snapped[1] = this.placeEndPoint(target, axis, value);
+  }
+
+  /**
+   * Find the node of an end point (the smallest shape containing it) and how the point is attached
+   */
+  private getEndAnchor(point: PointModel, next: PointModel, shapes: SnappedShape[]): EndAnchor {
+    let owner: SnappedShape | undefined;
+    for (const item of shapes) {
+      const { x, y, width, height } = item.original;
+      const inside = point.x >= x - TOLERANCE && point.x <= x + width + TOLERANCE &&
+        point.y >= y - TOLERANCE && point.y <= y + height + TOLERANCE;
+      if (inside && (!owner || width * height < owner.original.width * owner.original.height)) {
+        owner = item;
+      }
+    }
+    if (!owner) {
+      return { point, next, kind: 'free' };
+    }
+
+    const bounds = owner.original;
+    const center = getCenter(bounds);
+    const side = this.getSide(point, bounds);
+    if (side) {
+      const along = side === 'left' || side === 'right' ? 'y' : 'x';
+      // Only rectangles have end points on a side away from its center
+      const kind = Math.abs(point[along] - center[along]) > TOLERANCE ? 'side' : 'tip';
+      return { point, next, owner, side, kind };
+    }
+
+    const dx = Math.abs(point.x - center.x) / (bounds.width / 2);
+    const dy = Math.abs(point.y - center.y) / (bounds.height / 2);
+    if (Math.abs(dx + dy - 1) <= OUTLINE_TOLERANCE) {
+      return { point, next, owner, kind: 'diamond' };
+    }
+    if (Math.abs(Math.hypot(dx, dy) - 1) <= OUTLINE_TOLERANCE) {
+      return { point, next, owner, kind: 'ellipse' };
+    }
+    return { point, next, owner, kind: 'fixed' };
+  }
+
+  /**
+   * Range of coordinates on the axis that an end point can slide to
+   */
+  private getSlideRange(anchor: EndAnchor, axis: Axis): [number, number] {
+    const bounds = anchor.owner?.shape.bounds;
+    const along = anchor.side === 'left' || anchor.side === 'right' ? 'y' : 'x';
+    const size = axis === 'x' ? 'width' : 'height';
+
+    if (anchor.kind === 'free') {
+      return [-Infinity, Infinity];
+    }
+    if (bounds && ((anchor.kind === 'side' && along === axis) || anchor.kind === 'diamond' || anchor.kind === 'ellipse')) {
+      return [bounds[axis], bounds[axis] + bounds[size]];
+    }
+    const value = this.placeEndPoint(anchor)[axis];
+    return [value, value];
+  }
+
+  /**
+   * Position of an end point on its snapped node, optionally slid to a coordinate on the axis
+   * (which must lie in the slide range)
+   */
+  private placeEndPoint(anchor: EndAnchor, axis?: Axis, value?: number): PointModel {
+    const { point, owner } = anchor;
+    if (!owner) {
+      const snapped = { x: this.round(point.x), y: this.round(point.y) };
+      return axis && value !== undefined ? { ...snapped, [axis]: value } : snapped;
+    }
+
+    const bounds = owner.shape.bounds;
+    const center = getCenter(bounds);
+    const originalCenter = getCenter(owner.original);
+
+    switch (anchor.kind) {
+      case 'side':
+      case 'tip': {
+        const alongX = anchor.kind === 'tip'
+          ? center.x
+          : axis === 'x' && value !== undefined ? value : clamp(this.round(point.x), bounds.x, bounds.x + bounds.width);
+        const alongY = anchor.kind === 'tip'
+          ? center.y
+          : axis === 'y' && value !== undefined ? value : clamp(this.round(point.y), bounds.y, bounds.y + bounds.height);
+        return {
+          left: { x: bounds.x, y: alongY },
+          right: { x: bounds.x + bounds.width, y: alongY },
+          top: { x: alongX, y: bounds.y },
+          bottom: { x: alongX, y: bounds.y + bounds.height },
+        }[anchor.side!];
+      }
+      case 'diamond':
+      case 'ellipse': {
+        if (!axis || value === undefined) break;
+        const other = axis === 'x' ? 'y' : 'x';
+        const radius = { x: bounds.width / 2, y: bounds.height / 2 };
+        const t = Math.min(1, Math.abs(value - center[axis]) / radius[axis]);
+        const offset = anchor.kind === 'diamond' ? 1 - t : Math.sqrt(1 - t * t);
+        const direction = Math.sign(point[other] - originalCenter[other]) || 1;
+        return { [axis]: value, [other]: center[other] + direction * offset * radius[other] } as unknown as PointModel;
+      }
+    }
+
+    // Move with the node
+    return {
+      x: point.x + bounds.x - owner.original.x,
+      y: point.y + bounds.y - owner.original.y,
+    };
+  }
+
+  // ==========================================================================
+  // Geometry
+  // ==========================================================================
+
+  private round(value: number): number {
+    return Math.round(value / this.gridSize) * this.gridSize;
+  }
+
+  /**
+   * Side of the bounds the point lies on (within the tolerance)
+   */
+  private getSide(point: PointModel, bounds: BoundsModel): Side | undefined {
+    const withinX = point.x >= bounds.x - TOLERANCE && point.x <= bounds.x + bounds.width + TOLERANCE;
+    const withinY = point.y >= bounds.y - TOLERANCE && point.y <= bounds.y + bounds.height + TOLERANCE;
+
+    if (withinY && Math.abs(point.x - bounds.x) <= TOLERANCE) return 'left';
+    if (withinY && Math.abs(point.x - (bounds.x + bounds.width)) <= TOLERANCE) return 'right';
+    if (withinX && Math.abs(point.y - bounds.y) <= TOLERANCE) return 'top';
+    if (withinX && Math.abs(point.y - (bounds.y + bounds.height)) <= TOLERANCE) return 'bottom';
+    return undefined;
+  }
+
+  private contains(outer: BoundsModel, inner: BoundsModel): boolean {
+    return inner.x >= outer.x && inner.y >= outer.y &&
+      inner.x + inner.width <= outer.x + outer.width &&
+      inner.y + inner.height <= outer.y + outer.height &&
+      inner.width * inner.height < outer.width * outer.height;
+  }
+
+  /**
+   * Whether two bounds overlap (touching borders do not count)
+   */
+  private overlaps(a: BoundsModel, b: BoundsModel): boolean {
+    return a.x < b.x + b.width && b.x < a.x + a.width &&
+      a.y < b.y + b.height && b.y < a.y + a.height;
+  }
+}
+
+/**
+ * Grid size of a `snapToGrid` option: `true` for the bpmn-js grid, undefined when off
+ */
+export function resolveGridSize(snapToGrid?: boolean | number): number | undefined {
+  if (snapToGrid === true) return DEFAULT_GRID_SIZE;
+  return typeof snapToGrid === 'number' ? snapToGrid : undefined;
+}
+
+/**
+ * Axis on which two points have the same coordinate (the segment between them is horizontal or vertical)
+ */
+function getAlignedAxis(a: PointModel, b: PointModel): Axis | undefined {
+  if (Math.abs(a.y - b.y) <= TOLERANCE) return 'y';
+  if (Math.abs(a.x - b.x) <= TOLERANCE) return 'x';
+  return undefined;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(value, max));
+}
@@ -1,7 +1,8 @@
-export { ReferenceResolver } from './reference-resolver';
+export { ReferenceResolver, type NodeInfo, type EdgeInfo } from './reference-resolver';
 export { LaneResolver, type LaneInfo, type LaneSetInfo } from './lane-resolver';
-export { ModelBuilder } from './model-builder';
-export { DiagramBuilder } from './diagram-builder';
+export { ModelBuilder, type ModelBuilderOptions } from './model-builder';
+export { DiagramBuilder, type DiagramBuilderOptions } from './diagram-builder';
+export { GridSnapper, DEFAULT_GRID_SIZE, resolveGridSize, type GridSnapperOptions } from './grid-snapper';
 
 // Re-export all model types
 export type {
@@ -14,7 +14,7 @@ import type {
 } from '../types';
 import { ReferenceResolver } from './reference-resolver';
 import { LaneResolver, type LaneSetInfo } from './lane-resolver';
-import { DiagramBuilder } from './diagram-builder';
+import { DiagramBuilder, type DiagramBuilderOptions } from './diagram-builder';
 import type {
   BpmnModel,
   DefinitionsModel,
@@ -65,15 +65,17 @@ export type {
 // Model Builder
 // ============================================================================
 
+export type ModelBuilderOptions = DiagramBuilderOptions;
+
 export class ModelBuilder {
   private refResolver: ReferenceResolver;
   private laneResolver: LaneResolver;
   private diagramBuilder: DiagramBuilder;
 
-  constructor() {
+  constructor(options?: ModelBuilderOptions) {
     this.refResolver = new ReferenceResolver();
     this.laneResolver = new LaneResolver();
-    this.diagramBuilder = new DiagramBuilder();
+    this.diagramBuilder = new DiagramBuilder(options);
   }
 
   /**
@@ -272,8 +274,8 @@ export class ModelBuilder {
       const flowElement = this.buildFlowElement(child);
       elements.push(flowElement);
 
-      // For expanded subprocesses, collect nested elements into the subprocess itself
-      if (child.bpmn?.isExpanded && child.children) {
+      // Collect nested elements into the subprocess itself, whether it is expanded or collapsed
+      if (child.children) {
         flowElement.flowElements = [];
         flowElement.artifacts = [];
         this.collectFlowElements(child.children, flowElement.flowElements);
@@ -282,7 +284,7 @@ export class ModelBuilder {
           this.collectSequenceFlows(child.edges, flowElement.flowElements);
         }
       } else if (child.edges) {
-        // Collect nested sequence flows for non-expanded containers
+        // Collect nested sequence flows for containers without children
         this.collectSequenceFlows(child.edges, elements);
       }
 
@@ -5,24 +5,33 @@
 
 import type { LayoutedGraph } from '../types/elk-output';
 
-interface EdgeInfo {
+export interface EdgeInfo {
   id: string;
   sourceRef: string;
   targetRef: string;
   type: 'sequenceFlow' | 'messageFlow' | 'dataInputAssociation' | 'dataOutputAssociation' | 'association';
+  /** Node whose edges array contains the edge */
+  parentId?: string;
+  bpmn?: BpmnProperties;
 }
 
-interface NodeInfo {
+export interface NodeInfo {
   id: string;
   type: string;
   parentId?: string;
+  /** Host activity of a boundary event */
+  attachedToRef?: string;
+  bpmn?: BpmnProperties;
 }
 
+type BpmnProperties = { type: string } & Record<string, unknown>;
+
 export class ReferenceResolver {
   private nodeMap: Map<string, NodeInfo> = new Map();
   private edgesBySource: Map<string, EdgeInfo[]> = new Map();
   private edgesByTarget: Map<string, EdgeInfo[]> = new Map();
   private allEdges: EdgeInfo[] = [];
+  private idCounts: Map<string, number> = new Map();
 
   /**
    * Resolve all references in the graph
@@ -40,6 +49,7 @@ export class ReferenceResolver {
     this.edgesBySource.clear();
     this.edgesByTarget.clear();
     this.allEdges = [];
+    this.idCounts.clear();
   }
 
   /**
@@ -102,11 +112,29 @@ export class ReferenceResolver {
     return this.nodeMap.has(nodeId);
   }
 
+  /**
+   * Get IDs that are used by more than one element (nodes, edges and global definitions)
+   */
+  getDuplicateIds(): string[] {
+    return [...this.idCounts].filter(([, count]) => count > 1).map(([id]) => id);
+  }
+
   /**
    * Index the entire graph
    */
   private indexGraph(graph: LayoutedGraph): void {
-    for (const child of graph.children) {
+    this.countId(graph.id);
+
+    for (const definition of [
+      ...objectsIn(graph.messages),
+      ...objectsIn(graph.signals),
+      ...objectsIn(graph.errors),
+      ...objectsIn(graph.escalations),
+    ]) {
+      this.countId(definition.id);
+    }
+
+    for (const child of objectsIn(graph.children)) {
       this.indexNode(child as unknown as GraphNode);
     }
   }
@@ -115,47 +143,59 @@ export class ReferenceResolver {
    * Recursively index a node and its children
    */
   private indexNode(node: GraphNode, parentId?: string): void {
+    this.countId(node.id);
+
     // Index the node itself (skip containers like collaboration)
     if (node.bpmn && node.bpmn.type !== 'collaboration') {
       this.nodeMap.set(node.id, {
         id: node.id,
         type: node.bpmn.type,
         parentId,
+        bpmn: node.bpmn,
       });
     }
 
     // Index children
-    if (node.children) {
-      for (const child of node.children) {
-        this.indexNode(child as GraphNode, node.id);
-      }
+    for (const child of objectsIn(node.children)) {
+      this.indexNode(child as GraphNode, node.id);
+    }
+
+    // Index artifacts declared separately from children
+    for (const artifact of objectsIn(node.artifacts)) {
+      this.indexNode(artifact, node.id);
     }
 
     // Index boundary events
-    if (node.boundaryEvents) {
-      for (const be of node.boundaryEvents) {
-        this.nodeMap.set(be.id, {
-          id: be.id,
-          type: 'boundaryEvent',
-          parentId: node.id,
-        });
-      }
+    for (const be of objectsIn(node.boundaryEvents)) {
+      this.countId(be.id);
+      this.nodeMap.set(be.id, {
+        id: be.id,
+        type: 'boundaryEvent',
+        parentId: node.id,
+        attachedToRef: be.attachedToRef,
+        bpmn: be.bpmn,
+      });
     }
 
     // Index edges
-    if (node.edges) {
-      for (const edge of node.edges) {
-        this.indexEdge(edge);
-      }
+    for (const edge of objectsIn(node.edges)) {
+      this.indexEdge(edge, node.id);
     }
   }
 
+  private countId(id: string | undefined): void {
+    if (id === undefined) return;
+    this.idCounts.set(id, (this.idCounts.get(id) ?? 0) + 1);
+  }
+
   /**
    * Index an edge
    */
-  private indexEdge(edge: GraphEdge): void {
-    const sourceRef = edge.sources[0];
-    const targetRef = edge.targets[0];
+  private indexEdge(edge: GraphEdge, parentId: string): void {
+    this.countId(edge.id);
+
+    const sourceRef = Array.isArray(edge.sources) ? edge.sources[0] : undefined;
+    const targetRef = Array.isArray(edge.targets) ? edge.targets[0] : undefined;
 
     if (!sourceRef || !targetRef) return;
 
@@ -166,6 +206,8 @@ export class ReferenceResolver {
       sourceRef,
       targetRef,
       type: (validTypes.includes(edgeType as typeof validTypes[number]) ? edgeType : 'sequenceFlow') as EdgeInfo['type'],
+      parentId,
+      bpmn: edge.bpmn,
     };
 
     this.allEdges.push(edgeInfo);
@@ -184,18 +226,27 @@ export class ReferenceResolver {
   }
 }
 
+/**
+ * Objects of an array; malformed values (not arrays, null entries) are skipped and
+ * left to the validator and linter to report
+ */
+function objectsIn<T>(value: T[] | undefined): T[] {
+  return Array.isArray(value) ? value.filter((entry) => typeof entry === 'object' && entry !== null) : [];
+}
+
 // Internal types
 interface GraphNode {
   id: string;
-  bpmn?: { type: string };
+  bpmn?: BpmnProperties;
   children?: GraphNode[];
+  artifacts?: GraphNode[];
   edges?: GraphEdge[];
-  boundaryEvents?: Array<{ id: string; bpmn: { type: string } }>;
+  boundaryEvents?: Array<{ id: string; attachedToRef?: string; bpmn: BpmnProperties }>;
 }
 
 interface GraphEdge {
   id: string;
   sources: string[];
   targets: string[];
-  bpmn?: { type: string };
+  bpmn?: BpmnProperties;
 }
@@ -14,9 +14,25 @@ declare module 'bpmn-moddle' {
     preamble?: boolean;
   }
 
+  interface FromXMLWarning {
+    message: string;
+    element?: ModdleElement;
+    property?: string;
+    value?: unknown;
+    error?: Error;
+  }
+
+  interface FromXMLResult {
+    rootElement: ModdleElement;
+    elementsById: Record<string, ModdleElement>;
+    references: unknown[];
+    warnings: FromXMLWarning[];
+  }
+
   class BpmnModdle {
     constructor();
     create(type: string, attrs?: Record<string, unknown>): ModdleElement;
+    fromXML(xml: string, typeName?: string): Promise<FromXMLResult>;
     toXML(element: ModdleElement, options?: ToXMLOptions): Promise<ToXMLResult>;
   }
 
@@ -3,6 +3,8 @@
  * Based on elk-bpmn-schema.json v2.0
  */
 
+import type { LayoutConstraint } from '../layout/constraint/constraint-solver';
+
 // ============================================================================
 // Root Types
 // ============================================================================
@@ -16,6 +18,8 @@ export interface ElkBpmnGraph {
   signals?: SignalDefinition[];
   errors?: ErrorDefinition[];
   escalations?: EscalationDefinition[];
+  /** Constraints between nodes, applied in a refinement pass after ELK */
+  constraints?: LayoutConstraint[];
 }
 
 export interface DefinitionsMetadata {
@@ -109,6 +113,8 @@ export interface ParticipantBpmn {
     minimum?: number;
     maximum?: number;
   };
+  /** Diagram orientation, set to false by the layouter for vertical swimlanes */
+  isHorizontal?: boolean;
 }
 
 // ============================================================================
@@ -129,6 +135,8 @@ export interface Lane {
 export interface LaneBpmn {
   type: 'lane';
   name?: string;
+  /** Diagram orientation, set to false by the layouter for vertical swimlanes */
+  isHorizontal?: boolean;
 }
 
 // ============================================================================
@@ -166,6 +174,20 @@ export interface FlowNode {
   children?: FlowNode[];
   edges?: SequenceFlow[];
   boundaryEvents?: BoundaryEvent[];
+  layout?: NodeLayoutHints;
+}
+
+/**
+ * Layout hints for a single node, applied after ELK together with the graph's constraints.
+ * Nodes referenced by a hint must share the node's pool, lane-less process or subprocess.
+ */
+export interface NodeLayoutHints {
+  /** Put the node on one line with this node along the flow (same center y in RIGHT layouts) */
+  alignWith?: string;
+  /** Put the node in the same layer as this node (same center x in RIGHT layouts) */
+  sameLayer?: string;
+  /** Fix the node's position relative to its container */
+  pin?: { x?: number; y?: number };
 }
 
 export interface Label {
@@ -438,6 +460,7 @@ export interface Artifact {
   height?: number;
   bpmn: DataObjectArtifact | DataStoreArtifact | TextAnnotationArtifact | GroupArtifact;
   labels?: Label[];
+  layout?: NodeLayoutHints;
 }
 
 export interface DataObjectArtifact {
@@ -486,6 +509,8 @@ export interface SequenceFlowBpmn {
   name?: string;
   conditionExpression?: FormalExpression;
   isDefault?: boolean;
+  /** Part of the main path; kept on one horizontal line when `alignMainFlow` is enabled */
+  isHappyPath?: boolean;
 }
 
 export interface MessageFlow {
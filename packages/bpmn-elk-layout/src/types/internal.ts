@@ -107,6 +107,7 @@ export interface EdgeWithBpmn {
     messageRef?: string;
     conditionExpression?: object;
     isDefault?: boolean;
+    isHappyPath?: boolean;
     associationDirection?: string;
     [key: string]: unknown;
   };
@@ -0,0 +1,54 @@
+/**
+ * Content Hash Utility
+ * Canonical JSON and a fast non-cryptographic hash, used to build cache keys
+ * that are equal for equal content regardless of object key order.
+ */
+
+/**
+ * Serialize a value to JSON with object keys sorted, so that equal content
+ * gives equal text. Undefined properties are left out, as in JSON.stringify.
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+
+  const entries = Object.keys(value)
+    .sort()
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * 106-bit hash of a string (two seeded 53-bit cyrb53 hashes) as 28 hex characters
+ */
+export function hashString(text: string): string {
+  return cyrb53(text, 0).toString(16).padStart(14, '0') + cyrb53(text, 0x9e3779b9).toString(16).padStart(14, '0');
+}
+
+/**
+ * Hash of the canonical JSON of a value
+ */
+export function hashContent(value: unknown): string {
+  return hashString(canonicalJson(value));
+}
+
+/**
+ * cyrb53 string hash (public domain, bryc)
+ */
+function cyrb53(text: string, seed: number): number {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
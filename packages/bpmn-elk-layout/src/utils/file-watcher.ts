@@ -0,0 +1,111 @@
+/**
+ * File Watcher (Node.js only)
+ * Reports changes of a set of files, debounced so that a burst of writes (editors
+ * often save in several steps) triggers one callback.
+ *
+ * The directories of the files are watched rather than the files themselves:
+ * editors that save by writing a new file and renaming it over the old one
+ * would otherwise end the watch after the first save.
+ */
+
+import { watch, type FSWatcher } from 'fs';
+import { dirname, resolve } from 'path';
+
+export interface FileWatcherOptions {
+  /** Files to watch */
+  files: string[];
+  /** Called with the changed files once no change happened for `debounceMs`; must not throw */
+  onChange: (files: string[]) => void | Promise<void>;
+  /**
+   * Quiet period after the last change before onChange is called
+   * @default 100
+   */
+  debounceMs?: number;
+  /**
+   * Called when watching a directory fails (e.g. it was removed); that directory is no longer watched
+   * @default logs the error to stderr
+   */
+  onError?: (error: Error, directory: string) => void;
+}
+
+export class FileWatcher {
+  private files: Set<string>;
+  private onChange: FileWatcherOptions['onChange'];
+  private debounceMs: number;
+  private onError: NonNullable<FileWatcherOptions['onError']>;
+  private watchers: FSWatcher[] = [];
+  private changed: Set<string> = new Set();
+  private timer?: ReturnType<typeof setTimeout>;
+  /** Whether onChange is running; changes meanwhile are reported when it is done */
+  private running = false;
+
+  constructor(options: FileWatcherOptions) {
+    this.files = new Set(options.files.map((file) => resolve(file)));
+    this.onChange = options.onChange;
+    this.debounceMs = options.debounceMs ?? 100;
+    this.onError = options.onError ?? ((error, directory) => {
+      console.error(`Stopped watching ${directory}: ${error.message}`);
+    });
+  }
+
+  /**
+   * Start watching
+   * @throws when a directory of the files does not exist
+   */
+  start(): void {
+    const directories = new Set([...this.files].map((file) => dirname(file)));
+
+    for (const directory of directories) {
+      const watcher = watch(directory, (_event, filename) => {
+        const file = filename ? resolve(directory, filename.toString()) : undefined;
+        if (file && this.files.has(file)) {
+          this.changed.add(file);
+          this.schedule();
+        }
+      });
+      // Without a listener the error would be unhandled and end the process
+      watcher.on('error', (error) => {
+        watcher.close();
+        this.watchers = this.watchers.filter((other) => other !== watcher);
+        this.onError(error, directory);
+      });
+      this.watchers.push(watcher);
+    }
+  }
+
+  /**
+   * Stop watching; a pending change is dropped
+   */
+  close(): void {
+    clearTimeout(this.timer);
+    this.watchers.forEach((watcher) => watcher.close());
+    this.watchers = [];
+    this.changed.clear();
+  }
+
+  private schedule(): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => void this.flush(), this.debounceMs);
+  }
+
+  private async flush(): Promise<void> {
+    if (this.running || this.changed.size === 0) {
+      return;
+    }
+
+    const files = [...this.changed];
+    this.changed.clear();
+    this.running = true;
+    try {
+      await this.onChange(files);
+    } finally {
+      this.running = false;
+    }
+
+    // Changes during onChange
+    if (this.changed.size > 0) {
+      this.schedule();
+    }
+  }
+}
+
@@ -0,0 +1,122 @@
+/**
+ * Glob Utility (Node.js only)
+ * Expands file patterns for batch commands, e.g. `processes/**\/*.json`.
+ *
+ * Supports `*`, `?`, `**` (any number of directories), `[abc]`/`[!abc]` and
+ * `{a,b}`. Hidden files and directories (names starting with a dot) and
+ * node_modules are never searched.
+ */
+
+import { readdir, stat } from 'fs/promises';
+import { join, relative, resolve } from 'path';
+
+export interface GlobMatch {
+  /** Matched file */
+  path: string;
+  /** Directory the pattern starts in; outputs keep the layout of the files below it */
+  base: string;
+}
+
+const GLOB_CHARS = /[*?[{]/;
+
+/**
+ * Expand a pattern to the files it matches, sorted by path.
+ * A file path matches itself, a directory matches the JSON files in it (recursively).
+ */
+export async function expandGlob(pattern: string, cwd: string = process.cwd()): Promise<GlobMatch[]> {
+  const normalized = pattern.replace(/\\/g, '/');
+
+  if (!GLOB_CHARS.test(normalized)) {
+    const path = resolve(cwd, normalized);
+    const stats = await stat(path).catch(() => undefined);
+    if (stats?.isFile()) {
+      return [{ path, base: resolve(path, '..') }];
+    }
+    if (stats?.isDirectory()) {
+      return expandGlob('**/*.json', path);
+    }
+    return [];
+  }
+
+  // Split into the literal directory to start from and the segments to match
+  const segments = normalized.split('/');
+  const firstGlob = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+  const base = resolve(cwd, segments.slice(0, firstGlob).join('/') || '.');
+  const matcher = globToRegExp(segments.slice(firstGlob).join('/'));
+  const maxDepth = segments.includes('**') ? Infinity : segments.length - firstGlob;
+
+  const matches: GlobMatch[] = [];
+  for (const path of await listFiles(base, maxDepth)) {
+    if (matcher.test(relative(base, path).replace(/\\/g, '/'))) {
+      matches.push({ path, base });
+    }
+  }
+  return matches.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Regular expression matching relative paths against a pattern
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braces = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+
+    if (char === '*' && pattern[i + 1] === '*' && atSegmentStart && (pattern[i + 2] === '/' || i + 2 === pattern.length)) {
+      // '**/' matches zero or more directories, a trailing '**' everything below
+      source += pattern[i + 2] === '/' ? '(?:[^/]+/)*' : '.*';
+      i += 2;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const set = pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${set}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\\]}]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Files below a directory, skipping dot entries and node_modules
+ */
+async function listFiles(directory: string, maxDepth: number): Promise<string[]> {
+  const entries = await readdir(directory, { withFileTypes: true }).catch(() => []);
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') {
+      continue;
+    }
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (maxDepth > 1) {
+        files.push(...await listFiles(path, maxDepth - 1));
+      }
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+  return files;
+}
@@ -0,0 +1,372 @@
+/**
+ * Graph Repairer
+ * Normalizes recurring mistakes in generated ELK-BPMN JSON before layout:
+ * - `sources`/`targets` given as a string instead of an array
+ * - events without `eventDefinitionType` although a messageRef, timerEventDefinition, ... implies one
+ * - lanes listed next to their participant instead of inside it
+ * - boundary events placed in `children` instead of their host's `boundaryEvents`
+ * - edges declared at the wrong nesting level
+ *
+ * The input is not modified; every applied change is reported as a fix. Malformed
+ * values (e.g. `children` that is not an array) are left for the validator to report.
+ */
+
+import type { ElkBpmnGraph } from '../types';
+import { EVENT_TYPES, SUBPROCESS_TYPES } from '../types/bpmn-constants';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RepairKind =
+  | 'edge-endpoints-as-array'
+  | 'missing-event-definition-type'
+  | 'lane-outside-participant'
+  | 'boundary-event-in-children'
+  | 'edge-nesting';
+
+export interface RepairFix {
+  kind: RepairKind;
+  /** Element that was changed */
+  elementId: string;
+  message: string;
+}
+
+export interface RepairResult {
+  /** Repaired copy of the input */
+  graph: ElkBpmnGraph;
+  fixes: RepairFix[];
+}
+
+interface RepairNode {
+  id: string;
+  bpmn?: { type?: string } & Record<string, unknown>;
+  attachedToRef?: string;
+  children?: RepairNode[];
+  edges?: RepairEdge[];
+  boundaryEvents?: RepairNode[];
+  artifacts?: RepairNode[];
+}
+
+interface RepairEdge {
+  id: string;
+  sources?: unknown;
+  targets?: unknown;
+  bpmn?: { type?: string } & Record<string, unknown>;
+}
+
+// Event definition implied by a reference or definition object on the event
+const EVENT_DEFINITION_HINTS: Array<[key: string, eventDefinitionType: string]> = [
+  ['messageRef', 'message'],
+  ['signalRef', 'signal'],
+  ['errorRef', 'error'],
+  ['escalationRef', 'escalation'],
+  ['timerEventDefinition', 'timer'],
+  ['conditionalEventDefinition', 'conditional'],
+  ['linkEventDefinition', 'link'],
+];
+
+const EVENT_TYPES_SET = new Set<string>(EVENT_TYPES);
+const SUBPROCESS_TYPES_SET = new Set<string>(SUBPROCESS_TYPES);
+
+// ============================================================================
+// Graph Repairer
+// ============================================================================
+
+export class GraphRepairer {
+  private fixes: RepairFix[] = [];
+  private parents = new Map<RepairNode, RepairNode>();
+  private nodesById = new Map<string, RepairNode>();
+
+  /**
+   * Repair a copy of the graph and list the applied fixes
+   */
+  repair(graph: ElkBpmnGraph): RepairResult {
+    const root = JSON.parse(JSON.stringify(graph)) as RepairNode;
+    this.fixes = [];
+    if (!this.isNode(root)) {
+      return { graph: root as unknown as ElkBpmnGraph, fixes: [] };
+    }
+
+    this.repairEdgeEndpoints(root);
+    this.repairEventDefinitions(root);
+    this.repairLanes(root);
+    this.index(root);
+    this.repairBoundaryEvents(root);
+    this.index(root);
+    this.repairEdgeNesting(root);
+
+    return { graph: root as unknown as ElkBpmnGraph, fixes: this.fixes };
+  }
+
+  // ==========================================================================
+  // Repairs
+  // ==========================================================================
+
+  private repairEdgeEndpoints(root: RepairNode): void {
+    this.forEachNode(root, (container) => {
+      for (const edge of this.list(container.edges)) {
+        for (const key of ['sources', 'targets'] as const) {
+          if (typeof edge[key] === 'string') {
+            edge[key] = [edge[key]];
+            this.addFix('edge-endpoints-as-array', edge.id, `Wrapped ${key} of edge "${edge.id}" in an array`);
+          }
+        }
+      }
+    });
+  }
+
+  private repairEventDefinitions(root: RepairNode): void {
+    this.forEachNode(root, (node) => {
+      const bpmn = node.bpmn;
+      if (!bpmn?.type || !EVENT_TYPES_SET.has(bpmn.type) || bpmn.eventDefinitionType !== undefined) return;
+
+      // Events without a hint are already treated as 'none'
+      const hint = EVENT_DEFINITION_HINTS.find(([key]) => bpmn[key] !== undefined);
+      if (!hint) return;
+
+      bpmn.eventDefinitionType = hint[1];
+      this.addFix(
+        'missing-event-definition-type',
+        node.id,
+        `Set eventDefinitionType of "${node.id}" to "${hint[1]}" (implied by ${hint[0]})`
+      );
+    });
+  }
+
+  /**
+   * Move lanes listed at the top level or next to participants into their participant
+   * (or into the only process, for process diagrams)
+   */
+  private repairLanes(root: RepairNode): void {
+    // Containers whose children are malformed cannot take lanes
+    const topLevel = this.list(root.children).filter((child) => this.isListOrMissing(child.children));
+    const collaborations = topLevel.filter((child) => child.bpmn?.type === 'collaboration');
+    const processes = topLevel.filter((child) => child.bpmn?.type === 'process');
+
+    const strayLanes = this.takeLanes(root);
+    if (strayLanes.length > 0) {
+      if (collaborations.length === 1) {
+        collaborations[0]!.children = [...(collaborations[0]!.children ?? []), ...strayLanes];
+      } else if (collaborations.length === 0 && processes.length === 1) {
+        for (const lane of strayLanes) {
+          this.moveLane(lane, processes[0]!, 'process');
+        }
+      } else {
+        root.children!.push(...strayLanes);
+      }
+    }
+
+    for (const collaboration of collaborations) {
+      const lanes = this.takeLanes(collaboration);
+      const participants = this.list(collaboration.children)
+        .filter((child) => child.bpmn?.type === 'participant' && this.isListOrMissing(child.children));
+
+      for (const lane of lanes) {
+        const participant = this.findLaneParticipant(lane, participants);
+        if (participant) {
+          this.moveLane(lane, participant, 'participant');
+        } else {
+          collaboration.children!.push(lane);
+        }
+      }
+    }
+  }
+
+  private takeLanes(container: RepairNode): RepairNode[] {
+    const lanes = this.list(container.children).filter((child) => child.bpmn?.type === 'lane');
+    if (lanes.length > 0) {
+      container.children = container.children!.filter((child) => !lanes.includes(child));
+    }
+    return lanes;
+  }
+
+  private moveLane(lane: RepairNode, target: RepairNode, targetType: string): void {
+    target.children = [...(target.children ?? []), lane];
+    this.addFix('lane-outside-participant', lane.id, `Moved lane "${lane.id}" into ${targetType} "${target.id}"`);
+  }
+
+  /**
+   * The only participant, or the one whose edges connect the lane's nodes
+   */
+  private findLaneParticipant(lane: RepairNode, participants: RepairNode[]): RepairNode | undefined {
+    if (participants.length === 1) {
+      return participants[0];
+    }
+
+    const laneNodeIds = new Set<string>();
+    this.forEachNode(lane, (node) => laneNodeIds.add(node.id));
+
+    const candidates = participants.filter((participant) =>
+      this.list(participant.edges).some((edge) =>
+        [...this.endpoints(edge.sources), ...this.endpoints(edge.targets)].some((id) => laneNodeIds.has(id))
+      )
+    );
+
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  private repairBoundaryEvents(root: RepairNode): void {
+    this.forEachNode(root, (container) => {
+      if (!Array.isArray(container.children)) return;
+
+      container.children = container.children.filter((child) => {
+        if (!this.isNode(child) || child.bpmn?.type !== 'boundaryEvent') return true;
+
+        const hostId = child.attachedToRef ?? (child.bpmn.attachedToRef as string | undefined);
+        const host = hostId ? this.nodesById.get(hostId) : undefined;
+        if (!host || host === child || !this.isListOrMissing(host.boundaryEvents)) return true;
+
+        child.attachedToRef = hostId;
+        delete child.bpmn.attachedToRef;
+        host.boundaryEvents = [...(host.boundaryEvents ?? []), child];
+        this.addFix(
+          'boundary-event-in-children',
+          child.id,
+          `Moved boundary event "${child.id}" from the children of "${container.id}" to the boundaryEvents of "${host.id}"`
+        );
+        return false;
+      });
+    });
+  }
+
+  /**
+   * Move every edge to the innermost container holding both of its end points:
+   * message flows to the collaboration, other flows to their participant, process
+   * or subprocess. Edges with unknown end points are left alone.
+   */
+  private repairEdgeNesting(root: RepairNode): void {
+    const moves: Array<{ edge: RepairEdge; from: RepairNode; to: RepairNode }> = [];
+
+    this.forEachNode(root, (container) => {
+      for (const edge of this.list(container.edges)) {
+        const source = this.nodesById.get(this.endpoints(edge.sources)[0] ?? '');
+        const target = this.nodesById.get(this.endpoints(edge.targets)[0] ?? '');
+        if (!source || !target) continue;
+
+        const owner = edge.bpmn?.type === 'messageFlow'
+          ? this.commonAncestor(source, target, (node) => node.bpmn?.type === 'collaboration')
+          : this.commonAncestor(source, target, (node) => this.isEdgeContainer(node));
+
+        if (owner && owner !== this.edgeOwner(container) && this.isListOrMissing(owner.edges)) {
+          moves.push({ edge, from: container, to: owner });
+        }
+      }
+    });
+
+    for (const { edge, from, to } of moves) {
+      from.edges = from.edges!.filter((candidate) => candidate !== edge);
+      to.edges = [...(to.edges ?? []), edge];
+      this.addFix('edge-nesting', edge.id, `Moved edge "${edge.id}" from "${from.id}" to "${to.id}"`);
+    }
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  /**
+   * Containers that own sequence flows. A process nested in a participant is
+   * part of the pool, so the participant owns its flows.
+   */
+  private isEdgeContainer(node: RepairNode): boolean {
+    const type = node.bpmn?.type;
+    if (type === 'process') {
+      return this.parents.get(node)?.bpmn?.type !== 'participant';
+    }
+    return type === 'participant' || (type !== undefined && SUBPROCESS_TYPES_SET.has(type));
+  }
+
+  /**
+   * Flows declared on a process nested in a participant belong to the participant
+   */
+  private edgeOwner(container: RepairNode): RepairNode {
+    const parent = this.parents.get(container);
+    return container.bpmn?.type === 'process' && parent?.bpmn?.type === 'participant' ? parent : container;
+  }
+
+  /**
+   * Innermost ancestor (excluding the nodes themselves) shared by both nodes that matches the predicate
+   */
+  private commonAncestor(
+    a: RepairNode,
+    b: RepairNode,
+    predicate: (node: RepairNode) => boolean
+  ): RepairNode | undefined {
+    const ancestorsOfB = new Set(this.ancestors(b));
+    return this.ancestors(a).find((node) => ancestorsOfB.has(node) && predicate(node));
+  }
+
+  private ancestors(node: RepairNode): RepairNode[] {
+    const result: RepairNode[] = [];
+    let current = this.parents.get(node);
+    while (current) {
+      result.push(current);
+      current = this.parents.get(current);
+    }
+    return result;
+  }
+
+  private index(root: RepairNode): void {
+    this.parents.clear();
+    this.nodesById.clear();
+
+    const visit = (node: RepairNode) => {
+      for (const child of this.nestedNodes(node)) {
+        this.parents.set(child, node);
+        if (child.id !== undefined && !this.nodesById.has(child.id)) {
+          this.nodesById.set(child.id, child);
+        }
+        visit(child);
+      }
+    };
+
+    visit(root);
+  }
+
+  /**
+   * Visit the root and all nested nodes (children, boundary events and artifacts)
+   */
+  private forEachNode(node: RepairNode, visit: (node: RepairNode) => void): void {
+    visit(node);
+    for (const child of this.nestedNodes(node)) {
+      this.forEachNode(child, visit);
+    }
+  }
+
+  private nestedNodes(node: RepairNode): RepairNode[] {
+    return [...this.list(node.children), ...this.list(node.boundaryEvents), ...this.list(node.artifacts)];
+  }
+
+  /**
+   * Objects of a list; a missing or malformed list and non-object entries are skipped
+   */
+  private list<T extends object>(value: T[] | undefined): T[] {
+    return Array.isArray(value) ? value.filter((entry) => this.isNode(entry)) : [];
+  }
+
+  private isNode(value: unknown): value is RepairNode {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private isListOrMissing(value: unknown): boolean {
+    return value === undefined || Array.isArray(value);
+  }
+
+  private endpoints(value: unknown): string[] {
+    if (typeof value === 'string') return [value];
+    return Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : [];
+  }
+
+  private addFix(kind: RepairKind, elementId: string, message: string): void {
+    this.fixes.push({ kind, elementId, message });
+  }
+}
+
+/**
+ * Convenience function to repair ELK-BPMN JSON
+ */
+export function repairElkBpmn(graph: ElkBpmnGraph): RepairResult {
+  const repairer = new GraphRepairer();
+  return repairer.repair(graph);
+}
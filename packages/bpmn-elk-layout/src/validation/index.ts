@@ -0,0 +1,25 @@
+export {
+  SchemaValidator,
+  validateElkBpmn,
+  type SchemaValidationError,
+  type SchemaValidationResult,
+  type JsonSchema,
+} from './schema-validator';
+export {
+  Linter,
+  lintElkBpmn,
+  LINT_RULES,
+  type LintRule,
+  type LintRuleName,
+  type LintSeverity,
+  type LintIssue,
+  type LintResult,
+  type LinterOptions,
+} from './linter';
+export {
+  GraphRepairer,
+  repairElkBpmn,
+  type RepairFix,
+  type RepairKind,
+  type RepairResult,
+} from './graph-repairer';
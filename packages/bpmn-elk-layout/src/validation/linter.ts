@@ -0,0 +1,434 @@
+/**
+ * Linter
+ * Semantic checks for ELK-BPMN JSON that a schema cannot express: broken
+ * references, duplicate IDs, misplaced flows and unpaired link events.
+ *
+ * Every rule has a name and a default severity that can be overridden (or
+ * turned off) per rule, e.g. `{ rules: { 'process-has-start-and-end': 'off' } }`.
+ */
+
+import type { ElkBpmnGraph } from '../types';
+import type { LayoutedGraph } from '../types/elk-output';
+import { GATEWAY_TYPES, SUBPROCESS_TYPES, TASK_TYPES } from '../types/bpmn-constants';
+import { ReferenceResolver, type NodeInfo } from '../transform';
+import { findConstraintProblem } from '../layout/constraint';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LintSeverity = 'error' | 'warning' | 'off';
+
+export type LintRuleName =
+  | 'well-formed-graph'
+  | 'no-dangling-edge'
+  | 'no-duplicate-id'
+  | 'boundary-event-attached-to-activity'
+  | 'gateway-default-is-outgoing'
+  | 'no-message-flow-within-participant'
+  | 'no-sequence-flow-across-pools'
+  | 'process-has-start-and-end'
+  | 'link-events-paired';
+
+export interface LintRule {
+  name: LintRuleName;
+  description: string;
+  defaultSeverity: Exclude<LintSeverity, 'off'>;
+}
+
+export interface LintIssue {
+  rule: LintRuleName;
+  severity: Exclude<LintSeverity, 'off'>;
+  /** Element the issue is reported on */
+  elementId: string;
+  message: string;
+}
+
+export interface LintResult {
+  issues: LintIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+export interface LinterOptions {
+  /** Severity overrides per rule */
+  rules?: Partial<Record<LintRuleName, LintSeverity>>;
+}
+
+// ============================================================================
+// Rule Catalogue
+// ============================================================================
+
+export const LINT_RULES: readonly LintRule[] = [
+  {
+    name: 'well-formed-graph',
+    description: 'Children, artifacts, boundary events and edges must be arrays of objects, edge sources and targets arrays, constraints well-formed',
+    defaultSeverity: 'error',
+  },
+  {
+    name: 'no-dangling-edge',
+    description: 'Edge sources and targets must reference existing elements',
+    defaultSeverity: 'error',
+  },
+  {
+    name: 'no-duplicate-id',
+    description: 'IDs must be unique across the whole graph, including global definitions',
+    defaultSeverity: 'error',
+  },
+  {
+    name: 'boundary-event-attached-to-activity',
+    description: 'Boundary events must be attached to a task, subprocess or call activity',
+    defaultSeverity: 'error',
+  },
+  {
+    name: 'gateway-default-is-outgoing',
+    description: 'A gateway default flow must be one of its outgoing sequence flows',
+    defaultSeverity: 'error',
+  },
+  {
+    name: 'no-message-flow-within-participant',
+    description: 'Message flows must connect different participants',
+    defaultSeverity: 'error',
+  },
+  {
+    name: 'no-sequence-flow-across-pools',
+    description: 'Sequence flows must stay within one participant (use message flows between pools)',
+    defaultSeverity: 'error',
+  },
+  {
+    name: 'process-has-start-and-end',
+    description: 'Every process needs at least one start event and one end event',
+    defaultSeverity: 'warning',
+  },
+  {
+    name: 'link-events-paired',
+    description: 'Every link throw event needs a link catch event with the same name, and vice versa',
+    defaultSeverity: 'warning',
+  },
+];
+
+const ACTIVITY_TYPES = new Set<string>([...TASK_TYPES, ...SUBPROCESS_TYPES, 'callActivity']);
+const GATEWAY_TYPES_SET = new Set<string>(GATEWAY_TYPES);
+// Containers that own their flow nodes (lanes are transparent)
+const SCOPE_TYPES = new Set<string>(['process', 'participant', ...SUBPROCESS_TYPES]);
+const ELEMENT_LISTS = ['children', 'artifacts', 'boundaryEvents', 'edges'] as const;
+
+type Report = (elementId: string, message: string) => void;
+
+// ============================================================================
+// Linter
+// ============================================================================
+
+export class Linter {
+  private severities: Map<LintRuleName, LintSeverity>;
+  private resolver = new ReferenceResolver();
+
+  constructor(options?: LinterOptions) {
+    this.severities = new Map(LINT_RULES.map((rule) => [rule.name, rule.defaultSeverity]));
+
+    for (const [name, severity] of Object.entries(options?.rules ?? {})) {
+      if (!this.severities.has(name as LintRuleName)) {
+        throw new Error(`Unknown lint rule: ${name}`);
+      }
+      if (severity !== 'error' && severity !== 'warning' && severity !== 'off') {
+        throw new Error(`Invalid severity for ${name}: ${severity} (expected error, warning or off)`);
+      }
+      this.severities.set(name as LintRuleName, severity);
+    }
+  }
+
+  /**
+   * Run all enabled rules on the graph
+   */
+  lint(graph: ElkBpmnGraph): LintResult {
+    // Malformed parts are skipped by the other rules and reported by well-formed-graph
+    this.resolver.resolve((isRecord(graph) ? graph : {}) as unknown as LayoutedGraph);
+
+    const issues: LintIssue[] = [];
+    const checks: Record<LintRuleName, (report: Report) => void> = {
+      'well-formed-graph': (report) => this.checkStructure(graph, report),
+      'no-dangling-edge': (report) => this.checkDanglingEdges(report),
+      'no-duplicate-id': (report) => this.checkDuplicateIds(report),
+      'boundary-event-attached-to-activity': (report) => this.checkBoundaryEvents(report),
+      'gateway-default-is-outgoing': (report) => this.checkGatewayDefaults(report),
+      'no-message-flow-within-participant': (report) => this.checkMessageFlows(report),
+      'no-sequence-flow-across-pools': (report) => this.checkSequenceFlows(report),
+      'process-has-start-and-end': (report) => this.checkStartAndEnd(report),
+      'link-events-paired': (report) => this.checkLinkEvents(report),
+    };
+
+    for (const rule of LINT_RULES) {
+      const severity = this.severities.get(rule.name)!;
+      if (severity === 'off') continue;
+
+      checks[rule.name]((elementId, message) => {
+        issues.push({ rule: rule.name, severity, elementId, message });
+      });
+    }
+
+    return {
+      issues,
+      errorCount: issues.filter((issue) => issue.severity === 'error').length,
+      warningCount: issues.filter((issue) => issue.severity === 'warning').length,
+    };
+  }
+
+  // ==========================================================================
+  // Rules
+  // ==========================================================================
+
+  private checkStructure(graph: unknown, report: Report): void {
+    if (!isRecord(graph)) {
+      report('', `The graph must be an object, got ${describeValue(graph)}`);
+      return;
+    }
+    if (graph.children === undefined) {
+      report(String(graph.id ?? ''), 'The graph has no children array');
+    }
+    this.checkElementStructure(graph, report);
+    this.checkConstraintStructure(graph, report);
+  }
+
+  /**
+   * Malformed layout constraints are skipped by the layout
+   */
+  private checkConstraintStructure(graph: Record<string, unknown>, report: Report): void {
+    const id = String(graph.id ?? '');
+    const constraints = graph.constraints;
+    if (constraints === undefined) return;
+
+    if (!Array.isArray(constraints)) {
+      report(id, `"constraints" of "${id}" must be an array, got ${describeValue(constraints)}`);
+      return;
+    }
+    constraints.forEach((constraint: unknown, index) => {
+      const problem = findConstraintProblem(constraint);
+      if (problem) {
+        report(id, `"constraints[${index}]" of "${id}" ${problem}`);
+      }
+    });
+  }
+
+  private checkElementStructure(element: Record<string, unknown>, report: Report): void {
+    const id = String(element.id ?? '');
+
+    for (const list of ELEMENT_LISTS) {
+      const value = element[list];
+      if (value === undefined) continue;
+
+      if (!Array.isArray(value)) {
+        report(id, `"${list}" of "${id}" must be an array, got ${describeValue(value)}`);
+        continue;
+      }
+      value.forEach((entry: unknown, index) => {
+        if (!isRecord(entry)) {
+          report(id, `"${list}[${index}]" of "${id}" must be an object, got ${describeValue(entry)}`);
+        } else if (list === 'edges') {
+          this.checkEdgeStructure(entry, report);
+        } else if (list !== 'boundaryEvents') {
+          this.checkElementStructure(entry, report);
+        }
+      });
+    }
+  }
+
+  private checkEdgeStructure(edge: Record<string, unknown>, report: Report): void {
+    const id = String(edge.id ?? '');
+
+    for (const list of ['sources', 'targets'] as const) {
+      if (!Array.isArray(edge[list])) {
+        report(id, `"${list}" of edge "${id}" must be an array, got ${describeValue(edge[list])}`);
+      }
+    }
+  }
+
+  private checkDanglingEdges(report: Report): void {
+    for (const edge of this.resolver.getAllEdges()) {
+      if (!this.resolver.hasNode(edge.sourceRef)) {
+        report(edge.id, `Edge "${edge.id}" references missing source "${edge.sourceRef}"`);
+      }
+      if (!this.resolver.hasNode(edge.targetRef)) {
+        report(edge.id, `Edge "${edge.id}" references missing target "${edge.targetRef}"`);
+      }
+    }
+  }
+
+  private checkDuplicateIds(report: Report): void {
+    for (const id of this.resolver.getDuplicateIds()) {
+      report(id, `ID "${id}" is used by more than one element`);
+    }
+  }
+
+  private checkBoundaryEvents(report: Report): void {
+    for (const node of this.resolver.getAllNodes().values()) {
+      if (node.type !== 'boundaryEvent') continue;
+
+      const hostId = node.attachedToRef ?? node.parentId;
+      const host = hostId ? this.resolver.getNode(hostId) : undefined;
+
+      if (!host) {
+        report(node.id, `Boundary event "${node.id}" is attached to missing element "${hostId}"`);
+      } else if (!ACTIVITY_TYPES.has(host.type)) {
+        report(node.id, `Boundary event "${node.id}" is attached to ${host.type} "${host.id}", which is not an activity`);
+      }
+    }
+  }
+
+  private checkGatewayDefaults(report: Report): void {
+    for (const node of this.resolver.getAllNodes().values()) {
+      const defaultFlow = node.bpmn?.default;
+      if (!GATEWAY_TYPES_SET.has(node.type) || typeof defaultFlow !== 'string') continue;
+
+      if (!this.resolver.getOutgoingSequenceFlows(node.id).includes(defaultFlow)) {
+        report(node.id, `Default flow "${defaultFlow}" of gateway "${node.id}" is not one of its outgoing sequence flows`);
+      }
+    }
+  }
+
+  private checkMessageFlows(report: Report): void {
+    for (const edge of this.resolver.getAllEdges()) {
+      if (edge.type !== 'messageFlow') continue;
+
+      const sourcePool = this.findAncestor(edge.sourceRef, (node) => node.type === 'participant');
+      const targetPool = this.findAncestor(edge.targetRef, (node) => node.type === 'participant');
+
+      if (sourcePool && sourcePool === targetPool) {
+        report(edge.id, `Message flow "${edge.id}" connects elements of the same participant "${sourcePool.id}"`);
+      }
+    }
+  }
+
+  private checkSequenceFlows(report: Report): void {
+    for (const edge of this.resolver.getAllEdges()) {
+      if (edge.type !== 'sequenceFlow') continue;
+
+      const sourcePool = this.findAncestor(edge.sourceRef, (node) => node.type === 'participant');
+      const targetPool = this.findAncestor(edge.targetRef, (node) => node.type === 'participant');
+
+      if (sourcePool && targetPool && sourcePool !== targetPool) {
+        report(
+          edge.id,
+          `Sequence flow "${edge.id}" crosses from participant "${sourcePool.id}" to "${targetPool.id}"; use a message flow`
+        );
+      }
+    }
+  }
+
+  private checkStartAndEnd(report: Report): void {
+    const eventTypesByScope = new Map<string, Set<string>>();
+
+    for (const node of this.resolver.getAllNodes().values()) {
+      const scope = this.scopeOf(node);
+      if (!scope || (scope.type !== 'process' && scope.type !== 'participant')) continue;
+
+      if (!eventTypesByScope.has(scope.id)) {
+        eventTypesByScope.set(scope.id, new Set());
+      }
+      eventTypesByScope.get(scope.id)!.add(node.type);
+    }
+
+    // Scopes without flow nodes (black-box pools, empty nested processes) are skipped
+    for (const [scopeId, types] of eventTypesByScope) {
+      const hasFlowNodes = [...types].some((type) => type !== 'lane' && type !== 'process');
+      if (!hasFlowNodes) continue;
+
+      if (!types.has('startEvent')) {
+        report(scopeId, `Process "${scopeId}" has no start event`);
+      }
+      if (!types.has('endEvent')) {
+        report(scopeId, `Process "${scopeId}" has no end event`);
+      }
+    }
+  }
+
+  private checkLinkEvents(report: Report): void {
+    const throwsByScope = new Map<string, NodeInfo[]>();
+    const catchesByScope = new Map<string, NodeInfo[]>();
+
+    for (const node of this.resolver.getAllNodes().values()) {
+      if (node.bpmn?.eventDefinitionType !== 'link') continue;
+
+      const groups = node.type === 'intermediateThrowEvent' ? throwsByScope
+        : node.type === 'intermediateCatchEvent' ? catchesByScope
+          : undefined;
+      if (!groups) continue;
+
+      const scopeId = this.scopeOf(node)?.id ?? '';
+      if (!groups.has(scopeId)) groups.set(scopeId, []);
+      groups.get(scopeId)!.push(node);
+    }
+
+    for (const scopeId of new Set([...throwsByScope.keys(), ...catchesByScope.keys()])) {
+      const throws = throwsByScope.get(scopeId) ?? [];
+      const catches = catchesByScope.get(scopeId) ?? [];
+      const catchNames = new Set(catches.map((node) => this.linkName(node)));
+      const throwNames = new Set(throws.map((node) => this.linkName(node)));
+
+      for (const node of throws) {
+        if (!catchNames.has(this.linkName(node))) {
+          report(node.id, `Link throw event "${node.id}" (${this.describeLink(node)}) has no catch event with the same name`);
+        }
+      }
+      for (const node of catches) {
+        if (!throwNames.has(this.linkName(node))) {
+          report(node.id, `Link catch event "${node.id}" (${this.describeLink(node)}) has no throw event with the same name`);
+        }
+      }
+    }
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  /**
+   * The node itself or its nearest ancestor matching the predicate
+   */
+  private findAncestor(id: string, predicate: (node: NodeInfo) => boolean): NodeInfo | undefined {
+    let node = this.resolver.getNode(id);
+    const visited = new Set<string>();
+
+    while (node && !visited.has(node.id)) {
+      if (predicate(node)) return node;
+      visited.add(node.id);
+      node = node.parentId ? this.resolver.getNode(node.parentId) : undefined;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * The process, participant or subprocess that owns a flow node
+   */
+  private scopeOf(node: NodeInfo): NodeInfo | undefined {
+    return node.parentId ? this.findAncestor(node.parentId, (ancestor) => SCOPE_TYPES.has(ancestor.type)) : undefined;
+  }
+
+  private linkName(node: NodeInfo): string | undefined {
+    const definition = node.bpmn?.linkEventDefinition as { name?: string } | undefined;
+    return definition?.name ?? (node.bpmn?.name as string | undefined);
+  }
+
+  private describeLink(node: NodeInfo): string {
+    const name = this.linkName(node);
+    return name === undefined ? 'unnamed' : `name "${name}"`;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'string' ? `string "${value}"` : typeof value;
+}
+
+/**
+ * Convenience function to lint ELK-BPMN JSON
+ */
+export function lintElkBpmn(graph: ElkBpmnGraph, options?: LinterOptions): LintResult {
+  const linter = new Linter(options);
+  return linter.lint(graph);
+}
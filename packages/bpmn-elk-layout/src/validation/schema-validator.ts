@@ -0,0 +1,340 @@
+/**
+ * Schema Validator
+ * Validates ELK-BPMN JSON against elk-bpmn-schema.json before conversion.
+ *
+ * Implements the JSON Schema draft-07 keywords used by the schema (type, enum,
+ * const, required, properties, additionalProperties, items, min/maxItems,
+ * oneOf/anyOf/allOf and local $ref), so it runs in browsers and Node.js
+ * without a schema library.
+ */
+
+import elkBpmnSchema from '../../elk-bpmn-schema.json';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SchemaValidationError {
+  /** JSON Pointer to the offending value, e.g. /children/0/children/2/bpmn/type */
+  path: string;
+  /** The schema keyword that failed, e.g. 'type', 'enum' or 'required' */
+  keyword: string;
+  /** The offending value (undefined for missing properties) */
+  value: unknown;
+  /** Expected type, values or constraint, e.g. 'string' or 'one of "userTask", "task"' */
+  expected: string;
+  /** Human-readable message */
+  message: string;
+}
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  errors: SchemaValidationError[];
+}
+
+export interface JsonSchema {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  $ref?: string;
+  definitions?: Record<string, JsonSchema>;
+}
+
+// ============================================================================
+// Schema Validator
+// ============================================================================
+
+export class SchemaValidator {
+  private schema: JsonSchema;
+
+  constructor(schema: JsonSchema = elkBpmnSchema as JsonSchema) {
+    this.schema = schema;
+  }
+
+  /**
+   * Validate a document and collect all errors
+   */
+  validate(input: unknown): SchemaValidationResult {
+    const errors = this.validateValue(input, this.schema, '');
+    return { valid: errors.length === 0, errors };
+  }
+
+  private validateValue(value: unknown, schema: JsonSchema, path: string): SchemaValidationError[] {
+    if (schema.$ref) {
+      return this.validateValue(value, this.resolveRef(schema.$ref), path);
+    }
+
+    if (schema.type) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some((type) => this.matchesType(value, type))) {
+        return [this.error(path, 'type', value, types.join(' or '))];
+      }
+    }
+
+    const errors: SchemaValidationError[] = [];
+
+    if ('const' in schema && !this.isEqual(value, schema.const)) {
+      errors.push(this.error(path, 'const', value, JSON.stringify(schema.const)));
+    }
+
+    if (schema.enum && !schema.enum.some((option) => this.isEqual(value, option))) {
+      errors.push(this.error(path, 'enum', value, this.describeOptions(schema.enum)));
+    }
+
+    if (typeof value === 'number') {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(this.error(path, 'minimum', value, `>= ${schema.minimum}`));
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(this.error(path, 'maximum', value, `<= ${schema.maximum}`));
+      }
+    }
+
+    if (this.isObject(value)) {
+      errors.push(...this.validateObject(value, schema, path));
+    }
+
+    if (Array.isArray(value)) {
+      errors.push(...this.validateArray(value, schema, path));
+    }
+
+    for (const subschema of schema.allOf ?? []) {
+      errors.push(...this.validateValue(value, subschema, path));
+    }
+
+    if (schema.anyOf) {
+      errors.push(...this.validateAlternatives(value, schema.anyOf, path, 'anyOf'));
+    }
+
+    if (schema.oneOf) {
+      errors.push(...this.validateAlternatives(value, schema.oneOf, path, 'oneOf'));
+    }
+
+    return errors;
+  }
+
+  private validateObject(value: Record<string, unknown>, schema: JsonSchema, path: string): SchemaValidationError[] {
+    const errors: SchemaValidationError[] = [];
+
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        errors.push({
+          path: this.pointer(path, key),
+          keyword: 'required',
+          value: undefined,
+          expected: 'required property',
+          message: `missing required property '${key}'`,
+        });
+      }
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...this.validateValue(child, propertySchema, this.pointer(path, key)));
+      } else if (schema.additionalProperties === false) {
+        errors.push({
+          path: this.pointer(path, key),
+          keyword: 'additionalProperties',
+          value: child,
+          expected: 'no additional properties',
+          message: `unknown property '${key}'`,
+        });
+      } else if (this.isObject(schema.additionalProperties)) {
+        errors.push(...this.validateValue(child, schema.additionalProperties, this.pointer(path, key)));
+      }
+    }
+
+    return errors;
+  }
+
+  private validateArray(value: unknown[], schema: JsonSchema, path: string): SchemaValidationError[] {
+    const errors: SchemaValidationError[] = [];
+
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(this.error(path, 'minItems', value, `at least ${schema.minItems} item(s)`));
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(this.error(path, 'maxItems', value, `at most ${schema.maxItems} item(s)`));
+    }
+
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...this.validateValue(item, schema.items!, this.pointer(path, String(index))));
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate oneOf/anyOf. When no alternative matches, the errors of the closest
+   * alternative are reported instead of a bare "matches none", so that e.g. a
+   * task with a misspelled property is reported against the task definition.
+   */
+  private validateAlternatives(
+    value: unknown,
+    alternatives: JsonSchema[],
+    path: string,
+    keyword: 'oneOf' | 'anyOf'
+  ): SchemaValidationError[] {
+    const results = alternatives.map((alternative) => this.validateValue(value, alternative, path));
+    const matches = results.filter((errors) => errors.length === 0).length;
+
+    if (matches === 1 || (matches > 1 && keyword === 'anyOf')) {
+      return [];
+    }
+
+    if (matches > 1) {
+      return [this.error(path, 'oneOf', value, 'exactly one matching definition', `matches ${matches} definitions`)];
+    }
+
+    // ELK-BPMN elements are told apart by their type (e.g. bpmn.type), so an
+    // alternative that rejected the type is not the one the author meant
+    const candidates = results.filter((errors) => !errors.some((error) => this.isTypeMismatch(error, path)));
+    if (candidates.length > 0) {
+      return this.fewest(candidates);
+    }
+
+    // Every alternative rejected the type: report one error listing all accepted types
+    const mismatches = results.map((errors) => errors.find((error) => this.isTypeMismatch(error, path))!);
+    const typePath = mismatches[0]!.path;
+    if (mismatches.every((error) => error.path === typePath)) {
+      const segments = typePath.slice(path.length + 1).split('/').map((segment) => this.unescape(segment));
+      const options = [...new Set(alternatives.flatMap((alternative) => this.collectOptions(alternative, segments)))];
+      if (options.length > 0) {
+        return [this.error(typePath, 'enum', mismatches[0]!.value, this.describeOptions(options))];
+      }
+    }
+
+    return this.fewest(results);
+  }
+
+  /**
+   * A rejected type of the value itself (type or bpmn.type), not of a nested element
+   */
+  private isTypeMismatch(error: SchemaValidationError, path: string): boolean {
+    const relative = error.path.slice(path.length + 1).split('/');
+    return (error.keyword === 'const' || error.keyword === 'enum') &&
+      relative.length <= 2 && relative[relative.length - 1] === 'type';
+  }
+
+  private fewest(results: SchemaValidationError[][]): SchemaValidationError[] {
+    return results.reduce((best, errors) => (errors.length < best.length ? errors : best));
+  }
+
+  /**
+   * Values a schema accepts at a property path, following $ref and alternatives
+   */
+  private collectOptions(schema: JsonSchema, segments: string[]): unknown[] {
+    const resolved = schema.$ref ? this.resolveRef(schema.$ref) : schema;
+    const options: unknown[] = [];
+
+    if (segments.length === 0) {
+      if ('const' in resolved) options.push(resolved.const);
+      options.push(...(resolved.enum ?? []));
+    } else {
+      const property = resolved.properties?.[segments[0]!];
+      if (property) options.push(...this.collectOptions(property, segments.slice(1)));
+    }
+
+    for (const alternative of [...(resolved.oneOf ?? []), ...(resolved.anyOf ?? []), ...(resolved.allOf ?? [])]) {
+      options.push(...this.collectOptions(alternative, segments));
+    }
+
+    return options;
+  }
+
+  private resolveRef(ref: string): JsonSchema {
+    if (!ref.startsWith('#/')) {
+      throw new Error(`Unsupported schema reference: ${ref}`);
+    }
+
+    let target: unknown = this.schema;
+    for (const segment of ref.slice(2).split('/')) {
+      target = (target as Record<string, unknown> | undefined)?.[this.unescape(segment)];
+    }
+
+    if (!this.isObject(target)) {
+      throw new Error(`Unresolved schema reference: ${ref}`);
+    }
+
+    return target as JsonSchema;
+  }
+
+  private matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+      case 'object':
+        return this.isObject(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'string':
+        return typeof value === 'string';
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value);
+      case 'integer':
+        return Number.isInteger(value);
+      case 'boolean':
+        return typeof value === 'boolean';
+      case 'null':
+        return value === null;
+      default:
+        return true;
+    }
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private isEqual(a: unknown, b: unknown): boolean {
+    return a === b || JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  private pointer(path: string, key: string): string {
+    return `${path}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+  }
+
+  private unescape(segment: string): string {
+    return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+  }
+
+  private describeOptions(options: unknown[]): string {
+    return `one of ${options.map((option) => JSON.stringify(option)).join(', ')}`;
+  }
+
+  private error(
+    path: string,
+    keyword: string,
+    value: unknown,
+    expected: string,
+    message = `expected ${expected}, got ${this.describeValue(value)}`
+  ): SchemaValidationError {
+    return { path, keyword, value, expected, message };
+  }
+
+  private describeValue(value: unknown): string {
+    if (Array.isArray(value)) return `array with ${value.length} item(s)`;
+    if (this.isObject(value)) return 'object';
+    return JSON.stringify(value) ?? String(value);
+  }
+}
+
+/**
+ * Convenience function to validate ELK-BPMN JSON against the bundled schema
+ */
+export function validateElkBpmn(input: unknown): SchemaValidationResult {
+  const validator = new SchemaValidator();
+  return validator.validate(input);
+}
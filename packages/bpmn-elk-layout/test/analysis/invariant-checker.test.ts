@@ -0,0 +1,104 @@
+/**
+ * Unit tests for LayoutInvariantChecker
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LayoutInvariantChecker, LayoutInvariantError } from '../../src/analysis';
+import { BpmnElkLayout } from '../../src/converter';
+import type { ElkBpmnGraph } from '../../src/types';
+import type { LayoutedGraph } from '../../src/types/elk-output';
+
+const fixturesDir = path.join(__dirname, '../fixtures');
+
+function loadFixture(name: string): ElkBpmnGraph {
+  return JSON.parse(fs.readFileSync(path.join(fixturesDir, name), 'utf-8')) as ElkBpmnGraph;
+}
+
+function task(id: string, x: number, y: number) {
+  return { id, x, y, width: 100, height: 80, bpmn: { type: 'task' } };
+}
+
+function flow(id: string, source: string, target: string, start: [number, number], end: [number, number]) {
+  return {
+    id,
+    sources: [source],
+    targets: [target],
+    bpmn: { type: 'sequenceFlow' },
+    sections: [{ id: `${id}_s0`, startPoint: { x: start[0], y: start[1] }, endPoint: { x: end[0], y: end[1] } }],
+  };
+}
+
+function process(children: unknown[], edges: unknown[] = []): LayoutedGraph {
+  return {
+    id: 'definitions',
+    children: [{ id: 'process_1', bpmn: { type: 'process' }, children, edges }],
+  } as unknown as LayoutedGraph;
+}
+
+describe('LayoutInvariantChecker', () => {
+  const checker = new LayoutInvariantChecker();
+
+  it('should find no violations in layouts of simple processes and collaborations', async () => {
+    const converter = new BpmnElkLayout();
+
+    for (const fixture of ['01-simple-process.json', '13-boundary-events-all.json', '27-collaboration-nested-lanes.json']) {
+      const { warnings } = await converter.layoutWithWarnings(loadFixture(fixture));
+      expect(warnings, fixture).toEqual([]);
+    }
+  });
+
+  it('should report nodes outside their lane', () => {
+    const graph = {
+      id: 'definitions',
+      children: [{
+        id: 'collab',
+        bpmn: { type: 'collaboration' },
+        children: [{
+          id: 'pool',
+          x: 0, y: 0, width: 600, height: 200,
+          bpmn: { type: 'participant' },
+          children: [
+            { id: 'lane_a', x: 30, y: 0, width: 570, height: 100, bpmn: { type: 'lane' }, children: [task('inside', 50, 10), task('outside', 50, 150)] },
+            { id: 'lane_b', x: 30, y: 100, width: 570, height: 100, bpmn: { type: 'lane' }, children: [] },
+          ],
+        }],
+      }],
+    } as unknown as LayoutedGraph;
+
+    expect(checker.check(graph)).toEqual([
+      {
+        invariant: 'node-outside-container',
+        elementId: 'outside',
+        message: 'Node "outside" at (80, 150, 100x80) lies outside lane "lane_a" at (30, 0, 570x100)',
+      },
+    ]);
+  });
+
+  it('should report overlapping nodes and detached edge end points', () => {
+    const graph = process(
+      [task('a', 0, 0), task('b', 50, 40), task('c', 300, 0)],
+      [flow('f1', 'a', 'c', [100, 40], [300, 40]), flow('f2', 'b', 'c', [150, 80], [250, 40])]
+    );
+
+    expect(checker.check(graph).map((violation) => [violation.invariant, violation.elementId])).toEqual([
+      ['node-overlap', 'a'],
+      ['edge-endpoint-detached', 'f2'],
+    ]);
+  });
+
+  it('should throw a LayoutInvariantError in strict mode', async () => {
+    const graph = process([task('a', 0, 0), task('b', 50, 40)]) as unknown as ElkBpmnGraph;
+    const converter = new BpmnElkLayout({ layoutMode: 'fixed', strict: true });
+
+    const error = await converter.to_json(graph).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(LayoutInvariantError);
+    expect((error as LayoutInvariantError).violations).toHaveLength(1);
+    expect((error as LayoutInvariantError).message).toContain('Node "a" at (0, 0, 100x80) overlaps node "b"');
+    await expect(new BpmnElkLayout({ layoutMode: 'fixed' }).layoutWithWarnings(graph)).resolves.toMatchObject({
+      warnings: [{ invariant: 'node-overlap' }],
+    });
+  });
+});
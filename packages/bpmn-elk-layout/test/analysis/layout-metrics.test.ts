@@ -0,0 +1,112 @@
+/**
+ * Unit tests for LayoutMetrics
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LayoutMetrics, analyzeLayout } from '../../src/analysis';
+import { BpmnElkLayout } from '../../src/converter';
+import type { ElkBpmnGraph } from '../../src/types';
+import type { LayoutedGraph } from '../../src/types/elk-output';
+
+const fixturesDir = path.join(__dirname, '../fixtures');
+
+function task(id: string, x: number, y: number, extra: Record<string, unknown> = {}) {
+  return { id, x, y, width: 100, height: 80, bpmn: { type: 'task', name: id }, ...extra };
+}
+
+function flow(id: string, source: string, target: string, points: Array<[number, number]>) {
+  const [start, ...rest] = points.map(([x, y]) => ({ x, y }));
+  const end = rest.pop()!;
+  return {
+    id,
+    sources: [source],
+    targets: [target],
+    bpmn: { type: 'sequenceFlow' },
+    sections: [{ id: `${id}_s0`, startPoint: start, endPoint: end, bendPoints: rest }],
+  };
+}
+
+function process(children: unknown[], edges: unknown[]): LayoutedGraph {
+  return {
+    id: 'definitions',
+    children: [{ id: 'process_1', bpmn: { type: 'process' }, children, edges }],
+  } as unknown as LayoutedGraph;
+}
+
+describe('LayoutMetrics', () => {
+  it('should measure a straight chain', () => {
+    const graph = process(
+      [task('a', 0, 0), task('b', 150, 0), task('c', 300, 0)],
+      [flow('f1', 'a', 'b', [[100, 40], [150, 40]]), flow('f2', 'b', 'c', [[250, 40], [300, 40]])]
+    );
+
+    expect(analyzeLayout(graph)).toEqual({
+      nodes: 3,
+      edges: 2,
+      edgeCrossings: 0,
+      bends: 0,
+      edgeLength: { total: 100, average: 50, max: 50 },
+      nodeOverlaps: 0,
+      labelOverlaps: 0,
+      edgesThroughNodes: 0,
+      width: 400,
+      height: 80,
+      area: 32000,
+      aspectRatio: 5,
+      laneCrossings: { total: 0, bySequenceFlow: {} },
+    });
+  });
+
+  it('should count crossings, bends and edges passing through nodes', () => {
+    const graph = process(
+      [task('a', 0, 0), task('b', 0, 200), task('c', 300, 0), task('d', 300, 200), task('e', 150, 100)],
+      [
+        // a -> d and b -> c cross in the middle; a -> d also passes through e
+        flow('f1', 'a', 'd', [[100, 40], [200, 40], [200, 240], [300, 240]]),
+        flow('f2', 'b', 'c', [[100, 240], [130, 240], [130, 20], [300, 20]]),
+      ]
+    );
+
+    const metrics = new LayoutMetrics().compute(graph);
+
+    expect(metrics.bends).toBe(4);
+    expect(metrics.edgeCrossings).toBe(1);
+    expect(metrics.edgesThroughNodes).toBe(1);
+  });
+
+  it('should count overlapping nodes and labels but not nested nodes', () => {
+    const subprocess = {
+      ...task('sub', 400, 0),
+      width: 300,
+      height: 200,
+      bpmn: { type: 'subProcess', isExpanded: true },
+      children: [task('inner', 20, 20)],
+    };
+    const graph = process(
+      [
+        task('a', 0, 0),
+        task('b', 50, 40),
+        task('c', 0, 200, { labels: [{ text: 'c', x: 60, y: -100, width: 40, height: 20 }] }),
+        subprocess,
+      ],
+      []
+    );
+
+    const metrics = analyzeLayout(graph);
+
+    expect(metrics.nodeOverlaps).toBe(1);
+    expect(metrics.labelOverlaps).toBe(1);
+  });
+
+  it('should count lane changes of sequence flows', async () => {
+    const graph = JSON.parse(fs.readFileSync(path.join(fixturesDir, '26-collaboration-lanes.json'), 'utf-8'));
+    const layouted = await new BpmnElkLayout().to_json(graph as ElkBpmnGraph);
+
+    const { laneCrossings } = analyzeLayout(layouted);
+
+    expect(laneCrossings.total).toBe(1);
+    expect(Object.values(laneCrossings.bySequenceFlow)).toEqual([1]);
+  });
+});
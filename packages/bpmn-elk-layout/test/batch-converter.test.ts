@@ -0,0 +1,149 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BatchConverter, formatBatchSummary } from '../src/batch-converter';
+import { BpmnElkLayout } from '../src/converter';
+import type { ElkBpmnGraph } from '../src/types';
+
+const fixturesDir = path.join(__dirname, 'fixtures');
+
+describe('BatchConverter', () => {
+  let directory: string | undefined;
+
+  afterEach(() => {
+    if (directory) {
+      fs.rmSync(directory, { recursive: true, force: true });
+      directory = undefined;
+    }
+  });
+
+  /**
+   * Temporary input directory with the given fixtures (or file contents by name)
+   */
+  function createInputs(files: Record<string, string>): string {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'bpmn-elk-layout-batch-'));
+    for (const [name, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(directory, 'in', name)), { recursive: true });
+      fs.writeFileSync(path.join(directory, 'in', name), content);
+    }
+    return directory;
+  }
+
+  function readFixture(name: string): string {
+    return fs.readFileSync(path.join(fixturesDir, name), 'utf-8');
+  }
+
+  it('should convert all matching files and keep their directory layout', async () => {
+    const dir = createInputs({
+      'simple.json': readFixture('01-simple-process.json'),
+      'pools/lanes.json': readFixture('26-collaboration-lanes.json'),
+    });
+
+    const report = await new BatchConverter({ outDir: path.join(dir, 'out') }).convertAll([path.join(dir, 'in/**/*.json')]);
+
+    expect(report).toMatchObject({ total: 2, succeeded: 2, failed: 0, skipped: 0 });
+    const xml = fs.readFileSync(path.join(dir, 'out/pools/lanes.bpmn'), 'utf-8');
+    const input = JSON.parse(readFixture('26-collaboration-lanes.json')) as ElkBpmnGraph;
+    expect(xml).toBe(await new BpmnElkLayout().to_bpmn(input));
+    expect(fs.existsSync(path.join(dir, 'out/simple.bpmn'))).toBe(true);
+    for (const file of report.files) {
+      expect(file.durationMs).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it('should skip the remaining files after a failure unless continueOnError is set', async () => {
+    const dir = createInputs({
+      'a-invalid.json': '{',
+      'b-simple.json': readFixture('01-simple-process.json'),
+    });
+    const pattern = path.join(dir, 'in/*.json');
+
+    const stopped = await new BatchConverter({ outDir: path.join(dir, 'out') }).convertAll([pattern]);
+    expect(stopped.files.map((file) => file.status)).toEqual(['failure', 'skipped']);
+    expect(stopped.files[0]!.error).toMatch(/^Invalid JSON input/);
+
+    const continued = await new BatchConverter({ outDir: path.join(dir, 'out'), continueOnError: true }).convertAll([pattern]);
+    expect(continued.files.map((file) => file.status)).toEqual(['failure', 'success']);
+    expect(formatBatchSummary(continued)).toContain(`${continued.files[0]!.input}: Invalid JSON input`);
+  });
+
+  it('should fail files of different patterns that map to the same output', async () => {
+    const dir = createInputs({
+      'a/x.json': readFixture('01-simple-process.json'),
+      'b/x.json': readFixture('01-simple-process.json'),
+      'b/y.json': readFixture('01-simple-process.json'),
+    });
+
+    const report = await new BatchConverter({ outDir: path.join(dir, 'out'), continueOnError: true })
+      .convertAll([path.join(dir, 'in/a/*.json'), path.join(dir, 'in/b/*.json')]);
+
+    expect(report.files.map((file) => [path.basename(path.dirname(file.input)), file.status])).toEqual([
+      ['a', 'failure'],
+      ['b', 'failure'],
+      ['b', 'success'],
+    ]);
+    expect(report.files[0]!.error).toBe(
+      `Output ${path.join(dir, 'out/x.bpmn')} would also be written for ${path.join(dir, 'in/b/x.json')}`
+    );
+    expect(fs.existsSync(path.join(dir, 'out/x.bpmn'))).toBe(false);
+  });
+
+  it('should convert files concurrently in workers', async () => {
+    const dir = createInputs({
+      'a.json': readFixture('01-simple-process.json'),
+      'b.json': readFixture('04-all-gateways.json'),
+      'c.json': readFixture('26-collaboration-lanes.json'),
+    });
+    const done: number[] = [];
+
+    const report = await new BatchConverter({
+      outDir: path.join(dir, 'out'),
+      format: 'json',
+      concurrency: 2,
+      timeout: 20_000,
+      onFileDone: (_result, count) => done.push(count),
+    }).convertAll([path.join(dir, 'in')]);
+
+    expect(report.succeeded).toBe(3);
+    expect(done).toEqual([1, 2, 3]);
+    expect(JSON.parse(fs.readFileSync(path.join(dir, 'out/c.json'), 'utf-8'))).toHaveProperty('children');
+  });
+
+  it('should lay out every file once, also without the cache', async () => {
+    const dir = createInputs({
+      'a.json': readFixture('01-simple-process.json'),
+      'b.json': readFixture('26-collaboration-lanes.json'),
+    });
+    const layout = vi.spyOn(BpmnElkLayout.prototype, 'layoutWithWarnings');
+
+    try {
+      const report = await new BatchConverter({ outDir: path.join(dir, 'out'), layout: { cache: false } })
+        .convertAll([path.join(dir, 'in')]);
+
+      expect(report.succeeded).toBe(2);
+      expect(layout).toHaveBeenCalledTimes(2);
+    } finally {
+      layout.mockRestore();
+    }
+  });
+
+  it('should report repairs as warnings', async () => {
+    const graph = JSON.parse(readFixture('01-simple-process.json')) as ElkBpmnGraph;
+    const edge = graph.children![0]!.edges![0]! as unknown as { sources: unknown };
+    edge.sources = (edge.sources as string[])[0];
+    const dir = createInputs({ 'repaired.json': JSON.stringify(graph) });
+
+    const report = await new BatchConverter({ outDir: path.join(dir, 'out'), repair: true }).convertAll([path.join(dir, 'in')]);
+
+    expect(report.succeeded).toBe(1);
+    expect(report.warnings).toBeGreaterThan(0);
+    expect(report.files[0]!.warnings[0]).toMatch(/^Repaired: /);
+  });
+
+  it('should reject patterns that match no files', async () => {
+    const dir = createInputs({});
+
+    await expect(new BatchConverter({ outDir: dir }).convertAll([path.join(dir, 'in/*.json')])).rejects.toThrow('No files match');
+  });
+});
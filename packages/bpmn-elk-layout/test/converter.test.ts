@@ -1,5 +1,10 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
 import { BpmnElkLayout } from '../src/converter';
+import { analyzeLayout } from '../src/analysis';
+import { FontMetricsTextMeasurer } from '../src/text';
+import { MemoryLayoutCacheStore } from '../src/layout/cache';
 import type { ElkBpmnGraph } from '../src/types';
 
 describe('BpmnElkLayout', () => {
@@ -241,5 +246,774 @@ describe('BpmnElkLayout', () => {
       // Just verify it doesn't throw and returns valid structure
       expect(result.children).toHaveLength(1);
     });
+
+    it('should lay out vertical swimlanes for DOWN direction', async () => {
+      const input = {
+        id: 'definitions_1',
+        children: [
+          {
+            id: 'collaboration_1',
+            bpmn: { type: 'collaboration' },
+            children: [
+              {
+                id: 'pool_1',
+                bpmn: { type: 'participant', name: 'Company', processRef: 'process_1' },
+                children: [
+                  {
+                    id: 'lane_1',
+                    bpmn: { type: 'lane', name: 'Sales' },
+                    children: [
+                      { id: 'start_1', bpmn: { type: 'startEvent', eventDefinitionType: 'none' } },
+                      { id: 'task_1', bpmn: { type: 'userTask', name: 'Quote' } },
+                    ],
+                  },
+                  {
+                    id: 'lane_2',
+                    bpmn: { type: 'lane', name: 'Finance' },
+                    children: [
+                      { id: 'task_2', bpmn: { type: 'userTask', name: 'Review' } },
+                      { id: 'end_1', bpmn: { type: 'endEvent', eventDefinitionType: 'none' } },
+                    ],
+                  },
+                ],
+                edges: [
+                  { id: 'flow_1', sources: ['start_1'], targets: ['task_1'], bpmn: { type: 'sequenceFlow' } },
+                  { id: 'flow_2', sources: ['task_1'], targets: ['task_2'], bpmn: { type: 'sequenceFlow' } },
+                  { id: 'flow_3', sources: ['task_2'], targets: ['end_1'], bpmn: { type: 'sequenceFlow' } },
+                ],
+              },
+            ],
+          },
+        ],
+      } as unknown as ElkBpmnGraph;
+
+      const converter = new BpmnElkLayout({ elkOptions: { 'elk.direction': 'DOWN' } });
+      const result = await converter.to_json(input);
+
+      type Box = { x: number; y: number; width: number; height: number; children?: Box[] };
+      const pool = (result.children[0] as unknown as Box).children![0]!;
+      const [sales, finance] = pool.children!;
+
+      // Lanes side by side below the pool header, filling the pool
+      expect(sales!.y).toBe(30);
+      expect(finance!.y).toBe(30);
+      expect(finance!.x).toBe(sales!.x + sales!.width);
+      expect(finance!.x + finance!.width).toBe(pool.width);
+      expect(sales!.height).toBe(pool.height - 30);
+
+      // Flow runs top to bottom inside the lane
+      const [start, task] = sales!.children!;
+      expect(task!.y).toBeGreaterThan(start!.y + start!.height);
+
+      const xml = await converter.to_bpmn(input);
+      expect(xml).toContain('bpmnElement="pool_1" isHorizontal="false"');
+      expect(xml).toContain('bpmnElement="lane_1" isHorizontal="false"');
+    });
+
+    it.each(['RIGHT', 'DOWN'])('should keep pools and message flows inside the collaboration for %s direction', async (direction) => {
+      const input = JSON.parse(
+        fs.readFileSync(path.join(__dirname, 'fixtures/31-cross-pool-patterns.json'), 'utf-8')
+      ) as ElkBpmnGraph;
+
+      const converter = new BpmnElkLayout({ elkOptions: { 'elk.direction': direction } });
+      const result = await converter.to_json(input);
+
+      type Point = { x: number; y: number };
+      type Box = Point & { id: string; width: number; height: number };
+      const collaboration = result.children[0] as unknown as Box & {
+        children: Box[];
+        edges: Array<{ id: string; sections: Array<{ startPoint: Point; endPoint: Point; bendPoints?: Point[] }> }>;
+      };
+      const inside = (point: Point) =>
+        point.x >= 0 && point.x <= collaboration.width && point.y >= 0 && point.y <= collaboration.height;
+
+      expect(collaboration.children.length).toBeGreaterThan(1);
+      for (const pool of collaboration.children) {
+        expect(inside(pool), `${pool.id} starts outside the collaboration`).toBe(true);
+        expect(
+          inside({ x: pool.x + pool.width, y: pool.y + pool.height }),
+          `${pool.id} ends outside the collaboration`
+        ).toBe(true);
+      }
+      for (const edge of collaboration.edges) {
+        for (const section of edge.sections) {
+          for (const point of [section.startPoint, ...(section.bendPoints ?? []), section.endPoint]) {
+            expect(inside(point), `${edge.id} leaves the collaboration at (${point.x}, ${point.y})`).toBe(true);
+          }
+        }
+      }
+    });
+  });
+
+  describe('to_svg', () => {
+    it('should render a layouted SVG image', async () => {
+      const input: ElkBpmnGraph = {
+        id: 'definitions_1',
+        children: [
+          {
+            id: 'process_1',
+            bpmn: { type: 'process' },
+            children: [
+              { id: 'start_1', bpmn: { type: 'startEvent', eventDefinitionType: 'none' } },
+              { id: 'task_1', bpmn: { type: 'userTask', name: 'Review' } },
+            ],
+            edges: [
+              { id: 'flow_1', sources: ['start_1'], targets: ['task_1'], bpmn: { type: 'sequenceFlow' } },
+            ],
+          },
+        ],
+      };
+
+      const converter = new BpmnElkLayout();
+      const svg = await converter.to_svg(input);
+
+      expect(svg).toContain('<svg xmlns="http://www.w3.org/2000/svg"');
+      expect(svg).toContain('data-element-id="start_1"');
+      expect(svg).toContain('data-element-id="flow_1"');
+      expect(svg).toContain('>Review</tspan>');
+    });
+  });
+
+  describe('layouted_to_bpmn and layouted_to_svg', () => {
+    it('should generate the output of a layouted graph without laying it out again', async () => {
+      const input = JSON.parse(
+        fs.readFileSync(path.join(__dirname, 'fixtures/26-collaboration-lanes.json'), 'utf-8')
+      ) as ElkBpmnGraph;
+      const converter = new BpmnElkLayout();
+      const layouted = await converter.to_json(input);
+      const layout = vi.spyOn(converter, 'layoutWithWarnings');
+
+      expect(await converter.layouted_to_bpmn(layouted)).toBe(await new BpmnElkLayout().to_bpmn(input));
+      expect(await converter.layouted_to_svg(layouted, { padding: 5 }))
+        .toBe(await new BpmnElkLayout().to_svg(input, { padding: 5 }));
+      expect(layout).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('relayout', () => {
+    const messyXml = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" xmlns:bpmndi="http://www.omg.org/spec/BPMN/20100524/DI" xmlns:dc="http://www.omg.org/spec/DD/20100524/DC" xmlns:di="http://www.omg.org/spec/DD/20100524/DI" xmlns:camunda="http://camunda.org/schema/1.0/bpmn" xmlns:acme="http://acme.example/bpmn" id="defs_messy" targetNamespace="http://bpmn.io/schema/bpmn">
+  <bpmn:process id="process_1" isExecutable="true" camunda:historyTimeToLive="P30D">
+    <!-- hand-drawn -->
+    <bpmn:startEvent id="start_1" name="Start" />
+    <bpmn:userTask id="task_1" name="Review" camunda:assignee="\${reviewer}" acme:sla="PT4H">
+      <bpmn:extensionElements>
+        <camunda:inputOutput>
+          <camunda:inputParameter name="level">2</camunda:inputParameter>
+        </camunda:inputOutput>
+        <acme:audit enabled="true"/>
+      </bpmn:extensionElements>
+    </bpmn:userTask>
+    <bpmn:endEvent id="end_1" />
+    <bpmn:sequenceFlow id="flow_1" sourceRef="start_1" targetRef="task_1" />
+    <bpmn:sequenceFlow id="flow_2" sourceRef="task_1" targetRef="end_1" />
+  </bpmn:process>
+  <bpmndi:BPMNDiagram id="Diagram_1">
+    <bpmndi:BPMNPlane id="Plane_1" bpmnElement="process_1">
+      <bpmndi:BPMNShape id="start_1_shape" bpmnElement="start_1">
+        <dc:Bounds x="900" y="15" width="36" height="36" />
+      </bpmndi:BPMNShape>
+      <bpmndi:BPMNShape id="task_1_shape" bpmnElement="task_1">
+        <dc:Bounds x="17" y="403" width="100" height="80" />
+      </bpmndi:BPMNShape>
+    </bpmndi:BPMNPlane>
+  </bpmndi:BPMNDiagram>
+</bpmn:definitions>
+`;
+
+    it('should replace the diagram and keep the semantic XML unchanged', async () => {
+      const converter = new BpmnElkLayout();
+      const result = await converter.relayout(messyXml);
+
+      const diagramStart = messyXml.indexOf('  <bpmndi:BPMNDiagram');
+      expect(result.startsWith(messyXml.slice(0, diagramStart))).toBe(true);
+      expect(result.endsWith('</bpmn:definitions>\n')).toBe(true);
+
+      expect(result).not.toContain('task_1_shape');
+      expect(result).toContain('bpmnElement="start_1"');
+      expect(result).toContain('bpmnElement="task_1"');
+      expect(result).toContain('bpmnElement="flow_2"');
+      expect(result).toContain('<di:waypoint');
+    });
+
+    it('should produce a stable layout when run twice', async () => {
+      const converter = new BpmnElkLayout();
+      const once = await converter.relayout(messyXml);
+      const twice = await converter.relayout(once);
+
+      expect(twice).toBe(once);
+    });
+  });
+
+  describe('fixed layout mode', () => {
+    const input: ElkBpmnGraph = {
+      id: 'definitions_fixed',
+      children: [
+        {
+          id: 'process_1',
+          bpmn: { type: 'process', name: 'Fixed' },
+          children: [
+            { id: 'start_1', bpmn: { type: 'startEvent', eventDefinitionType: 'none', name: 'Start' } },
+            { id: 'task_1', bpmn: { type: 'userTask', name: 'Review' } },
+            { id: 'end_1', bpmn: { type: 'endEvent', eventDefinitionType: 'none' } },
+          ],
+          edges: [
+            { id: 'flow_1', sources: ['start_1'], targets: ['task_1'], bpmn: { type: 'sequenceFlow' } },
+            { id: 'flow_2', sources: ['task_1'], targets: ['end_1'], bpmn: { type: 'sequenceFlow' } },
+          ],
+        },
+      ],
+    };
+
+    it('should regenerate the same XML from a saved layout', async () => {
+      const auto = new BpmnElkLayout();
+      const saved = JSON.parse(JSON.stringify(await auto.to_json(input)));
+
+      const fixed = new BpmnElkLayout({ layoutMode: 'fixed' });
+
+      expect(await fixed.to_bpmn(saved)).toBe(await auto.to_bpmn(input));
+    });
+
+    it('should accept the saved layout of every fixture', async () => {
+      const fixturesDir = path.join(__dirname, 'fixtures');
+      const auto = new BpmnElkLayout();
+      const fixed = new BpmnElkLayout({ layoutMode: 'fixed' });
+
+      for (const file of fs.readdirSync(fixturesDir).filter((name) => name.endsWith('.json'))) {
+        const fixture = JSON.parse(fs.readFileSync(path.join(fixturesDir, file), 'utf-8')) as ElkBpmnGraph;
+        const saved = JSON.parse(JSON.stringify(await auto.to_json(fixture)));
+
+        expect(await fixed.to_bpmn(saved), file).toBe(await auto.to_bpmn(fixture));
+      }
+    });
+
+    it('should use edited coordinates as given', async () => {
+      const saved = await new BpmnElkLayout().to_json(input);
+      const task = saved.children[0]!.children![1] as { x: number; y: number };
+      task.x = 500;
+      task.y = 300;
+
+      const xml = await new BpmnElkLayout({ layoutMode: 'fixed' }).to_bpmn(saved);
+
+      expect(xml).toMatch(/<bpmndi:BPMNShape id="task_1_di" bpmnElement="task_1">\s*<dc:Bounds x="500" y="300"/);
+    });
+
+    it('should report missing coordinates', async () => {
+      const fixed = new BpmnElkLayout({ layoutMode: 'fixed' });
+
+      await expect(fixed.to_bpmn(input)).rejects.toThrow(
+        'Fixed layout is missing coordinates for 5 element(s)'
+      );
+    });
+  });
+
+  describe('alignMainFlow', () => {
+    const input: ElkBpmnGraph = {
+      id: 'definitions_happy_path',
+      children: [
+        {
+          id: 'process_1',
+          bpmn: { type: 'process' },
+          children: [
+            { id: 'start_1', bpmn: { type: 'startEvent' } },
+            { id: 'gateway_split', bpmn: { type: 'exclusiveGateway' } },
+            { id: 'task_a', bpmn: { type: 'task', name: 'A' } },
+            { id: 'task_b', bpmn: { type: 'task', name: 'B' } },
+            { id: 'task_happy', bpmn: { type: 'task', name: 'Happy' } },
+            { id: 'gateway_join', bpmn: { type: 'exclusiveGateway' } },
+            { id: 'end_1', bpmn: { type: 'endEvent' } },
+          ],
+          edges: [
+            { id: 'flow_1', sources: ['start_1'], targets: ['gateway_split'], bpmn: { type: 'sequenceFlow', isHappyPath: true } },
+            { id: 'flow_a', sources: ['gateway_split'], targets: ['task_a'], bpmn: { type: 'sequenceFlow' } },
+            { id: 'flow_b', sources: ['gateway_split'], targets: ['task_b'], bpmn: { type: 'sequenceFlow' } },
+            { id: 'flow_happy', sources: ['gateway_split'], targets: ['task_happy'], bpmn: { type: 'sequenceFlow', isHappyPath: true } },
+            { id: 'flow_a_join', sources: ['task_a'], targets: ['gateway_join'], bpmn: { type: 'sequenceFlow' } },
+            { id: 'flow_b_join', sources: ['task_b'], targets: ['gateway_join'], bpmn: { type: 'sequenceFlow' } },
+            { id: 'flow_happy_join', sources: ['task_happy'], targets: ['gateway_join'], bpmn: { type: 'sequenceFlow', isHappyPath: true } },
+            { id: 'flow_end', sources: ['gateway_join'], targets: ['end_1'], bpmn: { type: 'sequenceFlow', isHappyPath: true } },
+          ],
+        },
+      ],
+    };
+
+    const centersY = (graph: Awaited<ReturnType<BpmnElkLayout['to_json']>>, ids: string[]) => {
+      const nodes = graph.children[0]!.children as Array<{ id: string; y: number; height: number }>;
+      return ids.map((id) => nodes.find((node) => node.id === id)!).map((node) => node.y + node.height / 2);
+    };
+
+    it('should put happy-path nodes on one horizontal line', async () => {
+      const happyPath = ['start_1', 'gateway_split', 'task_happy', 'gateway_join', 'end_1'];
+
+      const { graph, warnings } = await new BpmnElkLayout({ alignMainFlow: true }).layoutWithWarnings(input);
+
+      const centers = centersY(graph, happyPath);
+      expect(new Set(centers).size).toBe(1);
+      expect(warnings).toEqual([]);
+
+      const defaultCenters = centersY(await new BpmnElkLayout().to_json(input), happyPath);
+      expect(new Set(defaultCenters).size).toBeGreaterThan(1);
+    });
+
+    it('should move the main flow above boundary event branches without breaking edges', async () => {
+      const fixture = path.join(__dirname, 'fixtures/21-subprocess-variants.json');
+      const graph = JSON.parse(fs.readFileSync(fixture, 'utf-8')) as ElkBpmnGraph;
+
+      const aligned = await new BpmnElkLayout({ alignMainFlow: true }).layoutWithWarnings(graph);
+      const unaligned = await new BpmnElkLayout().to_json(graph);
+
+      const mainFlow = ['start_main', 'subprocess_with_boundary', 'end_main'];
+      centersY(aligned.graph, mainFlow).forEach((center, i) => {
+        expect(center).toBeLessThan(centersY(unaligned, mainFlow)[i]!);
+      });
+      expect(aligned.warnings).toEqual([]);
+    });
+  });
+
+  describe('boundaryBranchLayout', () => {
+    const flow = (id: string, source: string, target: string) =>
+      ({ id, sources: [source], targets: [target], bpmn: { type: 'sequenceFlow' as const } });
+
+    const input: ElkBpmnGraph = {
+      id: 'definitions_branches',
+      children: [
+        {
+          id: 'process_1',
+          bpmn: { type: 'process' },
+          children: [
+            { id: 'start_1', bpmn: { type: 'startEvent' } },
+            {
+              id: 'task_work',
+              bpmn: { type: 'task', name: 'Work' },
+              boundaryEvents: [
+                { id: 'boundary_error', attachedToRef: 'task_work', bpmn: { type: 'boundaryEvent', eventDefinitionType: 'error' } },
+                { id: 'boundary_timer', attachedToRef: 'task_work', bpmn: { type: 'boundaryEvent', eventDefinitionType: 'timer' } },
+              ],
+            },
+            { id: 'task_next', bpmn: { type: 'task', name: 'Next' } },
+            { id: 'end_1', bpmn: { type: 'endEvent' } },
+            { id: 'task_notify', bpmn: { type: 'task', name: 'Notify' } },
+            { id: 'task_compensate', bpmn: { type: 'task', name: 'Compensate' } },
+            { id: 'task_log', bpmn: { type: 'task', name: 'Log' } },
+            { id: 'end_error', bpmn: { type: 'endEvent' } },
+            { id: 'end_logged', bpmn: { type: 'endEvent' } },
+            { id: 'task_escalate', bpmn: { type: 'task', name: 'Escalate' } },
+            { id: 'end_timeout', bpmn: { type: 'endEvent' } },
+          ],
+          edges: [
+            flow('flow_1', 'start_1', 'task_work'),
+            flow('flow_2', 'task_work', 'task_next'),
+            flow('flow_3', 'task_next', 'end_1'),
+            flow('flow_error', 'boundary_error', 'task_notify'),
+            flow('flow_compensate', 'task_notify', 'task_compensate'),
+            flow('flow_log', 'task_notify', 'task_log'),
+            flow('flow_compensated', 'task_compensate', 'end_error'),
+            flow('flow_logged', 'task_log', 'end_logged'),
+            flow('flow_timer', 'boundary_timer', 'task_escalate'),
+            flow('flow_escalated', 'task_escalate', 'end_timeout'),
+          ],
+        },
+      ],
+    };
+
+    const nodeBounds = (graph: Awaited<ReturnType<BpmnElkLayout['to_json']>>) => {
+      const nodes = graph.children[0]!.children as Array<{ id: string; x: number; y: number; width: number; height: number }>;
+      return new Map(nodes.map((node) => [node.id, node]));
+    };
+
+    it('should lay out deep and fan-out branches as trees below their host', async () => {
+      const { graph, warnings } = await new BpmnElkLayout({ boundaryBranchLayout: 'tree' }).layoutWithWarnings(input);
+
+      expect(warnings).toEqual([]);
+      expect(analyzeLayout(graph)).toMatchObject({ nodeOverlaps: 0, edgesThroughNodes: 0, edgeCrossings: 0 });
+
+      const nodes = nodeBounds(graph);
+      const host = nodes.get('task_work')!;
+      const branch = ['task_notify', 'task_compensate', 'task_log', 'end_error', 'end_logged', 'task_escalate', 'end_timeout'];
+      for (const id of branch) {
+        expect(nodes.get(id)!.y, id).toBeGreaterThan(host.y + host.height);
+      }
+
+      // Each branch grows to the right, the fan-out of task_notify spreads downward
+      const centerX = (id: string) => nodes.get(id)!.x + nodes.get(id)!.width / 2;
+      expect(centerX('task_compensate')).toBe(centerX('task_log'));
+      expect(nodes.get('task_compensate')!.x).toBeGreaterThan(nodes.get('task_notify')!.x + nodes.get('task_notify')!.width);
+      expect(nodes.get('task_log')!.y).toBeGreaterThan(nodes.get('task_compensate')!.y + nodes.get('task_compensate')!.height);
+      expect(nodes.get('end_error')!.x).toBeGreaterThan(nodes.get('task_compensate')!.x);
+    });
+
+    it('should keep the heuristic placement by default', async () => {
+      const heuristic = await new BpmnElkLayout().to_json(input);
+      const explicit = await new BpmnElkLayout({ boundaryBranchLayout: 'heuristic' }).to_json(input);
+
+      expect(explicit).toEqual(heuristic);
+    });
+  });
+
+  describe('layout constraints', () => {
+    const flow = (id: string, source: string, target: string) =>
+      ({ id, sources: [source], targets: [target], bpmn: { type: 'sequenceFlow' as const } });
+
+    const input: ElkBpmnGraph = {
+      id: 'definitions_constraints',
+      children: [
+        {
+          id: 'process_1',
+          bpmn: { type: 'process' },
+          children: [
+            { id: 'start_1', bpmn: { type: 'startEvent' } },
+            { id: 'gateway_split', bpmn: { type: 'exclusiveGateway' } },
+            { id: 'task_approve', bpmn: { type: 'task', name: 'Approve' }, layout: { sameLayer: 'task_notify' } },
+            { id: 'task_reject', bpmn: { type: 'task', name: 'Reject' } },
+            { id: 'task_notify', bpmn: { type: 'task', name: 'Notify' } },
+            { id: 'end_approved', bpmn: { type: 'endEvent' } },
+            { id: 'end_rejected', bpmn: { type: 'endEvent' } },
+            { id: 'archive', bpmn: { type: 'dataStoreReference', name: 'Archive' } },
+          ],
+          edges: [
+            flow('flow_1', 'start_1', 'gateway_split'),
+            flow('flow_approve', 'gateway_split', 'task_approve'),
+            flow('flow_reject', 'gateway_split', 'task_reject'),
+            flow('flow_approved', 'task_approve', 'end_approved'),
+            flow('flow_notify', 'task_reject', 'task_notify'),
+            flow('flow_rejected', 'task_notify', 'end_rejected'),
+            { id: 'assoc_archive', sources: ['task_notify'], targets: ['archive'], bpmn: { type: 'dataOutputAssociation' } },
+          ],
+        },
+      ],
+      constraints: [
+        { type: 'rightOf', node: 'archive', reference: 'end_approved', minGap: 50 },
+        { type: 'rightOf', node: 'archive', reference: 'end_rejected', minGap: 50 },
+      ],
+    };
+
+    it('should apply node layout hints and graph constraints after layout', async () => {
+      const { graph, warnings } = await new BpmnElkLayout().layoutWithWarnings(input);
+
+      expect(warnings).toEqual([]);
+      expect(analyzeLayout(graph).nodeOverlaps).toBe(0);
+
+      const nodes = new Map((graph.children[0]!.children as Array<{ id: string; x: number; y: number; width: number }>)
+        .map((node) => [node.id, node]));
+      const centerX = (id: string) => nodes.get(id)!.x + nodes.get(id)!.width / 2;
+      expect(centerX('task_approve')).toBe(centerX('task_notify'));
+
+      // The data store is placed right of every other node
+      const archive = nodes.get('archive')!;
+      for (const [id, node] of nodes) {
+        if (id !== 'archive') {
+          expect(archive.x, id).toBeGreaterThan(node.x + node.width);
+        }
+      }
+    });
+
+    it('should keep the ELK placement without constraints or hints', async () => {
+      const plain = JSON.parse(JSON.stringify(input)) as ElkBpmnGraph;
+      delete plain.constraints;
+      const process = plain.children[0] as { children: Array<{ layout?: unknown }> };
+      for (const node of process.children) {
+        delete node.layout;
+      }
+
+      const { graph } = await new BpmnElkLayout().layoutWithWarnings(plain);
+      const nodes = graph.children[0]!.children as Array<{ id: string; x: number }>;
+
+      expect(nodes.find((node) => node.id === 'task_approve')!.x)
+        .toBeLessThan(nodes.find((node) => node.id === 'task_notify')!.x);
+    });
+  });
+
+  describe('text measurement', () => {
+    const input: ElkBpmnGraph = {
+      id: 'definitions_text',
+      children: [
+        {
+          id: 'process_1',
+          bpmn: { type: 'process' },
+          children: [
+            { id: 'start_1', bpmn: { type: 'startEvent', name: 'Antrag auf Kostenübernahme eingegangen' } },
+            {
+              id: 'task_check',
+              bpmn: {
+                type: 'userTask',
+                name: 'Versicherungsvertragsbedingungen, Leistungsvoraussetzungen und Vorerkrankungen ' +
+                  'des Antragstellers prüfen und die Entscheidung im Bestandssystem dokumentieren',
+              },
+            },
+            { id: 'end_1', bpmn: { type: 'endEvent', name: '审批完成' } },
+          ],
+          edges: [
+            { id: 'flow_1', sources: ['start_1'], targets: ['task_check'] },
+            { id: 'flow_2', sources: ['task_check'], targets: ['end_1'] },
+          ],
+        },
+      ],
+    };
+
+    it('should size tasks and external labels to their text', async () => {
+      const converter = new BpmnElkLayout({ textMeasurer: new FontMetricsTextMeasurer() });
+      const xml = await converter.to_bpmn(input);
+
+      const bounds = (id: string) => {
+        const shape = xml.match(new RegExp(`<bpmndi:BPMNShape id="${id}_di"[^]*?</bpmndi:BPMNShape>`))![0];
+        return [...shape.matchAll(/width="([\d.]+)" height="([\d.]+)"/g)]
+          .map((match) => ({ width: Number(match[1]), height: Number(match[2]) }));
+      };
+
+      // The task grows to the maximum width and then in height
+      expect(bounds('task_check')[0]).toEqual({ width: 200, height: 100 });
+      // Event labels wrap at the longest word and get one line height per line
+      expect(bounds('start_1')[1]).toEqual({ width: 99, height: 44 });
+      expect(bounds('end_1')[1]).toEqual({ width: 48, height: 15 });
+    });
+
+    it('should keep the name length heuristics without a text measurer', async () => {
+      const xml = await new BpmnElkLayout().to_bpmn(input);
+
+      expect(xml).toMatch(/<bpmndi:BPMNShape id="task_check_di"[^]*?width="150" height="80"/);
+    });
+  });
+
+  describe('element sizes', () => {
+    const input: ElkBpmnGraph = {
+      id: 'definitions_sizes',
+      children: [
+        {
+          id: 'process_1',
+          bpmn: { type: 'process' },
+          children: [
+            { id: 'start_1', bpmn: { type: 'startEvent', name: 'Order received' } },
+            {
+              id: 'task_review',
+              bpmn: { type: 'userTask', name: 'Review order' },
+              boundaryEvents: [
+                { id: 'boundary_timeout', attachedToRef: 'task_review', bpmn: { type: 'boundaryEvent', eventDefinitionType: 'timer' } },
+              ],
+            },
+            {
+              id: 'task_ship',
+              bpmn: { type: 'serviceTask', name: 'Ship', ioSpecification: { dataInputs: [{ id: 'input_order', name: 'Order' }] } },
+            },
+            { id: 'end_1', bpmn: { type: 'endEvent', name: 'Done' } },
+            { id: 'end_timeout', bpmn: { type: 'endEvent' } },
+          ],
+          edges: [
+            { id: 'flow_1', sources: ['start_1'], targets: ['task_review'] },
+            { id: 'flow_2', sources: ['task_review'], targets: ['task_ship'] },
+            { id: 'flow_3', sources: ['task_ship'], targets: ['end_1'] },
+            { id: 'flow_4', sources: ['boundary_timeout'], targets: ['end_timeout'] },
+          ],
+        },
+      ],
+    } as ElkBpmnGraph;
+
+    const event = { width: 40, height: 40 };
+    const converter = new BpmnElkLayout({
+      sizes: {
+        types: {
+          userTask: { width: 120, height: 60 },
+          startEvent: event,
+          endEvent: event,
+          boundaryEvent: event,
+          dataInput: { width: 30, height: 40 },
+        },
+        getSize: (node) => (node.id === 'task_ship' ? { width: 160 } : undefined),
+      },
+    });
+
+    const bounds = (xml: string, id: string) => {
+      const shape = xml.match(new RegExp(`<bpmndi:BPMNShape id="${id}_di"[^]*?</bpmndi:BPMNShape>`))![0];
+      return [...shape.matchAll(/x="([-\d.]+)" y="([-\d.]+)" width="([\d.]+)" height="([\d.]+)"/g)]
+        .map((match) => ({ x: Number(match[1]), y: Number(match[2]), width: Number(match[3]), height: Number(match[4]) }));
+    };
+
+    it('should size nodes by type and by the size callback', async () => {
+      const xml = await converter.to_bpmn(input);
+
+      expect(bounds(xml, 'task_review')[0]).toMatchObject({ width: 120, height: 60 });
+      expect(bounds(xml, 'task_ship')[0]).toMatchObject({ width: 160, height: 80 });
+      expect(bounds(xml, 'start_1')[0]).toMatchObject({ width: 40, height: 40 });
+      expect(bounds(xml, 'end_timeout')[0]).toMatchObject({ width: 40, height: 40 });
+    });
+
+    it('should place boundary events, labels and data inputs around the resized nodes', async () => {
+      const { warnings } = await converter.layoutWithWarnings(input);
+      const xml = await converter.to_bpmn(input);
+
+      expect(warnings).toEqual([]);
+      const [task] = bounds(xml, 'task_review');
+      const [boundary] = bounds(xml, 'boundary_timeout');
+      expect(boundary).toEqual({ x: task!.x + 40, y: task!.y + 40, width: 40, height: 40 });
+      expect(xml).toMatch(new RegExp(`<di:waypoint x="${boundary!.x + 20}" y="${boundary!.y + 40}" />`));
+
+      const [start, startLabel] = bounds(xml, 'start_1');
+      expect(startLabel!.y).toBe(start!.y + 40 + 4);
+      expect(startLabel!.x + startLabel!.width / 2).toBe(start!.x + 20);
+
+      const [ship] = bounds(xml, 'task_ship');
+      const [dataInput, dataInputLabel] = bounds(xml, 'input_order');
+      expect(dataInput).toEqual({ x: ship!.x, y: ship!.y + 80 + 20, width: 30, height: 40 });
+      expect(dataInputLabel!.y).toBe(dataInput!.y + 40 + 4);
+    });
+
+    it('should use the participant size for black box pools', async () => {
+      const collaboration = JSON.parse(
+        fs.readFileSync(path.join(__dirname, 'fixtures/25-collaboration-black-box.json'), 'utf-8')
+      ) as ElkBpmnGraph;
+
+      const xml = await new BpmnElkLayout({ sizes: { types: { participant: { height: 90 } } } }).to_bpmn(collaboration);
+
+      expect(bounds(xml, 'pool_external')[0]).toMatchObject({ height: 90 });
+    });
+  });
+
+  describe('layout themes', () => {
+    const input = JSON.parse(
+      fs.readFileSync(path.join(__dirname, 'fixtures/26-collaboration-lanes.json'), 'utf-8')
+    ) as ElkBpmnGraph;
+
+    it('should make compact layouts smaller and presentation layouts larger', async () => {
+      const area = async (theme: 'compact' | 'default' | 'presentation') =>
+        analyzeLayout(await new BpmnElkLayout({ theme }).to_json(input)).area;
+
+      const [compact, standard, presentation] = await Promise.all([area('compact'), area('default'), area('presentation')]);
+
+      expect(compact).toBeLessThan(standard);
+      expect(presentation).toBeGreaterThan(standard);
+    });
+
+    it('should lay out lanes with the theme dimensions', async () => {
+      const { graph, warnings } = await new BpmnElkLayout({
+        theme: { extends: 'compact', lane: { headerWidth: 40 } },
+      }).layoutWithWarnings(input);
+
+      expect(warnings).toEqual([]);
+      const pool = graph.children[0]!.children![0] as { children: Array<{ x: number; bpmn: { type: string } }> };
+      const lanes = pool.children.filter((child) => child.bpmn.type === 'lane');
+      expect(lanes.length).toBeGreaterThan(0);
+      expect(lanes.every((lane) => lane.x === 40)).toBe(true);
+    });
+  });
+
+  describe('grid snapping', () => {
+    const input = JSON.parse(
+      fs.readFileSync(path.join(__dirname, 'fixtures/04-all-gateways.json'), 'utf-8')
+    ) as ElkBpmnGraph;
+
+    it('should snap shapes and waypoints to the grid', async () => {
+      const xml = await new BpmnElkLayout({ snapToGrid: 20 }).to_bpmn(input);
+
+      const shapes = [...xml.matchAll(/<bpmndi:BPMNShape [^]*?<dc:Bounds x="([-\d.]+)" y="([-\d.]+)" width="([\d.]+)" height="([\d.]+)"/g)]
+        .map((match) => match.slice(1).map(Number) as [number, number, number, number]);
+      expect(shapes.length).toBeGreaterThan(0);
+      for (const [x, y, width, height] of shapes) {
+        expect((x + width / 2) % 20).toBe(0);
+        expect((y + height / 2) % 20).toBe(0);
+      }
+
+      const edges = [...xml.matchAll(/<bpmndi:BPMNEdge [^]*?<\/bpmndi:BPMNEdge>/g)].map((match) =>
+        [...match[0].matchAll(/<di:waypoint x="([-\d.]+)" y="([-\d.]+)" \/>/g)].map((point) => ({ x: Number(point[1]), y: Number(point[2]) }))
+      );
+      expect(edges.length).toBeGreaterThan(0);
+      for (const waypoints of edges) {
+        for (let i = 1; i < waypoints.length; i++) {
+          const [prev, point] = [waypoints[i - 1]!, waypoints[i]!];
+          expect(point.x === prev.x || point.y === prev.y).toBe(true);
+        }
+      }
+    });
+  });
+
+  describe('layout cache', () => {
+    /**
+     * Memory store that records the keys of cache hits
+     */
+    function createStore() {
+      const store = new MemoryLayoutCacheStore();
+      const hits: string[] = [];
+      return {
+        hits,
+        get: (key: string) => {
+          const value = store.get(key);
+          if (value !== undefined) hits.push(key);
+          return value;
+        },
+        set: (key: string, value: unknown) => store.set(key, value),
+      };
+    }
+
+    it('should reuse the layout of an unchanged graph', async () => {
+      const input = JSON.parse(
+        fs.readFileSync(path.join(__dirname, 'fixtures/26-collaboration-lanes.json'), 'utf-8')
+      ) as ElkBpmnGraph;
+      const store = createStore();
+      const converter = new BpmnElkLayout({ cache: store });
+
+      const first = await converter.to_bpmn(input);
+      const second = await converter.to_bpmn(JSON.parse(JSON.stringify(input)) as ElkBpmnGraph);
+
+      expect(second).toBe(first);
+      expect(store.hits).toHaveLength(1);
+      expect(store.hits[0]).toMatch(/^layout-/);
+    });
+
+    it('should reuse unchanged SEPARATE_CHILDREN pools when another pool changes', async () => {
+      const input = JSON.parse(
+        fs.readFileSync(path.join(__dirname, 'fixtures/24-collaboration-simple.json'), 'utf-8')
+      ) as ElkBpmnGraph;
+      // Pools without message flows between them are laid out independently
+      const collaboration = input.children![0]!;
+      collaboration.edges = [];
+      for (const pool of collaboration.children!) {
+        pool.layoutOptions = { ...pool.layoutOptions, 'elk.hierarchyHandling': 'SEPARATE_CHILDREN' };
+      }
+      const store = createStore();
+      const converter = new BpmnElkLayout({ cache: store });
+      await converter.to_json(input);
+
+      const changed = JSON.parse(JSON.stringify(input)) as ElkBpmnGraph;
+      changed.children![0]!.children![1]!.bpmn!.name = 'Renamed pool';
+      const cached = await converter.to_json(changed);
+
+      expect(store.hits).toHaveLength(1);
+      expect(store.hits[0]).toMatch(/^subgraph-/);
+      expect(cached).toEqual(await new BpmnElkLayout().to_json(changed));
+    });
+  });
+
+  describe('worker and cancellation', () => {
+    const input = JSON.parse(
+      fs.readFileSync(path.join(__dirname, 'fixtures/26-collaboration-lanes.json'), 'utf-8')
+    ) as ElkBpmnGraph;
+
+    it('should produce the same BPMN XML in a worker', async () => {
+      const converter = new BpmnElkLayout({ worker: true });
+      try {
+        const [inWorker, onThread] = await Promise.all([
+          converter.to_bpmn(input, { timeout: 20_000 }),
+          new BpmnElkLayout().to_bpmn(input),
+        ]);
+
+        expect(inWorker).toBe(onThread);
+      } finally {
+        converter.terminate();
+      }
+    });
+
+    it('should reject with a TimeoutError when the layout takes too long', async () => {
+      const converter = new BpmnElkLayout({ worker: true });
+      try {
+        await expect(converter.to_json(input, { timeout: 1 })).rejects.toMatchObject({ name: 'TimeoutError' });
+      } finally {
+        converter.terminate();
+      }
+    });
+
+    it('should reject with the reason of an aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort(new Error('input changed'));
+
+      await expect(new BpmnElkLayout().to_bpmn(input, { signal: controller.signal })).rejects.toThrow('input changed');
+    });
   });
 });
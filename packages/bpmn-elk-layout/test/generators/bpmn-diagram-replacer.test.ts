@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import BpmnModdle from 'bpmn-moddle';
+import { BpmnDiagramReplacer } from '../../src/generators';
+
+const DIAGRAM_FRAGMENT = `<bpmndi:BPMNDiagram xmlns:bpmndi="http://www.omg.org/spec/BPMN/20100524/DI" xmlns:dc="http://www.omg.org/spec/DD/20100524/DC" id="NewDiagram">
+  <bpmndi:BPMNPlane id="NewPlane" bpmnElement="process_1">
+    <bpmndi:BPMNShape id="start_1_di" bpmnElement="start_1">
+      <dc:Bounds x="10" y="20" width="36" height="36" />
+    </bpmndi:BPMNShape>
+  </bpmndi:BPMNPlane>
+</bpmndi:BPMNDiagram>`;
+
+const SEMANTICS = `  <bpmn:process id="process_1" custom:owner="ops">
+    <bpmn:extensionElements>
+      <custom:config retries="3" />
+    </bpmn:extensionElements>
+    <bpmn:startEvent id="start_1" />
+    <bpmn:subProcess id="sub_1" />
+  </bpmn:process>`;
+
+async function parse(xml: string) {
+  const { rootElement } = await new BpmnModdle().fromXML(xml, 'bpmn:Definitions');
+  return rootElement;
+}
+
+describe('BpmnDiagramReplacer', () => {
+  const replacer = new BpmnDiagramReplacer();
+
+  it('should replace the main diagram and keep everything else byte-for-byte', async () => {
+    const source = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" xmlns:bpmndi="http://www.omg.org/spec/BPMN/20100524/DI" xmlns:dc="http://www.omg.org/spec/DD/20100524/DC" xmlns:custom="http://example.com/custom" id="defs_1">
+${SEMANTICS}
+  <bpmndi:BPMNDiagram id="OldDiagram">
+    <bpmndi:BPMNPlane id="OldPlane" bpmnElement="process_1">
+      <bpmndi:BPMNShape id="old_shape" bpmnElement="start_1">
+        <dc:Bounds x="999" y="999" width="36" height="36" />
+      </bpmndi:BPMNShape>
+    </bpmndi:BPMNPlane>
+  </bpmndi:BPMNDiagram>
+</bpmn:definitions>
+`;
+
+    const result = replacer.replace(source, await parse(source), DIAGRAM_FRAGMENT);
+
+    expect(result).toBe(`<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" xmlns:bpmndi="http://www.omg.org/spec/BPMN/20100524/DI" xmlns:dc="http://www.omg.org/spec/DD/20100524/DC" xmlns:custom="http://example.com/custom" id="defs_1">
+${SEMANTICS}
+  <bpmndi:BPMNDiagram id="NewDiagram">
+    <bpmndi:BPMNPlane id="NewPlane" bpmnElement="process_1">
+      <bpmndi:BPMNShape id="start_1_di" bpmnElement="start_1">
+        <dc:Bounds x="10" y="20" width="36" height="36" />
+      </bpmndi:BPMNShape>
+    </bpmndi:BPMNPlane>
+  </bpmndi:BPMNDiagram>
+</bpmn:definitions>
+`);
+  });
+
+  it('should keep drill-down diagrams of subprocesses', async () => {
+    const source = `<?xml version="1.0" encoding="UTF-8"?>
+<definitions xmlns="http://www.omg.org/spec/BPMN/20100524/MODEL" xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" xmlns:di="http://www.omg.org/spec/BPMN/20100524/DI" xmlns:custom="http://example.com/custom" id="defs_1">
+${SEMANTICS}
+  <di:BPMNDiagram id="OldDiagram">
+    <di:BPMNPlane id="OldPlane" bpmnElement="process_1" />
+  </di:BPMNDiagram>
+  <di:BPMNDiagram id="SubDiagram">
+    <di:BPMNPlane id="SubPlane" bpmnElement="sub_1" />
+  </di:BPMNDiagram>
+</definitions>
+`;
+
+    const result = replacer.replace(source, await parse(source), DIAGRAM_FRAGMENT);
+
+    expect(result).not.toContain('OldDiagram');
+    expect(result).toContain('<di:BPMNDiagram id="SubDiagram">');
+    // DI prefix differs from the source, so the fragment declares its own namespaces
+    expect(result).toContain('<bpmndi:BPMNDiagram xmlns:bpmndi="http://www.omg.org/spec/BPMN/20100524/DI" xmlns:dc="http://www.omg.org/spec/DD/20100524/DC" id="NewDiagram">');
+    expect(result.indexOf('NewDiagram')).toBeLessThan(result.indexOf('SubDiagram'));
+  });
+
+  it('should append a diagram when the source has none', async () => {
+    const source = `<?xml version="1.0" encoding="UTF-8"?>\r
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" xmlns:custom="http://example.com/custom" id="defs_1">\r
+    <bpmn:process id="process_1">\r
+        <bpmn:startEvent id="start_1" />\r
+    </bpmn:process>\r
+</bpmn:definitions>\r
+`;
+
+    const result = replacer.replace(source, await parse(source), DIAGRAM_FRAGMENT);
+    const lines = result.split('\r\n');
+
+    expect(lines.slice(0, 5).join('\r\n')).toBe(source.split('\r\n').slice(0, 5).join('\r\n'));
+    expect(lines[5]).toMatch(/^ {4}<bpmndi:BPMNDiagram /);
+    expect(lines[6]).toBe('      <bpmndi:BPMNPlane id="NewPlane" bpmnElement="process_1">');
+    expect(lines[lines.length - 2]).toBe('</bpmn:definitions>');
+  });
+});
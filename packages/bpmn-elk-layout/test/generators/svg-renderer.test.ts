@@ -0,0 +1,113 @@
+/**
+ * Unit tests for SvgRenderer
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SvgRenderer } from '../../src/generators';
+import { ElkLayouter } from '../../src/layout/elk-layouter';
+import { ModelBuilder } from '../../src/transform';
+import type { ElkBpmnGraph } from '../../src/types';
+
+function loadFixture(name: string): ElkBpmnGraph {
+  const file = path.join(__dirname, '../fixtures', name);
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as ElkBpmnGraph;
+}
+
+/**
+ * Get the markup drawn for one diagram element
+ */
+function elementMarkup(svg: string, id: string): string {
+  const match = svg.match(new RegExp(`<g data-element-id="${id}">(.*?)</g>(?=<g data-element-id=|</g>)`));
+  return match?.[1] ?? '';
+}
+
+describe('SvgRenderer', () => {
+  const layouter = new ElkLayouter();
+  const renderer = new SvgRenderer();
+
+  it('should render a standalone SVG sized to the diagram', async () => {
+    const layouted = await layouter.layout(loadFixture('01-simple-process.json'));
+    const svg = renderer.render(layouted);
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+    expect(svg.trim().endsWith('</svg>')).toBe(true);
+
+    const [, width, height, viewBox] = svg.match(/width="([\d.]+)" height="([\d.]+)" viewBox="([^"]+)"/)!;
+    const [, , viewWidth, viewHeight] = viewBox!.split(' ');
+    expect(viewWidth).toBe(width);
+    expect(viewHeight).toBe(height);
+    expect(Number(width)).toBeGreaterThan(300);
+  });
+
+  it('should render the same image from a layouted graph and a BPMN model', async () => {
+    const layouted = await layouter.layout(loadFixture('04-all-gateways.json'));
+    const model = new ModelBuilder().build(layouted);
+
+    expect(renderer.render(model)).toBe(renderer.render(layouted));
+  });
+
+  it('should draw event rings and definition markers', async () => {
+    const svg = renderer.render(await layouter.layout(loadFixture('03-all-events.json')));
+
+    expect(elementMarkup(svg, 'start_none')).toContain('stroke-width="2"');
+    expect(elementMarkup(svg, 'end_none')).toContain('stroke-width="4"');
+    // Intermediate events have a double ring
+    expect(elementMarkup(svg, 'catch_timer').match(/<circle/g)!.length).toBeGreaterThanOrEqual(3);
+    // Throw markers are filled, catch markers are not
+    expect(elementMarkup(svg, 'throw_message')).toContain('<rect x="-9" y="-6.5" width="18" height="13" fill="#000000"');
+    expect(elementMarkup(svg, 'catch_message')).toContain('<rect x="-9" y="-6.5" width="18" height="13" fill="#ffffff"');
+    expect(elementMarkup(svg, 'end_terminate')).toContain('r="11" fill="#000000"');
+  });
+
+  it('should draw task icons, gateway markers and loop markers', async () => {
+    const tasks = renderer.render(await layouter.layout(loadFixture('02-all-tasks.json')));
+    expect(elementMarkup(tasks, 'task_user')).toContain('<circle cx="15" cy="12" r="4"');
+    expect(elementMarkup(tasks, 'task_send')).toContain('fill="#000000"');
+    expect(elementMarkup(tasks, 'task_generic')).not.toContain('translate');
+
+    const gateways = renderer.render(await layouter.layout(loadFixture('04-all-gateways.json')));
+    expect(elementMarkup(gateways, 'gateway_exclusive_div')).toContain('<polygon points="-8,-11');
+    expect(elementMarkup(gateways, 'gateway_inclusive_div')).toContain('stroke-width="2.5"');
+    expect(elementMarkup(gateways, 'flow_exclusive_default')).toContain('marker-start="url(#bpmn-default-flow-start)"');
+
+    const loops = renderer.render(await layouter.layout(loadFixture('09-multiinstance-tasks.json')));
+    expect(loops).toContain('M 2 1 L 2 13 M 7 1 L 7 13 M 12 1 L 12 13');
+    expect(loops).toContain('M 1 2 L 13 2 M 1 7 L 13 7 M 1 12 L 13 12');
+  });
+
+  it('should draw pools and lanes with rotated headers and message flows', async () => {
+    const lanes = renderer.render(await layouter.layout(loadFixture('26-collaboration-lanes.json')));
+    expect(elementMarkup(lanes, 'pool_company')).toContain('<line');
+    expect(lanes).toMatch(/<g transform="rotate\(-90 [\d.]+ [\d.]+\)"><text text-anchor="middle"><tspan[^>]*>公司</);
+
+    const messages = renderer.render(await layouter.layout(loadFixture('24-collaboration-simple.json')));
+    expect(messages).toContain('marker-start="url(#bpmn-messageflow-start)" marker-end="url(#bpmn-messageflow-end)"');
+  });
+
+  it('should skip shapes without a semantic element and escape text', async () => {
+    const graph = loadFixture('01-simple-process.json');
+    const task = (graph.children[0] as { children: Array<{ bpmn: { name?: string } }> }).children[1]!;
+    task.bpmn.name = 'Check <price> & "terms"';
+
+    const svg = renderer.render(await layouter.layout(graph));
+
+    expect(svg).not.toContain('data-element-id="process_simple"');
+    expect(svg).toContain('&lt;price&gt;');
+    expect(svg).toContain('&amp;');
+    expect(svg).toContain('&quot;terms&quot;');
+  });
+
+  it('should fill the view box with the background color', async () => {
+    const layouted = await layouter.layout(loadFixture('01-simple-process.json'));
+
+    const transparent = renderer.render(layouted);
+    expect(transparent).not.toMatch(/<\/defs>\s*<rect/);
+
+    const svg = new SvgRenderer({ background: '#f5f5f5' }).render(layouted);
+    const [, viewBox] = svg.match(/viewBox="([^"]+)"/)!;
+    const [x, y, width, height] = viewBox!.split(' ');
+    expect(svg).toContain(`</defs>\n<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="#f5f5f5"/>`);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for ImageRenderer and the output format resolution,
+ * with a stubbed Playwright browser
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ImageRenderer, resolveImageFormat } from '../src/image-renderer';
+
+const page = {
+  setContent: vi.fn(async () => {}),
+  screenshot: vi.fn(async () => Buffer.from('png')),
+  pdf: vi.fn(async () => Buffer.from('pdf')),
+};
+const browser = {
+  newPage: vi.fn(async () => page),
+  close: vi.fn(async () => {}),
+};
+
+vi.mock('playwright', () => ({
+  chromium: { launch: vi.fn(async () => browser) },
+}));
+
+const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="200.5" height="100"><rect/></svg>';
+
+describe('ImageRenderer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should render PNG screenshots of the SVG size at the scale', async () => {
+    const result = await new ImageRenderer({ scale: 2 }).render(svg, 'png');
+
+    expect(result.toString()).toBe('png');
+    expect(browser.newPage).toHaveBeenCalledWith({
+      viewport: { width: 201, height: 100 },
+      deviceScaleFactor: 2,
+    });
+    expect(page.setContent).toHaveBeenCalledWith(expect.stringContaining(svg));
+    expect(page.screenshot).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'png',
+      clip: { x: 0, y: 0, width: 200.5, height: 100 },
+    }));
+    expect(browser.close).toHaveBeenCalled();
+  });
+
+  it('should render PDF pages fitted to the scaled diagram', async () => {
+    const result = await new ImageRenderer({ scale: 2 }).render(svg, 'pdf');
+
+    expect(result.toString()).toBe('pdf');
+    expect(page.pdf).toHaveBeenCalledWith(expect.objectContaining({ width: '401px', height: '200px' }));
+  });
+
+  it('should render PDF pages of the given page size', async () => {
+    await new ImageRenderer({ pageSize: 'A4', landscape: true }).render(svg, 'pdf');
+
+    expect(page.pdf).toHaveBeenCalledWith(expect.objectContaining({ format: 'A4', landscape: true }));
+  });
+
+  it('should close the browser when rendering fails', async () => {
+    page.screenshot.mockRejectedValueOnce(new Error('crashed'));
+
+    await expect(new ImageRenderer().render(svg, 'png')).rejects.toThrow('crashed');
+    expect(browser.close).toHaveBeenCalled();
+  });
+
+  it('should reject SVG without numeric size', async () => {
+    await expect(new ImageRenderer().render('<svg width="100%"></svg>', 'png'))
+      .rejects.toThrow('numeric width and height');
+  });
+
+  it('should reject invalid scales', () => {
+    expect(() => new ImageRenderer({ scale: 0 })).toThrow('Invalid scale');
+  });
+});
+
+describe('resolveImageFormat', () => {
+  it('should infer the format from the output extension', () => {
+    expect(resolveImageFormat(undefined, 'out.png')).toBe('png');
+    expect(resolveImageFormat(undefined, 'out.PDF')).toBe('pdf');
+    expect(resolveImageFormat(undefined, 'out.svg')).toBe('svg');
+  });
+
+  it('should default to SVG without a format or an extension', () => {
+    expect(resolveImageFormat()).toBe('svg');
+    expect(resolveImageFormat(undefined, 'diagram')).toBe('svg');
+  });
+
+  it('should prefer the explicit format over the extension', () => {
+    expect(resolveImageFormat('pdf', 'out.png')).toBe('pdf');
+  });
+
+  it('should reject unsupported formats and extensions', () => {
+    expect(() => resolveImageFormat('jpg')).toThrow('Unsupported format: jpg (expected svg, png or pdf)');
+    expect(() => resolveImageFormat(undefined, 'out.jpg')).toThrow('Unsupported format: jpg');
+  });
+});
@@ -0,0 +1,338 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { BpmnXmlImporter } from '../../src/importers';
+import { BpmnElkLayout } from '../../src/converter';
+import type { ElkBpmnGraph, Collaboration, Process, Participant, Lane, FlowNode } from '../../src/types';
+
+const fixturesDir = join(__dirname, '..', 'fixtures');
+
+function loadFixture(name: string): ElkBpmnGraph {
+  return JSON.parse(readFileSync(join(fixturesDir, name), 'utf-8')) as ElkBpmnGraph;
+}
+
+/**
+ * Collect ids of all semantic elements (everything outside BPMNDiagram)
+ */
+function semanticIds(xml: string): string[] {
+  const semantic = xml.replace(/<bpmndi:BPMNDiagram[\s\S]*<\/bpmndi:BPMNDiagram>/, '');
+  return [...semantic.matchAll(/\sid="([^"]+)"/g)].map((m) => m[1]!).sort();
+}
+
+const COLLABORATION_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL"
+  xmlns:bpmndi="http://www.omg.org/spec/BPMN/20100524/DI"
+  xmlns:dc="http://www.omg.org/spec/DD/20100524/DC"
+  id="defs_1" targetNamespace="http://example.com/bpmn">
+  <bpmn:message id="msg_order" name="Order" />
+  <bpmn:error id="err_payment" name="Payment Failed" errorCode="E42" />
+  <bpmn:collaboration id="collab_1">
+    <bpmn:participant id="pool_shop" name="Shop" processRef="process_shop" />
+    <bpmn:participant id="pool_customer" name="Customer" />
+    <bpmn:messageFlow id="mf_1" sourceRef="pool_customer" targetRef="start_1" messageRef="msg_order" />
+  </bpmn:collaboration>
+  <bpmn:process id="process_shop" isExecutable="true">
+    <bpmn:laneSet id="laneset_1">
+      <bpmn:lane id="lane_sales" name="Sales">
+        <bpmn:flowNodeRef>start_1</bpmn:flowNodeRef>
+        <bpmn:flowNodeRef>task_charge</bpmn:flowNodeRef>
+        <bpmn:flowNodeRef>boundary_error</bpmn:flowNodeRef>
+      </bpmn:lane>
+      <bpmn:lane id="lane_ops" name="Operations">
+        <bpmn:flowNodeRef>gw_1</bpmn:flowNodeRef>
+        <bpmn:flowNodeRef>end_ok</bpmn:flowNodeRef>
+        <bpmn:flowNodeRef>end_fail</bpmn:flowNodeRef>
+        <bpmn:childLaneSet id="laneset_ops">
+          <bpmn:lane id="lane_shipping" name="Shipping">
+            <bpmn:flowNodeRef>end_ok</bpmn:flowNodeRef>
+          </bpmn:lane>
+        </bpmn:childLaneSet>
+      </bpmn:lane>
+    </bpmn:laneSet>
+    <bpmn:startEvent id="start_1" name="Order received">
+      <bpmn:messageEventDefinition messageRef="msg_order" />
+    </bpmn:startEvent>
+    <bpmn:serviceTask id="task_charge" name="Charge card">
+      <bpmn:dataInputAssociation id="dia_1">
+        <bpmn:sourceRef>data_order</bpmn:sourceRef>
+      </bpmn:dataInputAssociation>
+    </bpmn:serviceTask>
+    <bpmn:boundaryEvent id="boundary_error" attachedToRef="task_charge" cancelActivity="false">
+      <bpmn:errorEventDefinition errorRef="err_payment" />
+    </bpmn:boundaryEvent>
+    <bpmn:exclusiveGateway id="gw_1" default="flow_ok" />
+    <bpmn:endEvent id="end_ok" />
+    <bpmn:endEvent id="end_fail" />
+    <bpmn:dataObjectReference id="data_order" name="Order" dataObjectRef="data_object_order" />
+    <bpmn:dataObject id="data_object_order" />
+    <bpmn:sequenceFlow id="flow_1" sourceRef="start_1" targetRef="task_charge" />
+    <bpmn:sequenceFlow id="flow_2" sourceRef="task_charge" targetRef="gw_1" />
+    <bpmn:sequenceFlow id="flow_ok" sourceRef="gw_1" targetRef="end_ok" />
+    <bpmn:sequenceFlow id="flow_fail" name="declined" sourceRef="gw_1" targetRef="end_fail">
+      <bpmn:conditionExpression>\${!paid}</bpmn:conditionExpression>
+    </bpmn:sequenceFlow>
+    <bpmn:sequenceFlow id="flow_3" sourceRef="boundary_error" targetRef="end_fail" />
+    <bpmn:textAnnotation id="note_1"><bpmn:text>Check fraud rules</bpmn:text></bpmn:textAnnotation>
+    <bpmn:association id="assoc_1" sourceRef="note_1" targetRef="task_charge" />
+  </bpmn:process>
+</bpmn:definitions>`;
+
+describe('BpmnXmlImporter', () => {
+  const importer = new BpmnXmlImporter();
+
+  it('should import collaboration, participants and message flows', async () => {
+    const graph = await importer.import(COLLABORATION_XML);
+
+    expect(graph.id).toBe('defs_1');
+    expect(graph.bpmn?.targetNamespace).toBe('http://example.com/bpmn');
+    expect(graph.messages).toEqual([{ id: 'msg_order', name: 'Order' }]);
+    expect(graph.errors).toEqual([{ id: 'err_payment', name: 'Payment Failed', errorCode: 'E42' }]);
+
+    expect(graph.children).toHaveLength(1);
+    const collab = graph.children[0] as Collaboration;
+    expect(collab.bpmn.type).toBe('collaboration');
+    expect(collab.children.map((p) => p.id)).toEqual(['pool_shop', 'pool_customer']);
+    expect(collab.children[0]!.bpmn.processRef).toBe('process_shop');
+    expect(collab.children[1]!.bpmn.isBlackBox).toBe(true);
+    expect(collab.edges).toEqual([
+      expect.objectContaining({
+        id: 'mf_1',
+        sources: ['pool_customer'],
+        targets: ['start_1'],
+        bpmn: expect.objectContaining({ type: 'messageFlow', messageRef: 'msg_order' }),
+      }),
+    ]);
+  });
+
+  it('should rebuild nested lanes from flowNodeRefs', async () => {
+    const graph = await importer.import(COLLABORATION_XML);
+    const pool = (graph.children[0] as Collaboration).children[0] as Participant;
+
+    const lanes = pool.children!.filter((c): c is Lane => c.bpmn.type === 'lane');
+    expect(lanes.map((l) => l.id)).toEqual(['lane_sales', 'lane_ops']);
+    expect(lanes[0]!.children!.map((c) => c.id)).toEqual(['start_1', 'task_charge']);
+
+    // Nodes go to the deepest lane that references them
+    const ops = lanes[1]!;
+    const shipping = ops.children!.find((c) => c.id === 'lane_shipping') as Lane;
+    expect(shipping.children!.map((c) => c.id)).toEqual(['end_ok']);
+    expect(ops.children!.map((c) => c.id)).toEqual(['lane_shipping', 'gw_1', 'end_fail']);
+
+    // Artifacts not referenced by lanes stay at participant level
+    expect(pool.children!.map((c) => c.id)).toEqual(['lane_sales', 'lane_ops', 'data_order', 'note_1']);
+  });
+
+  it('should attach boundary events and map flow semantics', async () => {
+    const graph = await importer.import(COLLABORATION_XML);
+    const pool = (graph.children[0] as Collaboration).children[0] as Participant;
+    const sales = pool.children![0] as Lane;
+    const task = sales.children!.find((c) => c.id === 'task_charge') as FlowNode;
+
+    expect(task.boundaryEvents).toEqual([
+      expect.objectContaining({
+        id: 'boundary_error',
+        attachedToRef: 'task_charge',
+        bpmn: expect.objectContaining({
+          type: 'boundaryEvent',
+          eventDefinitionType: 'error',
+          errorRef: 'err_payment',
+          isInterrupting: false,
+        }),
+      }),
+    ]);
+
+    const start = sales.children!.find((c) => c.id === 'start_1') as FlowNode;
+    expect(start.bpmn).toMatchObject({ type: 'startEvent', eventDefinitionType: 'message', messageRef: 'msg_order' });
+
+    const edges = pool.edges!;
+    expect(edges.find((e) => e.id === 'flow_ok')!.bpmn.isDefault).toBe(true);
+    expect(edges.find((e) => e.id === 'flow_fail')!.bpmn.conditionExpression).toEqual({ body: '${!paid}' });
+    expect(edges.find((e) => e.id === 'dia_1')).toMatchObject({
+      sources: ['data_order'],
+      targets: ['task_charge'],
+      bpmn: { type: 'dataInputAssociation' },
+    });
+    expect(edges.find((e) => e.id === 'assoc_1')).toMatchObject({
+      sources: ['note_1'],
+      targets: ['task_charge'],
+      bpmn: { type: 'association' },
+    });
+  });
+
+  it('should drop flows with unresolved references', async () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" id="defs_dangling">
+  <bpmn:process id="process_1">
+    <bpmn:startEvent id="start_1" />
+    <bpmn:endEvent id="end_1" />
+    <bpmn:sequenceFlow id="flow_1" sourceRef="start_1" targetRef="end_1" />
+    <bpmn:sequenceFlow id="flow_dangling" sourceRef="start_1" targetRef="missing_task" />
+  </bpmn:process>
+</bpmn:definitions>`;
+    const graph = await importer.import(xml);
+    const process = graph.children[0] as Process;
+
+    expect(process.edges!.map((e) => e.id)).toEqual(['flow_1']);
+  });
+
+  it('should reject XML without process or collaboration', async () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" id="empty" />`;
+    await expect(importer.import(xml)).rejects.toThrow('no process or collaboration');
+  });
+
+  it('should report unparsable XML', async () => {
+    await expect(importer.import('<not-bpmn')).rejects.toThrow('Failed to parse BPMN XML');
+  });
+
+  describe('round trip', () => {
+    const fixtures = readdirSync(fixturesDir).filter((file) => file.endsWith('.json')).sort();
+
+    for (const fixture of fixtures) {
+      it(`should preserve the semantics of ${fixture}`, async () => {
+        const converter = new BpmnElkLayout();
+        const graph = loadFixture(fixture);
+        const xml = await converter.to_bpmn(graph);
+
+        const imported = await converter.from_bpmn(xml);
+        expect(semantics(imported)).toMatchObject(semantics(graph, true));
+
+        const roundTripped = await converter.to_bpmn(imported);
+        expect(semanticIds(roundTripped)).toEqual(semanticIds(xml));
+      });
+    }
+
+    it('should lay out a bare process with lanes as before', async () => {
+      const converter = new BpmnElkLayout();
+      const graph: ElkBpmnGraph = {
+        id: 'definitions_lanes',
+        children: [{
+          id: 'process_lanes',
+          bpmn: { type: 'process', name: 'Lanes' },
+          children: [
+            {
+              id: 'lane_a',
+              bpmn: { type: 'lane', name: 'A' },
+              children: [
+                { id: 'start', width: 36, height: 36, bpmn: { type: 'startEvent', eventDefinitionType: 'none' } },
+                { id: 'task_a', width: 100, height: 80, bpmn: { type: 'task', name: 'Task A' }, labels: [{ text: 'Task A' }] },
+              ],
+            },
+            {
+              id: 'lane_b',
+              bpmn: { type: 'lane', name: 'B' },
+              children: [
+                { id: 'task_b', width: 100, height: 80, bpmn: { type: 'task', name: 'Task B' }, labels: [{ text: 'Task B' }] },
+                { id: 'end', width: 36, height: 36, bpmn: { type: 'endEvent', eventDefinitionType: 'none' } },
+              ],
+            },
+          ],
+          edges: [
+            { id: 'flow_1', sources: ['start'], targets: ['task_a'], bpmn: { type: 'sequenceFlow' } },
+            { id: 'flow_2', sources: ['task_a'], targets: ['task_b'], bpmn: { type: 'sequenceFlow' } },
+            { id: 'flow_3', sources: ['task_b'], targets: ['end'], bpmn: { type: 'sequenceFlow' } },
+          ],
+        }],
+      };
+
+      const imported = await converter.from_bpmn(await converter.to_bpmn(graph));
+      const process = imported.children[0] as Process;
+      expect(process.layoutOptions).toBeUndefined();
+      expect(process.children!.map((lane) => (lane as Lane).layoutOptions)).toEqual([undefined, undefined]);
+
+      expect(await converter.to_bpmn(imported)).toBe(await converter.to_bpmn(graph));
+    });
+  });
+});
+
+// ============================================================================
+// Semantic comparison
+// ============================================================================
+
+/**
+ * Properties BPMN XML does not carry, so they cannot survive a round trip:
+ * Camunda extensions (with a script's resultVariable), layout hints,
+ * participant isClosed and data objects, which the generator does not write
+ */
+const UNSUPPORTED_PROPERTIES = new Set([
+  'assignee', 'candidateUsers', 'candidateGroups', 'dueDate', 'priority', 'formKey',
+  'calledElementBinding', 'calledElementVersion', 'inheritBusinessKey', 'inMappings', 'outMappings',
+  'groupedElements', 'padding', 'isClosed', 'dataObjectRef',
+]);
+
+/**
+ * BPMN defaults, which bpmn-moddle leaves out of the XML
+ */
+const DEFAULT_VALUES: Record<string, unknown> = {
+  instantiate: false,
+  isForCompensation: false,
+  isInterrupting: true,
+  triggeredByEvent: false,
+  cancelRemainingInstances: true,
+  eventGatewayType: 'Exclusive',
+  testBefore: false,
+};
+
+/**
+ * Semantic content of a graph: the bpmn properties of every element by id,
+ * with the parent it is nested in (lanes excluded) and the ends of every edge
+ * @param expected - Drop what BPMN XML cannot carry, for the graph that is written
+ */
+function semantics(graph: ElkBpmnGraph, expected = false): Record<string, unknown> {
+  const elements: Record<string, unknown> = {};
+
+  const bpmnOf = (bpmn: object): Record<string, unknown> => {
+    const result = JSON.parse(JSON.stringify(bpmn)) as Record<string, unknown>;
+    if (!expected) return result;
+
+    for (const [key, value] of Object.entries(result)) {
+      if (UNSUPPORTED_PROPERTIES.has(key) || DEFAULT_VALUES[key] === value) {
+        delete result[key];
+      }
+    }
+    // Multiple event definitions are written without their definitions
+    if (result['eventDefinitionType'] === 'multiple' || result['eventDefinitionType'] === 'parallelMultiple') {
+      delete result['eventDefinitionType'];
+      delete result['parallelMultiple'];
+    }
+    // Subprocesses triggered by an event are read back as event subprocesses
+    if (result['type'] === 'subProcess' && result['triggeredByEvent'] === true) {
+      result['type'] = 'eventSubProcess';
+    }
+    // Expressions are written as bpmn:FormalExpression
+    for (const expression of [result['conditionExpression'], (result['conditionalEventDefinition'] as Record<string, unknown> | undefined)?.['condition']]) {
+      delete (expression as Record<string, unknown> | undefined)?.['type'];
+    }
+    delete (result['script'] as Record<string, unknown> | undefined)?.['resultVariable'];
+    const loop = result['loopCharacteristics'] as Record<string, unknown> | undefined;
+    if (loop && loop['testBefore'] === false) {
+      delete loop['testBefore'];
+    }
+    return result;
+  };
+
+  const visit = (node: FlowNode | Lane | Participant | Process | Collaboration, parent?: string): void => {
+    // Nodes of lanes and of processes nested in participants belong to the enclosing container
+    const isTransparent = node.bpmn.type === 'lane' || (node.bpmn.type === 'process' && parent !== undefined);
+    if (!isTransparent) {
+      elements[node.id] = { parent, ...bpmnOf(node.bpmn) };
+    }
+    const container = isTransparent ? parent : node.id;
+
+    for (const child of (node as FlowNode).children ?? []) {
+      visit(child as FlowNode, container);
+    }
+    for (const boundaryEvent of (node as FlowNode).boundaryEvents ?? []) {
+      elements[boundaryEvent.id] = { parent: container, attachedToRef: boundaryEvent.attachedToRef, ...bpmnOf(boundaryEvent.bpmn) };
+    }
+    for (const edge of (node as FlowNode).edges ?? []) {
+      elements[edge.id] = { sources: edge.sources, targets: edge.targets, ...bpmnOf(edge.bpmn) };
+    }
+  };
+
+  for (const child of graph.children) {
+    visit(child);
+  }
+
+  return { elements, messages: graph.messages, signals: graph.signals, errors: graph.errors, escalations: graph.escalations };
+}
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for LayoutCache and its stores
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LayoutCache, MemoryLayoutCacheStore, resolveLayoutCache } from '../../../src/layout/cache';
+import { FileLayoutCacheStore } from '../../../src/layout/cache/file-layout-cache-store';
+
+describe('MemoryLayoutCacheStore', () => {
+  it('should drop the least recently used entry when full', () => {
+    const store = new MemoryLayoutCacheStore({ maxEntries: 2 });
+    store.set('a', 1);
+    store.set('b', 2);
+    store.get('a');
+    store.set('c', 3);
+
+    expect(store.get('a')).toBe(1);
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('c')).toBe(3);
+    expect(store.size()).toBe(2);
+  });
+
+  it('should reject an invalid maxEntries', () => {
+    expect(() => new MemoryLayoutCacheStore({ maxEntries: 0 })).toThrow('Invalid maxEntries 0');
+  });
+});
+
+describe('LayoutCache', () => {
+  const cache = new LayoutCache();
+
+  it('should create equal keys for equal content in any key order', () => {
+    const key = cache.createKey('layout', { id: 'root', children: [{ id: 'a', width: 100 }] });
+
+    expect(cache.createKey('layout', { children: [{ width: 100, id: 'a' }], id: 'root' })).toBe(key);
+    expect(cache.createKey('layout', { id: 'root', children: [{ id: 'a', width: 101 }] })).not.toBe(key);
+    expect(cache.createKey('subgraph', { id: 'root', children: [{ id: 'a', width: 100 }] })).not.toBe(key);
+  });
+
+  it('should return copies of the cached values', async () => {
+    const value = { children: [{ id: 'a', x: 10 }] };
+    await cache.set('key', value);
+    value.children[0]!.x = 20;
+
+    const cached = await cache.get<typeof value>('key');
+    cached!.children[0]!.x = 30;
+
+    expect(await cache.get('key')).toEqual({ children: [{ id: 'a', x: 10 }] });
+    expect(await cache.get('missing')).toBeUndefined();
+  });
+});
+
+describe('resolveLayoutCache', () => {
+  it('should create a cache only when enabled', () => {
+    expect(resolveLayoutCache()).toBeUndefined();
+    expect(resolveLayoutCache(false)).toBeUndefined();
+    expect(resolveLayoutCache(true)).toBeInstanceOf(LayoutCache);
+    expect(resolveLayoutCache(new MemoryLayoutCacheStore())).toBeInstanceOf(LayoutCache);
+  });
+});
+
+describe('FileLayoutCacheStore', () => {
+  let directory: string | undefined;
+
+  afterEach(() => {
+    if (directory) {
+      fs.rmSync(directory, { recursive: true, force: true });
+      directory = undefined;
+    }
+  });
+
+  it('should keep entries as JSON files across instances', async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'bpmn-elk-layout-cache-'));
+    const cacheDir = path.join(directory, 'nested');
+    await new FileLayoutCacheStore({ directory: cacheDir }).set('layout-abc', { id: 'root' });
+
+    const store = new FileLayoutCacheStore({ directory: cacheDir });
+    expect(await store.get('layout-abc')).toEqual({ id: 'root' });
+    expect(await store.get('layout-def')).toBeUndefined();
+    expect(fs.readdirSync(cacheDir)).toEqual(['layout-abc.json']);
+  });
+
+  it('should treat a corrupted entry as missing', async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'bpmn-elk-layout-cache-'));
+    fs.writeFileSync(path.join(directory, 'layout-abc.json'), '{"id":');
+
+    expect(await new FileLayoutCacheStore({ directory }).get('layout-abc')).toBeUndefined();
+  });
+});
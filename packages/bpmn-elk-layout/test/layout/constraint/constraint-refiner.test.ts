@@ -0,0 +1,141 @@
+/**
+ * Unit tests for ConstraintRefiner
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ElkNode } from 'elkjs';
+import { ConstraintRefiner } from '../../../src/layout/constraint/constraint-refiner';
+import type { ElkBpmnGraph } from '../../../src/types';
+
+function task(id: string, x: number, y: number): ElkNode {
+  return { id, x, y, width: 100, height: 80, bpmn: { type: 'task' } } as ElkNode;
+}
+
+function process(children: ElkNode[]): ElkNode {
+  return {
+    id: 'root',
+    children: [{ id: 'process_1', x: 12, y: 12, width: 600, height: 400, children }],
+  };
+}
+
+describe('ConstraintRefiner', () => {
+  const refiner = new ConstraintRefiner();
+
+  describe('collectConstraints', () => {
+    const graph = {
+      id: 'root',
+      children: [{
+        id: 'process_1',
+        bpmn: { type: 'process' },
+        children: [
+          { id: 'task_a', bpmn: { type: 'task' } },
+          { id: 'task_b', bpmn: { type: 'task' }, layout: { alignWith: 'task_a', sameLayer: 'task_c' } },
+          { id: 'task_c', bpmn: { type: 'task' }, layout: { pin: { x: 400 } } },
+        ],
+      }],
+      constraints: [{ type: 'leftOf', node: 'task_a', reference: 'task_c', minGap: 50 }],
+    } as unknown as ElkBpmnGraph;
+
+    it('should translate node layout hints into constraints', () => {
+      expect(refiner.collectConstraints(graph, false)).toEqual([
+        { type: 'leftOf', node: 'task_a', reference: 'task_c', minGap: 50 },
+        { type: 'alignY', nodes: ['task_a', 'task_b'], anchor: 'center' },
+        { type: 'alignX', nodes: ['task_c', 'task_b'], anchor: 'center' },
+        { type: 'fixedPosition', node: 'task_c', x: 400, y: undefined, strength: 'required' },
+      ]);
+    });
+
+    it('should follow the flow direction in vertical layouts', () => {
+      const constraints = refiner.collectConstraints(graph, true);
+
+      expect(constraints[1]).toMatchObject({ type: 'alignX', nodes: ['task_a', 'task_b'] });
+      expect(constraints[2]).toMatchObject({ type: 'alignY', nodes: ['task_c', 'task_b'] });
+    });
+
+    it('should skip malformed constraints', () => {
+      const malformed = {
+        ...graph,
+        constraints: [
+          null,
+          'leftOf',
+          { type: 'between', node: 'task_a' },
+          { type: 'alignX' },
+          { type: 'noOverlap', nodes: ['task_a'] },
+          { type: 'below', node: 'task_a', reference: 7 },
+          ...graph.constraints!,
+        ],
+      } as unknown as ElkBpmnGraph;
+
+      expect(refiner.collectConstraints(malformed, false)[0]).toEqual(graph.constraints![0]);
+      expect(refiner.collectConstraints(malformed, false)).toHaveLength(4);
+    });
+  });
+
+  describe('refine', () => {
+    it('should move the constrained node and keep the reference in place', () => {
+      const graph = process([task('task_a', 20, 20), task('task_b', 200, 150)]);
+
+      const moves = refiner.refine(graph, [{ type: 'alignY', nodes: ['task_a', 'task_b'], anchor: 'center' }]);
+
+      expect(moves).toEqual(new Map([['task_b', { newX: 200, newY: 20, offset: -130 }]]));
+    });
+
+    it('should align nodes of different sizes by their centers', () => {
+      const event = { id: 'end_1', x: 300, y: 200, width: 36, height: 36, bpmn: { type: 'endEvent' } } as ElkNode;
+      const graph = process([task('task_a', 20, 20), event]);
+
+      const moves = refiner.refine(graph, [{ type: 'alignY', nodes: ['task_a', 'end_1'], anchor: 'center' }]);
+
+      expect(moves.get('end_1')).toEqual({ newX: 300, newY: 42, offset: -158 });
+    });
+
+    it('should push nodes out of the way of moved nodes', () => {
+      const graph = process([task('task_a', 20, 20), task('task_b', 20, 150), task('task_c', 200, 20)]);
+
+      const moves = refiner.refine(graph, [{ type: 'fixedPosition', node: 'task_b', x: 200, y: 20 }]);
+
+      // task_b takes task_c's place, task_c moves below it and task_a stays
+      expect(moves).toEqual(new Map([
+        ['task_b', { newX: 200, newY: 20, offset: -130 }],
+        ['task_c', { newX: 200, newY: 130, offset: 110 }],
+      ]));
+    });
+
+    it('should keep nodes inside their container', () => {
+      const graph = process([task('task_a', 20, 20)]);
+
+      const moves = refiner.refine(graph, [
+        { type: 'fixedPosition', node: 'task_a', x: 900, strength: 'strong' },
+        { type: 'inContainer', node: 'task_a', container: 'process_1', padding: 12, strength: 'required' },
+      ]);
+
+      expect(moves.get('task_a')).toEqual({ newX: 488, newY: 20, offset: 0 });
+    });
+
+    it('should skip constraints between nodes in different containers', () => {
+      const graph: ElkNode = {
+        id: 'root',
+        children: [
+          { id: 'pool_1', x: 0, y: 0, width: 600, height: 200, children: [task('task_a', 20, 20)] },
+          { id: 'pool_2', x: 0, y: 200, width: 600, height: 200, children: [task('task_b', 200, 60)] },
+        ],
+      };
+
+      const moves = refiner.refine(graph, [
+        { type: 'alignY', nodes: ['task_a', 'task_b'] },
+        { type: 'rightOf', node: 'task_a', reference: 'unknown', minGap: 50 },
+      ]);
+
+      expect(moves.size).toBe(0);
+    });
+
+    it('should not move boundary events', () => {
+      const boundaryEvent = { id: 'boundary_1', x: 52, y: 82, width: 36, height: 36, bpmn: { type: 'boundaryEvent' } } as ElkNode;
+      const graph = process([task('task_a', 20, 20), boundaryEvent]);
+
+      const moves = refiner.refine(graph, [{ type: 'fixedPosition', node: 'boundary_1', x: 300, y: 300 }]);
+
+      expect(moves.size).toBe(0);
+    });
+  });
+});
@@ -1,8 +1,5 @@
 /**
  * Unit tests for ConstraintSolver
- *
- * Note: The kiwi.js library has some known limitations with certain constraint
- * patterns. Some tests are marked as skipped until these issues are resolved.
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
@@ -83,9 +80,7 @@ describe('ConstraintSolver', () => {
   });
 
   describe('alignY constraint', () => {
-    // TODO: kiwi.js has issues with equality constraints involving multiple variables
-    // See: https://github.com/IjzerenHein/kiwi.js/issues
-    it.skip('should align nodes horizontally (same Y)', () => {
+    it('should align nodes horizontally (same Y)', () => {
       solver.addNode('a', 0, 0, 100, 80);
       solver.addNode('b', 200, 100, 100, 80);
       solver.addNode('c', 400, 50, 100, 80);
@@ -120,8 +115,7 @@ describe('ConstraintSolver', () => {
   });
 
   describe('alignX constraint', () => {
-    // TODO: kiwi.js has issues with equality constraints involving multiple variables
-    it.skip('should align nodes vertically (same X)', () => {
+    it('should align nodes vertically (same X)', () => {
       solver.addNode('a', 0, 0, 100, 80);
       solver.addNode('b', 50, 100, 100, 80);
       solver.addNode('c', 100, 200, 100, 80);
@@ -233,9 +227,7 @@ describe('ConstraintSolver', () => {
   });
 
   describe('fixedPosition constraint', () => {
-    // TODO: kiwi.js has issues with fixed position constraints
-    // The library produces incorrect values when combining edit variables with equality constraints
-    it.skip('should fix X position', () => {
+    it('should fix X position', () => {
       solver.addNode('node', 100, 100, 80, 60);
 
       solver.addConstraint({
@@ -249,7 +241,7 @@ describe('ConstraintSolver', () => {
       expect(result.get('node')!.x).toBeCloseTo(200, 0);
     });
 
-    it.skip('should fix Y position', () => {
+    it('should fix Y position', () => {
       solver.addNode('node', 100, 100, 80, 60);
 
       solver.addConstraint({
@@ -263,7 +255,7 @@ describe('ConstraintSolver', () => {
       expect(result.get('node')!.y).toBeCloseTo(300, 0);
     });
 
-    it.skip('should fix both X and Y positions', () => {
+    it('should fix both X and Y positions', () => {
       solver.addNode('node', 100, 100, 80, 60);
 
       solver.addConstraint({
@@ -367,8 +359,7 @@ describe('ConstraintSolver', () => {
   });
 
   describe('constraint strength', () => {
-    // TODO: kiwi.js has issues with constraint strength when combined with edit variables
-    it.skip('should respect different constraint strengths', () => {
+    it('should respect different constraint strengths', () => {
       solver.addNode('node', 100, 100, 80, 60);
 
       // Add weak constraint for x=200
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EdgeRerouter } from '../../../src/layout/edge-routing/edge-rerouter';
+import { BpmnElkLayout } from '../../../src/converter';
+import { analyzeLayout } from '../../../src/analysis';
+import type { ElkBpmnGraph } from '../../../src/types';
+import type { LayoutedGraph } from '../../../src/types/elk-output';
+
+function task(id: string, x: number, y: number) {
+  return { id, x, y, width: 100, height: 80, bpmn: { type: 'task', name: id } };
+}
+
+function edge(id: string, type: string, source: string, target: string, points: Array<[number, number]>) {
+  const [start, ...rest] = points.map(([x, y]) => ({ x, y }));
+  const end = rest.pop()!;
+  return {
+    id,
+    sources: [source],
+    targets: [target],
+    bpmn: { type },
+    sections: [{ id: `${id}_s0`, startPoint: start, endPoint: end, bendPoints: rest }],
+  };
+}
+
+function pool(id: string, y: number, children: unknown[], edges: unknown[] = []) {
+  return { id, x: 0, y, width: 600, height: 150, bpmn: { type: 'participant', name: id }, children, edges };
+}
+
+describe('EdgeRerouter', () => {
+  const rerouter = new EdgeRerouter();
+
+  it('should route an edge around a node it passes through', () => {
+    const graph = {
+      id: 'definitions',
+      children: [{
+        id: 'process_1',
+        bpmn: { type: 'process' },
+        children: [task('a', 0, 0), task('b', 150, 0), task('c', 300, 0)],
+        edges: [
+          edge('f1', 'sequenceFlow', 'a', 'b', [[100, 40], [150, 40]]),
+          edge('f2', 'sequenceFlow', 'a', 'c', [[100, 40], [300, 40]]),
+        ],
+      }],
+    } as unknown as LayoutedGraph;
+
+    const results = rerouter.reroute(graph);
+
+    expect(results).toEqual([{
+      edgeId: 'f2',
+      problems: [{ kind: 'crosses-node', elementId: 'b' }],
+      rerouted: true,
+      bendsBefore: 0,
+      bendsAfter: 2,
+    }]);
+    const [f1, f2] = graph.children[0]!.edges!;
+    expect(f1!.sections![0]!.endPoint).toEqual({ x: 150, y: 40 });
+    expect(f2).toMatchObject({
+      _absoluteCoords: true,
+      sections: [{
+        startPoint: { x: 50, y: 80 },
+        bendPoints: [{ x: 50, y: 100 }, { x: 350, y: 100 }],
+        endPoint: { x: 350, y: 80 },
+      }],
+    });
+  });
+
+  it('should keep sequence flows out of lane headers', () => {
+    const graph = {
+      id: 'definitions',
+      children: [{
+        id: 'collaboration',
+        bpmn: { type: 'collaboration' },
+        children: [{
+          id: 'pool',
+          x: 0, y: 0, width: 600, height: 300,
+          bpmn: { type: 'participant', name: 'Pool' },
+          children: [
+            { id: 'lane_a', x: 30, y: 0, width: 570, height: 150, bpmn: { type: 'lane', name: 'A' }, children: [task('t1', 100, 35)] },
+            { id: 'lane_b', x: 30, y: 150, width: 570, height: 150, bpmn: { type: 'lane', name: 'B' }, children: [task('t2', 100, 35)] },
+          ],
+          // Relative to lane_a, the container of the source
+          edges: [edge('f1', 'sequenceFlow', 't1', 't2', [[100, 75], [10, 75], [10, 225], [100, 225]])],
+        }],
+      }],
+    } as unknown as LayoutedGraph;
+
+    const results = rerouter.reroute(graph);
+
+    expect(results).toEqual([{
+      edgeId: 'f1',
+      problems: [
+        { kind: 'crosses-lane-header', elementId: 'lane_a' },
+        { kind: 'crosses-lane-header', elementId: 'lane_b' },
+      ],
+      rerouted: true,
+      bendsBefore: 2,
+      bendsAfter: 0,
+    }]);
+    expect(graph.children[0]!.children![0]!.edges![0]!.sections).toEqual([
+      { id: 'f1_s0', startPoint: { x: 180, y: 115 }, endPoint: { x: 180, y: 185 } },
+    ]);
+  });
+
+  it('should route message flows around pools they do not connect', () => {
+    const graph = {
+      id: 'definitions',
+      children: [{
+        id: 'collaboration',
+        bpmn: { type: 'collaboration' },
+        children: [
+          pool('pool_1', 0, [task('t1', 100, 35)]),
+          pool('pool_2', 200, [task('t2', 100, 35)]),
+          pool('pool_3', 400, [task('t3', 100, 35)]),
+        ],
+        edges: [edge('m1', 'messageFlow', 't1', 't3', [[150, 115], [150, 435]])],
+      }],
+    } as unknown as LayoutedGraph;
+
+    const [result] = rerouter.reroute(graph);
+
+    expect(result).toMatchObject({
+      edgeId: 'm1',
+      problems: [{ kind: 'crosses-node', elementId: 't2' }, { kind: 'crosses-pool-boundary', elementId: 'pool_2' }],
+      rerouted: true,
+    });
+    const bendPoints = graph.children[0]!.edges![0]!.sections![0]!.bendPoints!;
+    expect(bendPoints.every((point) => point.x >= 600)).toBe(true);
+  });
+
+  it('should report re-routed edges from the converter', async () => {
+    const fixture = path.join(__dirname, '../../fixtures/31-cross-pool-patterns.json');
+    const graph = JSON.parse(fs.readFileSync(fixture, 'utf-8')) as ElkBpmnGraph;
+
+    const plain = await new BpmnElkLayout().layoutWithWarnings(graph);
+    const rerouted = await new BpmnElkLayout({ rerouteEdges: true }).layoutWithWarnings(graph);
+
+    expect(plain.reroutedEdges).toBeUndefined();
+    expect(analyzeLayout(plain.graph).edgesThroughNodes).toBeGreaterThan(0);
+    expect(rerouted.reroutedEdges!.length).toBeGreaterThan(0);
+    expect(rerouted.reroutedEdges!.every((result) => result.rerouted)).toBe(true);
+    expect(analyzeLayout(rerouted.graph).edgesThroughNodes).toBe(0);
+    expect(rerouted.warnings).toEqual([]);
+  });
+});
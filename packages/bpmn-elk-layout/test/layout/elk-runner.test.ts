@@ -0,0 +1,120 @@
+/**
+ * Unit tests for ElkRunner
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import type { ElkNode } from 'elkjs';
+import { ElkRunner, createLayoutSignal } from '../../src/layout/elk-runner';
+
+function createGraph(): ElkNode {
+  return {
+    id: 'root',
+    layoutOptions: { 'elk.algorithm': 'layered' },
+    children: [
+      { id: 'a', width: 100, height: 80 },
+      { id: 'b', width: 100, height: 80 },
+      { id: 'c', width: 36, height: 36 },
+    ],
+    edges: [
+      { id: 'ab', sources: ['a'], targets: ['b'] },
+      { id: 'bc', sources: ['b'], targets: ['c'] },
+    ],
+  };
+}
+
+describe('ElkRunner', () => {
+  describe('on the calling thread', () => {
+    const runner = new ElkRunner();
+
+    it('should lay out the graph', async () => {
+      const layouted = await runner.layout(createGraph());
+
+      const [a, b, c] = layouted.children!;
+      expect(a!.x).toBeLessThan(b!.x!);
+      expect(b!.x).toBeLessThan(c!.x!);
+    });
+
+    it('should reject when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort(new Error('stale'));
+
+      await expect(runner.layout(createGraph(), controller.signal)).rejects.toThrow('stale');
+    });
+  });
+
+  describe('in a worker', () => {
+    let runner: ElkRunner;
+
+    afterEach(() => {
+      runner.terminate();
+    });
+
+    it('should produce the same layout as the calling thread', async () => {
+      runner = new ElkRunner({ worker: true });
+
+      const [inWorker, onThread] = await Promise.all([
+        runner.layout(createGraph()),
+        new ElkRunner().layout(createGraph()),
+      ]);
+
+      const geometry = (graph: ElkNode) => ({
+        nodes: graph.children!.map(({ id, x, y }) => ({ id, x, y })),
+        sections: graph.edges!.map((edge) => edge.sections),
+      });
+      expect(geometry(inWorker)).toEqual(geometry(onThread));
+    });
+
+    it('should reject cancelled layouts and keep working', async () => {
+      runner = new ElkRunner({ worker: true });
+      const controller = new AbortController();
+
+      const cancelled = runner.layout(createGraph(), controller.signal);
+      controller.abort(new Error('cancelled'));
+
+      await expect(cancelled).rejects.toThrow('cancelled');
+      await expect(runner.layout(createGraph())).resolves.toMatchObject({ id: 'root' });
+    });
+
+    it('should reject running layouts when terminated', async () => {
+      runner = new ElkRunner({ worker: true });
+
+      const running = runner.layout(createGraph());
+      runner.terminate();
+
+      await expect(running).rejects.toThrow('ELK worker was terminated');
+    });
+  });
+});
+
+describe('createLayoutSignal', () => {
+  it('should pass the signal through without a timeout', () => {
+    const controller = new AbortController();
+
+    expect(createLayoutSignal({ signal: controller.signal }).signal).toBe(controller.signal);
+    expect(createLayoutSignal().signal).toBeUndefined();
+  });
+
+  it('should abort with a TimeoutError after the timeout', async () => {
+    const { signal, dispose } = createLayoutSignal({ timeout: 10 });
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    dispose();
+
+    expect(signal!.aborted).toBe(true);
+    expect(signal!.reason).toMatchObject({ name: 'TimeoutError' });
+  });
+
+  it('should abort when the given signal aborts before the timeout', () => {
+    const controller = new AbortController();
+    const { signal, dispose } = createLayoutSignal({ signal: controller.signal, timeout: 1000 });
+
+    controller.abort('stale');
+    dispose();
+
+    expect(signal!.reason).toBe('stale');
+  });
+
+  it('should reject timeouts that are not positive', () => {
+    expect(() => createLayoutSignal({ timeout: 0 })).toThrow('Invalid timeout 0');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for FixedLayoutValidator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FixedLayoutValidator } from '../../src/layout/fixed-layout-validator';
+import type { LayoutedGraph } from '../../src/types/elk-output';
+
+function createGraph(): LayoutedGraph {
+  return {
+    id: 'definitions_1',
+    children: [
+      {
+        id: 'process_1',
+        bpmn: { type: 'process' },
+        children: [
+          { id: 'start_1', x: 12, y: 12, width: 36, height: 36, bpmn: { type: 'startEvent', eventDefinitionType: 'none' } },
+          {
+            id: 'task_1',
+            x: 88,
+            y: 0,
+            width: 100,
+            height: 80,
+            bpmn: { type: 'task' },
+            boundaryEvents: [
+              { id: 'be_1', attachedToRef: 'task_1', bpmn: { type: 'boundaryEvent', eventDefinitionType: 'timer' } },
+            ],
+          },
+        ],
+        edges: [
+          {
+            id: 'flow_1',
+            sources: ['start_1'],
+            targets: ['task_1'],
+            bpmn: { type: 'sequenceFlow' },
+            sections: [{ id: 's1', startPoint: { x: 48, y: 30 }, endPoint: { x: 88, y: 30 } }],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+describe('FixedLayoutValidator', () => {
+  const validator = new FixedLayoutValidator();
+
+  it('should accept a graph with complete coordinates', () => {
+    expect(validator.validate(createGraph())).toEqual([]);
+  });
+
+  it('should not require bounds on top-level containers or boundary events', () => {
+    const graph = createGraph();
+    const process = graph.children[0] as { x?: number; y?: number };
+
+    expect(process.x).toBeUndefined();
+    expect(validator.validate(graph)).toEqual([]);
+  });
+
+  it('should report nodes with missing bounds', () => {
+    const graph = createGraph();
+    const task = graph.children[0]!.children![1] as { x?: number; width?: number };
+    delete task.x;
+    delete task.width;
+
+    expect(validator.validate(graph)).toEqual([
+      { id: 'task_1', path: 'children[0].children[1]', missing: ['x', 'width'] },
+    ]);
+  });
+
+  it('should only require bounds on listed artifacts that have a position', () => {
+    const graph = createGraph();
+    const process = graph.children[0] as { artifacts?: object[] };
+    process.artifacts = [
+      { id: 'data_1', width: 36, height: 50, bpmn: { type: 'dataObjectReference' } },
+      { id: 'data_2', x: 200, width: 36, bpmn: { type: 'dataObjectReference' } },
+    ];
+
+    expect(validator.validate(graph)).toEqual([
+      { id: 'data_2', path: 'children[0].artifacts[1]', missing: ['y', 'height'] },
+    ]);
+  });
+
+  it('should report edges with missing or incomplete sections', () => {
+    const graph = createGraph();
+    const edges = graph.children[0]!.edges! as Array<{ sections?: unknown }>;
+    edges.push({ id: 'flow_2', sources: ['task_1'], targets: ['start_1'], bpmn: { type: 'sequenceFlow' } } as never);
+    (edges[0]!.sections as Array<{ endPoint?: unknown }>)[0]!.endPoint = { x: 88 };
+
+    expect(validator.validate(graph)).toEqual([
+      { id: 'flow_1', path: 'children[0].edges[0]', missing: ['sections[0].endPoint'] },
+      { id: 'flow_2', path: 'children[0].edges[1]', missing: ['sections'] },
+    ]);
+  });
+
+  it('should throw listing all issues when preparing an incomplete graph', () => {
+    const graph = createGraph();
+    delete (graph.children[0]!.children![0] as { y?: number }).y;
+    delete (graph.children[0]!.edges![0] as { sections?: unknown }).sections;
+
+    expect(() => validator.prepare(graph)).toThrow(
+      'Fixed layout is missing coordinates for 2 element(s):\n' +
+      '  - start_1 (children[0].children[0]): y\n' +
+      '  - flow_1 (children[0].edges[0]): sections'
+    );
+  });
+
+  it('should return a copy when preparing a complete graph', () => {
+    const graph = createGraph();
+    const prepared = validator.prepare(graph);
+
+    expect(prepared).toEqual(graph);
+    expect(prepared).not.toBe(graph);
+  });
+});
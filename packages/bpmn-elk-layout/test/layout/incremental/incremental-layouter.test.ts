@@ -0,0 +1,268 @@
+/**
+ * Unit tests for incremental layout (ElkLayouter.layoutIncremental)
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ElkLayouter } from '../../../src/layout/elk-layouter';
+import { LayoutInvariantChecker } from '../../../src/analysis/invariant-checker';
+import type { ElkBpmnGraph } from '../../../src/types';
+import type { LayoutedGraph } from '../../../src/types/elk-output';
+
+interface AnyNode {
+  id: string;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  bpmn?: { type?: string };
+  children?: AnyNode[];
+  edges?: Array<{ id: string; sources: string[]; targets: string[]; sections?: unknown[]; bpmn?: unknown }>;
+  layoutOptions?: Record<string, unknown>;
+}
+
+function loadFixture(name: string): ElkBpmnGraph {
+  const file = path.join(__dirname, '../../fixtures', name);
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as ElkBpmnGraph;
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function findNode(graph: ElkBpmnGraph | LayoutedGraph, id: string): AnyNode | undefined {
+  const visit = (node: AnyNode): AnyNode | undefined => {
+    if (node.id === id) return node;
+    for (const child of node.children ?? []) {
+      const found = visit(child);
+      if (found) return found;
+    }
+    return undefined;
+  };
+  return visit(graph as unknown as AnyNode);
+}
+
+function collectNodes(graph: LayoutedGraph): Map<string, AnyNode> {
+  const nodes = new Map<string, AnyNode>();
+  const visit = (node: AnyNode) => {
+    for (const child of node.children ?? []) {
+      nodes.set(child.id, child);
+      visit(child);
+    }
+  };
+  visit(graph as unknown as AnyNode);
+  return nodes;
+}
+
+function overlaps(a: AnyNode, b: AnyNode): boolean {
+  return !(
+    a.x! + a.width! <= b.x! ||
+    b.x! + b.width! <= a.x! ||
+    a.y! + a.height! <= b.y! ||
+    b.y! + b.height! <= a.y!
+  );
+}
+
+function createProcess(): ElkBpmnGraph {
+  return {
+    id: 'definitions_1',
+    children: [
+      {
+        id: 'process_1',
+        bpmn: { type: 'process', isExecutable: true },
+        children: [
+          { id: 'start_1', bpmn: { type: 'startEvent', eventDefinitionType: 'none' } },
+          { id: 'task_1', bpmn: { type: 'userTask', name: 'Review' } },
+          { id: 'task_2', bpmn: { type: 'serviceTask', name: 'Archive' } },
+          { id: 'end_1', bpmn: { type: 'endEvent', eventDefinitionType: 'none' } },
+        ],
+        edges: [
+          { id: 'flow_1', sources: ['start_1'], targets: ['task_1'], bpmn: { type: 'sequenceFlow' } },
+          { id: 'flow_2', sources: ['task_1'], targets: ['task_2'], bpmn: { type: 'sequenceFlow' } },
+          { id: 'flow_3', sources: ['task_2'], targets: ['end_1'], bpmn: { type: 'sequenceFlow' } },
+        ],
+      },
+    ],
+  } as ElkBpmnGraph;
+}
+
+describe('ElkLayouter.layoutIncremental', () => {
+  const layouter = new ElkLayouter();
+
+  it('should reproduce the previous layout for an unchanged graph', async () => {
+    const graph = createProcess();
+    const previous = await layouter.layout(graph);
+    const result = await layouter.layoutIncremental(previous, graph);
+
+    expect(result).toEqual(previous);
+  });
+
+  it('should keep existing nodes in place and fit new nodes around them', async () => {
+    const graph = createProcess();
+    const previous = await layouter.layout(graph);
+
+    // Insert a task between task_1 and task_2
+    const next = clone(graph);
+    const process = next.children[0] as unknown as AnyNode;
+    process.children!.splice(2, 0, { id: 'task_new', bpmn: { type: 'userTask', name: 'Approve' } });
+    process.edges![1] = { id: 'flow_2', sources: ['task_1'], targets: ['task_new'], bpmn: { type: 'sequenceFlow' } };
+    process.edges!.push({ id: 'flow_4', sources: ['task_new'], targets: ['task_2'], bpmn: { type: 'sequenceFlow' } });
+
+    const result = await layouter.layoutIncremental(previous, next);
+
+    for (const id of ['start_1', 'task_1', 'task_2', 'end_1']) {
+      const before = findNode(previous, id)!;
+      const after = findNode(result, id)!;
+      expect({ id, x: after.x, y: after.y }).toEqual({ id, x: before.x, y: before.y });
+    }
+
+    const nodes = collectNodes(result);
+    const added = nodes.get('task_new')!;
+    for (const [id, node] of nodes) {
+      if (id === 'task_new' || id === 'process_1') continue;
+      expect(overlaps(added, node), `task_new overlaps ${id}`).toBe(false);
+    }
+  });
+
+  it('should re-route only edges whose end points moved', async () => {
+    const graph = createProcess();
+    const previous = await layouter.layout(graph);
+
+    const next = clone(graph);
+    const process = next.children[0] as unknown as AnyNode;
+    process.children!.push({ id: 'task_new', bpmn: { type: 'userTask', name: 'Notify' } });
+    process.edges!.push({ id: 'flow_4', sources: ['task_1'], targets: ['task_new'], bpmn: { type: 'sequenceFlow' } });
+
+    const result = await layouter.layoutIncremental(previous, next);
+    const edges = (result.children[0] as unknown as AnyNode).edges!;
+    const previousEdges = (previous.children[0] as unknown as AnyNode).edges!;
+
+    expect(edges.find((e) => e.id === 'flow_3')!.sections).toEqual(
+      previousEdges.find((e) => e.id === 'flow_3')!.sections
+    );
+
+    const added = edges.find((e) => e.id === 'flow_4') as { sections: unknown[]; _absoluteCoords?: boolean };
+    expect(added.sections).toHaveLength(1);
+    expect(added._absoluteCoords).toBe(true);
+  });
+
+  it('should keep the previous lane order and never shrink pools or lanes', async () => {
+    const graph = loadFixture('26-collaboration-lanes.json');
+    const previous = await layouter.layout(graph);
+
+    // Reverse the lanes in the input, add a lane and a task in an existing lane
+    const next = clone(graph);
+    const pool = findNode(next, 'pool_company')!;
+    pool.children!.reverse();
+    pool.children!.forEach((lane, index) => {
+      lane.layoutOptions = { 'elk.partitioning.partition': index };
+    });
+    pool.children!.push({
+      id: 'lane_legal',
+      bpmn: { type: 'lane', name: 'Legal' },
+      layoutOptions: { 'elk.partitioning.partition': 2 },
+      children: [{ id: 'task_legal', bpmn: { type: 'userTask', name: 'Check contract' } }],
+    });
+    findNode(next, 'lane_sales')!.children!.push({ id: 'task_call', bpmn: { type: 'userTask', name: 'Call customer' } });
+    pool.edges!.push(
+      { id: 'flow_legal', sources: ['task_quote'], targets: ['task_legal'], bpmn: { type: 'sequenceFlow' } },
+      { id: 'flow_call', sources: ['task_quote'], targets: ['task_call'], bpmn: { type: 'sequenceFlow' } }
+    );
+
+    const result = await layouter.layoutIncremental(previous, next);
+    const sales = findNode(result, 'lane_sales')!;
+    const finance = findNode(result, 'lane_finance')!;
+    const legal = findNode(result, 'lane_legal')!;
+
+    expect(sales.y).toBeLessThan(finance.y!);
+    expect(finance.y).toBeLessThan(legal.y!);
+
+    for (const id of ['pool_company', 'lane_sales', 'lane_finance']) {
+      const before = findNode(previous, id)!;
+      const after = findNode(result, id)!;
+      expect(after.width).toBeGreaterThanOrEqual(before.width!);
+      expect(after.height).toBeGreaterThanOrEqual(before.height!);
+    }
+
+    // Lanes are stacked without gaps and fill the pool
+    const resultPool = findNode(result, 'pool_company')!;
+    expect(finance.y).toBe(sales.y! + sales.height!);
+    expect(legal.y).toBe(finance.y! + finance.height!);
+    expect(legal.y! + legal.height!).toBe(resultPool.height);
+
+    for (const id of ['start_1', 'task_quote', 'task_review', 'end_1']) {
+      const before = findNode(previous, id)!;
+      const after = findNode(result, id)!;
+      expect({ id, x: after.x, y: after.y }).toEqual({ id, x: before.x, y: before.y });
+    }
+  });
+
+  it.each([
+    ['26-collaboration-lanes.json', 'lane_sales', 'pool_company', 'flow_3'],
+    ['27-collaboration-nested-lanes.json', 'lane_management', 'pool_org', 'flow_4'],
+  ])('should move routes along with lanes pushed down in %s', async (fixture, laneId, poolId, edgeId) => {
+    const graph = loadFixture(fixture);
+    const previous = await layouter.layout(graph);
+
+    // The new task grows the lane and pushes the lanes below it down
+    const next = clone(graph);
+    findNode(next, laneId)!.children!.push({ id: 'task_new', bpmn: { type: 'task', name: 'New task' } });
+    findNode(next, poolId)!.edges!.push(
+      { id: 'flow_new', sources: ['start_1'], targets: ['task_new'], bpmn: { type: 'sequenceFlow' } }
+    );
+
+    const result = await new ElkLayouter({ strict: true }).layoutIncremental(previous, next);
+    const shift = findNode(result, laneId)!.height! - findNode(previous, laneId)!.height!;
+    const route = (graph: LayoutedGraph) => {
+      const edge = findNode(graph, poolId)!.edges!.find((e) => e.id === edgeId)!;
+      return edge.sections as Array<{ startPoint: { x: number; y: number }; endPoint: { x: number; y: number } }>;
+    };
+
+    expect(shift).toBeGreaterThan(0);
+    expect(route(result)[0]!.startPoint).toEqual({
+      x: route(previous)[0]!.startPoint.x,
+      y: route(previous)[0]!.startPoint.y + shift,
+    });
+    expect(new LayoutInvariantChecker().check(result)).toEqual([]);
+  });
+
+  it('should push siblings out of the way of a grown container', async () => {
+    const graph = loadFixture('20-event-subprocess-variants.json');
+    const previous = await layouter.layout(graph);
+
+    const next = clone(graph);
+    const subprocess = findNode(next, 'event_subprocess_message')!;
+    subprocess.children!.push({ id: 'task_new', bpmn: { type: 'task', name: 'New task' } });
+    subprocess.edges!.push(
+      { id: 'flow_new', sources: ['evtsub_msg_task'], targets: ['task_new'], bpmn: { type: 'sequenceFlow' } }
+    );
+
+    const result = await new ElkLayouter({ strict: true }).layoutIncremental(previous, next);
+    const grown = findNode(result, 'event_subprocess_message')!;
+
+    expect(grown.height).toBeGreaterThan(findNode(previous, 'event_subprocess_message')!.height!);
+    for (const child of (findNode(result, 'process_event_subprocess_variants')!.children ?? [])) {
+      if (child.id === grown.id) continue;
+      expect(overlaps(grown, child), `event_subprocess_message overlaps ${child.id}`).toBe(false);
+    }
+  });
+});
+
+describe('ElkLayouter.layoutIncrementalWithWarnings', () => {
+  it('should return the incremental layout with its invariant warnings', async () => {
+    const layouter = new ElkLayouter();
+    const graph = createProcess();
+    const previous = await layouter.layout(graph);
+
+    const next = clone(graph);
+    const process = next.children[0] as unknown as AnyNode;
+    process.children!.push({ id: 'task_new', bpmn: { type: 'userTask', name: 'Notify' } });
+    process.edges!.push({ id: 'flow_4', sources: ['task_1'], targets: ['task_new'], bpmn: { type: 'sequenceFlow' } });
+
+    const result = await layouter.layoutIncrementalWithWarnings(previous, next);
+
+    expect(result.warnings).toEqual([]);
+    expect(result.graph).toEqual(await layouter.layoutIncremental(previous, next));
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for layout themes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { LAYOUT_THEMES, resolveLayoutTheme, getThemeElkOptions } from '../../src/layout/layout-theme';
+import { DEFAULT_ELK_OPTIONS, mergeElkOptions } from '../../src/layout/default-options';
+
+describe('resolveLayoutTheme', () => {
+  it('should use the default preset when no theme is set', () => {
+    expect(resolveLayoutTheme()).toEqual(LAYOUT_THEMES.default);
+    expect(resolveLayoutTheme('default')).toEqual(LAYOUT_THEMES.default);
+  });
+
+  it('should resolve presets by name', () => {
+    expect(resolveLayoutTheme('compact')).toEqual(LAYOUT_THEMES.compact);
+    expect(resolveLayoutTheme('presentation').sizes.task).toEqual({ width: 120, height: 90 });
+  });
+
+  it('should override parts of a preset', () => {
+    const theme = resolveLayoutTheme({
+      extends: 'compact',
+      pool: { headerWidth: 40 },
+      sizes: { task: { width: 110, height: 70 } },
+      labelGap: 5,
+    });
+
+    expect(theme.pool).toEqual({ ...LAYOUT_THEMES.compact.pool, headerWidth: 40 });
+    expect(theme.sizes).toEqual({ ...LAYOUT_THEMES.compact.sizes, task: { width: 110, height: 70 } });
+    expect(theme.spacing).toEqual(LAYOUT_THEMES.compact.spacing);
+    expect(theme.labelGap).toBe(5);
+  });
+
+  it('should extend the default preset when no preset is named', () => {
+    expect(resolveLayoutTheme({ containerPadding: 20 })).toEqual({ ...LAYOUT_THEMES.default, containerPadding: 20 });
+  });
+
+  it('should reject unknown presets', () => {
+    expect(() => resolveLayoutTheme('large' as 'compact')).toThrow(
+      'Unknown layout theme "large". Available themes: compact, default, presentation'
+    );
+  });
+});
+
+describe('getThemeElkOptions', () => {
+  it('should match the default ELK spacing for the default theme', () => {
+    const options = getThemeElkOptions(LAYOUT_THEMES.default);
+
+    for (const [key, value] of Object.entries(options)) {
+      expect(DEFAULT_ELK_OPTIONS[key as keyof typeof options], key).toBe(value);
+    }
+  });
+
+  it('should rank below graph and user options', () => {
+    const merged = mergeElkOptions(
+      { 'elk.spacing.nodeNode': 10 },
+      { 'elk.layered.spacing.nodeNodeBetweenLayers': 20 },
+      getThemeElkOptions(LAYOUT_THEMES.compact)
+    );
+
+    expect(merged['elk.spacing.nodeNode']).toBe(10);
+    expect(merged['elk.layered.spacing.nodeNodeBetweenLayers']).toBe(20);
+    expect(merged['elk.spacing.edgeNode']).toBe(LAYOUT_THEMES.compact.spacing.edgeNode);
+  });
+});
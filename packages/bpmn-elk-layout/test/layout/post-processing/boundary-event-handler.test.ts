@@ -272,6 +272,48 @@ describe('BoundaryEventHandler', () => {
     });
   });
 
+  describe('layoutBranchesAsTrees', () => {
+    it('should place branch nodes below the host and leave merge points in place', () => {
+      const graph: ElkNode = {
+        id: 'root',
+        children: [
+          { id: 'task1', x: 100, y: 50, width: 100, height: 80 },
+          { id: 'be1', x: 130, y: 50, width: 36, height: 36 },
+          { id: 'handler', x: 230, y: 50, width: 100, height: 80 },
+          { id: 'cleanup', x: 360, y: 50, width: 100, height: 80 },
+          { id: 'merge', x: 490, y: 50, width: 50, height: 50 },
+        ],
+        edges: [
+          { id: 'edge1', sources: ['be1'], targets: ['handler'] },
+          { id: 'edge2', sources: ['handler'], targets: ['cleanup'] },
+          { id: 'edge3', sources: ['cleanup'], targets: ['merge'] },
+          { id: 'edge4', sources: ['task1'], targets: ['merge'] },
+        ],
+      };
+      const sizedGraph = { id: 'root', children: [] } as unknown as ElkBpmnGraph;
+      const boundaryEventInfo = new Map([
+        ['be1', { attachedToRef: 'task1', targets: ['handler'], boundaryIndex: 0, totalBoundaries: 1 }],
+      ]);
+
+      const movedNodes = handler.layoutBranchesAsTrees(graph, boundaryEventInfo, sizedGraph);
+
+      expect([...movedNodes.keys()]).toEqual(['handler', 'cleanup']);
+      // Root starts right of the boundary event (x = 150), below the host
+      expect(movedNodes.get('handler')).toEqual({ newX: 180, newY: 180, offset: 130 });
+      expect(movedNodes.get('cleanup')).toEqual({ newX: 320, newY: 180, offset: 130 });
+
+      handler.applyNodeMoves(graph, movedNodes);
+      handler.routeBranchEntries(graph, boundaryEventInfo, movedNodes);
+
+      expect(graph.edges![0]!.sections).toEqual([{
+        id: 'edge1_section_0',
+        startPoint: { x: 150, y: 148 },
+        endPoint: { x: 180, y: 220 },
+        bendPoints: [{ x: 150, y: 220 }],
+      }]);
+    });
+  });
+
   describe('applyNodeMoves', () => {
     it('should apply node moves to graph', () => {
       const graph: ElkNode = {
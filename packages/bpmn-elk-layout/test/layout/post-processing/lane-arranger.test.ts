@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { LaneArranger } from '../../../src/layout/post-processing/lane-arranger';
+import { resolveLayoutTheme } from '../../../src/layout/layout-theme';
 import type { ElkBpmnGraph } from '../../../src/types';
 import type { ElkNode } from 'elkjs';
 
@@ -122,6 +123,38 @@ describe('LaneArranger', () => {
       expect(lane2?.y).toBe(lane1?.height);
     });
 
+    it('should size lanes with the theme dimensions', () => {
+      const themed = new LaneArranger(resolveLayoutTheme({ lane: { headerWidth: 40, extraWidth: 60, extraHeight: 60 } }));
+      const layouted: ElkNode = {
+        id: 'root',
+        children: [
+          {
+            id: 'pool1',
+            children: [{ id: 'task1', x: 50, y: 50, width: 100, height: 80 }],
+            edges: [],
+          },
+        ],
+      };
+      const original = {
+        id: 'root',
+        children: [
+          {
+            id: 'pool1',
+            bpmn: { type: 'participant' },
+            children: [{ id: 'lane1', bpmn: { type: 'lane' }, children: [{ id: 'task1', bpmn: { type: 'task' } }] }],
+          },
+        ],
+      } as unknown as ElkBpmnGraph;
+
+      themed.rearrange(layouted, original);
+
+      const pool = layouted.children![0]!;
+      expect(pool.width).toBe(40 + 150 + 60);
+      expect(pool.children![0]).toMatchObject({ id: 'lane1', x: 40, y: 0, height: 80 + 60 });
+      // Content is centered in the extra space
+      expect(pool.children![0]!.children![0]).toMatchObject({ x: 80, y: 30 });
+    });
+
     it('should handle pools in collaborations', () => {
       const layouted: ElkNode = {
         id: 'root',
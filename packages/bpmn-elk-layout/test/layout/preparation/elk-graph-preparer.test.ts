@@ -72,6 +72,38 @@ describe('ElkGraphPreparer', () => {
 
       expect(result.layoutOptions?.['elk.direction']).toBe('RIGHT');
     });
+
+    it('should keep DOWN direction for cross-pool collaborations', () => {
+      const graph: ElkBpmnGraph = {
+        id: 'root',
+        children: [
+          {
+            id: 'collab',
+            bpmn: { type: 'collaboration' },
+            children: [
+              {
+                id: 'pool1',
+                bpmn: { type: 'participant' },
+                children: [{ id: 'task1', bpmn: { type: 'task' } }],
+              },
+              {
+                id: 'pool2',
+                bpmn: { type: 'participant' },
+                children: [{ id: 'task2', bpmn: { type: 'task' } }],
+              },
+            ],
+            edges: [
+              { id: 'edge1', sources: ['task1'], targets: ['task2'], bpmn: { type: 'sequenceFlow' } },
+            ],
+          },
+        ],
+      } as unknown as ElkBpmnGraph;
+
+      const result = preparer.prepare(graph, { 'elk.direction': 'DOWN' });
+
+      expect(result.layoutOptions?.['elk.direction']).toBe('DOWN');
+      expect(result.children?.[0]?.layoutOptions?.['elk.direction']).toBe('DOWN');
+    });
   });
 
   describe('hasCrossPoolCollaboration', () => {
@@ -343,6 +375,39 @@ describe('ElkGraphPreparer', () => {
       const pool = result.children?.[0];
       expect(pool?.layoutOptions?.['elk.padding']).toContain('left=55');
     });
+
+    it('should add top padding for pools and lanes in DOWN direction', () => {
+      const graph: ElkBpmnGraph = {
+        id: 'root',
+        layoutOptions: { 'elk.direction': 'DOWN' },
+        children: [
+          {
+            id: 'pool1',
+            bpmn: { type: 'participant' },
+            children: [
+              {
+                id: 'lane1',
+                bpmn: { type: 'lane' },
+                children: [{ id: 'task1', bpmn: { type: 'task' }, width: 100, height: 80 }],
+              },
+            ],
+          },
+          {
+            id: 'pool2',
+            bpmn: { type: 'participant' },
+            children: [{ id: 'task2', bpmn: { type: 'task' }, width: 100, height: 80 }],
+          },
+        ],
+      } as unknown as ElkBpmnGraph;
+
+      const result = preparer.prepare(graph);
+
+      const [poolWithLanes, poolWithoutLanes] = result.children ?? [];
+      expect(poolWithLanes?.layoutOptions?.['elk.direction']).toBe('DOWN');
+      expect(poolWithLanes?.layoutOptions?.['elk.padding']).toBe('[top=30,left=12,bottom=12,right=12]');
+      expect(poolWithoutLanes?.layoutOptions?.['elk.direction']).toBe('DOWN');
+      expect(poolWithoutLanes?.layoutOptions?.['elk.padding']).toBe('[top=55,left=12,bottom=12,right=12]');
+    });
   });
 
   describe('lane flattening', () => {
@@ -604,4 +669,50 @@ describe('ElkGraphPreparer', () => {
       expect(task?.ports?.[1].width).toBe(10); // Default width
     });
   });
+
+  describe('identifyHappyPathNodes', () => {
+    it('should collect the nodes of flows marked as happy path', () => {
+      const graph: ElkBpmnGraph = {
+        id: 'root',
+        children: [
+          {
+            id: 'process1',
+            bpmn: { type: 'process' },
+            children: [
+              { id: 'start', bpmn: { type: 'startEvent' } },
+              { id: 'task1', bpmn: { type: 'task' } },
+              { id: 'task2', bpmn: { type: 'task' } },
+            ],
+            edges: [
+              { id: 'edge1', sources: ['start'], targets: ['task1'], bpmn: { type: 'sequenceFlow', isHappyPath: true } },
+              { id: 'edge2', sources: ['start'], targets: ['task2'], bpmn: { type: 'sequenceFlow' } },
+            ],
+          },
+        ],
+      } as unknown as ElkBpmnGraph;
+
+      expect([...preparer.identifyHappyPathNodes(graph)]).toEqual(['start', 'task1']);
+    });
+
+    it('should return an empty set when no flow is marked', () => {
+      const graph: ElkBpmnGraph = {
+        id: 'root',
+        children: [
+          {
+            id: 'process1',
+            bpmn: { type: 'process' },
+            children: [
+              { id: 'task1', bpmn: { type: 'task' } },
+              { id: 'task2', bpmn: { type: 'task' } },
+            ],
+            edges: [
+              { id: 'edge1', sources: ['task1'], targets: ['task2'], bpmn: { type: 'sequenceFlow' } },
+            ],
+          },
+        ],
+      } as unknown as ElkBpmnGraph;
+
+      expect(preparer.identifyHappyPathNodes(graph).size).toBe(0);
+    });
+  });
 });
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for SizeCalculator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SizeCalculator } from '../../src/layout/size-calculator';
+import { resolveLayoutTheme } from '../../src/layout/layout-theme';
+import type { TextMeasurer } from '../../src/text';
+import type { ElkBpmnGraph } from '../../src/types';
+
+/** 10px per character, 20px per line */
+const measurer: TextMeasurer = {
+  lineHeight: 20,
+  measureWidth: (text) => text.length * 10,
+};
+
+describe('SizeCalculator', () => {
+  describe('without a text measurer', () => {
+    const calculator = new SizeCalculator();
+
+    it('should size tasks by name length', () => {
+      expect(calculator.getDefaultSizeForType('task', 'Review')).toEqual({ width: 100, height: 80 });
+      expect(calculator.getDefaultSizeForType('task', 'Review order')).toEqual({ width: 120, height: 80 });
+      expect(calculator.getDefaultSizeForType('task', 'Review the order')).toEqual({ width: 150, height: 80 });
+    });
+  });
+
+  describe('with a theme', () => {
+    const calculator = new SizeCalculator({ theme: resolveLayoutTheme('presentation') });
+
+    it('should use the theme sizes', () => {
+      expect(calculator.getDefaultSizeForType('task', 'Review')).toEqual({ width: 120, height: 90 });
+      expect(calculator.getDefaultSizeForType('task', 'Review the order')).toEqual({ width: 170, height: 90 });
+      expect(calculator.getDefaultSizeForType('subProcess', 'Billing', true)).toEqual({ width: 360, height: 240 });
+      expect(calculator.getDefaultSizeForType('endEvent')).toEqual({ width: 36, height: 36 });
+    });
+
+    it('should start sizing activities to their names at the theme task size', () => {
+      const measured = new SizeCalculator({ textMeasurer: measurer, theme: resolveLayoutTheme('presentation') });
+
+      expect(measured.getDefaultSizeForType('task', 'Review order')).toEqual({ width: 120, height: 90 });
+    });
+  });
+
+  describe('with size overrides', () => {
+    const calculator = new SizeCalculator({
+      sizes: {
+        types: { userTask: { width: 120, height: 60 }, startEvent: { width: 40, height: 40 }, dataInput: { height: 60 } },
+        getSize: (node, defaultSize) =>
+          node.id.startsWith('wide_') ? { width: defaultSize.width * 2 } : undefined,
+      },
+    });
+
+    it('should use the sizes of the overridden types', () => {
+      expect(calculator.getDefaultSizeForType('userTask', 'Review the order')).toEqual({ width: 120, height: 60 });
+      expect(calculator.getDefaultSizeForType('startEvent')).toEqual({ width: 40, height: 40 });
+      expect(calculator.getDefaultSizeForType('dataInput')).toEqual({ width: 36, height: 60 });
+      expect(calculator.getDefaultSizeForType('task', 'Review')).toEqual({ width: 100, height: 80 });
+    });
+
+    it('should let the size callback override the type size', () => {
+      expect(calculator.getNodeSize({ id: 'wide_task', bpmn: { type: 'userTask' } })).toEqual({ width: 240, height: 60 });
+      expect(calculator.getNodeSize({ id: 'task_1', bpmn: { type: 'userTask' } })).toEqual({ width: 120, height: 60 });
+    });
+
+    it('should only report the overridden dimensions', () => {
+      expect(calculator.getSizeOverride({ id: 'task_1', bpmn: { type: 'userTask' } })).toEqual({ width: 120, height: 60 });
+      expect(calculator.getSizeOverride({ id: 'wide_task', bpmn: { type: 'task' } })).toEqual({ width: 200 });
+      expect(calculator.getSizeOverride({ id: 'pool_1', bpmn: { type: 'participant' } })).toEqual({});
+    });
+
+    it('should size nodes and widen hosts for larger boundary events', () => {
+      const sizes = new SizeCalculator({ sizes: { types: { boundaryEvent: { width: 50, height: 50 } } } });
+      const graph = {
+        id: 'root',
+        children: [{
+          id: 'process_1',
+          bpmn: { type: 'process' },
+          children: [{
+            id: 'task_1',
+            bpmn: { type: 'task', name: 'Review' },
+            boundaryEvents: [
+              { id: 'boundary_1', attachedToRef: 'task_1', bpmn: { type: 'boundaryEvent' } },
+              { id: 'boundary_2', attachedToRef: 'task_1', height: 30, bpmn: { type: 'boundaryEvent' } },
+            ],
+          }],
+        }],
+      } as unknown as ElkBpmnGraph;
+
+      const sized = sizes.applyDefaultSizes(graph);
+      const task = (sized.children[0] as unknown as {
+        children: Array<{ width: number; boundaryEvents: Array<{ width: number; height: number }> }>;
+      }).children[0]!;
+
+      expect(task.boundaryEvents).toMatchObject([{ width: 50, height: 50 }, { width: 50, height: 30 }]);
+      // Two 50px boundary events with 20px spacing around them
+      expect(task.width).toBe(160);
+    });
+  });
+
+  describe('with a text measurer', () => {
+    const calculator = new SizeCalculator({ textMeasurer: measurer });
+
+    it('should keep the default size for names that fit', () => {
+      expect(calculator.getDefaultSizeForType('userTask', 'Review order')).toEqual({ width: 100, height: 80 });
+    });
+
+    it('should widen tasks until the name fits', () => {
+      expect(calculator.getDefaultSizeForType('task', 'aaaaaaaa bbbbbbbb cccccccc dddddddd'))
+        .toEqual({ width: 180, height: 80 });
+    });
+
+    it('should grow the height once the maximum width is reached', () => {
+      const name = Array.from({ length: 10 }, () => 'aaaaaaaa').join(' ');
+
+      // Two words per line, five lines of 20px plus padding
+      expect(calculator.getDefaultSizeForType('callActivity', name)).toEqual({ width: 200, height: 110 });
+    });
+
+    it('should fit the longest word on one line', () => {
+      expect(calculator.getDefaultSizeForType('task', 'xxxxxxxxxxxxxxx')).toEqual({ width: 160, height: 80 });
+    });
+
+    it('should keep explicit sizes', () => {
+      const graph = {
+        id: 'root',
+        children: [{
+          id: 'process_1',
+          bpmn: { type: 'process' },
+          children: [{ id: 'task_1', width: 120, bpmn: { type: 'task', name: 'aaaaaaaa bbbbbbbb cccccccc dddddddd' } }],
+        }],
+      } as unknown as ElkBpmnGraph;
+
+      const sized = calculator.applyDefaultSizes(graph);
+      const task = (sized.children[0] as unknown as { children: Array<{ width: number; height: number }> }).children[0];
+
+      expect(task).toMatchObject({ width: 120, height: 80 });
+    });
+
+    it('should measure label widths', () => {
+      expect(calculator.estimateLabelWidth('Yes')).toBe(30);
+      expect(calculator.estimateLabelWidth('Approved')).toBe(80);
+      expect(calculator.estimateLabelWidth('x'.repeat(50))).toBe(200);
+    });
+  });
+});
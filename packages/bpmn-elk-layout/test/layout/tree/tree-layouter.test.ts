@@ -122,6 +122,30 @@ describe('TreeLayouter', () => {
       expect(child.y).toBeLessThan(grandchild.y);
     });
 
+    it('should keep each subtree below its own parent', () => {
+      const node = (id: string, width: number, height: number, children: TreeNode[] = []): TreeNode =>
+        ({ id, x: 0, y: 0, width, height, children, prelim: 0, modifier: 0 });
+      const leftLeaves = [node('l1', 100, 80), node('l2', 100, 80)];
+      const rightLeaves = [node('r1', 36, 36), node('r2', 36, 36)];
+      const left = node('left', 100, 80, leftLeaves);
+      const right = node('right', 100, 40, rightLeaves);
+      const root = node('root', 100, 80, [left, right]);
+
+      new TreeLayouter({ horizontalGap: 40, verticalGap: 60 }).layout(root);
+
+      const centerX = (n: TreeNode) => n.x + n.width / 2;
+      // Parents are centered above their own children
+      expect(centerX(left)).toBe((centerX(leftLeaves[0]!) + centerX(leftLeaves[1]!)) / 2);
+      expect(centerX(right)).toBe((centerX(rightLeaves[0]!) + centerX(rightLeaves[1]!)) / 2);
+      // Subtrees do not overlap
+      expect(leftLeaves[1]!.x + leftLeaves[1]!.width).toBeLessThan(rightLeaves[0]!.x);
+      // Levels are as deep as their largest node, smaller nodes are centered in them
+      expect(left.y).toBe(140);
+      expect(right.y).toBe(160);
+      expect(leftLeaves[0]!.y).toBe(280);
+      expect(rightLeaves[0]!.y).toBe(302);
+    });
+
     it('should handle direction RIGHT', () => {
       const root: TreeNode = {
         id: 'root',
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LayoutServer } from '../src/server';
+import { BpmnElkLayout } from '../src/converter';
+import type { ElkBpmnGraph } from '../src/types';
+
+const input = fs.readFileSync(path.join(__dirname, 'fixtures/26-collaboration-lanes.json'), 'utf-8');
+
+describe('LayoutServer', () => {
+  const server = new LayoutServer({ port: 0, maxBodySize: 64 * 1024 });
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const address = await server.listen();
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  function post(pathname: string, body: string): Promise<Response> {
+    return fetch(`${baseUrl}${pathname}`, { method: 'POST', body, headers: { 'Content-Type': 'application/json' } });
+  }
+
+  describe('POST /convert', () => {
+    it('should convert to BPMN XML by default', async () => {
+      const response = await post('/convert', input);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('application/xml; charset=utf-8');
+      expect(response.headers.get('x-layout-warnings')).toBe('0');
+      expect(await response.text()).toBe(await new BpmnElkLayout().to_bpmn(JSON.parse(input) as ElkBpmnGraph));
+    });
+
+    it('should convert to layouted JSON and SVG', async () => {
+      const json = await post('/convert?format=json', input);
+      expect(json.status).toBe(200);
+      expect(await json.json()).toHaveProperty('children');
+
+      const svg = await post('/convert?format=svg', input);
+      expect(svg.headers.get('content-type')).toBe('image/svg+xml; charset=utf-8');
+      expect(await svg.text()).toMatch(/^<svg /);
+    });
+
+    it('should lay out every request once', async () => {
+      const layout = vi.spyOn(BpmnElkLayout.prototype, 'layoutWithWarnings');
+
+      try {
+        for (const format of ['bpmn', 'svg']) {
+          expect((await post(`/convert?format=${format}`, input)).status).toBe(200);
+        }
+        expect(layout).toHaveBeenCalledTimes(2);
+      } finally {
+        layout.mockRestore();
+      }
+    });
+
+    it('should reject unknown formats and invalid JSON', async () => {
+      expect((await post('/convert?format=png', input)).status).toBe(400);
+
+      const response = await post('/convert', '{');
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: 'Invalid JSON input' });
+    });
+
+    it('should reject graphs that fail schema validation with their errors', async () => {
+      const response = await post('/convert', JSON.stringify({ id: 'definitions_1' }));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: 'Invalid ELK-BPMN JSON',
+        errors: [expect.objectContaining({ path: '/children', keyword: 'required' })],
+      });
+    });
+  });
+
+  it('should validate and lint the input', async () => {
+    expect(await (await post('/validate', input)).json()).toEqual({ valid: true, errors: [] });
+
+    const lint = await post('/lint?rule=process-has-start-and-end=off', input);
+    expect(lint.status).toBe(200);
+    expect(await lint.json()).toMatchObject({ errorCount: 0 });
+
+    expect((await post('/lint?rule=unknown-rule=off', input)).status).toBe(400);
+
+    const malformed = await post('/lint', '{}');
+    expect(malformed.status).toBe(200);
+    expect(await malformed.json()).toMatchObject({ errorCount: 1, issues: [{ rule: 'well-formed-graph' }] });
+  });
+
+  it('should serve the prompt template', async () => {
+    const response = await fetch(`${baseUrl}/prompt-template`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/markdown; charset=utf-8');
+    expect(await response.text()).toContain('ELK-BPMN');
+  });
+
+  it('should reject request bodies above the size limit', async () => {
+    const response = await post('/validate', ' '.repeat(65 * 1024));
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({ error: 'Request body exceeds 65536 bytes' });
+  });
+
+  it('should answer unknown routes and wrong methods', async () => {
+    expect((await fetch(`${baseUrl}/unknown`)).status).toBe(404);
+
+    const response = await fetch(`${baseUrl}/convert`);
+    expect(response.status).toBe(405);
+    expect(response.headers.get('allow')).toBe('POST');
+  });
+});
+
+describe('LayoutServer concurrency', () => {
+  it('should answer 503 when all layout slots and the queue are taken', async () => {
+    const server = new LayoutServer({ port: 0, concurrency: 1, queueSize: 0, layout: { cache: false } });
+    const { port } = await server.listen();
+    try {
+      const convert = () => fetch(`http://127.0.0.1:${port}/convert`, { method: 'POST', body: input });
+      const responses = await Promise.all([convert(), convert()]);
+
+      expect(responses.map((response) => response.status).sort()).toEqual([200, 503]);
+      const busy = responses.find((response) => response.status === 503)!;
+      expect(busy.headers.get('retry-after')).toBe('1');
+      expect((await convert()).status).toBe(200);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should queue requests until a layout slot is free', async () => {
+    const server = new LayoutServer({ port: 0, concurrency: 1, layout: { cache: false } });
+    const { port } = await server.listen();
+    try {
+      const convert = () => fetch(`http://127.0.0.1:${port}/convert`, { method: 'POST', body: input });
+      const responses = await Promise.all([convert(), convert(), convert()]);
+
+      expect(responses.map((response) => response.status)).toEqual([200, 200, 200]);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should reject invalid limits', () => {
+    expect(() => new LayoutServer({ concurrency: 0 })).toThrow('Invalid concurrency 0');
+    expect(() => new LayoutServer({ queueSize: -1 })).toThrow('Invalid queueSize -1');
+  });
+});
+
+describe('LayoutServer timeouts', () => {
+  it('should answer 504 when the layout takes too long', async () => {
+    const server = new LayoutServer({ port: 0, timeout: 1 });
+    const { port } = await server.listen();
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}/convert`, { method: 'POST', body: input });
+
+      expect(response.status).toBe(504);
+      expect((await response.json() as { error: string }).error).toMatch(/timed out/);
+    } finally {
+      await server.close();
+    }
+  });
+});
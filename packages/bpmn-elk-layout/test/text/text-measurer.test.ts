@@ -0,0 +1,102 @@
+/**
+ * Unit tests for the text measurers and line wrapping
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ApproximateTextMeasurer,
+  CanvasTextMeasurer,
+  FontMetricsTextMeasurer,
+  wrapText,
+  type CanvasTextContext,
+} from '../../src/text';
+
+describe('ApproximateTextMeasurer', () => {
+  const measurer = new ApproximateTextMeasurer();
+
+  it('should count 7px per Latin and 14px per CJK character', () => {
+    expect(measurer.measureWidth('Review')).toBe(42);
+    expect(measurer.measureWidth('审批')).toBe(28);
+    expect(measurer.lineHeight).toBe(14);
+  });
+});
+
+describe('FontMetricsTextMeasurer', () => {
+  const measurer = new FontMetricsTextMeasurer();
+
+  it('should measure with Arial character widths', () => {
+    // Narrow and wide letters differ, unlike with a fixed character width
+    expect(measurer.measureWidth('iiii')).toBeCloseTo(10.656);
+    expect(measurer.measureWidth('WWWW')).toBeCloseTo(45.312);
+    expect(measurer.measureWidth('Straße')).toBeCloseTo(36.012);
+  });
+
+  it('should measure accented letters like their base letter', () => {
+    expect(measurer.measureWidth('Übernahme')).toBeCloseTo(measurer.measureWidth('Ubernahme'));
+  });
+
+  it('should measure CJK characters as one em', () => {
+    expect(measurer.measureWidth('审批完成')).toBeCloseTo(48);
+  });
+
+  it('should scale with the font size', () => {
+    const large = new FontMetricsTextMeasurer({ fontSize: 24, lineHeight: 1.5 });
+
+    expect(large.measureWidth('Straße')).toBeCloseTo(72.024);
+    expect(large.lineHeight).toBe(36);
+    expect(measurer.lineHeight).toBeCloseTo(14.4);
+  });
+});
+
+describe('CanvasTextMeasurer', () => {
+  function fakeContext(): CanvasTextContext & { fonts: string[] } {
+    const fonts: string[] = [];
+    return {
+      fonts,
+      font: '',
+      measureText(text: string) {
+        fonts.push(this.font);
+        return { width: text.length * 6 };
+      },
+    };
+  }
+
+  it('should measure with the given context and font', () => {
+    const context = fakeContext();
+    const measurer = new CanvasTextMeasurer({ context, font: '14px Helvetica', lineHeight: 16 });
+
+    expect(measurer.measureWidth('Review')).toBe(36);
+    expect(context.fonts).toEqual(['14px Helvetica']);
+    expect(measurer.lineHeight).toBe(16);
+  });
+
+  it('should cache measured widths', () => {
+    const context = fakeContext();
+    const measurer = new CanvasTextMeasurer({ context });
+
+    measurer.measureWidth('Review');
+    measurer.measureWidth('Review');
+
+    expect(context.fonts).toEqual(['12px Arial, sans-serif']);
+  });
+
+  it('should throw without a canvas', () => {
+    expect(() => new CanvasTextMeasurer()).toThrow(/needs a canvas/);
+  });
+});
+
+describe('wrapText', () => {
+  const measurer = new ApproximateTextMeasurer();
+
+  it('should break lines at spaces', () => {
+    expect(wrapText('Check order and invoice', 70, measurer)).toEqual(['Check', 'order and', 'invoice']);
+  });
+
+  it('should keep explicit line breaks', () => {
+    expect(wrapText('Check\norder', 200, measurer)).toEqual(['Check', 'order']);
+  });
+
+  it('should break words wider than a line', () => {
+    expect(wrapText('审批完成通知', 42, measurer)).toEqual(['审批完', '成通知']);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { GridSnapper, resolveGridSize } from '../../src/transform/grid-snapper';
+import type { DiagramModel, ShapeModel, EdgeModel, BoundsModel } from '../../src/transform/model-types';
+
+function shape(id: string, bounds: BoundsModel, extra?: Partial<ShapeModel>): ShapeModel {
+  return { id: `${id}_di`, bpmnElement: id, bounds, ...extra };
+}
+
+function edge(id: string, waypoints: Array<[number, number]>): EdgeModel {
+  return { id: `${id}_di`, bpmnElement: id, waypoints: waypoints.map(([x, y]) => ({ x, y })) };
+}
+
+function diagram(shapes: ShapeModel[], edges: EdgeModel[] = []): DiagramModel {
+  return { id: 'diagram', name: 'diagram', plane: { id: 'plane', bpmnElement: 'process', shapes, edges } };
+}
+
+function center(bounds: BoundsModel) {
+  return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+}
+
+function isOrthogonal(edge: EdgeModel): boolean {
+  return edge.waypoints.slice(1).every((point, i) => {
+    const prev = edge.waypoints[i]!;
+    return point.x === prev.x || point.y === prev.y;
+  });
+}
+
+describe('GridSnapper', () => {
+  const snapper = new GridSnapper();
+
+  it('should snap the center of flow nodes and keep their size', () => {
+    const model = diagram([shape('task', { x: 103, y: 47, width: 100, height: 80 })]);
+
+    snapper.snap(model);
+
+    expect(model.plane.shapes[0]!.bounds).toEqual({ x: 100, y: 50, width: 100, height: 80 });
+  });
+
+  it('should snap the borders of pools and their content', () => {
+    const model = diagram([
+      shape('pool', { x: 3, y: 7, width: 596, height: 204 }, { isHorizontal: true }),
+      shape('task', { x: 103, y: 47, width: 100, height: 80 }),
+    ]);
+
+    snapper.snap(model);
+
+    expect(model.plane.shapes[0]!.bounds).toEqual({ x: 0, y: 10, width: 600, height: 200 });
+  });
+
+  it('should use the given grid size', () => {
+    const model = diagram([shape('task', { x: 103, y: 47, width: 100, height: 80 })]);
+
+    new GridSnapper({ gridSize: 25 }).snap(model);
+
+    expect(center(model.plane.shapes[0]!.bounds)).toEqual({ x: 150, y: 75 });
+  });
+
+  it('should push nodes apart that would overlap after snapping', () => {
+    const model = diagram([
+      shape('task_a', { x: 107.5, y: 40, width: 95, height: 80 }),
+      shape('task_b', { x: 206.5, y: 40, width: 95, height: 80 }),
+    ]);
+
+    snapper.snap(model);
+
+    const [a, b] = model.plane.shapes.map((item) => item.bounds);
+    expect(b!.x).toBeGreaterThanOrEqual(a!.x + a!.width);
+    expect(center(a!).x % 10).toBe(0);
+    expect(center(b!).x % 10).toBe(0);
+  });
+
+  it('should keep straight edges straight by sliding their end points', () => {
+    const model = diagram(
+      [
+        shape('task_a', { x: 100, y: 40, width: 100, height: 80 }),
+        shape('task_b', { x: 260, y: 45, width: 100, height: 80 }),
+      ],
+      [edge('flow', [[200, 93], [260, 93]])]
+    );
+
+    snapper.snap(model);
+
+    expect(model.plane.edges[0]!.waypoints).toEqual([{ x: 200, y: 90 }, { x: 260, y: 90 }]);
+  });
+
+  it('should keep edges orthogonal and their end points on the nodes', () => {
+    const model = diagram(
+      [
+        shape('gateway', { x: 68, y: 39.5, width: 50, height: 50 }),
+        shape('task', { x: 183, y: 123, width: 100, height: 80 }),
+      ],
+      [
+        edge('flow_1', [[93, 89.5], [93, 163], [183, 163]]),
+        edge('flow_2', [[105.5, 52], [233, 52], [233, 123]]),
+      ]
+    );
+
+    snapper.snap(model);
+
+    const [gateway, task] = model.plane.shapes.map((item) => item.bounds);
+    const [flow1, flow2] = model.plane.edges;
+    expect(isOrthogonal(flow1!)).toBe(true);
+    expect(isOrthogonal(flow2!)).toBe(true);
+    expect(flow1!.waypoints[0]).toEqual({ x: center(gateway!).x, y: gateway!.y + gateway!.height });
+    expect(flow1!.waypoints.at(-1)!.x).toBe(task!.x);
+    expect(flow2!.waypoints.at(-1)!.y).toBe(task!.y);
+
+    // The end point slides along the outline of the diamond
+    const start = flow2!.waypoints[0]!;
+    const c = center(gateway!);
+    expect(Math.abs(start.x - c.x) / 25 + Math.abs(start.y - c.y) / 25).toBeCloseTo(1);
+    expect(start.y).toBe(flow2!.waypoints[1]!.y);
+  });
+
+  it('should keep boundary events on the border of their host', () => {
+    const model = diagram([
+      shape('task', { x: 103, y: 47, width: 100, height: 80 }),
+      shape('boundary', { x: 165, y: 109, width: 36, height: 36 }),
+    ]);
+
+    snapper.snap(model);
+
+    const [task, boundary] = model.plane.shapes.map((item) => item.bounds);
+    expect(center(boundary!).y).toBe(task!.y + task!.height);
+    expect(center(boundary!).x).toBeGreaterThan(task!.x);
+    expect(center(boundary!).x).toBeLessThan(task!.x + task!.width);
+  });
+
+  it('should snap labels without moving them onto their element', () => {
+    const model = diagram([
+      shape('event', { x: 152, y: 82, width: 36, height: 36 }, { label: { bounds: { x: 148, y: 122, width: 44, height: 14 } } }),
+    ]);
+
+    snapper.snap(model);
+
+    const { bounds, label } = model.plane.shapes[0]!;
+    expect(label!.bounds!.x % 10).toBe(0);
+    expect(label!.bounds!.y % 10).toBe(0);
+    expect(label!.bounds!.y).toBeGreaterThanOrEqual(bounds.y + bounds.height);
+  });
+
+  it('should reject grid sizes that are not positive', () => {
+    expect(() => new GridSnapper({ gridSize: 0 })).toThrow('Invalid grid size 0');
+  });
+});
+
+describe('resolveGridSize', () => {
+  it('should resolve the snapToGrid option', () => {
+    expect(resolveGridSize(true)).toBe(10);
+    expect(resolveGridSize(20)).toBe(20);
+    expect(resolveGridSize(false)).toBeUndefined();
+    expect(resolveGridSize()).toBeUndefined();
+  });
+});
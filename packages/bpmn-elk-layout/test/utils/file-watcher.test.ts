@@ -0,0 +1,104 @@
+/**
+ * Unit tests for FileWatcher
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import type { FSWatcher } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileWatcher } from '../../src/utils/file-watcher';
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('FileWatcher', () => {
+  let directory: string;
+  let watcher: FileWatcher | undefined;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'bpmn-elk-layout-watch-'));
+    fs.writeFileSync(path.join(directory, 'input.json'), '{}');
+    fs.writeFileSync(path.join(directory, 'other.json'), '{}');
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    watcher = undefined;
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should report a burst of writes once', async () => {
+    const changes: string[][] = [];
+    const input = path.join(directory, 'input.json');
+    watcher = new FileWatcher({ files: [input], debounceMs: 50, onChange: (files) => void changes.push(files) });
+    watcher.start();
+
+    for (let i = 0; i < 3; i++) {
+      fs.writeFileSync(input, `{"version":${i}}`);
+      await wait(10);
+    }
+    await wait(200);
+
+    expect(changes).toEqual([[input]]);
+  });
+
+  it('should report files replaced by a rename and ignore other files', async () => {
+    const changes: string[][] = [];
+    const input = path.join(directory, 'input.json');
+    watcher = new FileWatcher({ files: [input], debounceMs: 20, onChange: (files) => void changes.push(files) });
+    watcher.start();
+
+    fs.writeFileSync(path.join(directory, 'other.json'), '{"changed":true}');
+    await wait(100);
+    expect(changes).toEqual([]);
+
+    // Atomic save: write a temporary file and rename it over the input
+    for (let i = 0; i < 2; i++) {
+      fs.writeFileSync(path.join(directory, 'input.json.tmp'), `{"version":${i}}`);
+      fs.renameSync(path.join(directory, 'input.json.tmp'), input);
+      await wait(100);
+    }
+
+    expect(changes).toEqual([[input], [input]]);
+  });
+
+  it('should report changes during a running callback when it is done', async () => {
+    const input = path.join(directory, 'input.json');
+    let calls = 0;
+    watcher = new FileWatcher({
+      files: [input],
+      debounceMs: 20,
+      onChange: async () => {
+        calls++;
+        if (calls === 1) {
+          fs.writeFileSync(input, '{"during":true}');
+          await wait(100);
+        }
+      },
+    });
+    watcher.start();
+
+    fs.writeFileSync(input, '{"before":true}');
+    await wait(300);
+
+    expect(calls).toBe(2);
+  });
+
+  it('should report a failing watch and stop that watcher', () => {
+    const errors: string[] = [];
+    watcher = new FileWatcher({
+      files: [path.join(directory, 'input.json')],
+      onChange: () => undefined,
+      onError: (error, dir) => void errors.push(`${dir}: ${error.message}`),
+    });
+    watcher.start();
+
+    const watchers = (watcher as unknown as { watchers: FSWatcher[] }).watchers;
+    expect(() => watchers[0]!.emit('error', new Error('EACCES'))).not.toThrow();
+
+    expect(errors).toEqual([`${directory}: EACCES`]);
+    expect((watcher as unknown as { watchers: FSWatcher[] }).watchers).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for the glob utility
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { expandGlob, globToRegExp } from '../../src/utils/glob';
+
+describe('globToRegExp', () => {
+  it('should match wildcards within one directory', () => {
+    const regExp = globToRegExp('*.json');
+
+    expect(regExp.test('order.json')).toBe(true);
+    expect(regExp.test('sub/order.json')).toBe(false);
+    expect(regExp.test('order.bpmn')).toBe(false);
+  });
+
+  it('should match any number of directories with **', () => {
+    const regExp = globToRegExp('**/*.json');
+
+    expect(regExp.test('order.json')).toBe(true);
+    expect(regExp.test('a/b/order.json')).toBe(true);
+  });
+
+  it('should support ?, character classes and alternatives', () => {
+    expect(globToRegExp('0?-*.json').test('01-simple.json')).toBe(true);
+    expect(globToRegExp('[!0]*.json').test('01-simple.json')).toBe(false);
+    expect(globToRegExp('*.{json,bpmn}').test('order.bpmn')).toBe(true);
+    expect(globToRegExp('order.(v1).json').test('order.(v1).json')).toBe(true);
+  });
+});
+
+describe('expandGlob', () => {
+  let directory: string;
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'bpmn-elk-layout-glob-'));
+    for (const file of ['a.json', 'b.txt', 'sub/c.json', 'sub/deep/d.json', '.hidden/e.json', 'node_modules/f.json']) {
+      fs.mkdirSync(path.dirname(path.join(directory, file)), { recursive: true });
+      fs.writeFileSync(path.join(directory, file), '{}');
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  function relativePaths(matches: Array<{ path: string }>): string[] {
+    return matches.map((match) => path.relative(directory, match.path).replace(/\\/g, '/'));
+  }
+
+  it('should expand patterns relative to the base directory', async () => {
+    const matches = await expandGlob('sub/**/*.json', directory);
+
+    expect(relativePaths(matches)).toEqual(['sub/c.json', 'sub/deep/d.json']);
+    expect(matches[0]!.base).toBe(path.join(directory, 'sub'));
+  });
+
+  it('should skip hidden directories and node_modules', async () => {
+    expect(relativePaths(await expandGlob('**/*.json', directory))).toEqual(['a.json', 'sub/c.json', 'sub/deep/d.json']);
+  });
+
+  it('should take files as they are and directories as all JSON files below them', async () => {
+    expect(relativePaths(await expandGlob('b.txt', directory))).toEqual(['b.txt']);
+    expect(relativePaths(await expandGlob('sub', directory))).toEqual(['sub/c.json', 'sub/deep/d.json']);
+    expect(await expandGlob('missing.json', directory)).toEqual([]);
+  });
+});
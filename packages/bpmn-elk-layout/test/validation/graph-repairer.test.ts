@@ -0,0 +1,170 @@
+/**
+ * Unit tests for GraphRepairer
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GraphRepairer, repairElkBpmn } from '../../src/validation';
+import { BpmnElkLayout } from '../../src/converter';
+import type { ElkBpmnGraph } from '../../src/types';
+
+const fixturesDir = path.join(__dirname, '../fixtures');
+
+function loadFixture(name: string): ElkBpmnGraph {
+  return JSON.parse(fs.readFileSync(path.join(fixturesDir, name), 'utf-8')) as ElkBpmnGraph;
+}
+
+function node(id: string, type: string, extra: Record<string, unknown> = {}) {
+  return { id, bpmn: { type, ...extra } };
+}
+
+function flow(id: string, source: unknown, target: unknown, type = 'sequenceFlow') {
+  return { id, sources: source, targets: target, bpmn: { type } };
+}
+
+function process(children: unknown[], edges: unknown[] = []): ElkBpmnGraph {
+  return {
+    id: 'definitions',
+    children: [{ id: 'process_1', bpmn: { type: 'process' }, children, edges }],
+  } as unknown as ElkBpmnGraph;
+}
+
+function collaboration(children: unknown[], edges: unknown[] = []): ElkBpmnGraph {
+  return {
+    id: 'definitions',
+    children: [{ id: 'collab', bpmn: { type: 'collaboration' }, children, edges }],
+  } as unknown as ElkBpmnGraph;
+}
+
+function pool(id: string, children: unknown[], edges: unknown[] = []) {
+  return { id, bpmn: { type: 'participant' }, children, edges };
+}
+
+describe('GraphRepairer', () => {
+  const start = node('start', 'startEvent');
+  const task = node('task', 'task');
+  const end = node('end', 'endEvent');
+
+  it('should leave every fixture unchanged', () => {
+    const repairer = new GraphRepairer();
+    const fixtures = fs.readdirSync(fixturesDir).filter((file) => file.endsWith('.json'));
+
+    for (const fixture of fixtures) {
+      const graph = loadFixture(fixture);
+      const result = repairer.repair(graph);
+      expect(result.fixes, fixture).toEqual([]);
+      expect(result.graph, fixture).toEqual(graph);
+    }
+  });
+
+  it('should wrap string sources and targets in arrays', () => {
+    const { graph, fixes } = repairElkBpmn(process([start, end], [flow('f1', 'start', 'end')]));
+
+    expect(graph.children[0]!.edges![0]).toMatchObject({ sources: ['start'], targets: ['end'] });
+    expect(fixes.map((fix) => [fix.kind, fix.elementId])).toEqual([
+      ['edge-endpoints-as-array', 'f1'],
+      ['edge-endpoints-as-array', 'f1'],
+    ]);
+  });
+
+  it('should infer the event definition type from references', () => {
+    const catchMessage = node('catch', 'intermediateCatchEvent', { messageRef: 'msg_order' });
+    const { graph, fixes } = repairElkBpmn(process([start, catchMessage, end]));
+
+    const events = graph.children[0]!.children!;
+    expect(events[1]!.bpmn).toMatchObject({ eventDefinitionType: 'message' });
+    expect(events[0]!.bpmn).not.toHaveProperty('eventDefinitionType');
+    expect(fixes).toEqual([
+      {
+        kind: 'missing-event-definition-type',
+        elementId: 'catch',
+        message: 'Set eventDefinitionType of "catch" to "message" (implied by messageRef)',
+      },
+    ]);
+  });
+
+  it('should move lanes next to their participant into it', () => {
+    const lane = { ...node('lane_a', 'lane'), children: [start, end] };
+    const graph = collaboration(
+      [pool('pool_a', [], [flow('f1', ['start'], ['end'])]), pool('pool_b', [node('start_b', 'startEvent')]), lane]
+    );
+
+    const result = repairElkBpmn(graph);
+
+    const [poolA, poolB] = result.graph.children[0]!.children!;
+    expect(result.graph.children[0]!.children).toHaveLength(2);
+    expect(poolA!.children!.map((child) => child.id)).toEqual(['lane_a']);
+    expect(poolB!.children!.map((child) => child.id)).toEqual(['start_b']);
+    expect(result.fixes.map((fix) => fix.message)).toEqual(['Moved lane "lane_a" into participant "pool_a"']);
+  });
+
+  it('should move boundary events from children to their host', () => {
+    const boundary = node('timeout', 'boundaryEvent', { eventDefinitionType: 'timer', attachedToRef: 'task' });
+    const { graph, fixes } = repairElkBpmn(process([start, task, boundary, end]));
+
+    const children = graph.children[0]!.children!;
+    expect(children.map((child) => child.id)).toEqual(['start', 'task', 'end']);
+    expect(children[1]!.boundaryEvents).toEqual([
+      { id: 'timeout', attachedToRef: 'task', bpmn: { type: 'boundaryEvent', eventDefinitionType: 'timer' } },
+    ]);
+    expect(fixes.map((fix) => fix.kind)).toEqual(['boundary-event-in-children']);
+  });
+
+  it('should move edges to the container holding both end points', () => {
+    const graph = collaboration(
+      [pool('pool_a', [start, task, end], [flow('m1', ['task'], ['start_b'], 'messageFlow')]), pool('pool_b', [node('start_b', 'startEvent')])],
+      [flow('f1', ['start'], ['task']), flow('f2', ['task'], ['end'])]
+    );
+
+    const result = repairElkBpmn(graph);
+
+    const collab = result.graph.children[0]!;
+    expect(collab.edges!.map((edge) => edge.id)).toEqual(['m1']);
+    expect(collab.children![0]!.edges!.map((edge) => edge.id)).toEqual(['f1', 'f2']);
+    expect(result.fixes.map((fix) => fix.message)).toEqual([
+      'Moved edge "f1" from "collab" to "pool_a"',
+      'Moved edge "f2" from "collab" to "pool_a"',
+      'Moved edge "m1" from "pool_a" to "collab"',
+    ]);
+  });
+
+  it('should leave malformed values for the validator', () => {
+    for (const graph of [{ children: 'x' }, { children: [null, 42] }, null]) {
+      expect(repairElkBpmn(graph as unknown as ElkBpmnGraph)).toEqual({ graph, fixes: [] });
+    }
+
+    const malformed = {
+      id: 'definitions',
+      children: [
+        { id: 'process_1', bpmn: { type: 'process' }, children: [start, null, task], edges: 'f1', boundaryEvents: {} },
+        { id: 'collab', bpmn: { type: 'collaboration' }, children: 7, edges: [null] },
+      ],
+    };
+    expect(repairElkBpmn(malformed as unknown as ElkBpmnGraph)).toEqual({ graph: malformed, fixes: [] });
+
+    // Well-formed parts are still repaired
+    const graph = process([start, null, task], [flow('f1', 'start', 'task')]);
+    expect(repairElkBpmn(graph).fixes.map((fix) => fix.message)).toEqual([
+      'Wrapped sources of edge "f1" in an array',
+      'Wrapped targets of edge "f1" in an array',
+    ]);
+  });
+
+  it('should not modify the input', () => {
+    const graph = process([start, task, node('b', 'boundaryEvent', { attachedToRef: 'task' })], [flow('f1', 'start', 'task')]);
+    const snapshot = JSON.parse(JSON.stringify(graph));
+
+    repairElkBpmn(graph);
+
+    expect(graph).toEqual(snapshot);
+  });
+
+  it('should repair before layout when enabled on the converter', async () => {
+    const graph = process([start, end], [flow('f1', 'start', 'end')]);
+
+    const layouted = await new BpmnElkLayout({ repair: true }).to_json(graph);
+
+    expect(layouted.children[0]!.edges![0]!.sections).toBeDefined();
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Unit tests for Linter
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Linter, lintElkBpmn, LINT_RULES } from '../../src/validation';
+import type { ElkBpmnGraph } from '../../src/types';
+
+const fixturesDir = path.join(__dirname, '../fixtures');
+
+function loadFixture(name: string): ElkBpmnGraph {
+  return JSON.parse(fs.readFileSync(path.join(fixturesDir, name), 'utf-8')) as ElkBpmnGraph;
+}
+
+function node(id: string, type: string, extra: Record<string, unknown> = {}) {
+  return { id, bpmn: { type, ...extra } };
+}
+
+function flow(id: string, source: string, target: string, type = 'sequenceFlow') {
+  return { id, sources: [source], targets: [target], bpmn: { type } };
+}
+
+function process(children: unknown[], edges: unknown[] = []): ElkBpmnGraph {
+  return {
+    id: 'definitions',
+    children: [{ id: 'process_1', bpmn: { type: 'process' }, children, edges }],
+  } as unknown as ElkBpmnGraph;
+}
+
+function collaboration(pools: unknown[], messageFlows: unknown[] = []): ElkBpmnGraph {
+  return {
+    id: 'definitions',
+    children: [{ id: 'collab', bpmn: { type: 'collaboration' }, children: pools, edges: messageFlows }],
+  } as unknown as ElkBpmnGraph;
+}
+
+function pool(id: string, children: unknown[], edges: unknown[] = []) {
+  return { id, bpmn: { type: 'participant' }, children, edges };
+}
+
+function rulesOf(graph: ElkBpmnGraph): string[] {
+  return lintElkBpmn(graph).issues.map((issue) => issue.rule);
+}
+
+describe('Linter', () => {
+  const start = node('start', 'startEvent');
+  const end = node('end', 'endEvent');
+
+  it('should report only the event-subprocess-only process across the fixtures', () => {
+    const fixtures = fs.readdirSync(fixturesDir).filter((file) => file.endsWith('.json'));
+    const issues = fixtures.flatMap((fixture) => lintElkBpmn(loadFixture(fixture)).issues);
+
+    expect(issues.map((issue) => [issue.rule, issue.elementId])).toEqual([
+      ['process-has-start-and-end', 'process_event_subprocess_variants'],
+      ['process-has-start-and-end', 'process_event_subprocess_variants'],
+    ]);
+    expect(issues.every((issue) => issue.severity === 'warning')).toBe(true);
+  });
+
+  it('should report edges referencing missing elements', () => {
+    const result = lintElkBpmn(process([start, end], [flow('f1', 'start', 'end'), flow('f2', 'start', 'task_x')]));
+
+    expect(result.issues).toEqual([
+      {
+        rule: 'no-dangling-edge',
+        severity: 'error',
+        elementId: 'f2',
+        message: 'Edge "f2" references missing target "task_x"',
+      },
+    ]);
+    expect(result.errorCount).toBe(1);
+  });
+
+  it('should report malformed graphs instead of throwing', () => {
+    const issuesOf = (graph: unknown) =>
+      lintElkBpmn(graph as ElkBpmnGraph).issues
+        .filter((issue) => issue.rule === 'well-formed-graph')
+        .map((issue) => [issue.elementId, issue.message]);
+
+    expect(issuesOf({})).toEqual([['', 'The graph has no children array']]);
+    expect(issuesOf(null)).toEqual([['', 'The graph must be an object, got null']]);
+    expect(issuesOf({ id: 'definitions', children: 'x' })).toEqual([
+      ['definitions', '"children" of "definitions" must be an array, got string "x"'],
+    ]);
+
+    const graph = {
+      id: 'definitions',
+      children: [{
+        id: 'process_1',
+        bpmn: { type: 'process' },
+        children: [start, null, end],
+        artifacts: 42,
+        edges: [flow('f1', 'start', 'end'), { id: 'f2', sources: 'start', targets: ['end'] }],
+      }],
+    };
+
+    expect(issuesOf(graph)).toEqual([
+      ['process_1', '"children[1]" of "process_1" must be an object, got null'],
+      ['process_1', '"artifacts" of "process_1" must be an array, got number'],
+      ['f2', '"sources" of edge "f2" must be an array, got string "start"'],
+    ]);
+    expect(rulesOf(graph as unknown as ElkBpmnGraph)).not.toContain('no-dangling-edge');
+
+    expect(issuesOf({ ...process([start, end], []), constraints: [null, { type: 'alignX' }] })).toEqual([
+      ['definitions', '"constraints[0]" of "definitions" must be an object, got null'],
+      ['definitions', '"constraints[1]" of "definitions" alignX needs a list of node IDs in "nodes"'],
+    ]);
+  });
+
+  it('should report duplicate IDs across nodes, edges and global definitions', () => {
+    const graph = process([start, end, node('end', 'task')], [flow('start', 'start', 'end')]);
+    graph.messages = [{ id: 'process_1', name: 'Order' }];
+
+    const duplicates = lintElkBpmn(graph).issues.filter((issue) => issue.rule === 'no-duplicate-id');
+
+    expect(duplicates.map((issue) => issue.elementId).sort()).toEqual(['end', 'process_1', 'start']);
+  });
+
+  it('should report boundary events attached to non-activities', () => {
+    const gateway = {
+      ...node('gw', 'exclusiveGateway'),
+      boundaryEvents: [{ id: 'be', attachedToRef: 'gw', bpmn: { type: 'boundaryEvent', eventDefinitionType: 'timer' } }],
+    };
+    const task = {
+      ...node('task', 'userTask'),
+      boundaryEvents: [{ id: 'be_ok', attachedToRef: 'task', bpmn: { type: 'boundaryEvent', eventDefinitionType: 'timer' } }],
+    };
+
+    const issues = lintElkBpmn(process([start, gateway, task, end])).issues;
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ rule: 'boundary-event-attached-to-activity', elementId: 'be' });
+    expect(issues[0]!.message).toContain('exclusiveGateway "gw"');
+  });
+
+  it('should report gateway defaults that are not outgoing flows', () => {
+    const graph = process(
+      [start, node('gw', 'exclusiveGateway', { default: 'f_in' }), end],
+      [flow('f_in', 'start', 'gw'), flow('f_out', 'gw', 'end')]
+    );
+
+    expect(rulesOf(graph)).toEqual(['gateway-default-is-outgoing']);
+  });
+
+  it('should report message flows within one participant and sequence flows across pools', () => {
+    const graph = collaboration(
+      [
+        pool('pool_a', [start, node('task_a', 'task'), end], [flow('f1', 'start', 'task_a'), flow('f2', 'task_a', 'end')]),
+        pool('pool_b', [node('start_b', 'startEvent'), node('end_b', 'endEvent')], [flow('f_cross', 'start_b', 'task_a')]),
+      ],
+      [flow('m_inner', 'task_a', 'end', 'messageFlow'), flow('m_ok', 'task_a', 'pool_b', 'messageFlow')]
+    );
+
+    const issues = lintElkBpmn(graph).issues;
+
+    expect(issues.map((issue) => [issue.rule, issue.elementId])).toEqual([
+      ['no-message-flow-within-participant', 'm_inner'],
+      ['no-sequence-flow-across-pools', 'f_cross'],
+    ]);
+  });
+
+  it('should report processes and pools without start or end events', () => {
+    const graph = collaboration([
+      pool('pool_a', [{ ...node('lane', 'lane'), children: [node('task', 'task'), end] }]),
+      { id: 'pool_black_box', bpmn: { type: 'participant', isBlackBox: true } },
+    ]);
+
+    expect(lintElkBpmn(graph).issues.map((issue) => issue.message)).toEqual(['Process "pool_a" has no start event']);
+  });
+
+  it('should pair link events by name within a process', () => {
+    const link = (id: string, type: string, name: string) =>
+      node(id, type, { eventDefinitionType: 'link', linkEventDefinition: { name } });
+    const graph = process([
+      start,
+      link('throw_a', 'intermediateThrowEvent', 'A'),
+      link('catch_a', 'intermediateCatchEvent', 'A'),
+      link('throw_b', 'intermediateThrowEvent', 'B'),
+      link('catch_c', 'intermediateCatchEvent', 'C'),
+      end,
+    ]);
+
+    const issues = lintElkBpmn(graph).issues;
+
+    expect(issues.map((issue) => [issue.rule, issue.elementId])).toEqual([
+      ['link-events-paired', 'throw_b'],
+      ['link-events-paired', 'catch_c'],
+    ]);
+    expect(issues[0]!.message).toContain('name "B"');
+  });
+
+  it('should apply severity overrides', () => {
+    const graph = process([node('task', 'task')], [flow('f1', 'task', 'missing')]);
+
+    const result = new Linter({
+      rules: { 'no-dangling-edge': 'warning', 'process-has-start-and-end': 'off' },
+    }).lint(graph);
+
+    expect(result.issues.map((issue) => [issue.rule, issue.severity])).toEqual([['no-dangling-edge', 'warning']]);
+    expect(result.errorCount).toBe(0);
+    expect(result.warningCount).toBe(1);
+  });
+
+  it('should reject unknown rules and severities', () => {
+    expect(() => new Linter({ rules: { 'no-such-rule': 'error' } as never })).toThrow('Unknown lint rule: no-such-rule');
+    expect(() => new Linter({ rules: { 'no-duplicate-id': 'fatal' } as never })).toThrow('Invalid severity');
+    expect(LINT_RULES.map((rule) => rule.name)).toHaveLength(9);
+  });
+});
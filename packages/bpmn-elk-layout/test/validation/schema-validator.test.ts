@@ -0,0 +1,153 @@
+/**
+ * Unit tests for SchemaValidator
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SchemaValidator, validateElkBpmn } from '../../src/validation';
+
+const fixturesDir = path.join(__dirname, '../fixtures');
+
+interface JsonNode {
+  id?: string;
+  width?: unknown;
+  bpmn: Record<string, unknown>;
+  layout?: unknown;
+  children: JsonNode[];
+  edges: Array<{ targets: string[] }>;
+}
+
+/**
+ * Fixtures that exercise layout of elements the schema does not allow in their place:
+ * artifacts among flow nodes, associations among sequence flows, processes nested in
+ * participants and data associations in participants
+ */
+const OUTSIDE_SCHEMA = new Set([
+  '05-artifacts.json',
+  '06-artifacts-extended.json',
+  '13-boundary-events-all.json',
+  '28-collaboration-many-lanes.json',
+  '30-participant-options.json',
+  '31-cross-pool-patterns.json',
+  '33-compensation-flow.json',
+]);
+
+function loadFixture(name: string): { children: JsonNode[] } {
+  return JSON.parse(fs.readFileSync(path.join(fixturesDir, name), 'utf-8'));
+}
+
+describe('SchemaValidator', () => {
+  const fixtures = fs.readdirSync(fixturesDir).filter((file) => file.endsWith('.json'));
+
+  it('should accept every fixture that follows the schema', () => {
+    const validator = new SchemaValidator();
+
+    for (const fixture of fixtures.filter((file) => !OUTSIDE_SCHEMA.has(file))) {
+      const result = validator.validate(loadFixture(fixture));
+      expect(result.errors, fixture).toEqual([]);
+      expect(result.valid).toBe(true);
+    }
+  });
+
+  it('should reject only the misplaced element types of the other fixtures', () => {
+    const validator = new SchemaValidator();
+    const misplaced = /got "(dataObjectReference|dataStoreReference|textAnnotation|group|association|process|dataInputAssociation|dataOutputAssociation)"$/;
+
+    for (const fixture of fixtures.filter((file) => OUTSIDE_SCHEMA.has(file))) {
+      const result = validator.validate(loadFixture(fixture));
+      expect(result.valid, fixture).toBe(false);
+      for (const error of result.errors) {
+        expect(error.message, `${fixture} ${error.path}`).toMatch(misplaced);
+      }
+    }
+  });
+
+  it('should report a misspelled element type with all accepted types', () => {
+    const graph = loadFixture('01-simple-process.json');
+    graph.children[0]!.children[1]!.bpmn.type = 'usrTask';
+
+    const { valid, errors } = validateElkBpmn(graph);
+
+    expect(valid).toBe(false);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ path: '/children/0/children/1/bpmn/type', keyword: 'enum', value: 'usrTask' });
+    expect(errors[0]!.expected).toContain('"userTask"');
+    expect(errors[0]!.expected).toContain('"exclusiveGateway"');
+    expect(errors[0]!.expected).toContain('"lane"');
+  });
+
+  it('should report errors against the definition matching the element type', () => {
+    const graph = loadFixture('01-simple-process.json');
+    graph.children[0]!.children[1]!.width = '100';
+    graph.children[0]!.children[1]!.bpmn.name = 42;
+
+    const { errors } = validateElkBpmn(graph);
+
+    expect(errors).toEqual([
+      {
+        path: '/children/0/children/1/width',
+        keyword: 'type',
+        value: '100',
+        expected: 'number',
+        message: 'expected number, got "100"',
+      },
+      {
+        path: '/children/0/children/1/bpmn/name',
+        keyword: 'type',
+        value: 42,
+        expected: 'string',
+        message: 'expected string, got 42',
+      },
+    ]);
+  });
+
+  it('should point missing required properties and array bounds at their location', () => {
+    const graph = loadFixture('01-simple-process.json');
+    delete graph.children[0]!.children[2]!.id;
+    graph.children[0]!.edges[0]!.targets.push('end_1');
+
+    const { errors } = validateElkBpmn(graph);
+
+    expect(errors.map((error) => [error.path, error.keyword])).toEqual([
+      ['/children/0/children/2/id', 'required'],
+      ['/children/0/edges/0/targets', 'maxItems'],
+    ]);
+    expect(errors[1]!.expected).toBe('at most 1 item(s)');
+  });
+
+  it('should validate enums of nested definitions', () => {
+    const graph = loadFixture('03-all-events.json');
+    const event = graph.children[0]!.children.find((node) => node.id === 'catch_timer')!;
+    event.bpmn.eventDefinitionType = 'tmer';
+
+    const { errors } = validateElkBpmn(graph);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]!.path).toMatch(/^\/children\/0\/children\/\d+\/bpmn\/eventDefinitionType$/);
+    expect(errors[0]!.expected).toContain('"timer"');
+  });
+
+  it('should validate layout constraints and node layout hints', () => {
+    const graph = loadFixture('01-simple-process.json') as { children: JsonNode[]; constraints?: unknown[] };
+    graph.children[0]!.children[1]!.layout = { alignWith: 'task_2', pin: { x: 'left' } };
+    graph.constraints = [
+      { type: 'alignX', nodes: ['task_1', 'task_2'], anchor: 'center' },
+      { type: 'rightOf', node: 'end_1', reference: 'task_2', minGap: 50, strength: 'often' },
+    ];
+
+    const { errors } = validateElkBpmn(graph);
+
+    expect(errors.map((error) => error.path)).toEqual([
+      '/children/0/children/1/layout/pin/x',
+      '/constraints/1/strength',
+    ]);
+  });
+
+  it('should reject documents that are not objects', () => {
+    expect(validateElkBpmn([]).errors).toEqual([
+      { path: '', keyword: 'type', value: [], expected: 'object', message: 'expected object, got array with 0 item(s)' },
+    ]);
+    expect(validateElkBpmn({}).errors.map((error) => error.path)).toEqual(['/id', '/children']);
+  });
+});
@@ -6,6 +6,7 @@ export default defineConfig([
     entry: {
       index: 'src/index.ts',
       'index.node': 'src/index.node.ts',
+      'elk-worker': 'src/elk-worker.ts',
     },
     format: ['esm', 'cjs'],
     dts: true,